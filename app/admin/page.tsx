@@ -30,7 +30,8 @@ export default function AdminPage() {
     }
   }
 
-  if (authenticated) return <AdminPanel />
+  // Admin-only routes check the same password on each request
+  if (authenticated) return <AdminPanel adminPassword={password} />
 
   return (
     <div className="flex min-h-screen items-center justify-center bg-background">
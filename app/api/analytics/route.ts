@@ -4,6 +4,7 @@ import {
   GetMetricDataCommand,
   MetricDataQuery,
 } from "@aws-sdk/client-cloudwatch"
+import { getRetrievalCacheStats } from "@/lib/retrieval/cache"
 
 export const dynamic = "force-dynamic"
 
@@ -120,6 +121,8 @@ export async function GET(req: Request) {
         avgLatency: 0,
       },
       history: [],
+      // Process-local counters since the server started, not scoped to `range`
+      retrievalCache: getRetrievalCacheStats(),
     }
 
     const timeStamps: Record<string, string[]> = {}
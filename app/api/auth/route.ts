@@ -1,14 +1,14 @@
 import { NextResponse } from "next/server"
+import { getAdminPassword, isAdminPassword } from "@/lib/admin-auth"
 
 export async function POST(req: Request) {
   const { password } = await req.json()
-  const adminPassword = process.env.NEXT_PUBLIC_ADMIN_PASSWORD || "demo123"
 
-  if (!adminPassword) {
+  if (!getAdminPassword()) {
     return NextResponse.json({ error: "Server misconfiguration: missing ADMIN_PASSWORD" }, { status: 500 })
   }
 
-  if (password === adminPassword) {
+  if (isAdminPassword(password)) {
     return NextResponse.json({ success: true })
   } else {
     return NextResponse.json({ success: false, error: "Incorrect password" }, { status: 401 })
@@ -1,15 +1,44 @@
 import { NextResponse } from "next/server"
 import { BedrockAgentRuntimeClient, InvokeAgentCommand } from "@aws-sdk/client-bedrock-agent-runtime"
+import { AGENT_EVENT_CONTENT_TYPE, AgentEvent, Citation, encodeAgentEvent } from "@/lib/agent-events"
+import { createKnowledgeBaseTracker, referenceUri, toTraceSteps } from "@/lib/agent-trace"
+import { sanitizeSessionAttributes } from "@/lib/agent-session"
+import { parseReturnControl, runAction, toInvocationResult } from "@/lib/agent-actions"
 
 export const dynamic = "force-dynamic"
 
+// Guards against an agent that keeps handing control back
+const MAX_RETURN_CONTROL_ROUNDS = 5
+
+// Output rules for the retrieve agent, sent as a prompt session attribute rather than in the user's message
+const RETRIEVE_TABLE_FORMAT =
+  "When presenting historical trips in a markdown table, use this EXACT column order: Trip Date | Route | Passengers | Trip Type | Fare | Distance Match | Opportunity. " +
+  "The Opportunity column must be last and format each Opportunity ID as: [OPPORTUNITY_ID](https://mshuttle.lightning.force.com/lightning/r/Opportunity/OPPORTUNITY_ID/view). " +
+  "If Opportunity ID is missing, display \"-\". Ensure Route column is never empty - use city fields as fallback if address is missing."
+
 export async function POST(req: Request) {
   const requestId = `req-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`
   const startTime = Date.now()
   
   try {
     console.log(`[${requestId}] 📥 Bedrock Agent Request Started`)
-    const { input, sessionId, mode, agentId: clientAgentId, alias: clientAlias } = await req.json()
+    const {
+      input,
+      sessionId,
+      mode,
+      agentId: clientAgentId,
+      alias: clientAlias,
+      trace: traceRequested,
+      sessionAttributes: rawSessionAttributes,
+      promptSessionAttributes: rawPromptSessionAttributes,
+    } = await req.json()
+    // Trace steps are only streamed when asked for; the trace itself is always on for citations
+    const streamTrace = traceRequested === true
+    const sessionAttributes = sanitizeSessionAttributes(rawSessionAttributes)
+    const promptSessionAttributes = sanitizeSessionAttributes(
+      rawPromptSessionAttributes,
+      mode === "retrieve" ? { tableFormat: RETRIEVE_TABLE_FORMAT } : {},
+    )
 
     console.log(`[${requestId}] 📋 Request Details:`, {
       mode,
@@ -18,6 +47,10 @@ export async function POST(req: Request) {
       inputPreview: input?.substring(0, 100) + (input?.length > 100 ? "..." : ""),
       hasClientAgentId: !!clientAgentId,
       hasClientAlias: !!clientAlias,
+      streamTrace,
+      // Keys only: attribute values can identify the user
+      sessionAttributeKeys: Object.keys(sessionAttributes || {}),
+      promptSessionAttributeKeys: Object.keys(promptSessionAttributes || {}),
     })
 
     const region = process.env.AWS_REGION || "us-east-1"
@@ -64,11 +97,14 @@ export async function POST(req: Request) {
       agentAliasId: agentConfig.aliasId,
       sessionId,
       inputText: input,
+      sessionState: { sessionAttributes, promptSessionAttributes },
+      // Needed to attribute citations to a knowledge base, and for trace mode
+      enableTrace: true,
     })
 
     console.log(`[${requestId}] 🚀 Invoking Bedrock Agent...`)
     const invokeStartTime = Date.now()
-    const res = await client.send(cmd)
+    let res = await client.send(cmd)
     const invokeDuration = Date.now() - invokeStartTime
     console.log(`[${requestId}] ⏱️ Agent Invocation Took: ${invokeDuration}ms`)
 
@@ -79,34 +115,101 @@ export async function POST(req: Request) {
     // --- 🚀 Stream the response back to client --- //
     const stream = new ReadableStream({
       async start(controller) {
+        const emit = (event: AgentEvent) => controller.enqueue(encodeAgentEvent(event))
+
         try {
           console.log(`[${requestId}] 📡 Starting response stream...`)
-          const events = (res as any).completion ?? (res as any).outputStream
-          if (!events) {
-            console.error(`[${requestId}] ❌ No completion stream received from Bedrock Agent`)
-            controller.enqueue("⚠️ No completion stream received from Bedrock Agent.")
-            controller.close()
-            return
-          }
+          const knowledgeBases = createKnowledgeBaseTracker()
+          const cited = new Set<string>()
+          let traceStepCount = 0
 
-          for await (const event of events) {
-            if (event?.chunk?.bytes) {
-              chunkCount++
-              const bytes = event.chunk.bytes
-              totalBytes += bytes.length
-              const text = decoder.decode(bytes, { stream: true })
-              controller.enqueue(text)
-              
-              // Log every 10th chunk to avoid spam
-              if (chunkCount % 10 === 0) {
-                console.log(`[${requestId}] 📦 Stream Progress: ${chunkCount} chunks, ${totalBytes} bytes`)
+          // Each round streams one InvokeAgent response. A round that ends in
+          // `returnControl` runs the requested actions locally and re-invokes the agent.
+          for (let round = 0; ; round++) {
+            const events = (res as any).completion ?? (res as any).outputStream
+            if (!events) {
+              console.error(`[${requestId}] ❌ No completion stream received from Bedrock Agent`)
+              emit({ type: "error", message: "No completion stream received from Bedrock Agent." })
+              return
+            }
+
+            let returnControl: any = null
+
+            for await (const event of events) {
+              if (event?.returnControl) returnControl = event.returnControl
+
+              if (event?.trace?.trace) {
+                knowledgeBases.observe(event.trace.trace)
+                if (streamTrace) {
+                  for (const step of toTraceSteps(event.trace.trace)) {
+                    traceStepCount++
+                    emit({ type: "trace", step })
+                  }
+                }
               }
+
+              for (const reference of (event?.chunk?.attribution?.citations ?? []).flatMap((c: any) => c?.retrievedReferences ?? [])) {
+                const sourceUri = referenceUri(reference)
+                const snippet: string = reference?.content?.text?.trim() || ""
+                if (!sourceUri || cited.has(`${sourceUri}\n${snippet}`)) continue
+                cited.add(`${sourceUri}\n${snippet}`)
+                const citation: Citation = { sourceUri, snippet, knowledgeBaseId: knowledgeBases.knowledgeBaseFor(sourceUri) }
+                emit({ type: "citation", citation })
+              }
+
+              if (event?.chunk?.bytes) {
+                chunkCount++
+                const bytes = event.chunk.bytes
+                totalBytes += bytes.length
+                const text = decoder.decode(bytes, { stream: true })
+                emit({ type: "text_delta", text })
+
+                // Log every 10th chunk to avoid spam
+                if (chunkCount % 10 === 0) {
+                  console.log(`[${requestId}] 📦 Stream Progress: ${chunkCount} chunks, ${totalBytes} bytes`)
+                }
+              }
+            }
+
+            if (!returnControl) break
+            if (round + 1 >= MAX_RETURN_CONTROL_ROUNDS) {
+              console.error(`[${requestId}] ❌ Agent returned control ${MAX_RETURN_CONTROL_ROUNDS} times, giving up`)
+              emit({ type: "error", message: "The agent did not finish after several actions." })
+              return
+            }
+
+            // --- 🛠️ Fulfil return-of-control actions locally --- //
+            const invocations = parseReturnControl(returnControl)
+            const results = []
+            for (const [index, invocation] of invocations.entries()) {
+              const toolUseId = `${returnControl.invocationId}-${index}`
+              const name = `${invocation.actionGroup}.${invocation.name}`
+              console.log(`[${requestId}] 🛠️ Return of control: ${name}`)
+              emit({ type: "tool_call", toolUseId, name, input: invocation.parameters })
+              const result = await runAction(invocation, { sessionId, sessionAttributes })
+              emit({ type: "tool_result", toolUseId, name, status: result.state === "FAILURE" ? "error" : "success", content: result.body })
+              results.push(toInvocationResult(invocation, result))
             }
+
+            res = await client.send(new InvokeAgentCommand({
+              agentId: agentConfig.agentId,
+              agentAliasId: agentConfig.aliasId,
+              sessionId,
+              sessionState: {
+                sessionAttributes,
+                promptSessionAttributes,
+                invocationId: returnControl.invocationId,
+                returnControlInvocationResults: results,
+              },
+              enableTrace: true,
+            }))
           }
-          
+
           const streamDuration = Date.now() - startTime
           console.log(`[${requestId}] ✅ Stream Complete:`, {
             totalChunks: chunkCount,
+            citations: cited.size,
+            traceSteps: traceStepCount,
             totalBytes,
             totalDuration: `${streamDuration}ms`,
             avgChunkSize: chunkCount > 0 ? `${Math.round(totalBytes / chunkCount)} bytes` : "N/A",
@@ -120,8 +223,9 @@ export async function POST(req: Request) {
               stack: err.stack?.substring(0, 500),
             })
           }
-          controller.enqueue("⚠️ Error while streaming agent response.")
+          emit({ type: "error", message: "Error while streaming agent response." })
         } finally {
+          emit({ type: "done" })
           controller.close()
           const finalDuration = Date.now() - startTime
           console.log(`[${requestId}] 🏁 Request Complete: Total duration ${finalDuration}ms`)
@@ -131,7 +235,7 @@ export async function POST(req: Request) {
 
     return new Response(stream, {
       headers: {
-        "Content-Type": "text/plain; charset=utf-8",
+        "Content-Type": AGENT_EVENT_CONTENT_TYPE,
         "Cache-Control": "no-cache",
       },
     })
@@ -7,8 +7,13 @@ import {
   Tool,
   ToolInputSchema
 } from "@aws-sdk/client-bedrock-runtime";
-import { LambdaClient, InvokeCommand } from "@aws-sdk/client-lambda";
 import { NextRequest } from "next/server";
+import { randomUUID } from "crypto";
+import { BookingState, getMissingFields } from "@/lib/booking/state";
+import { createBookingSession, getBookingSessionStore } from "@/lib/booking/session-store";
+import { DEFAULT_TIME_ZONE, describeDate, isValidTimeZone, todayIn, toIsoDate } from "@/lib/booking/dates";
+import { availableBookingTools, BookingToolSpec, runBookingTool } from "@/lib/booking/tools";
+import { AGENT_EVENT_CONTENT_TYPE, AgentEvent, encodeAgentEvent } from "@/lib/agent-events";
 
 // Let AWS SDK resolve credentials from the environment/role (no custom AWS_* vars needed)
 const bedrock = new BedrockRuntimeClient({
@@ -19,176 +24,20 @@ const bedrock = new BedrockRuntimeClient({
   },
 });
 
-const lambda = new LambdaClient({
-  region: process.env.AWS_REGION || "us-east-1",
-  credentials: {
-    accessKeyId: process.env.NEXT_PUBLIC_AWS_ACCESS_KEY_ID || process.env.AWS_ACCESS_KEY_ID || "",
-    secretAccessKey: process.env.NEXT_PUBLIC_AWS_SECRET_ACCESS_KEY || process.env.AWS_SECRET_ACCESS_KEY || "",
-  },
-});
+function buildSystemPrompt(bookingState: BookingState, timeZone: string | null, canChangeBookings: boolean): string {
+  const today = toIsoDate(todayIn({ timeZone }));
 
-// Helper functions for state tracking
-function extractBookingState(messages: Message[]): any {
-  const state: any = {
-    name: null,
-    email: null,
-    phone: null,
-    sms_consent: null,
-    group_size_category: null,
-    num_passengers: null,
-    pickup_location: null,
-    dropoff_location: null,
-    service_date: null,
-    trip_direction: null,
-    return_date: null,
-    return_time: null
-  };
-
-  for (const msg of messages) {
-    if (msg.role === "user" && msg.content) {
-      for (const block of msg.content) {
-        if (block.text) {
-          const text = block.text.toLowerCase();
-          
-          // Extract date
-          if (!state.service_date && (text.includes('friday') || text.includes('saturday') || 
-              text.includes('sunday') || text.includes('monday') || text.includes('tuesday') || 
-              text.includes('wednesday') || text.includes('thursday') || /\d{1,2}\/\d{1,2}/.test(text))) {
-            state.service_date = block.text.match(/(this |next )?\w+day|(\d{1,2}\/\d{1,2}(\/\d{2,4})?)/i)?.[0] || null;
-          }
-          
-          // Extract trip direction
-          if (!state.trip_direction) {
-            if (text.includes('round trip') || text.includes('return')) {
-              state.trip_direction = 'return';
-            } else if (text.includes('book') || text.includes('ride') || text.includes('from')) {
-              state.trip_direction = 'one-way';
-            }
-          }
-          
-          // Extract passenger count - FIXED REGEX
-          if (!state.num_passengers) {
-            const match = text.match(/(\d+)\s*(people|passengers?|persons?|pax|passenger)/);
-            if (match) {
-              state.num_passengers = parseInt(match[1]);
-              const count = state.num_passengers;
-              if (count <= 4) state.group_size_category = 'small';
-              else if (count <= 10) state.group_size_category = 'medium';
-              else state.group_size_category = 'large';
-            }
-          }
-          
-          // Extract locations
-          if (!state.pickup_location || !state.dropoff_location) {
-            const fromTo = text.match(/from\s+([^to]+)\s+to\s+(.+?)(?:\s+this|\s+on|\s+for|\s+\d|$)/i);
-            if (fromTo) {
-              if (!state.pickup_location) state.pickup_location = fromTo[1].trim();
-              if (!state.dropoff_location) state.dropoff_location = fromTo[2].trim();
-            }
-            
-            // Look for specific airport mentions
-            if (text.includes('airport')) {
-              if (text.includes('reagan') || text.includes('dca')) {
-                state.pickup_location = state.pickup_location?.includes('dc') ? 'Reagan National (DCA)' : state.pickup_location;
-              }
-              if (text.includes('dulles') || text.includes('iad')) {
-                state.pickup_location = state.pickup_location?.includes('dc') ? 'Dulles (IAD)' : state.pickup_location;
-              }
-              if (text.includes('jfk')) {
-                state.dropoff_location = state.dropoff_location?.includes('nyc') ? 'JFK Airport' : state.dropoff_location;
-              }
-              if (text.includes('lga') || text.includes('laguardia')) {
-                state.dropoff_location = state.dropoff_location?.includes('nyc') ? 'LaGuardia (LGA)' : state.dropoff_location;
-              }
-            }
-          }
-          
-          // Extract email
-          if (!state.email) {
-            const emailMatch = text.match(/\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Z|a-z]{2,}\b/);
-            if (emailMatch) state.email = emailMatch[0];
-          }
-          
-          // Extract name
-          if (!state.name && text.match(/my name is|i'm|i am/i)) {
-            const nameMatch = text.match(/(?:my name is|i'm|i am)\s+([A-Z][a-z]+(?:\s+[A-Z][a-z]+)*)/);
-            if (nameMatch) state.name = nameMatch[1];
-          }
-          
-          // Extract phone number - matches various formats including 8-10 digit numbers
-          if (!state.phone) {
-            // First try standard format: (123) 456-7890, 123-456-7890, etc.
-            const standardMatch = block.text.match(/(\+?1[-.\s]?)?\(?([0-9]{3})\)?[-.\s]?([0-9]{3})[-.\s]?([0-9]{4})\b/);
-            if (standardMatch) {
-              const digits = standardMatch[2] + standardMatch[3] + standardMatch[4];
-              if (digits.length === 10) {
-                state.phone = digits;
-              }
-            }
-            
-            // Also match any sequence of 8-10 digits (for numbers like 766823932)
-            if (!state.phone) {
-              const digitSequence = block.text.match(/\b(\d{8,10})\b/);
-              if (digitSequence) {
-                const digits = digitSequence[1];
-                // Exclude if it's part of a date, year, or other common number patterns
-                if (digits.length >= 8 && digits.length <= 10) {
-                  // Don't match if it looks like a year (1900-2099)
-                  if (!(digits.length === 4 && parseInt(digits) >= 1900 && parseInt(digits) <= 2099)) {
-                    state.phone = digits;
-                  }
-                }
-              }
-            }
-          }
-          
-          // Extract SMS consent - check for explicit consent messages
-          // If user just says "yes" or "no" after phone number is provided, treat as SMS consent
-          if (state.phone && state.sms_consent === null) {
-            // Check for explicit consent with keywords
-            if (text.includes('yes') && (text.includes('text') || text.includes('sms') || text.includes('message'))) {
-              state.sms_consent = true;
-            } else if (text.includes('no') && (text.includes('text') || text.includes('sms') || text.includes('message'))) {
-              state.sms_consent = false;
-            } 
-            // Check for simple yes/no responses (likely SMS consent if phone is already provided)
-            // Only set if it's a short response (just "yes" or "no" or very short)
-            else if (block.text.trim().toLowerCase() === 'yes' || block.text.trim().toLowerCase() === 'y') {
-              state.sms_consent = true;
-            } else if (block.text.trim().toLowerCase() === 'no' || block.text.trim().toLowerCase() === 'n') {
-              state.sms_consent = false;
-            }
-          }
-        }
-      }
-    }
-  }
-  
-  return state;
-}
+  // Without lookup/update/cancel (a save-only booking store) existing bookings go to the office
+  const changeTools = canChangeBookings ? `
+5. lookup_booking — Find an existing booking by confirmation code plus the email or phone on the booking.
+6. update_booking — Change an existing booking (e.g. new pickup time). Only pass the fields that change.
+7. cancel_booking — Cancel an existing booking. Confirm with the user before calling it.` : "";
+  const existingBookings = canChangeBookings ? `- If the user wants to check, change, or cancel a booking, ask for their confirmation code (e.g. MS-7K3QXD) and the email or phone number on the booking.
+- Call lookup_booking first and read back the relevant details before making changes.
+- Do NOT use update_booking_state or save_booking for existing bookings.
+- If a change is rejected, explain which field was invalid and ask for a corrected value.` : `- You cannot look up, change, or cancel saved bookings. Ask the user to contact the office with their confirmation code.
+- Do NOT use update_booking_state or save_booking for existing bookings.`;
 
-function getMissingFields(state: any): string[] {
-  const missing: string[] = [];
-  
-  if (!state.name) missing.push('name');
-  if (!state.email) missing.push('email');
-  if (!state.phone) missing.push('phone number');
-  if (!state.group_size_category) missing.push('group size');
-  if (!state.pickup_location || state.pickup_location.length < 5) missing.push('specific pickup location');
-  if (!state.dropoff_location || state.dropoff_location.length < 5) missing.push('specific dropoff location');
-  if (!state.service_date) missing.push('service date');
-  if (!state.trip_direction) missing.push('trip direction');
-  
-  if (state.trip_direction === 'return') {
-    if (!state.return_date) missing.push('return date');
-  }
-  
-  return missing;
-}
-
-function buildSystemPrompt(conversationMessages: Message[]): string {
-  const bookingState = extractBookingState(conversationMessages);
-  
   const basePrompt = `You are a friendly shuttle booking assistant for Metropolitan Shuttle.
 
 YOUR ROLE:
@@ -203,11 +52,18 @@ WHEN ASKING FOR PICKUP/DROPOFF:
 - If the user says only the cities (e.g., "DC to NYC"), acknowledge you have pickup city and destination city.
 - Then ask *specifically* for exact pickup address/location in the origin city and exact dropoff address/location in the destination city.
 - DO NOT ask where the user is going again if they already said (e.g., "DC to NYC").
+- An airport (e.g. "DCA", "Dulles") or a well-known landmark (e.g. "Union Station") IS an exact location. A city or state name alone is not.
+- We only serve trips within the United States; update_booking_state rejects locations outside the US.
 
 TOOLS AVAILABLE:
-1. save_booking — Save completed booking (call ONLY when all required fields are present).
-2. get_pricing — Use when user asks about cost.
-3. search_faqs — Use when user asks policy or general questions.
+1. update_booking_state — Record booking details. Call it EVERY time the user provides or changes any detail, before replying.
+2. save_booking — Save completed booking (call ONLY when all required fields are present).
+3. get_pricing — Use when user asks about cost. Quote its estimate and low/high range as returned; never calculate or adjust fares yourself. If it finds no matching trips, say so instead of guessing.
+4. search_faqs — Use when user asks policy or general questions.${changeTools}
+
+BOOKING STATE:
+- The booking state below is the source of truth. It only contains values that passed validation.
+- If update_booking_state reports an error for a field, ask the user to correct that field only.
 
 BOOKING FLOW:
 1. Progressively collect required info: group size, date, pickup city/location, dropoff city/location, trip direction (one-way or return).
@@ -215,17 +71,31 @@ BOOKING FLOW:
 3. For return trips, also collect return date/time.
 4. Collect name and email near the end.
 5. When all required fields are collected, call save_booking.
-6. After saving, confirm the booking is complete. (Pricing check after save is temporarily disabled)
+6. After saving, confirm the booking is complete and give the user their confirmation code. (Pricing check after save is temporarily disabled)
+7. Call save_booking once per booking. If it answers already_saved, the booking exists; do not try to save it again.
+
+EXISTING BOOKINGS:
+${existingBookings}
 
 DATE HANDLING:
-- If user says "this Friday," "next Tuesday," "December 12," etc., that IS the service_date.
+- Today is ${describeDate(today)} (${today}) in the user's timezone (${timeZone || DEFAULT_TIME_ZONE}).
+- If user says "this Friday," "next Tuesday," "December 12," "12/5," "the day after Thanksgiving," etc., that IS the service_date.
+- Pass the user's date wording to update_booking_state as-is; it resolves it to an exact date. Use the resolved date from the booking state when confirming with the user.
+- If a date is rejected (past date, unknown wording, return before departure), ask the user for that date again.
 - NEVER ask for the date again if already provided.
-- Current date context: Use relative dates (this Friday = next Friday from today).
 
 TRIP DIRECTION:
 - If user says "Book a ride from X to Y" without mentioning "return" or "round trip", assume ONE-WAY.
 - NEVER ask about trip direction if the user's phrasing clearly indicates one-way.
 
+MULTI-STOP AND MULTI-LEG TRIPS:
+- Use "legs" when the trip has intermediate stops or more than one movement (e.g. hotel to venue each morning of a 3-day conference, or a tour with several stops).
+- Each leg has a date, an optional time, and ordered stops: first stop = pickup, last stop = dropoff, anything between = intermediate stops.
+- Repeat a leg once per day for recurring movements (3 conference mornings = 3 legs), and add return legs if the group also needs a ride back.
+- Always send the COMPLETE list of legs to update_booking_state whenever any leg changes.
+- With legs, pickup/dropoff/service_date/departure_time are filled from the first leg automatically, and trip_direction becomes "multi-leg" when there is more than one leg.
+- When summarizing a multi-leg trip, list each leg on its own line: "Leg 1 – Mon, Dec 8, 8:00 AM: Hilton Arlington → Convention Center".
+
 REQUIRED FIELDS:
 - name
 - email
@@ -236,13 +106,14 @@ REQUIRED FIELDS:
 - service_date
 - trip_direction (infer "one-way" if not specified as return)
 - If return trip: return_date, return_time
+- If multi-leg trip: legs (at least two, each with date and stops)
 
 PHONE NUMBER AND SMS CONSENT:
 - Always ask for phone number as it is required for booking
 - After the user provides their phone number, acknowledge it and continue with the booking flow
 - The SMS consent checkbox will appear automatically in the chat interface - you don't need to mention it
 - When user responds with "yes" or "no" (which indicates their SMS consent choice), interpret it as their consent preference
-- Include sms_consent field in the booking (true for "yes", false for "no")
+- Record it with update_booking_state as sms_consent (true for "yes", false for "no")
 
 EXAMPLES OF CORRECT BEHAVIOR:
 
@@ -304,170 +175,69 @@ REMEMBER: Only ask for the MISSING fields listed above. Never ask for fields tha
   return basePrompt + stateReminder;
 }
 
-const TOOLS: Tool[] = [
-  {
-    toolSpec: {
-      name: "save_booking",
-      description: "Save a completed shuttle booking to the system. Only call when ALL required fields are collected.",
-      inputSchema: {
-        json: {
-          type: "object",
-          properties: {
-            name: { type: "string", description: "Customer full name" },
-            email: { type: "string", description: "Customer email" },
-            phone: { type: "string", description: "Customer phone number (required)" },
-            sms_consent: { type: "boolean", description: "Customer consent to receive SMS updates (true/false)" },
-            group_size_category: { type: "string", description: "small, medium, or large" },
-            num_passengers: { type: "number", description: "Exact passenger count (optional)" },
-            pickup_location: { type: "string", description: "Pickup address/location" },
-            dropoff_location: { type: "string", description: "Dropoff address/location" },
-            service_date: { type: "string", description: "Trip date (YYYY-MM-DD or natural)" },
-            departure_time: { type: "string", description: "Departure time (optional)" },
-            trip_direction: { type: "string", description: "One-way or Return" },
-            return_date: { type: "string", description: "Return date if return trip" },
-            return_time: { type: "string", description: "Return time if return trip" },
-            vehicle_type: { type: "string", description: "Vehicle preference (optional)" },
-            additional_info: { type: "string", description: "Extra notes (optional)" }
-          },
-          required: ["name", "email", "phone", "group_size_category", "pickup_location", "dropoff_location", "service_date", "trip_direction"]
-        }
-      } as ToolInputSchema
-    }
-  },
-  {
-    toolSpec: {
-      name: "get_pricing",
-      description: "Search knowledge base for pricing estimates. Use when user asks about price/cost.",
-      inputSchema: {
-        json: {
-          type: "object",
-          properties: {
-            query: { type: "string", description: "Pricing query (e.g., 'DC to NYC 15 passengers')" }
-          },
-          required: ["query"]
-        }
-      } as ToolInputSchema
-    }
-  },
-  {
-    toolSpec: {
-      name: "search_faqs",
-      description: "Search FAQ knowledge base. Use when user asks general questions about services, policies, etc.",
-      inputSchema: {
-        json: {
-          type: "object",
-          properties: {
-            query: { type: "string", description: "FAQ search query" }
-          },
-          required: ["query"]
-        }
-      } as ToolInputSchema
-    }
-  }
-];
-
-async function invokeLambda(functionName: string, payload: any) {
-  try {
-    const command = new InvokeCommand({
-      FunctionName: functionName,
-      Payload: JSON.stringify(payload),
-    });
-    const response = await lambda.send(command);
-    const result = JSON.parse(new TextDecoder().decode(response.Payload));
-    return result;
-  } catch (error) {
-    console.error("Lambda invocation error:", error);
-    return { error: "Failed to save booking" };
-  }
+function toConverseTools(specs: BookingToolSpec[]): Tool[] {
+  return specs.map(({ name, description, inputSchema }) => ({
+    toolSpec: { name, description, inputSchema: { json: inputSchema } as ToolInputSchema }
+  }));
 }
 
-async function queryKnowledgeBase(kbId: string, query: string) {
-  try {
-    const { BedrockAgentRuntimeClient, RetrieveCommand } = await import("@aws-sdk/client-bedrock-agent-runtime");
-    const agentRuntime = new BedrockAgentRuntimeClient({
-      region: process.env.AWS_REGION || "us-east-1",
-      credentials: {
-        accessKeyId: process.env.NEXT_PUBLIC_AWS_ACCESS_KEY_ID || process.env.AWS_ACCESS_KEY_ID || "",
-        secretAccessKey: process.env.NEXT_PUBLIC_AWS_SECRET_ACCESS_KEY || process.env.AWS_SECRET_ACCESS_KEY || "",
-      },
-    });
-
-    const cmd = new RetrieveCommand({
-      knowledgeBaseId: kbId,
-      retrievalQuery: { text: query },
-      retrievalConfiguration: {
-        vectorSearchConfiguration: { numberOfResults: 5 }
-      }
-    });
-
-    const response = await agentRuntime.send(cmd);
-    const results = response.retrievalResults || [];
-    return results.map(r => r.content?.text || "").join("\n\n");
-  } catch (error) {
-    console.error("KB query error:", error);
-    return "Unable to retrieve information at this time.";
+// The client sends only the new turn. Older clients that still post the whole
+// history are handled by taking their latest user message.
+function getNewUserTurn(body: any): string | null {
+  if (typeof body.message === "string" && body.message.trim()) return body.message.trim();
+  if (Array.isArray(body.messages)) {
+    const lastUser = [...body.messages].reverse().find((m: any) => m?.role === "user" && typeof m.content === "string");
+    if (lastUser?.content.trim()) return lastUser.content.trim();
   }
+  return null;
 }
 
-async function handleToolCall(toolName: string, toolInput: any) {
-  switch (toolName) {
-    case "save_booking":
-      const lambdaPayload = {
-        parameters: [
-          { name: "bookingData", value: JSON.stringify(toolInput) }
-        ]
-      };
-      const result = await invokeLambda("store-shuttle-booking", lambdaPayload);
-      return JSON.stringify({
-        status: "success",
-        message: result.response?.functionResponse?.responseBody?.TEXT?.body || "Booking saved successfully"
-      });
-
-    case "get_pricing":
-      const pricingKbId = process.env.PRICING_KB_ID || "AOHOJWFMJM";
-      if (!pricingKbId) return "Pricing information temporarily unavailable.";
-      const pricing = await queryKnowledgeBase(pricingKbId, toolInput.query);
-      return pricing || "No pricing data found for this query.";
-
-    case "search_faqs":
-      const faqKbId = process.env.FAQ_KB_ID || "KJYMZYRF17";
-      if (!faqKbId) return "FAQ information temporarily unavailable.";
-      const faq = await queryKnowledgeBase(faqKbId, toolInput.query);
-      return faq || "No FAQ information found.";
-
-    default:
-      return "Unknown tool";
+// Converse requires alternating roles. If the stored history already ends on a
+// user message (tool results left over from a turn that hit the iteration cap),
+// the new text is added to that message instead of starting another one.
+function appendUserTurn(history: Message[], text: string): Message[] {
+  const messages = [...history];
+  const last = messages[messages.length - 1];
+  if (last?.role === "user") {
+    messages[messages.length - 1] = { ...last, content: [...(last.content || []), { text } as ContentBlock] };
+  } else {
+    messages.push({ role: "user" as ConversationRole, content: [{ text }] as ContentBlock[] });
   }
+  return messages;
 }
 
 export async function POST(req: NextRequest) {
-  const encoder = new TextEncoder();
-
   try {
     const body = await req.json();
-    const { messages } = body;
+    const sessionId: string = typeof body.sessionId === "string" && body.sessionId ? body.sessionId : randomUUID();
+    const userText = getNewUserTurn(body);
 
-    if (!messages || !Array.isArray(messages)) {
-      return new Response("Invalid request: messages array required", { status: 400 });
+    if (!userText) {
+      return new Response("Invalid request: message required", { status: 400 });
     }
 
+    const sessionStore = getBookingSessionStore();
+    const session = (await sessionStore.get(sessionId)) || createBookingSession(sessionId);
+    if (isValidTimeZone(body.timeZone)) session.timeZone = body.timeZone;
+
     // DEBUG LOGGING
-    console.log("📩 Received messages count:", messages.length);
-    console.log("📩 Messages:", JSON.stringify(messages, null, 2));
+    console.log(`📩 Session ${sessionId}: ${session.messages.length} stored messages`);
+    console.log("📩 New user turn:", userText);
 
     const stream = new ReadableStream({
       async start(controller) {
+        const emit = (event: AgentEvent) => controller.enqueue(encodeAgentEvent(event));
+
         try {
-          // Convert incoming messages to proper Message[] type
-          let conversationMessages: Message[] = messages.map((msg: any) => ({
-            role: (msg.role === "user" ? "user" : "assistant") as ConversationRole,
-            content: [{ text: msg.content }] as ContentBlock[]
-          }));
+          const conversationMessages: Message[] = appendUserTurn(session.messages, userText);
 
-          // DEBUG: Log extracted state
-          const currentState = extractBookingState(conversationMessages);
-          console.log("📊 Extracted booking state:", JSON.stringify(currentState, null, 2));
-          console.log("❓ Missing fields:", getMissingFields(currentState));
+          // DEBUG: Log validated state
+          console.log("📊 Booking state:", JSON.stringify(session.bookingState, null, 2));
+          console.log("❓ Missing fields:", getMissingFields(session.bookingState));
+
+          const toolSpecs = availableBookingTools();
+          const tools = toConverseTools(toolSpecs);
+          const canChangeBookings = toolSpecs.some((spec) => spec.name === "lookup_booking");
 
           let continueLoop = true;
           let maxIterations = 5;
@@ -477,13 +247,13 @@ export async function POST(req: NextRequest) {
             iteration++;
 
             // Build dynamic system prompt with current state
-            const systemPrompt = buildSystemPrompt(conversationMessages);
+            const systemPrompt = buildSystemPrompt(session.bookingState, session.timeZone, canChangeBookings);
             
             const command = new ConverseStreamCommand({
               modelId: "us.anthropic.claude-3-5-sonnet-20241022-v2:0",
               messages: conversationMessages,
               system: [{ text: systemPrompt }],
-              toolConfig: { tools: TOOLS },
+              toolConfig: { tools },
               inferenceConfig: {
                 temperature: 0.2,
                 topP: 0.9,
@@ -494,9 +264,8 @@ export async function POST(req: NextRequest) {
             const response = await bedrock.send(command);
 
             if (!response.stream) {
-              controller.enqueue(encoder.encode("Error: No stream available\n"));
-              controller.close();
-              return;
+              emit({ type: "error", message: "No stream available" });
+              break;
             }
 
             let currentToolUse: any = null;
@@ -508,7 +277,7 @@ export async function POST(req: NextRequest) {
               if (event.contentBlockDelta?.delta?.text) {
                 const text = event.contentBlockDelta.delta.text;
                 fullText += text;
-                controller.enqueue(encoder.encode(text));
+                emit({ type: "text_delta", text });
               }
 
               // Capture tool use start
@@ -534,7 +303,7 @@ export async function POST(req: NextRequest) {
                     toolUse: {
                       toolUseId: currentToolUse.toolUseId,
                       name: currentToolUse.name,
-                      input: JSON.parse(currentToolUse.input)
+                      input: JSON.parse(currentToolUse.input || "{}")
                     }
                   } as ContentBlock);
                 } catch (e) {
@@ -543,6 +312,16 @@ export async function POST(req: NextRequest) {
                 currentToolUse = null;
               }
 
+              // Token usage for this model call
+              if (event.metadata?.usage) {
+                emit({
+                  type: "usage",
+                  inputTokens: event.metadata.usage.inputTokens || 0,
+                  outputTokens: event.metadata.usage.outputTokens || 0,
+                  totalTokens: event.metadata.usage.totalTokens || 0
+                });
+              }
+
               // Message stop
               if (event.messageStop) {
                 continueLoop = false;
@@ -571,15 +350,26 @@ export async function POST(req: NextRequest) {
               for (const tc of toolCalls) {
                 if (!tc.toolUse) continue;
                 
-                const toolName = tc.toolUse.name;
+                const toolName = tc.toolUse.name || "";
                 const toolInput = tc.toolUse.input;
-                const toolUseId = tc.toolUse.toolUseId;
+                const toolUseId = tc.toolUse.toolUseId || "";
+
+                emit({ type: "tool_call", toolUseId, name: toolName, input: toolInput });
+                const outcome = await runBookingTool(toolName, toolInput, session);
+                emit({ type: "tool_result", toolUseId, name: toolName, status: outcome.status, content: outcome.content });
+
+                if (toolName === "update_booking_state" || toolName === "save_booking") {
+                  emit({ type: "booking_state", state: session.bookingState, missingFields: getMissingFields(session.bookingState) });
+                }
+                if (outcome.saved) {
+                  emit({ type: "booking_saved", booking: outcome.saved.booking, message: outcome.saved.message });
+                }
 
-                const result = await handleToolCall(toolName || "", toolInput);
                 toolResults.push({
                   toolResult: {
-                    toolUseId: toolUseId || "",
-                    content: [{ text: result }]
+                    toolUseId,
+                    content: [{ text: outcome.content }],
+                    status: outcome.status
                   }
                 } as ContentBlock);
               }
@@ -593,10 +383,18 @@ export async function POST(req: NextRequest) {
             }
           }
 
-          controller.close();
+          session.messages = conversationMessages;
+          await sessionStore.save(session);
         } catch (error) {
           console.error("Stream processing error:", error);
-          controller.enqueue(encoder.encode("\n\nError: Unable to process request."));
+          // Keep validated booking details, but drop the half-finished turn so the
+          // stored history never ends in a toolUse without its toolResult
+          await sessionStore.save(session).catch((saveError) => {
+            console.error("Failed to save booking session:", saveError);
+          });
+          emit({ type: "error", message: "Unable to process request." });
+        } finally {
+          emit({ type: "done" });
           controller.close();
         }
       }
@@ -604,7 +402,7 @@ export async function POST(req: NextRequest) {
 
     return new Response(stream, {
       headers: {
-        "Content-Type": "text/plain; charset=utf-8",
+        "Content-Type": AGENT_EVENT_CONTENT_TYPE,
         "Transfer-Encoding": "chunked",
         "Cache-Control": "no-cache",
         "Connection": "keep-alive"
@@ -614,4 +412,4 @@ export async function POST(req: NextRequest) {
     console.error("API route error:", error);
     return new Response("Internal server error", { status: 500 });
   }
-}
\ No newline at end of file
+}
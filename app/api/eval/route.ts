@@ -0,0 +1,69 @@
+import { NextResponse } from "next/server"
+import { POST as bookingAgent } from "@/app/api/bedrock-booking-agent/route"
+import { POST as retrieveAgent } from "@/app/api/bedrock-agent/route"
+import { POST as vendorHistory } from "@/app/api/vendor-history/route"
+import type { ModelMode } from "@/lib/eval/cassette"
+import { runGoldenSet } from "@/lib/eval/runner"
+import { compareReports, loadBaseline, saveBaseline, writeReport } from "@/lib/eval/report"
+
+export const dynamic = "force-dynamic"
+// A full golden-set run makes many model calls in record/live mode
+export const maxDuration = 300
+
+const MODEL_MODES: ModelMode[] = ["live", "record", "replay"]
+
+// 🧪 Golden-set evaluation (development only; set EVAL_ENABLED=true to allow it elsewhere).
+// Body: { version?: "v1", model?: "replay" | "record" | "live", cases?: string[], saveBaseline?: boolean }
+// Runs the golden set against the three agent routes in this process, compares
+// the result with eval/baselines/<version>.json and writes a report to eval/reports/.
+export async function POST(req: Request) {
+  if (process.env.NODE_ENV === "production" && process.env.EVAL_ENABLED !== "true") {
+    return NextResponse.json({ error: "Evaluation is disabled" }, { status: 404 })
+  }
+
+  let body: any = {}
+  try {
+    body = await req.json()
+  } catch {
+    // Defaults only
+  }
+
+  const version = typeof body.version === "string" ? body.version : "v1"
+  const model: ModelMode = MODEL_MODES.includes(body.model) ? body.model : "replay"
+  const caseIds = Array.isArray(body.cases) ? body.cases.map(String) : undefined
+
+  try {
+    const report = await runGoldenSet({
+      version,
+      model,
+      caseIds,
+      handlers: { booking: bookingAgent, retrieve: retrieveAgent, vendor_history: vendorHistory },
+    })
+    const baseline = await loadBaseline(version)
+    const comparison = baseline ? compareReports(report, baseline) : null
+    const files = await writeReport(report, comparison)
+    if (body.saveBaseline === true) await saveBaseline(report)
+
+    console.log(`🧪 Eval ${version} (${model}): ${report.passed}/${report.cases.length} cases passed → ${files.markdown}`)
+    return NextResponse.json({
+      version,
+      model,
+      passed: report.passed,
+      failed: report.failed,
+      score: report.score,
+      regressedCases: comparison?.regressedCases ?? [],
+      fixedCases: comparison?.fixedCases ?? [],
+      report: files,
+      cases: report.cases.map((c) => ({
+        id: c.id,
+        passed: c.passed,
+        score: c.score,
+        error: c.error,
+        failedChecks: c.checks.filter((check) => !check.passed),
+      })),
+    })
+  } catch (err: any) {
+    console.error("❌ Eval error:", err)
+    return NextResponse.json({ error: err.message }, { status: 500 })
+  }
+}
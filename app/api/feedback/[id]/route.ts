@@ -0,0 +1,58 @@
+import { NextResponse } from "next/server"
+import { isAdminRequest } from "@/lib/admin-auth"
+import { FeedbackStoreError, getFeedbackStore } from "@/lib/feedback/store"
+
+export const dynamic = "force-dynamic"
+
+/**
+ * GET → Full feedback item, including the request, answer and tool results. Admin only.
+ */
+export async function GET(req: Request, { params }: { params: { id: string } }) {
+  if (!isAdminRequest(req)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  const { id } = params
+  try {
+    const item = await getFeedbackStore().get(id)
+    if (!item) return NextResponse.json({ error: "Feedback not found" }, { status: 404 })
+    return NextResponse.json(item)
+  } catch (err: any) {
+    console.error("❌ Error reading feedback:", err)
+    return NextResponse.json({ error: err.message }, { status: 500 })
+  }
+}
+
+/**
+ * PATCH → Mark resolved or reopen: { status: "resolved" | "open", note? }. Admin only.
+ */
+export async function PATCH(req: Request, { params }: { params: { id: string } }) {
+  if (!isAdminRequest(req)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  const { id } = params
+  let body: any
+  try {
+    body = await req.json()
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 })
+  }
+
+  if (body?.status !== "resolved" && body?.status !== "open") {
+    return NextResponse.json({ error: "status must be \"resolved\" or \"open\"" }, { status: 400 })
+  }
+
+  try {
+    const note = typeof body.note === "string" ? body.note.trim() || null : undefined
+    const item = await getFeedbackStore().setStatus(id, body.status, note)
+    console.log(`✅ Feedback ${id} marked ${item.status}`)
+    return NextResponse.json(item)
+  } catch (err: any) {
+    if (err instanceof FeedbackStoreError && err.message === "Feedback not found") {
+      return NextResponse.json({ error: err.message }, { status: 404 })
+    }
+    console.error("❌ Error updating feedback:", err)
+    return NextResponse.json({ error: err.message }, { status: 500 })
+  }
+}
@@ -0,0 +1,68 @@
+import { NextResponse } from "next/server"
+import { isAdminRequest } from "@/lib/admin-auth"
+import {
+  FEEDBACK_AGENTS,
+  FeedbackAgent,
+  FeedbackQuery,
+  FeedbackStoreError,
+  getFeedbackStore,
+  parseFeedbackSubmission,
+} from "@/lib/feedback/store"
+
+export const dynamic = "force-dynamic"
+
+// 👍👎 Answer feedback from the chat pages.
+// Body: { agent, sessionId, messageId, rating: "up" | "down", comment?, request, response, toolResults?, citations? }
+export async function POST(req: Request) {
+  let body: any
+  try {
+    body = await req.json()
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 })
+  }
+
+  const submission = parseFeedbackSubmission(body)
+  if (!submission) {
+    return NextResponse.json({ error: "agent, sessionId, messageId and rating are required" }, { status: 400 })
+  }
+
+  try {
+    const item = await getFeedbackStore().submit(submission)
+    console.log(`📝 Feedback ${item.rating} on ${item.agent} answer (${item.id})`)
+    return NextResponse.json({ id: item.id, status: item.status })
+  } catch (err: any) {
+    console.error("❌ Error saving feedback:", err)
+    const message = err instanceof FeedbackStoreError ? err.message : "Failed to save feedback"
+    return NextResponse.json({ error: message }, { status: 500 })
+  }
+}
+
+// 📋 Review queue for the admin panel: GET ?agent=&rating=&status=&limit=&cursor=
+// Returns a page of summaries (newest first) and the cursor of the next page;
+// the full item is at /api/feedback/[id]. Admin only.
+export async function GET(req: Request) {
+  if (!isAdminRequest(req)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  const params = new URL(req.url).searchParams
+  const query: FeedbackQuery = {}
+  const agent = params.get("agent")
+  const rating = params.get("rating")
+  const status = params.get("status")
+  const limit = Number(params.get("limit"))
+  const cursor = params.get("cursor")
+  if (agent && FEEDBACK_AGENTS.includes(agent as FeedbackAgent)) query.agent = agent as FeedbackAgent
+  if (rating === "up" || rating === "down") query.rating = rating
+  if (status === "open" || status === "resolved") query.status = status
+  if (limit > 0) query.limit = limit
+  if (cursor) query.cursor = cursor
+
+  try {
+    const { items, nextCursor } = await getFeedbackStore().list(query)
+    return NextResponse.json({ items, nextCursor })
+  } catch (err: any) {
+    console.error("❌ Error listing feedback:", err)
+    return NextResponse.json({ error: err.message }, { status: 500 })
+  }
+}
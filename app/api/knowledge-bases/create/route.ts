@@ -12,6 +12,7 @@ import {
 import { S3VectorsClient, CreateVectorBucketCommand, CreateIndexCommand } from "@aws-sdk/client-s3vectors"
 import { v4 as uuidv4 } from "uuid"
 import { NextResponse } from "next/server"
+import { watchIngestionJob } from "@/lib/retrieval/cache"
 
 export async function POST(req: Request) {
   try {
@@ -239,6 +240,11 @@ export async function PUT(req: Request) {
       })
     )
 
+    // Cached retrievals for this KB are dropped once the job finishes
+    if (ingestionResponse.ingestionJob?.ingestionJobId) {
+      watchIngestionJob(knowledgeBaseId, dataSourceId, ingestionResponse.ingestionJob.ingestionJobId)
+    }
+
     return NextResponse.json({
       success: true,
       ingestionJob: {
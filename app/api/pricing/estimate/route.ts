@@ -0,0 +1,56 @@
+import { NextResponse } from "next/server"
+import { FareRequest, estimateFare, fareRequestFromBooking } from "@/lib/pricing/estimate"
+import { HistoricalTripRecord, fetchHistoricalTrips, isTripRecord, routeQuery } from "@/lib/pricing/records"
+
+export const dynamic = "force-dynamic"
+
+// 💵 Deterministic fare estimate.
+// Body is either a trip ({ pickup, dropoff, passengers, days?, tripType?, vehicleType? })
+// or a saved booking ({ booking }). Historical records come from the pricing KB;
+// outside production the caller may supply its own in `records` for testing.
+export async function POST(req: Request) {
+  let body: any
+  try {
+    body = await req.json()
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 })
+  }
+
+  const request: FareRequest | null = body?.booking
+    ? fareRequestFromBooking(body.booking)
+    : body?.pickup && body?.dropoff
+      ? {
+          pickup: String(body.pickup),
+          dropoff: String(body.dropoff),
+          passengers: Number(body.passengers),
+          days: Number(body.days) || 1,
+          tripType: body.tripType || null,
+          vehicleType: body.vehicleType || null,
+        }
+      : null
+
+  if (!request) {
+    return NextResponse.json({ error: "pickup, dropoff and passengers (or a booking with a route and group size) are required" }, { status: 400 })
+  }
+
+  let supplied: HistoricalTripRecord[] | null = null
+  if (body.records !== undefined) {
+    if (process.env.NODE_ENV === "production") {
+      return NextResponse.json({ error: "records can't be supplied in production" }, { status: 400 })
+    }
+    const valid: HistoricalTripRecord[] = Array.isArray(body.records) ? body.records.filter(isTripRecord) : []
+    if (valid.length === 0) {
+      return NextResponse.json({ error: "records must be an array with at least one valid trip record" }, { status: 400 })
+    }
+    supplied = valid
+  }
+
+  try {
+    const records = supplied ?? (await fetchHistoricalTrips(routeQuery(request)))
+    const estimate = estimateFare(request, records)
+    return NextResponse.json(estimate, { status: estimate.status === "invalid_request" ? 400 : 200 })
+  } catch (err: any) {
+    console.error("❌ Error estimating fare:", err)
+    return NextResponse.json({ error: "Failed to estimate fare", details: err.message }, { status: 500 })
+  }
+}
@@ -8,6 +8,10 @@ import {
   ToolInputSchema
 } from "@aws-sdk/client-bedrock-runtime";
 import { NextRequest } from "next/server";
+import { AGENT_EVENT_CONTENT_TYPE, AgentEvent, encodeAgentEvent } from "@/lib/agent-events";
+import { classifyLocation } from "@/lib/geo/gazetteer";
+import { cachedRetrieve } from "@/lib/retrieval/cache";
+import { KB_FILTER_TOOL_PROPERTIES, KbSearchType, metadataFilterFromToolInput, RetrievalFilter } from "@/lib/retrieval/filters";
 
 // Let AWS SDK resolve credentials from the environment/role (no custom AWS_* vars needed)
 const bedrock = new BedrockRuntimeClient({
@@ -18,6 +22,8 @@ const bedrock = new BedrockRuntimeClient({
   },
 });
 
+const US_ONLY_MESSAGE = "Our service is currently available only within the United States. For trips outside the US or for custom arrangements, please contact us for more details.";
+
 // Helper to create a Salesforce vendor link
 function formatVendorLink(vendorId: string | null | undefined): string {
   if (!vendorId || vendorId === "null" || vendorId === "No Vendor Assigned") {
@@ -75,7 +81,7 @@ CAPABILITIES:
 OUT-OF-SCOPE / NON-US LOCATIONS:
 - Our service and data cover **only trips within the United States**.
 - If the user asks about routes, cities, or locations **outside the US** (e.g., Hyderabad, Vizag, London, Dubai, any non-US city or country), do NOT call search_vendor_history.
-- Reply with this standard message only: "Our service is currently available only within the United States. For trips outside the US or for custom arrangements, please contact us for more details."
+- Reply with this standard message only: "${US_ONLY_MESSAGE}"
 - Do not guess prices, make up routes, or suggest alternatives for non-US locations. Keep the response to that standard message.
 
 KNOWLEDGE BASE DATA STRUCTURE:
@@ -103,6 +109,8 @@ RESPONSE FORMAT:
 
 TOOLS AVAILABLE:
 - search_vendor_history: Search the knowledge base for trip and vendor information
+  - Optional filters: state (two-letter codes), date_from / date_to (YYYY-MM-DD or a year). Use them when the user restricts by state or time, e.g. "only trips after 2023" -> date_from "2024"
+  - search_type "HYBRID" helps when the query contains exact IDs, quote numbers or vendor IDs
 
 CRITICAL FORMAT RULE:
 - Whenever you need structured information about trips, vendors, or prices, you SHOULD call the tool \"search_vendor_history\" and then format the final answer as markdown tables as described above. Do NOT invent tables that don't align with the retrieved data.
@@ -126,7 +134,11 @@ const TOOLS: Tool[] = [
             query: { 
               type: "string", 
               description: "Search query. Examples: 'CI to Sacramento', 'trips for vendor X', 'all trips to French Village', 'vendor history', 'pricing for Sacramento trips'" 
-            }
+            },
+            state: KB_FILTER_TOOL_PROPERTIES.state,
+            date_from: KB_FILTER_TOOL_PROPERTIES.date_from,
+            date_to: KB_FILTER_TOOL_PROPERTIES.date_to,
+            search_type: KB_FILTER_TOOL_PROPERTIES.search_type
           },
           required: ["query"]
         }
@@ -135,31 +147,25 @@ const TOOLS: Tool[] = [
   }
 ];
 
-async function queryKnowledgeBase(kbId: string, query: string) {
+async function queryKnowledgeBase(
+  kbId: string,
+  query: string,
+  options: { filter?: RetrievalFilter; searchType?: KbSearchType } = {}
+) {
   try {
-    const { BedrockAgentRuntimeClient, RetrieveCommand } = await import("@aws-sdk/client-bedrock-agent-runtime");
-    const agentRuntime = new BedrockAgentRuntimeClient({
-      region: process.env.AWS_REGION || "us-east-1",
-      credentials: {
-        accessKeyId: process.env.NEXT_PUBLIC_AWS_ACCESS_KEY_ID || process.env.AWS_ACCESS_KEY_ID || "",
-        secretAccessKey: process.env.NEXT_PUBLIC_AWS_SECRET_ACCESS_KEY || process.env.AWS_SECRET_ACCESS_KEY || "",
-      },
-    });
-
-    const cmd = new RetrieveCommand({
+    const results = await cachedRetrieve({
       knowledgeBaseId: kbId,
-      retrievalQuery: { text: query },
-      retrievalConfiguration: {
-        vectorSearchConfiguration: { numberOfResults: 10 }
-      }
+      query,
+      numberOfResults: 10,
+      filter: options.filter,
+      searchType: options.searchType
     });
 
-    const response = await agentRuntime.send(cmd);
-    const results = response.retrievalResults || [];
-
     console.log("🔍 Vendor KB query", {
       kbId,
       query,
+      filtered: !!options.filter,
+      searchType: options.searchType || "default",
       resultCount: results.length,
     });
     
@@ -305,8 +311,12 @@ async function queryKnowledgeBase(kbId: string, query: string) {
 async function handleToolCall(toolName: string, toolInput: any) {
   switch (toolName) {
     case "search_vendor_history":
+      const { scope, nonUsPlaces } = classifyLocation(toolInput.query);
+      if (scope === "non_us") {
+        return `Not searched: "${nonUsPlaces[0]}" is outside the United States. Reply with the standard message: "${US_ONLY_MESSAGE}"`;
+      }
       const vendorHistoryKbId = process.env.VENDOR_HISTORY_KB_ID || "SDHWVT8JMB";
-      const results = await queryKnowledgeBase(vendorHistoryKbId, toolInput.query);
+      const results = await queryKnowledgeBase(vendorHistoryKbId, toolInput.query, metadataFilterFromToolInput(toolInput));
       
       // Parse results and provide summary
       try {
@@ -417,8 +427,6 @@ async function handleToolCall(toolName: string, toolInput: any) {
 }
 
 export async function POST(req: NextRequest) {
-  const encoder = new TextEncoder();
-
   try {
     const body = await req.json();
     const { messages } = body;
@@ -429,6 +437,8 @@ export async function POST(req: NextRequest) {
 
     const stream = new ReadableStream({
       async start(controller) {
+        const emit = (event: AgentEvent) => controller.enqueue(encodeAgentEvent(event));
+
         try {
           // Convert incoming messages to proper Message[] type
           let conversationMessages: Message[] = messages.map((msg: any) => ({
@@ -436,6 +446,13 @@ export async function POST(req: NextRequest) {
             content: [{ text: msg.content }] as ContentBlock[]
           }));
 
+          // Non-US requests get the standard reply without a model call
+          const latestUserMessage = [...messages].reverse().find((msg: any) => msg.role === "user");
+          if (classifyLocation(latestUserMessage?.content).scope === "non_us") {
+            emit({ type: "text_delta", text: US_ONLY_MESSAGE });
+            return;
+          }
+
           let continueLoop = true;
           let maxIterations = 5;
           let iteration = 0;
@@ -461,9 +478,8 @@ export async function POST(req: NextRequest) {
             const response = await bedrock.send(command);
 
             if (!response.stream) {
-              controller.enqueue(encoder.encode("Error: No stream available\n"));
-              controller.close();
-              return;
+              emit({ type: "error", message: "No stream available" });
+              break;
             }
 
             let currentToolUse: any = null;
@@ -475,7 +491,7 @@ export async function POST(req: NextRequest) {
               if (event.contentBlockDelta?.delta?.text) {
                 const text = event.contentBlockDelta.delta.text;
                 fullText += text;
-                controller.enqueue(encoder.encode(text));
+                emit({ type: "text_delta", text });
               }
 
               // Capture tool use start
@@ -510,6 +526,16 @@ export async function POST(req: NextRequest) {
                 currentToolUse = null;
               }
 
+              // Token usage for this model call
+              if (event.metadata?.usage) {
+                emit({
+                  type: "usage",
+                  inputTokens: event.metadata.usage.inputTokens || 0,
+                  outputTokens: event.metadata.usage.outputTokens || 0,
+                  totalTokens: event.metadata.usage.totalTokens || 0
+                });
+              }
+
               // Message stop
               if (event.messageStop) {
                 continueLoop = false;
@@ -538,15 +564,20 @@ export async function POST(req: NextRequest) {
               for (const tc of toolCalls) {
                 if (!tc.toolUse) continue;
                 
-                const toolName = tc.toolUse.name;
+                const toolName = tc.toolUse.name || "";
                 const toolInput = tc.toolUse.input;
-                const toolUseId = tc.toolUse.toolUseId;
+                const toolUseId = tc.toolUse.toolUseId || "";
+
+                emit({ type: "tool_call", toolUseId, name: toolName, input: toolInput });
+                const result = await handleToolCall(toolName, toolInput);
+                const status = result === "Unknown tool" ? "error" : "success";
+                emit({ type: "tool_result", toolUseId, name: toolName, status, content: result });
 
-                const result = await handleToolCall(toolName || "", toolInput);
                 toolResults.push({
                   toolResult: {
-                    toolUseId: toolUseId || "",
-                    content: [{ text: result }]
+                    toolUseId,
+                    content: [{ text: result }],
+                    status
                   }
                 } as ContentBlock);
               }
@@ -559,11 +590,11 @@ export async function POST(req: NextRequest) {
               continueLoop = false;
             }
           }
-
-          controller.close();
         } catch (error) {
           console.error("Stream processing error:", error);
-          controller.enqueue(encoder.encode("\n\nError: Unable to process request."));
+          emit({ type: "error", message: "Unable to process request." });
+        } finally {
+          emit({ type: "done" });
           controller.close();
         }
       }
@@ -571,7 +602,7 @@ export async function POST(req: NextRequest) {
 
     return new Response(stream, {
       headers: {
-        "Content-Type": "text/plain; charset=utf-8",
+        "Content-Type": AGENT_EVENT_CONTENT_TYPE,
         "Transfer-Encoding": "chunked",
         "Cache-Control": "no-cache",
         "Connection": "keep-alive"
@@ -0,0 +1,41 @@
+import { randomUUID } from "node:crypto"
+import { type NextRequest, NextResponse } from "next/server"
+import {
+  getVoiceTokenSecret,
+  signVisitorCookie,
+  signVoiceToken,
+  verifyVisitorCookie,
+  VOICE_VISITOR_COOKIE,
+  VOICE_VISITOR_COOKIE_MAX_AGE_SECONDS,
+} from "@/lib/voice/auth"
+
+export const dynamic = "force-dynamic"
+
+// 🔑 Short-lived token for opening a socket to the voice server (src/server.ts).
+// The token's subject is this browser's visitor id, kept in a signed HttpOnly
+// cookie that is set on the first request; the voice server counts its
+// per-user connection and stream-minute limits against it.
+export async function POST(req: NextRequest) {
+  if (!getVoiceTokenSecret()) {
+    console.error("❌ VOICE_TOKEN_SECRET is not set; cannot issue voice tokens")
+    return NextResponse.json({ error: "Voice tokens are not configured" }, { status: 503 })
+  }
+
+  const known = verifyVisitorCookie(req.cookies.get(VOICE_VISITOR_COOKIE)?.value)
+  const visitorId = known ?? randomUUID()
+  const { token, claims } = signVoiceToken(`visitor:${visitorId}`)
+  const res = NextResponse.json(
+    { token, expiresAt: new Date(claims.exp * 1000).toISOString() },
+    { headers: { "Cache-Control": "no-store" } },
+  )
+  if (!known) {
+    res.cookies.set(VOICE_VISITOR_COOKIE, signVisitorCookie(visitorId), {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      path: "/",
+      maxAge: VOICE_VISITOR_COOKIE_MAX_AGE_SECONDS,
+    })
+  }
+  return res
+}
@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server"
+import { isAdminRequest } from "@/lib/admin-auth"
+import { getVoiceTranscriptStore } from "@/lib/voice/store"
+
+export const dynamic = "force-dynamic"
+
+/**
+ * GET → Full transcript of one voice session: every turn with its text, timestamps and tool calls. Admin only.
+ */
+export async function GET(req: Request, { params }: { params: { id: string } }) {
+  if (!isAdminRequest(req)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  const { id } = params
+  try {
+    const transcript = await getVoiceTranscriptStore().get(id)
+    if (!transcript) return NextResponse.json({ error: "Transcript not found" }, { status: 404 })
+    return NextResponse.json(transcript)
+  } catch (err: any) {
+    console.error("❌ Error reading voice transcript:", err)
+    return NextResponse.json({ error: err.message }, { status: 500 })
+  }
+}
@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server"
+import { isAdminRequest } from "@/lib/admin-auth"
+import { getVoiceTranscriptStore, VoiceTranscriptQuery } from "@/lib/voice/store"
+
+export const dynamic = "force-dynamic"
+
+// 🎙️ Voice session transcripts for the admin panel: GET ?agentType=&userId=&limit=&cursor=
+// Returns a page of summaries (newest first) and the cursor of the next page;
+// the full transcript is at /api/voice-transcripts/[id]. Admin only.
+export async function GET(req: Request) {
+  if (!isAdminRequest(req)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  const params = new URL(req.url).searchParams
+  const query: VoiceTranscriptQuery = {}
+  const agentType = params.get("agentType")
+  const userId = params.get("userId")
+  const limit = Number(params.get("limit"))
+  const cursor = params.get("cursor")
+  if (agentType === "retrieval" || agentType === "booking") query.agentType = agentType
+  if (userId) query.userId = userId
+  if (limit > 0) query.limit = limit
+  if (cursor) query.cursor = cursor
+
+  try {
+    const { transcripts, nextCursor } = await getVoiceTranscriptStore().list(query)
+    return NextResponse.json({ transcripts, nextCursor })
+  } catch (err: any) {
+    console.error("❌ Error listing voice transcripts:", err)
+    return NextResponse.json({ error: err.message }, { status: 500 })
+  }
+}
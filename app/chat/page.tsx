@@ -1,7 +1,7 @@
 "use client"
 
 import { cn } from "@/lib/utils"
-import { useEffect, useMemo, useRef, useState } from "react"
+import { useEffect, useRef, useState } from "react"
 import type React from "react"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
@@ -9,6 +9,11 @@ import { Avatar, AvatarFallback } from "@/components/ui/avatar"
 import { Skeleton } from "@/components/ui/skeleton"
 import { Checkbox } from "@/components/ui/checkbox"
 import { useSpeechRecognition } from "@/hooks/use-speech-recognition"
+import { readAgentEvents } from "@/lib/agent-events"
+import type { BookingState, ItineraryLeg } from "@/lib/booking/state"
+import { FareEstimate, formatCurrency } from "@/lib/pricing/estimate"
+import { AnswerFeedback } from "@/components/answer-feedback"
+import type { FeedbackToolResult } from "@/lib/feedback/store"
 
 // ---------------- Utility functions ---------------- //
 
@@ -21,6 +26,7 @@ type Message = {
   id: string
   role: "user" | "assistant"
   content: string
+  toolResults?: FeedbackToolResult[]
 }
 
 function normalizeText(text: string) {
@@ -35,327 +41,14 @@ function sanitizeAssistantOutput(text: string) {
   return text.replace(/<\/sources>/gi, "")
 }
 
-// Extract phone number from text - handles 8-10 digit numbers
-function extractPhoneNumber(text: string): string | null {
-  // First try standard format: (123) 456-7890, 123-456-7890, etc.
-  const standardMatch = text.match(/(\+?1[-.\s]?)?\(?([0-9]{3})\)?[-.\s]?([0-9]{3})[-.\s]?([0-9]{4})\b/);
-  if (standardMatch) {
-    const digits = standardMatch[2] + standardMatch[3] + standardMatch[4];
-    if (digits.length === 10) return digits;
+// Customer-facing summary of a fare estimate for a saved booking
+function describeFareEstimate(estimate: FareEstimate): string {
+  if (estimate.status !== "estimated" || estimate.estimate === null || estimate.low === null || estimate.high === null) {
+    return "I couldn't find pricing information for similar trips at this time. Our sales team will provide you with a detailed quote soon."
   }
-  
-  // Also match any sequence of 8-10 digits (for numbers like 766823932)
-  const digitSequence = text.match(/\b(\d{8,10})\b/);
-  if (digitSequence) {
-    const digits = digitSequence[1];
-    // Exclude if it's part of a date, year, or other common number patterns
-    if (digits.length >= 8 && digits.length <= 10) {
-      // Don't match if it looks like a year (1900-2099)
-      if (digits.length === 4 && parseInt(digits) >= 1900 && parseInt(digits) <= 2099) {
-        return null;
-      }
-      return digits;
-    }
-  }
-  
-  return null;
-}
-
-// Extract booking details from conversation messages
-function extractBookingDetails(messages: Message[]): {
-  num_passengers?: number
-  pickup_location?: string
-  dropoff_location?: string
-  trip_direction?: string
-} {
-  const details: any = {}
-  
-  // Look through messages to extract booking info
-  for (const msg of messages) {
-    const content = msg.content.toLowerCase()
-    
-    // Extract passenger count
-    if (!details.num_passengers) {
-      const passengerMatch = content.match(/(\d+)\s*(people|passengers?|persons?|pax)/);
-      if (passengerMatch) {
-        details.num_passengers = parseInt(passengerMatch[1]);
-      }
-    }
-    
-    // Extract pickup and dropoff locations
-    if (!details.pickup_location || !details.dropoff_location) {
-      const fromToMatch = content.match(/from\s+([^to]+)\s+to\s+(.+?)(?:\s+this|\s+on|\s+for|\s+\d|$)/i);
-      if (fromToMatch) {
-        if (!details.pickup_location) details.pickup_location = fromToMatch[1].trim();
-        if (!details.dropoff_location) details.dropoff_location = fromToMatch[2].trim();
-      }
-    }
-    
-    // Extract trip direction
-    if (!details.trip_direction) {
-      if (content.includes('round trip') || content.includes('return')) {
-        details.trip_direction = 'return';
-      } else if (content.includes('one-way') || content.includes('one way')) {
-        details.trip_direction = 'one-way';
-      }
-    }
-  }
-  
-  return details;
-}
-
-// Check if booking is completed
-function isBookingCompleted(text: string): boolean {
-  const normalized = normalizeText(text);
-  const completionPhrases = [
-    'booking saved',
-    'booking confirmed',
-    'booking has been logged',
-    'booking has been successfully saved',
-    'booking has been',
-    'booking is confirmed',
-    'all set',
-    'your booking has been saved',
-    'booking saved successfully',
-    'saved successfully',
-    'booking complete',
-    'booking is complete',
-    'your booking is complete',
-    'i\'ll save your booking',
-    'booking has been submitted',
-    'successfully saved',
-    'your trip has been booked',
-    'trip has been booked'
-  ];
-  return completionPhrases.some(phrase => normalized.includes(phrase));
-}
-
-// Extract price from retrieve mode answer - returns text up to and including the price
-function extractPriceFromAnswer(text: string): string {
-  // More comprehensive price patterns to match various formats:
-  // - $1,234.56, $1234.56, $1,234, $1234
-  // - USD 1,234.56, USD$1,234.56
-  // - 1,234.56 dollars, 1234 dollars
-  // - prices with ranges: $1,000-$2,000
-  const pricePatterns = [
-    /\$[\d,]+(?:\.\d{2})?/,  // $1,234.56 or $1234.56
-    /USD\s*\$?[\d,]+(?:\.\d{2})?/i,  // USD $1,234 or USD$1,234
-    /[\d,]+(?:\.\d{2})?\s*(?:dollars?|USD)/i,  // 1,234.56 dollars
-    /\$[\d,]+(?:\.\d{2})?\s*-\s*\$[\d,]+(?:\.\d{2})?/,  // $1,000-$2,000
-    /\$[\d,]+(?:\.\d{2})?\s*to\s*\$[\d,]+(?:\.\d{2})?/i,  // $1,000 to $2,000
-  ];
-  
-  let priceMatch: RegExpMatchArray | null = null;
-  let priceIndex = -1;
-  
-  // Try each pattern to find the first price
-  for (const pattern of pricePatterns) {
-    const match = text.match(pattern);
-    if (match) {
-      const index = text.indexOf(match[0]);
-      if (priceIndex === -1 || index < priceIndex) {
-        priceMatch = match;
-        priceIndex = index;
-      }
-    }
-  }
-  
-  // If no price found with patterns, look for price-related keywords and extract surrounding text
-  if (!priceMatch) {
-    const priceKeywords = [
-      /(?:estimated?\s+)?(?:price|cost|rate|fee|charge)(?:\s+is|\s+of|\s+for)?\s*:?\s*\$?[\d,]+(?:\.\d{2})?/i,
-      /\$?[\d,]+(?:\.\d{2})?\s*(?:per\s+)?(?:person|trip|ride|booking|passenger)/i,
-    ];
-    
-    for (const keywordPattern of priceKeywords) {
-      const match = text.match(keywordPattern);
-      if (match) {
-        priceMatch = match;
-        priceIndex = text.indexOf(match[0]);
-        break;
-      }
-    }
-  }
-  
-  // If still no price found, look for price-related keywords and extract surrounding text
-  if (!priceMatch || priceIndex === -1) {
-    // Check if text mentions price/estimate/cost
-    const priceMentionPattern = /(?:price|estimate|cost|rate|fee|charge)/i;
-    const priceMention = text.match(priceMentionPattern);
-    
-    if (priceMention) {
-      const mentionIndex = text.indexOf(priceMention[0]);
-      // Extract text from the mention onwards, up to 500 characters or until a table
-      // This gives us more room to find the price even if it's on a new line
-      let extracted = text.substring(mentionIndex);
-      
-      // Look for tables and stop before them
-      const tableIndex = extracted.indexOf('|');
-      if (tableIndex !== -1 && tableIndex < 500) {
-        extracted = extracted.substring(0, tableIndex);
-      } else {
-        // Take up to 500 characters after the mention to ensure we capture price on next line
-        extracted = extracted.substring(0, Math.min(500, extracted.length));
-      }
-      
-      // Try to find a price in this extracted portion (including after newlines)
-      for (const pattern of pricePatterns) {
-        const match = extracted.match(pattern);
-        if (match) {
-          // Found a price! Extract up to and including it
-          const pricePos = extracted.indexOf(match[0]);
-          let result = extracted.substring(0, pricePos + match[0].length);
-          
-          // Include sentence ending if close
-          const afterPrice = extracted.substring(pricePos + match[0].length);
-          const sentenceEnd = afterPrice.match(/^[^.!?\n]{0,50}[.!?]/);
-          if (sentenceEnd) {
-            result += afterPrice.substring(0, sentenceEnd.index! + sentenceEnd[0].length);
-          }
-          
-          return result.trim();
-        }
-      }
-      
-      // No price found in extracted portion - check if text ends with colon (price might be on next line)
-      // In this case, return the full extracted text up to table
-      const lines = extracted.split('\n');
-      const cleanLines: string[] = [];
-      for (const line of lines) {
-        if (line.trim().startsWith('|')) break;
-        if (line.trim().match(/^[\|\s\-:]+$/)) break;
-        cleanLines.push(line);
-        // If we hit a line that looks like it might have a price, include a bit more
-        if (line.match(/[\d,]+/)) {
-          // This line has numbers, might be price-related, include it
-        }
-      }
-      const result = cleanLines.join('\n').trim();
-      // If result ends with colon, try to include next line if it has numbers
-      if (result.endsWith(':') && lines.length > cleanLines.length) {
-        const nextLine = lines[cleanLines.length];
-        if (nextLine && (nextLine.match(/\$[\d,]+/) || nextLine.match(/[\d,]+/))) {
-          return (result + '\n' + nextLine).trim();
-        }
-      }
-      return result;
-    }
-    
-    // No price mention found, look for tables and return text before them
-    const tableIndex = text.indexOf('|');
-    if (tableIndex !== -1) {
-      return text.substring(0, tableIndex).trim();
-    }
-    // Return first 500 characters if no table found
-    return text.substring(0, 500).trim();
-  }
-  
-  // Extract text up to and including the price
-  let extractedText = text.substring(0, priceIndex + priceMatch[0].length);
-  
-  // Check if there's a sentence ending (period, exclamation, question mark) shortly after the price
-  const afterPrice = text.substring(priceIndex + priceMatch[0].length);
-  const sentenceEndMatch = afterPrice.match(/^[^.!?\n]{0,100}[.!?]/);
-  
-  if (sentenceEndMatch) {
-    // Include the sentence ending
-    extractedText += afterPrice.substring(0, sentenceEndMatch.index! + sentenceEndMatch[0].length);
-  } else {
-    // If no sentence ending, look for a newline or stop at first table marker
-    const newlineIndex = afterPrice.indexOf('\n');
-    if (newlineIndex !== -1 && newlineIndex < 150) {
-      // Check if the next line starts a table
-      const nextLine = afterPrice.substring(newlineIndex + 1).split('\n')[0];
-      if (nextLine.trim().startsWith('|')) {
-        // Stop before the table
-        extractedText += afterPrice.substring(0, newlineIndex);
-      } else {
-        // Include up to the newline if it's close (but check if price continues on next line)
-        // If next line also has a price pattern, include it
-        const nextLinePrice = nextLine.match(/\$[\d,]+(?:\.\d{2})?/);
-        if (nextLinePrice) {
-          // Price continues on next line, include it
-          extractedText += afterPrice.substring(0, newlineIndex + 1 + nextLinePrice.index! + nextLinePrice[0].length);
-        } else {
-          // Just include up to the newline
-          extractedText += afterPrice.substring(0, newlineIndex);
-        }
-      }
-    } else if (newlineIndex === -1) {
-      // If no newline, include up to 100 characters after price
-      extractedText += afterPrice.substring(0, Math.min(100, afterPrice.length));
-    }
-  }
-  
-  // Remove any tables or markdown content that might have been included
-  const lines = extractedText.split('\n');
-  const resultLines: string[] = [];
-  
-  for (const line of lines) {
-    // Stop if we encounter a table marker
-    if (line.trim().startsWith('|') && line.trim().endsWith('|')) {
-      break;
-    }
-    // Stop if we encounter markdown table separator
-    if (line.trim().match(/^[\|\s\-:]+$/)) {
-      break;
-    }
-    resultLines.push(line);
-  }
-  
-  return resultLines.join('\n').trim();
-}
-
-// Extract booking agent pricing answer - shows full answer but cuts off at "Based on X similar historical trips:" or tables
-function extractBookingPricingAnswer(text: string): string {
-  // Look for the cutoff pattern: "Based on X similar historical trips:" where X is any number
-  const cutoffPattern = /Based on \d+ similar historical trips?:/i;
-  const cutoffMatch = text.match(cutoffPattern);
-  
-  let cutoffIndex = -1;
-  
-  if (cutoffMatch) {
-    cutoffIndex = text.indexOf(cutoffMatch[0]);
-  }
-  
-  // Also check for table markers
-  const tableIndex = text.indexOf('|');
-  
-  // Determine the earliest cutoff point
-  let finalCutoffIndex = text.length;
-  
-  if (cutoffIndex !== -1) {
-    finalCutoffIndex = Math.min(finalCutoffIndex, cutoffIndex);
-  }
-  
-  if (tableIndex !== -1) {
-    finalCutoffIndex = Math.min(finalCutoffIndex, tableIndex);
-  }
-  
-  // Extract text up to the cutoff point
-  let extracted = text.substring(0, finalCutoffIndex).trim();
-  
-  // Also check line by line to stop at the line containing the cutoff pattern
-  const lines = extracted.split('\n');
-  const resultLines: string[] = [];
-  
-  for (const line of lines) {
-    // Stop if this line contains the cutoff pattern
-    if (cutoffPattern.test(line)) {
-      break;
-    }
-    // Stop if we encounter a table marker
-    if (line.trim().startsWith('|') && line.trim().endsWith('|')) {
-      break;
-    }
-    // Stop if we encounter markdown table separator
-    if (line.trim().match(/^[\|\s\-:]+$/)) {
-      break;
-    }
-    resultLines.push(line);
-  }
-  
-  return resultLines.join('\n').trim();
+  const trips = `${estimate.recordsUsed.length} similar historical trip${estimate.recordsUsed.length === 1 ? "" : "s"}`
+  const days = estimate.days > 1 ? ` over ${estimate.days} days` : ""
+  return `Based on ${trips}, the estimated price for ${estimate.passengers} passengers${days} is **${formatCurrency(estimate.estimate)}** (typically ${formatCurrency(estimate.low)}–${formatCurrency(estimate.high)}). Our sales team will confirm the final quote.`
 }
 
 // ---------------- Markdown Renderer ---------------- //
@@ -642,6 +335,53 @@ function SMSConsentCheckbox({
   )
 }
 
+// ---------------- Booking Summary ---------------- //
+
+function formatLegDate(leg: ItineraryLeg) {
+  const date = new Date(`${leg.date}T00:00:00Z`).toLocaleDateString("en-US", {
+    timeZone: "UTC",
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+  })
+  return leg.time ? `${date}, ${leg.time}` : date
+}
+
+function BookingSummary({ booking }: { booking: BookingState }) {
+  const legs: ItineraryLeg[] = booking.legs ?? (
+    booking.pickup_location && booking.dropoff_location && booking.service_date
+      ? [{ date: booking.service_date, time: booking.departure_time, stops: [booking.pickup_location, booking.dropoff_location], notes: null }]
+      : []
+  )
+  if (legs.length === 0) return null
+
+  return (
+    <div className="mb-4 rounded-lg border border-border bg-background px-4 py-3 text-sm">
+      <div className="mb-2 flex items-center justify-between">
+        <span className="font-medium text-foreground">Your trip</span>
+        <span className="text-muted-foreground">
+          {booking.num_passengers ? `${booking.num_passengers} passengers` : booking.group_size_category ? `${booking.group_size_category} group` : ""}
+        </span>
+      </div>
+      <ol className="space-y-1">
+        {legs.map((leg, index) => (
+          <li key={index} className="flex gap-2">
+            {legs.length > 1 && <span className="shrink-0 text-muted-foreground">Leg {index + 1}</span>}
+            <span className="shrink-0 text-muted-foreground">{formatLegDate(leg)}</span>
+            <span className="text-foreground">{leg.stops.join(" → ")}</span>
+          </li>
+        ))}
+        {!booking.legs && booking.trip_direction === "return" && booking.return_date && (
+          <li className="flex gap-2">
+            <span className="shrink-0 text-muted-foreground">Return {booking.return_date}{booking.return_time ? `, ${booking.return_time}` : ""}</span>
+            <span className="text-foreground">{booking.dropoff_location} → {booking.pickup_location}</span>
+          </li>
+        )}
+      </ol>
+    </div>
+  )
+}
+
 // ---------------- Pricing Loading Component ---------------- //
 
 function PricingLoadingMessage() {
@@ -666,15 +406,27 @@ function PricingLoadingMessage() {
 
 // ---------------- MessageList ---------------- //
 
+// The user message an assistant answer replied to
+function requestFor(messages: Message[], index: number) {
+  for (let i = index - 1; i >= 0; i--) {
+    if (messages[i].role === "user") return messages[i].content
+  }
+  return ""
+}
+
 function MessageList({ 
   messages, 
   loading, 
   fetchingPricing,
-  onSMSConsent 
+  phoneNumber,
+  onSMSConsent,
+  sessionId
 }: { 
   messages: Message[]
   loading?: boolean
+  sessionId: string
   fetchingPricing?: boolean
+  phoneNumber?: string | null
   onSMSConsent?: (consented: boolean, phoneNumber: string) => void
 }) {
   const bottomRef = useRef<HTMLDivElement | null>(null)
@@ -684,25 +436,11 @@ function MessageList({
   
   useEffect(() => bottomRef.current?.scrollIntoView({ behavior: "smooth" }), [messages, loading])
   
-  // Detect phone numbers and show checkbox immediately after phone number is shared
+  // Show the checkbox as soon as the agent has recorded a valid phone number
   useEffect(() => {
-    // Find the most recent user message with a phone number
-    let phoneNumberValue: string | null = null
-    
-    for (let i = messages.length - 1; i >= 0; i--) {
-      const msg = messages[i]
-      if (msg.role === "user") {
-        const phone = extractPhoneNumber(msg.content)
-        if (phone) {
-          phoneNumberValue = phone
-          break
-        }
-      }
-    }
-    
     // Update detected phone number and reset consent
-    if (phoneNumberValue && phoneNumberValue !== phoneNumberDetected) {
-      setPhoneNumberDetected(phoneNumberValue)
+    if (phoneNumber && phoneNumber !== phoneNumberDetected) {
+      setPhoneNumberDetected(phoneNumber)
       setConsentSubmitted(false)
       // Immediately find the most recent assistant message to show checkbox
       for (let i = messages.length - 1; i >= 0; i--) {
@@ -725,7 +463,7 @@ function MessageList({
         }
       }
     }
-  }, [messages, phoneNumberDetected, consentSubmitted, assistantMessageIdForConsent])
+  }, [messages, phoneNumber, phoneNumberDetected, consentSubmitted, assistantMessageIdForConsent])
   
   const handleConsentChange = (consented: boolean) => {
     if (phoneNumberDetected && onSMSConsent && !consentSubmitted) {
@@ -736,7 +474,7 @@ function MessageList({
   
   return (
     <div className="flex flex-col gap-4">
-      {messages.map((m) => {
+      {messages.map((m, index) => {
         const showConsentCheckbox = 
           m.role === "assistant" && 
           m.id === assistantMessageIdForConsent && 
@@ -763,6 +501,16 @@ function MessageList({
                   onConsentChange={handleConsentChange}
                 />
               )}
+              {m.role === "assistant" && m.id !== "welcome" && !(loading && index === messages.length - 1) && (
+                <AnswerFeedback
+                  agent="booking"
+                  sessionId={sessionId}
+                  messageId={m.id}
+                  request={requestFor(messages, index)}
+                  response={m.content}
+                  toolResults={m.toolResults}
+                />
+              )}
             </div>
             {m.role === "user" && (
               <Avatar className="size-8 shrink-0">
@@ -960,39 +708,10 @@ export default function ChatPage() {
   ])
   const [loading, setLoading] = useState(false)
   const [fetchingPricing, setFetchingPricing] = useState(false)
-  const [hasSentFirstMessage, setHasSentFirstMessage] = useState(false)
+  const [bookingState, setBookingState] = useState<BookingState | null>(null)
   const [bookingCompleted, setBookingCompleted] = useState(false)
   const mode: "booking" = "booking"
 
-  // Monitor messages for booking completion
-  useEffect(() => {
-    if (bookingCompleted || loading || fetchingPricing) return
-    
-    // Check all assistant messages for booking completion
-    for (let i = messages.length - 1; i >= 0; i--) {
-      const msg = messages[i]
-      if (msg.role === "assistant" && msg.id !== "welcome" && isBookingCompleted(msg.content)) {
-        setBookingCompleted(true)
-        // Use setTimeout to avoid dependency issues
-        setTimeout(() => {
-          fetchPricingEstimate(messages)
-        }, 100)
-        break
-      }
-    }
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [messages, bookingCompleted, loading, fetchingPricing])
-
-  const invisibleContext = useMemo(() => {
-    if (typeof window === "undefined") return ""
-    const now = new Date()
-    const locale = typeof navigator !== "undefined" ? navigator.language : "en-US"
-    const timeString = now.toLocaleString(locale, { dateStyle: "full", timeStyle: "short" })
-    const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone?.replace(/_/g, " ")
-    const locationDescription = timeZone ? `${timeZone}` : "an unknown location"
-    return `Context (hidden from the user): The local time is ${timeString}, and the approximate location based on timezone is ${locationDescription}.`
-  }, [])
-
   const triggerPhrases = [
     "let me look for pricing for similar trips",
     "our sales team will contact you soon to confirm final details",
@@ -1005,67 +724,25 @@ export default function ChatPage() {
     await send(consentText)
   }
 
-  const fetchPricingEstimate = async (conversationMessages: Message[]) => {
+  const fetchPricingEstimate = async (booking: BookingState) => {
     try {
       setFetchingPricing(true)
       
       // Note: Loading UI is handled by fetchingPricing state, no need for message
 
-      // Extract booking details
-      const bookingDetails = extractBookingDetails(conversationMessages)
-      
-      // Build pricing query
-      const queryParts: string[] = []
-      if (bookingDetails.num_passengers) {
-        queryParts.push(`${bookingDetails.num_passengers} passengers`)
-      }
-      if (bookingDetails.pickup_location) {
-        queryParts.push(`from ${bookingDetails.pickup_location}`)
-      }
-      if (bookingDetails.dropoff_location) {
-        queryParts.push(`to ${bookingDetails.dropoff_location}`)
-      }
-      if (bookingDetails.trip_direction) {
-        queryParts.push(bookingDetails.trip_direction)
-      }
-      
-      const pricingQuery = queryParts.length > 0 
-        ? `What is the estimated price for a trip with ${queryParts.join(', ')}?`
-        : "What is the estimated price for this trip?"
-
-      // Call retrieve agent
-      const res = await fetch("/api/bedrock-agent", {
+      // Price the saved booking with the fare engine
+      const res = await fetch("/api/pricing/estimate", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          input: pricingQuery,
-          sessionId: `${sessionId}-pricing`,
-          mode: "retrieve",
-        }),
+        body: JSON.stringify({ booking }),
       })
 
-      if (!res.ok || !res.body) {
+      if (!res.ok) {
         throw new Error(`Pricing request failed: ${res.status}`)
       }
 
-      const reader = res.body.getReader()
-      const decoder = new TextDecoder()
-      let pricingText = ""
-
-      while (true) {
-        const { done, value } = await reader.read()
-        if (done) break
-        if (value) {
-          pricingText += decoder.decode(value, { stream: true })
-        }
-      }
-
-      // Extract booking pricing answer (shows full answer but cuts off at "Based on X similar historical trips:" or tables)
-      const extractedPricing = extractBookingPricingAnswer(pricingText)
-      
-      // Debug: log the full response to help troubleshoot
-      console.log("📊 Full pricing response:", pricingText)
-      console.log("💰 Extracted pricing answer:", extractedPricing)
+      const estimate: FareEstimate = await res.json()
+      console.log("📊 Fare estimate:", estimate)
 
       // Add pricing result
       setMessages((prev) => [
@@ -1073,7 +750,9 @@ export default function ChatPage() {
         {
           id: `${Date.now()}-pricing`,
           role: "assistant",
-          content: extractedPricing || "I couldn't find pricing information for similar trips at this time.",
+          content: describeFareEstimate(estimate),
+          // So a thumbs-down on the price points reviewers at the estimate and the records behind it
+          toolResults: [{ name: "fare_estimate", input: { booking }, status: "success", content: JSON.stringify(estimate) }],
         },
       ])
     } catch (error) {
@@ -1095,33 +774,19 @@ export default function ChatPage() {
     if (loading) return
     const userMsg: Message = { id: `${Date.now()}-u`, role: "user", content: text }
     
-    // ✅ CRITICAL FIX: Build the full conversation history
-    const updatedMessages = [...messages, userMsg]
-    setMessages(updatedMessages)
+    setMessages((prev) => [...prev, userMsg])
     setLoading(true)
 
     const msgId = `${Date.now()}-a`
 
     try {
-      const payload =
-        hasSentFirstMessage || !invisibleContext
-          ? text
-          : `${invisibleContext}\n\n${text}`
-
       // 🚐 Booking Agent (Converse + tools)
-      // ✅ CRITICAL FIX: Convert ALL messages to the format the backend expects
+      // The server keeps the conversation history for this session, so only the new turn is sent
       const endpoint = "/api/bedrock-booking-agent";
-      
-      // Convert the full message history (excluding the welcome message)
-      const conversationHistory = updatedMessages
-        .filter(m => m.id !== "welcome") // Exclude welcome message
-        .map(m => ({
-          role: m.role,
-          content: m.content
-        }));
-      
       const body = {
-        messages: conversationHistory // Send FULL history
+        sessionId,
+        message: text,
+        timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
       };
       
       console.log("📤 Sending to backend:", JSON.stringify(body, null, 2));
@@ -1141,57 +806,59 @@ export default function ChatPage() {
         throw new Error("No response body received from server")
       }
       
-      const reader = res.body.getReader()
-      const decoder = new TextDecoder()
       let fullText = ""
+      let savedBooking: BookingState | null = null
+      // Kept with the answer so feedback on it carries what the tools returned (e.g. get_pricing)
+      const toolInputs = new Map<string, unknown>()
+      const toolResults: FeedbackToolResult[] = []
 
       try {
-        while (true) {
-          const { done, value } = await reader.read()
-          if (done) break
-          
-          if (value) {
-            const chunk = decoder.decode(value, { stream: true })
-            fullText += chunk
+        for await (const event of readAgentEvents(res.body)) {
+          if (event.type === "text_delta") {
+            fullText += event.text
             setMessages((prev) => {
               const hasMsg = prev.some((m) => m.id === msgId)
               if (!hasMsg) {
-                return [...prev, { id: msgId, role: "assistant", content: chunk }]
+                return [...prev, { id: msgId, role: "assistant", content: fullText, toolResults: [...toolResults] }]
               }
               return prev.map((m) =>
                 m.id === msgId ? { ...m, content: fullText } : m,
               )
             })
+          } else if (event.type === "tool_call") {
+            toolInputs.set(event.toolUseId, event.input)
+          } else if (event.type === "tool_result") {
+            toolResults.push({ name: event.name, input: toolInputs.get(event.toolUseId) ?? null, status: event.status, content: event.content })
+          } else if (event.type === "booking_state") {
+            setBookingState(event.state)
+          } else if (event.type === "booking_saved") {
+            savedBooking = event.booking
+          } else if (event.type === "error") {
+            throw new Error(event.message)
           }
         }
 
         fullText = sanitizeAssistantOutput(fullText)
         setMessages((prev) =>
-          prev.map((m) => (m.id === msgId ? { ...m, content: fullText } : m)),
+          prev.map((m) => (m.id === msgId ? { ...m, content: fullText, toolResults } : m)),
         )
-
-        // Check if booking is completed and fetch pricing
-        if (isBookingCompleted(fullText) && !bookingCompleted) {
-          setBookingCompleted(true)
-          fetchPricingEstimate(updatedMessages)
-        }
       } catch (streamError) {
         // If we got some text before the stream error, use it
         if (fullText.trim()) {
           fullText = sanitizeAssistantOutput(fullText)
           setMessages((prev) =>
-            prev.map((m) => (m.id === msgId ? { ...m, content: fullText } : m)),
+            prev.map((m) => (m.id === msgId ? { ...m, content: fullText, toolResults } : m)),
           )
-          
-          // Check if booking is completed even after stream error
-          if (isBookingCompleted(fullText) && !bookingCompleted) {
-            setBookingCompleted(true)
-            fetchPricingEstimate(updatedMessages)
-          }
         } else {
           throw streamError
         }
       }
+
+      // The save_booking tool succeeded on the server, so fetch pricing for it
+      if (savedBooking && !bookingCompleted) {
+        setBookingCompleted(true)
+        fetchPricingEstimate(savedBooking)
+      }
         // const normalizedText = normalizeText(fullText)
         // const containsTrigger = triggerPhrases.some((phrase) =>
         //   normalizedText.includes(normalizeText(phrase)),
@@ -1229,7 +896,6 @@ export default function ChatPage() {
       ])
     } finally {
       setLoading(false)
-      if (!hasSentFirstMessage) setHasSentFirstMessage(true)
     }
   }
 
@@ -1259,7 +925,15 @@ export default function ChatPage() {
           </p>
 
           <div className="mt-6 flex-1 overflow-y-auto">
-            <MessageList messages={messages} loading={loading} fetchingPricing={fetchingPricing} onSMSConsent={handleSMSConsent} />
+            {bookingState && <BookingSummary booking={bookingState} />}
+            <MessageList
+              messages={messages}
+              loading={loading}
+              fetchingPricing={fetchingPricing}
+              phoneNumber={bookingState?.phone}
+              onSMSConsent={handleSMSConsent}
+              sessionId={sessionId}
+            />
           </div>
         </div>
       </section>
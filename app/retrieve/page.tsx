@@ -1,13 +1,22 @@
 "use client"
 
 import { cn } from "@/lib/utils"
-import { useEffect, useMemo, useRef, useState } from "react"
+import { AgentTraceStep, Citation, readAgentEvents } from "@/lib/agent-events"
+import { buildClientSessionContext } from "@/lib/agent-session"
+import { useEffect, useRef, useState } from "react"
 import type React from "react"
 import { Input } from "@/components/ui/input"
 import { Avatar, AvatarFallback } from "@/components/ui/avatar"
 import { Skeleton } from "@/components/ui/skeleton"
 import { Button } from "@/components/ui/button"
 import { useSpeechRecognition } from "@/hooks/use-speech-recognition"
+import { AISource, AISources, AISourcesContent, AISourcesTrigger } from "@/components/ui/kibo-ui/ai/source"
+import { AIReasoning, AIReasoningTrigger } from "@/components/ui/kibo-ui/ai/reasoning"
+import { CollapsibleContent } from "@/components/ui/collapsible"
+import { AITool, AIToolContent, AIToolHeader, AIToolParameters, AIToolResult, AIToolStatus } from "@/components/ui/kibo-ui/ai/tool"
+import { ChevronDownIcon } from "lucide-react"
+import { AnswerFeedback } from "@/components/answer-feedback"
+import type { FeedbackToolResult } from "@/lib/feedback/store"
 
 // ---------------- Utility functions ---------------- //
 
@@ -20,6 +29,9 @@ type Message = {
   id: string
   role: "user" | "assistant"
   content: string
+  citations?: Citation[]
+  trace?: AgentTraceStep[]
+  toolResults?: FeedbackToolResult[]
 }
 
 function normalizeText(text: string) {
@@ -357,14 +369,168 @@ function MarkdownRenderer({ content }: { content: string }) {
   return <div className="markdown-content">{renderContent()}</div>
 }
 
+// ---------------- Sources ---------------- //
+
+// S3 sources open in the S3 console (the buckets aren't public); other sources link directly
+function sourceHref(uri: string) {
+  const match = uri.match(/^s3:\/\/([^/]+)\/(.+)$/)
+  if (!match) return uri
+  return `https://s3.console.aws.amazon.com/s3/object/${match[1]}?prefix=${encodeURIComponent(match[2])}`
+}
+
+function sourceTitle(uri: string) {
+  return decodeURIComponent(uri.split("/").filter(Boolean).pop() || uri)
+}
+
+function MessageSources({ citations }: { citations: Citation[] }) {
+  return (
+    <AISources className="mt-3 mb-0">
+      <AISourcesTrigger count={citations.length} />
+      <AISourcesContent>
+        {citations.map((c, i) => (
+          <div key={`${c.sourceUri}-${i}`} className="rounded-md border border-border bg-background/60 p-2">
+            <AISource href={sourceHref(c.sourceUri)} title={sourceTitle(c.sourceUri)} />
+            {c.snippet && <p className="mt-1 line-clamp-3 text-muted-foreground">{c.snippet}</p>}
+            {c.knowledgeBaseId && <p className="mt-1 text-[10px] text-muted-foreground">Knowledge base {c.knowledgeBaseId}</p>}
+          </div>
+        ))}
+      </AISourcesContent>
+    </AISources>
+  )
+}
+
+// ---------------- Agent Trace ---------------- //
+
+type TraceItem =
+  | { type: "note"; label: string; text: string }
+  | { type: "tool"; name: string; parameters: Record<string, unknown>; result?: string; error?: string }
+
+// Pair each action group / knowledge base call with the observation that answered it
+function buildTraceItems(steps: AgentTraceStep[]): TraceItem[] {
+  const items: TraceItem[] = []
+  const open = new Map<string, Extract<TraceItem, { type: "tool" }>>()
+  const openCall = (traceId: string | null) => {
+    const key = traceId ?? ""
+    const call = open.get(key)
+    open.delete(key)
+    return call
+  }
+
+  for (const step of steps) {
+    switch (step.kind) {
+      case "pre_processing":
+        items.push({
+          type: "note",
+          label: step.isValid === false ? "Pre-processing (rejected)" : "Pre-processing",
+          text: step.rationale || "Input accepted",
+        })
+        break
+      case "rationale":
+        items.push({ type: "note", label: "Rationale", text: step.text })
+        break
+      case "action_group_call": {
+        const call: TraceItem = {
+          type: "tool",
+          name: step.function ? `${step.actionGroup} · ${step.function}` : step.actionGroup,
+          parameters: step.parameters,
+        }
+        items.push(call)
+        open.set(step.traceId ?? "", call)
+        break
+      }
+      case "knowledge_base_lookup": {
+        const call: TraceItem = {
+          type: "tool",
+          name: `Knowledge base ${step.knowledgeBaseId}`,
+          parameters: { query: step.query },
+        }
+        items.push(call)
+        open.set(step.traceId ?? "", call)
+        break
+      }
+      case "action_group_result": {
+        const call = openCall(step.traceId)
+        if (call) call.result = step.output
+        else items.push({ type: "note", label: "Action group output", text: step.output })
+        break
+      }
+      case "knowledge_base_result": {
+        const summary = step.sources.length > 0 ? step.sources.join("\n") : "No passages retrieved"
+        const call = openCall(step.traceId)
+        if (call) call.result = summary
+        else items.push({ type: "note", label: "Knowledge base results", text: summary })
+        break
+      }
+      case "final_response":
+        items.push({ type: "note", label: "Final response", text: step.text })
+        break
+      case "post_processing":
+        items.push({ type: "note", label: "Post-processing", text: step.text })
+        break
+      case "failure": {
+        const call = openCall(step.traceId)
+        if (call) call.error = step.reason
+        else items.push({ type: "note", label: "Failure", text: step.reason })
+        break
+      }
+    }
+  }
+  return items
+}
+
+function AgentTracePanel({ steps, streaming }: { steps: AgentTraceStep[]; streaming: boolean }) {
+  const items = buildTraceItems(steps)
+  const toolStatus = (item: Extract<TraceItem, { type: "tool" }>): AIToolStatus =>
+    item.error ? "error" : item.result !== undefined ? "completed" : streaming ? "running" : "pending"
+
+  return (
+    <AIReasoning isStreaming={streaming} className="mb-3">
+      <AIReasoningTrigger>
+        <p>Agent trace ({steps.length} step{steps.length === 1 ? "" : "s"})</p>
+        <ChevronDownIcon className="size-4" />
+      </AIReasoningTrigger>
+      {/* Trace steps are components, not markdown, so they skip AIReasoningContent */}
+      <CollapsibleContent className="mt-2 grid gap-2 text-muted-foreground text-xs">
+        {items.map((item, i) =>
+          item.type === "note" ? (
+            <div key={i}>
+              <span className="font-medium text-foreground">{item.label}:</span>{" "}
+              <span className="whitespace-pre-wrap">{item.text}</span>
+            </div>
+          ) : (
+            <AITool key={i} className="mb-0 bg-background/60">
+              <AIToolHeader name={item.name} status={toolStatus(item)} />
+              <AIToolContent>
+                <AIToolParameters parameters={item.parameters} />
+                <AIToolResult
+                  result={item.result && <pre className="whitespace-pre-wrap">{item.result}</pre>}
+                  error={item.error}
+                />
+              </AIToolContent>
+            </AITool>
+          ),
+        )}
+      </CollapsibleContent>
+    </AIReasoning>
+  )
+}
+
 // ---------------- MessageList ---------------- //
 
-function MessageList({ messages, loading }: { messages: Message[]; loading?: boolean }) {
+// The user message an assistant answer replied to
+function requestFor(messages: Message[], index: number) {
+  for (let i = index - 1; i >= 0; i--) {
+    if (messages[i].role === "user") return messages[i].content
+  }
+  return ""
+}
+
+function MessageList({ messages, loading, sessionId }: { messages: Message[]; loading?: boolean; sessionId: string }) {
   const bottomRef = useRef<HTMLDivElement | null>(null)
   useEffect(() => bottomRef.current?.scrollIntoView({ behavior: "smooth" }), [messages, loading])
   return (
     <div className="flex flex-col gap-4">
-      {messages.map((m) => (
+      {messages.map((m, index) => (
         <div key={m.id} className={cn("flex items-start gap-3", m.role === "user" ? "justify-end" : "justify-start")}>
           {m.role === "assistant" && (
             <Avatar className="size-8 shrink-0">
@@ -377,7 +543,22 @@ function MessageList({ messages, loading }: { messages: Message[]; loading?: boo
               m.role === "user" ? "bg-primary text-primary-foreground" : "bg-muted text-foreground",
             )}
           >
+            {m.role === "assistant" && m.trace && m.trace.length > 0 && (
+              <AgentTracePanel steps={m.trace} streaming={!!loading && index === messages.length - 1} />
+            )}
             {m.role === "assistant" ? <MarkdownRenderer content={m.content} /> : m.content}
+            {m.role === "assistant" && m.citations && m.citations.length > 0 && <MessageSources citations={m.citations} />}
+            {m.role === "assistant" && m.id !== "welcome" && !(loading && index === messages.length - 1) && (
+              <AnswerFeedback
+                agent="retrieve"
+                sessionId={sessionId}
+                messageId={m.id}
+                request={requestFor(messages, index)}
+                response={m.content}
+                toolResults={m.toolResults}
+                citations={m.citations}
+              />
+            )}
           </div>
           {m.role === "user" && (
             <Avatar className="size-8 shrink-0">
@@ -570,21 +751,10 @@ export default function RetrievePage() {
     { id: "welcome", role: "assistant", content: "Welcome to Trip Retrieval! Ask me about past bookings or trip details." },
   ])
   const [loading, setLoading] = useState(false)
-  const [hasSentFirstMessage, setHasSentFirstMessage] = useState(false)
+  // Staff debugging: stream the agent's trace alongside each answer
+  const [showTrace, setShowTrace] = useState(false)
   const mode: "retrieve" = "retrieve"
 
-  const invisibleContext = useMemo(() => {
-    if (typeof window === "undefined") return ""
-    const now = new Date()
-    const locale = typeof navigator !== "undefined" ? navigator.language : "en-US"
-    const timeString = now.toLocaleString(locale, { dateStyle: "full", timeStyle: "short" })
-    const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone?.replace(/_/g, " ")
-    const locationDescription = timeZone ? `${timeZone}` : "an unknown location"
-    return `Context (hidden from the user): The local time is ${timeString}, and the approximate location based on timezone is ${locationDescription}.
-
-Table Formatting (hidden from the user): When presenting historical trips in a markdown table, use this EXACT column order: Trip Date | Route | Passengers | Trip Type | Fare | Distance Match | Opportunity. The Opportunity column must be last and format each Opportunity ID as: [OPPORTUNITY_ID](https://mshuttle.lightning.force.com/lightning/r/Opportunity/OPPORTUNITY_ID/view). If Opportunity ID is missing, display "-". Ensure Route column is never empty - use city fields as fallback if address is missing.`
-  }, [])
-
   const triggerPhrases = [
     "let me look for pricing for similar trips",
     "our sales team will contact you soon to confirm final details",
@@ -592,6 +762,52 @@ Table Formatting (hidden from the user): When presenting historical trips in a m
     "finding price estimates",
   ]
 
+  // Stream one agent reply into the message with the given id, returning its final text
+  const streamReply = async (input: string, msgId: string) => {
+    const res = await fetch("/api/bedrock-agent", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      // Time, timezone and locale travel as session attributes, not inside the user's message
+      body: JSON.stringify({ input, sessionId, mode, trace: showTrace, ...buildClientSessionContext("web-retrieve") }),
+    })
+
+    if (!res.ok || !res.body) throw new Error(`Request failed: ${res.status}`)
+    let fullText = ""
+    const citations: Citation[] = []
+    const trace: AgentTraceStep[] = []
+    // Kept with the answer so feedback on it carries what the action groups returned
+    const toolInputs = new Map<string, unknown>()
+    const toolResults: FeedbackToolResult[] = []
+
+    for await (const event of readAgentEvents(res.body)) {
+      if (event.type === "error") throw new Error(event.message)
+      if (event.type === "tool_call") {
+        toolInputs.set(event.toolUseId, event.input)
+        continue
+      }
+      if (event.type === "citation") citations.push(event.citation)
+      else if (event.type === "trace") trace.push(event.step)
+      else if (event.type === "text_delta") fullText += event.text
+      else if (event.type === "tool_result") {
+        toolResults.push({ name: event.name, input: toolInputs.get(event.toolUseId) ?? null, status: event.status, content: event.content })
+      } else continue
+      const update = { content: fullText, citations: [...citations], trace: [...trace], toolResults: [...toolResults] }
+      setMessages((prev) => {
+        const hasMsg = prev.some((m) => m.id === msgId)
+        if (!hasMsg) {
+          return [...prev, { id: msgId, role: "assistant", ...update }]
+        }
+        return prev.map((m) => (m.id === msgId ? { ...m, ...update } : m))
+      })
+    }
+
+    fullText = sanitizeAssistantOutput(fullText)
+    setMessages((prev) =>
+      prev.map((m) => (m.id === msgId ? { ...m, content: fullText } : m)),
+    )
+    return fullText
+  }
+
   const send = async (text: string) => {
     if (loading) return
     const userMsg: Message = { id: `${Date.now()}-u`, role: "user", content: text }
@@ -604,50 +820,8 @@ Table Formatting (hidden from the user): When presenting historical trips in a m
     const msgId = `${Date.now()}-a`
 
     try {
-      const payload =
-        hasSentFirstMessage || !invisibleContext
-          ? text
-          : `${invisibleContext}\n\n${text}`
-
       // 🔎 Retrieval Agent
-      const endpoint = "/api/bedrock-agent"
-      const body = {
-        input: payload,
-        sessionId,
-        mode
-      }
-
-      const res = await fetch(endpoint, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(body),
-      })
-
-      if (!res.ok || !res.body) throw new Error(`Request failed: ${res.status}`)
-      const reader = res.body.getReader()
-      const decoder = new TextDecoder()
-      let fullText = ""
-
-      while (true) {
-        const { done, value } = await reader.read()
-        if (done) break
-        const chunk = decoder.decode(value, { stream: true })
-        fullText += chunk
-        setMessages((prev) => {
-          const hasMsg = prev.some((m) => m.id === msgId)
-          if (!hasMsg) {
-            return [...prev, { id: msgId, role: "assistant", content: chunk }]
-          }
-          return prev.map((m) =>
-            m.id === msgId ? { ...m, content: fullText } : m,
-          )
-        })
-      }
-
-      fullText = sanitizeAssistantOutput(fullText)
-      setMessages((prev) =>
-        prev.map((m) => (m.id === msgId ? { ...m, content: fullText } : m)),
-      )
+      const fullText = await streamReply(text, msgId)
 
       const normalizedText = normalizeText(fullText)
       const containsTrigger = triggerPhrases.some((phrase) =>
@@ -655,23 +829,7 @@ Table Formatting (hidden from the user): When presenting historical trips in a m
       )
 
       if (containsTrigger) {
-        const followUpRes = await fetch("/api/bedrock-agent", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            input: "What is the estimated price for this trip?",
-            sessionId,
-            mode,
-          }),
-        })
-
-        if (followUpRes.ok) {
-          const followUpData = sanitizeAssistantOutput(await followUpRes.text())
-          setMessages((prev) => [
-            ...prev,
-            { id: `${Date.now()}-f`, role: "assistant", content: followUpData },
-          ])
-        }
+        await streamReply("What is the estimated price for this trip?", `${Date.now()}-f`)
       }
     } catch (e) {
       console.error("❌ Chat error:", e)
@@ -686,7 +844,6 @@ Table Formatting (hidden from the user): When presenting historical trips in a m
       ])
     } finally {
       setLoading(false)
-      if (!hasSentFirstMessage) setHasSentFirstMessage(true)
     }
   }
 
@@ -699,6 +856,16 @@ Table Formatting (hidden from the user): When presenting historical trips in a m
           <span className="sr-only">Metropolitan Shuttle</span>
         </div>
         <div className="flex items-center gap-3">
+          <Button
+            type="button"
+            variant={showTrace ? "secondary" : "ghost"}
+            size="sm"
+            aria-pressed={showTrace}
+            onClick={() => setShowTrace((on) => !on)}
+            className="text-xs"
+          >
+            Trace {showTrace ? "on" : "off"}
+          </Button>
           <div className="text-sm font-medium text-muted-foreground capitalize">
             Retrieve Mode
           </div>
@@ -716,7 +883,7 @@ Table Formatting (hidden from the user): When presenting historical trips in a m
           </p>
 
           <div className="mt-6 flex-1 overflow-y-auto">
-            <MessageList messages={messages} loading={loading} />
+            <MessageList messages={messages} loading={loading} sessionId={sessionId} />
           </div>
         </div>
       </section>
@@ -1,6 +1,7 @@
 "use client"
 
 import { cn } from "@/lib/utils"
+import { readAgentEvents } from "@/lib/agent-events"
 import { useEffect, useRef, useState } from "react"
 import type React from "react"
 import { Button } from "@/components/ui/button"
@@ -8,6 +9,8 @@ import { Input } from "@/components/ui/input"
 import { Avatar, AvatarFallback } from "@/components/ui/avatar"
 import { Skeleton } from "@/components/ui/skeleton"
 import { useSpeechRecognition } from "@/hooks/use-speech-recognition"
+import { AnswerFeedback } from "@/components/answer-feedback"
+import type { FeedbackToolResult } from "@/lib/feedback/store"
 
 // ---------------- Utility functions ---------------- //
 
@@ -20,6 +23,7 @@ type Message = {
   id: string
   role: "user" | "assistant"
   content: string
+  toolResults?: FeedbackToolResult[]
 }
 
 function sanitizeAssistantOutput(text: string) {
@@ -289,12 +293,22 @@ function MarkdownRenderer({ content }: { content: string }) {
 
 // ---------------- MessageList ---------------- //
 
+// The user message an assistant answer replied to
+function requestFor(messages: Message[], index: number) {
+  for (let i = index - 1; i >= 0; i--) {
+    if (messages[i].role === "user") return messages[i].content
+  }
+  return ""
+}
+
 function MessageList({ 
   messages, 
-  loading
+  loading,
+  sessionId
 }: { 
   messages: Message[]
   loading?: boolean
+  sessionId: string
 }) {
   const bottomRef = useRef<HTMLDivElement | null>(null)
   
@@ -302,7 +316,7 @@ function MessageList({
   
   return (
     <div className="flex flex-col gap-4">
-      {messages.map((m) => {
+      {messages.map((m, index) => {
         return (
           <div key={m.id} className={cn("flex items-start gap-3", m.role === "user" ? "justify-end" : "justify-start")}>
             {m.role === "assistant" && (
@@ -317,6 +331,16 @@ function MessageList({
               )}
             >
               {m.role === "assistant" ? <MarkdownRenderer content={m.content} /> : m.content}
+              {m.role === "assistant" && m.id !== "welcome" && !(loading && index === messages.length - 1) && (
+                <AnswerFeedback
+                  agent="vendor_search"
+                  sessionId={sessionId}
+                  messageId={m.id}
+                  request={requestFor(messages, index)}
+                  response={m.content}
+                  toolResults={m.toolResults}
+                />
+              )}
             </div>
             {m.role === "user" && (
               <Avatar className="size-8 shrink-0">
@@ -554,40 +578,43 @@ export default function VendorHistoryPage() {
         throw new Error("No response body received from server")
       }
       
-      const reader = res.body.getReader()
-      const decoder = new TextDecoder()
       let fullText = ""
+      // Kept with the answer so feedback on it carries the KB search results
+      const toolInputs = new Map<string, unknown>()
+      const toolResults: FeedbackToolResult[] = []
 
       try {
-        while (true) {
-          const { done, value } = await reader.read()
-          if (done) break
-          
-          if (value) {
-            const chunk = decoder.decode(value, { stream: true })
-            fullText += chunk
+        for await (const event of readAgentEvents(res.body)) {
+          if (event.type === "text_delta") {
+            fullText += event.text
             setMessages((prev) => {
               const hasMsg = prev.some((m) => m.id === msgId)
               if (!hasMsg) {
-                return [...prev, { id: msgId, role: "assistant", content: chunk }]
+                return [...prev, { id: msgId, role: "assistant", content: fullText, toolResults: [...toolResults] }]
               }
               return prev.map((m) =>
                 m.id === msgId ? { ...m, content: fullText } : m,
               )
             })
+          } else if (event.type === "tool_call") {
+            toolInputs.set(event.toolUseId, event.input)
+          } else if (event.type === "tool_result") {
+            toolResults.push({ name: event.name, input: toolInputs.get(event.toolUseId) ?? null, status: event.status, content: event.content })
+          } else if (event.type === "error") {
+            throw new Error(event.message)
           }
         }
 
         fullText = sanitizeAssistantOutput(fullText)
         setMessages((prev) =>
-          prev.map((m) => (m.id === msgId ? { ...m, content: fullText } : m)),
+          prev.map((m) => (m.id === msgId ? { ...m, content: fullText, toolResults } : m)),
         )
       } catch (streamError) {
         // If we got some text before the stream error, use it
         if (fullText.trim()) {
           fullText = sanitizeAssistantOutput(fullText)
           setMessages((prev) =>
-            prev.map((m) => (m.id === msgId ? { ...m, content: fullText } : m)),
+            prev.map((m) => (m.id === msgId ? { ...m, content: fullText, toolResults } : m)),
           )
         } else {
           throw streamError
@@ -653,7 +680,7 @@ export default function VendorHistoryPage() {
           </p>
 
           <div className="mt-6 flex-1 overflow-y-auto">
-            <MessageList messages={messages} loading={loading} />
+            <MessageList messages={messages} loading={loading} sessionId={sessionId} />
           </div>
         </div>
       </section>
@@ -3,7 +3,7 @@
 import { useEffect, useState } from "react"
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
-import { MessageSquare, Activity, Clock } from "lucide-react"
+import { MessageSquare, Activity, Clock, Database } from "lucide-react"
 import {
   BarChart,
   Bar,
@@ -32,10 +32,23 @@ interface AnalyticsData {
   avgLatency: number
 }
 
+interface RetrievalCacheData {
+  hits: number
+  misses: number
+  hitRate: number
+  evictions: number
+  invalidations: number
+  entries: number
+  maxEntries: number
+  ttlSeconds: number
+  byKnowledgeBase: Record<string, { hits: number; misses: number; entries: number }>
+}
+
 export function AnalyticsSection() {
   const [data, setData] = useState<AnalyticsData | null>(null)
   const [history, setHistory] = useState<{ date: string; count: number }[]>([])
   const [filter, setFilter] = useState<FilterType>("Day")
+  const [cache, setCache] = useState<RetrievalCacheData | null>(null)
 
   const fetchStats = async () => {
     const res = await fetch(`/api/analytics?range=${filter.toLowerCase()}`)
@@ -49,6 +62,7 @@ export function AnalyticsSection() {
       avgLatency: json.avgLatency ?? 0,
     }
     setData(summary)
+    setCache(json.retrievalCache ?? null)
 
     const rawHistory = json.history ?? [
       { date: new Date().toISOString().slice(0, 10), count: summary.invocations ?? 0 },
@@ -156,6 +170,65 @@ export function AnalyticsSection() {
         </Card>
       </div>
 
+      {/* ✅ Knowledge base retrieval cache (counts since server start) */}
+      {cache && (
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between">
+            <CardTitle className="text-sm">Retrieval Cache</CardTitle>
+            <Database className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid gap-4 sm:grid-cols-4">
+              <div>
+                <div className="text-2xl font-bold">{(cache.hitRate * 100).toFixed(0)}%</div>
+                <p className="text-xs text-muted-foreground">Hit rate</p>
+              </div>
+              <div>
+                <div className="text-2xl font-bold">
+                  {formatNumber(cache.hits)} / {formatNumber(cache.misses)}
+                </div>
+                <p className="text-xs text-muted-foreground">Hits / misses since server start</p>
+              </div>
+              <div>
+                <div className="text-2xl font-bold">
+                  {cache.entries} / {cache.maxEntries}
+                </div>
+                <p className="text-xs text-muted-foreground">Entries (TTL {cache.ttlSeconds}s)</p>
+              </div>
+              <div>
+                <div className="text-2xl font-bold">{formatNumber(cache.invalidations)}</div>
+                <p className="text-xs text-muted-foreground">
+                  Invalidations · {formatNumber(cache.evictions)} evictions
+                </p>
+              </div>
+            </div>
+
+            {Object.keys(cache.byKnowledgeBase).length > 0 && (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-muted-foreground">
+                    <th className="py-1 font-medium">Knowledge base</th>
+                    <th className="py-1 font-medium">Hits</th>
+                    <th className="py-1 font-medium">Misses</th>
+                    <th className="py-1 font-medium">Entries</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {Object.entries(cache.byKnowledgeBase).map(([kbId, kb]) => (
+                    <tr key={kbId} className="border-t border-border">
+                      <td className="py-1 font-mono">{kbId}</td>
+                      <td className="py-1">{kb.hits}</td>
+                      <td className="py-1">{kb.misses}</td>
+                      <td className="py-1">{kb.entries}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       {/* ✅ Chart area */}
       <Card>
         <CardHeader>
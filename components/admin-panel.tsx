@@ -1,12 +1,14 @@
 "use client"
 
 import { useState } from "react"
-import { Database, Shield, Mic, Workflow, Code, BarChart3 } from "lucide-react"
+import { Database, Shield, Mic, Workflow, Code, BarChart3, MessageSquareWarning, ScrollText } from "lucide-react"
 import { KnowledgeBasesSection } from "@/components/knowledge-base/KnowledgeBasesSection"
 import { ComingSoonSection } from "@/components/coming-soon-section"
 import { ApisSection } from "@/components/apis-section"
 import { GuardrailsSection } from "@/components/guardrails-section"
 import { AnalyticsSection } from "@/components/AnalyticsSection"
+import { FeedbackSection } from "@/components/feedback-section"
+import { VoiceTranscriptsSection } from "@/components/voice-transcripts-section"
 
 type TabId =
   | "knowledge-bases"
@@ -15,6 +17,8 @@ type TabId =
   | "data-pipelines"
   | "apis"
   | "analytics"
+  | "feedback"
+  | "voice-transcripts"
 
 const tabs = [
   { id: "knowledge-bases" as TabId, label: "Knowledge Bases", icon: Database },
@@ -23,9 +27,11 @@ const tabs = [
   { id: "data-pipelines" as TabId, label: "Data Pipelines", icon: Workflow },
   { id: "apis" as TabId, label: "APIs", icon: Code },
   { id: "analytics" as TabId, label: "Analytics", icon: BarChart3 },
+  { id: "feedback" as TabId, label: "Answer Feedback", icon: MessageSquareWarning },
+  { id: "voice-transcripts" as TabId, label: "Voice Transcripts", icon: ScrollText },
 ]
 
-export default function AdminPanel() {
+export default function AdminPanel({ adminPassword }: { adminPassword: string }) {
   const [activeTab, setActiveTab] = useState<TabId>("knowledge-bases")
 
   return (
@@ -75,6 +81,10 @@ export default function AdminPanel() {
                 ? "Manage data processing and integration workflows"
                 : activeTab === "analytics"
                 ? "View real-time analytics and usage statistics"
+                : activeTab === "feedback"
+                ? "Review answers users marked as helpful or wrong"
+                : activeTab === "voice-transcripts"
+                ? "Read back voice sessions turn by turn, with the tools they called"
                 : "Access your API endpoint and test requests"}
             </p>
           </div>
@@ -89,6 +99,10 @@ export default function AdminPanel() {
             <ApisSection />
           ) : activeTab === "analytics" ? (
             <AnalyticsSection />
+          ) : activeTab === "feedback" ? (
+            <FeedbackSection adminPassword={adminPassword} />
+          ) : activeTab === "voice-transcripts" ? (
+            <VoiceTranscriptsSection adminPassword={adminPassword} />
           ) : (
             <ComingSoonSection
               section={tabs.find((tab) => tab.id === activeTab)?.label || ""}
@@ -0,0 +1,116 @@
+"use client"
+
+import { useState } from "react"
+import { ThumbsDown, ThumbsUp } from "lucide-react"
+import { cn } from "@/lib/utils"
+import { Button } from "@/components/ui/button"
+import { Textarea } from "@/components/ui/textarea"
+import type { Citation } from "@/lib/agent-events"
+import type { FeedbackAgent, FeedbackRating, FeedbackToolResult } from "@/lib/feedback/store"
+
+interface AnswerFeedbackProps {
+  agent: FeedbackAgent
+  sessionId: string
+  messageId: string
+  request: string
+  response: string
+  toolResults?: FeedbackToolResult[]
+  citations?: Citation[]
+}
+
+// Thumbs up/down under an assistant answer. The rating is sent right away; the
+// optional comment is sent as an update to the same item.
+export function AnswerFeedback({ agent, sessionId, messageId, request, response, toolResults, citations }: AnswerFeedbackProps) {
+  const [rating, setRating] = useState<FeedbackRating | null>(null)
+  const [comment, setComment] = useState("")
+  const [stage, setStage] = useState<"idle" | "commenting" | "sent">("idle")
+  const [error, setError] = useState<string | null>(null)
+
+  const submit = async (nextRating: FeedbackRating, nextComment: string | null) => {
+    setError(null)
+    try {
+      const res = await fetch("/api/feedback", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          agent,
+          sessionId,
+          messageId,
+          rating: nextRating,
+          comment: nextComment,
+          request,
+          response,
+          toolResults: toolResults ?? [],
+          citations: citations ?? [],
+        }),
+      })
+      if (!res.ok) throw new Error(`Feedback request failed: ${res.status}`)
+      return true
+    } catch (e) {
+      console.error("❌ Feedback error:", e)
+      setError("Couldn't send feedback. Try again.")
+      return false
+    }
+  }
+
+  const rate = async (next: FeedbackRating) => {
+    setRating(next)
+    if (await submit(next, null)) setStage("commenting")
+  }
+
+  const sendComment = async () => {
+    if (rating && (await submit(rating, comment.trim() || null))) setStage("sent")
+  }
+
+  return (
+    <div className="mt-2 border-t border-border/60 pt-2">
+      <div className="flex items-center gap-1 text-xs text-muted-foreground">
+        <span className="mr-1">{stage === "idle" ? "Was this helpful?" : "Thanks for the feedback"}</span>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          aria-label="Helpful"
+          aria-pressed={rating === "up"}
+          onClick={() => rate("up")}
+          className={cn("h-7 px-2", rating === "up" && "text-primary")}
+        >
+          <ThumbsUp className="size-4" />
+        </Button>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          aria-label="Not helpful"
+          aria-pressed={rating === "down"}
+          onClick={() => rate("down")}
+          className={cn("h-7 px-2", rating === "down" && "text-destructive")}
+        >
+          <ThumbsDown className="size-4" />
+        </Button>
+      </div>
+
+      {stage === "commenting" && (
+        <div className="mt-2 flex flex-col gap-2">
+          <Textarea
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            placeholder={rating === "down" ? "What was wrong? (optional)" : "Anything to add? (optional)"}
+            maxLength={2000}
+            className="min-h-16 bg-background text-xs"
+          />
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="ghost" size="sm" onClick={() => setStage("sent")}>
+              Skip
+            </Button>
+            <Button type="button" size="sm" onClick={sendComment} disabled={!comment.trim()}>
+              Send
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {error && <p className="mt-1 text-xs text-destructive">{error}</p>}
+    </div>
+  )
+}
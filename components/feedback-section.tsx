@@ -0,0 +1,321 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { CheckCircle2, RotateCcw, ThumbsDown, ThumbsUp } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Card } from "@/components/ui/card"
+import { Textarea } from "@/components/ui/textarea"
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Skeleton } from "@/components/ui/skeleton"
+import type { FeedbackAgent, FeedbackItem, FeedbackRating, FeedbackStatus, FeedbackSummary } from "@/lib/feedback/store"
+
+// Same value as ADMIN_PASSWORD_HEADER in lib/admin-auth.ts, which is server-only
+const ADMIN_PASSWORD_HEADER = "x-admin-password"
+
+const AGENT_LABELS: Record<FeedbackAgent, string> = {
+  booking: "Booking chat",
+  retrieve: "Trip retrieval",
+  vendor_search: "Vendor search",
+}
+
+const AGENT_FILTERS: { value: FeedbackAgent | "all"; label: string }[] = [
+  { value: "all", label: "All agents" },
+  { value: "booking", label: AGENT_LABELS.booking },
+  { value: "retrieve", label: AGENT_LABELS.retrieve },
+  { value: "vendor_search", label: AGENT_LABELS.vendor_search },
+]
+const RATING_FILTERS: { value: FeedbackRating | "all"; label: string }[] = [
+  { value: "down", label: "Thumbs down" },
+  { value: "up", label: "Thumbs up" },
+  { value: "all", label: "All ratings" },
+]
+const STATUS_FILTERS: { value: FeedbackStatus | "all"; label: string }[] = [
+  { value: "open", label: "Open" },
+  { value: "resolved", label: "Resolved" },
+  { value: "all", label: "All" },
+]
+
+// Tool output is usually JSON; pretty-print it when it parses
+function formatToolContent(content: string) {
+  try {
+    return JSON.stringify(JSON.parse(content), null, 2)
+  } catch {
+    return content
+  }
+}
+
+function FilterGroup<T extends string>({
+  options,
+  value,
+  onChange,
+}: {
+  options: { value: T; label: string }[]
+  value: T
+  onChange: (value: T) => void
+}) {
+  return (
+    <div className="flex flex-wrap gap-2">
+      {options.map((option) => (
+        <Button
+          key={option.value}
+          variant={value === option.value ? "default" : "outline"}
+          size="sm"
+          onClick={() => onChange(option.value)}
+        >
+          {option.label}
+        </Button>
+      ))}
+    </div>
+  )
+}
+
+export function FeedbackSection({ adminPassword }: { adminPassword: string }) {
+  const [agent, setAgent] = useState<FeedbackAgent | "all">("all")
+  const [rating, setRating] = useState<FeedbackRating | "all">("down")
+  const [status, setStatus] = useState<FeedbackStatus | "all">("open")
+  const [items, setItems] = useState<FeedbackSummary[]>([])
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [loadingMore, setLoadingMore] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const [selected, setSelected] = useState<FeedbackItem | null>(null)
+  const [opening, setOpening] = useState<string | null>(null)
+  const [note, setNote] = useState("")
+  const [saving, setSaving] = useState(false)
+
+  const adminHeaders = { [ADMIN_PASSWORD_HEADER]: adminPassword }
+
+  // ✅ Fetch a page of the queue for the current filters; a cursor appends the next page
+  const fetchItems = async (cursor?: string) => {
+    if (cursor) setLoadingMore(true)
+    else setLoading(true)
+    setError(null)
+    try {
+      const params = new URLSearchParams()
+      if (agent !== "all") params.set("agent", agent)
+      if (rating !== "all") params.set("rating", rating)
+      if (status !== "all") params.set("status", status)
+      if (cursor) params.set("cursor", cursor)
+      const res = await fetch(`/api/feedback?${params}`, { headers: adminHeaders })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || `Request failed: ${res.status}`)
+      setItems((prev) => (cursor ? [...prev, ...data.items] : data.items))
+      setNextCursor(data.nextCursor)
+    } catch (err) {
+      console.error("❌ Error loading feedback:", err)
+      setError("Failed to load feedback.")
+    } finally {
+      setLoading(false)
+      setLoadingMore(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchItems()
+  }, [agent, rating, status])
+
+  const openItem = async (summary: FeedbackSummary) => {
+    setOpening(summary.id)
+    try {
+      const res = await fetch(`/api/feedback/${summary.id}`, { headers: adminHeaders })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || `Request failed: ${res.status}`)
+      setSelected(data)
+      setNote(data.resolutionNote || "")
+    } catch (err) {
+      console.error("❌ Error loading feedback item:", err)
+      alert("Failed to load feedback.")
+    } finally {
+      setOpening(null)
+    }
+  }
+
+  const updateStatus = async (next: FeedbackStatus) => {
+    if (!selected) return
+    setSaving(true)
+    try {
+      const res = await fetch(`/api/feedback/${selected.id}`, {
+        method: "PATCH",
+        headers: { ...adminHeaders, "Content-Type": "application/json" },
+        body: JSON.stringify({ status: next, note }),
+      })
+      const updated = await res.json()
+      if (!res.ok) throw new Error(updated.error || `Request failed: ${res.status}`)
+      setSelected(updated)
+      setItems((prev) =>
+        status !== "all" && updated.status !== status
+          ? prev.filter((i) => i.id !== updated.id)
+          : prev.map((i) => (i.id === updated.id ? { ...i, status: updated.status, updatedAt: updated.updatedAt } : i)),
+      )
+    } catch (err) {
+      console.error("❌ Error updating feedback:", err)
+      alert("Failed to update feedback.")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-3">
+        <FilterGroup options={AGENT_FILTERS} value={agent} onChange={setAgent} />
+        <FilterGroup options={RATING_FILTERS} value={rating} onChange={setRating} />
+        <FilterGroup options={STATUS_FILTERS} value={status} onChange={setStatus} />
+      </div>
+
+      {loading ? (
+        <div className="space-y-3">
+          <Skeleton className="h-16 w-full" />
+          <Skeleton className="h-16 w-full" />
+          <Skeleton className="h-16 w-full" />
+        </div>
+      ) : error ? (
+        <p className="text-sm text-red-500">{error}</p>
+      ) : items.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No feedback matches these filters.</p>
+      ) : (
+        <div className="space-y-3">
+          {items.map((item) => (
+            <Card
+              key={item.id}
+              role="button"
+              tabIndex={0}
+              onClick={() => openItem(item)}
+              onKeyDown={(e) => e.key === "Enter" && openItem(item)}
+              className={`cursor-pointer border-border bg-card p-4 transition-shadow hover:shadow-md ${
+                opening === item.id ? "opacity-60" : ""
+              }`}
+            >
+              <div className="flex items-start justify-between gap-4">
+                <div className="min-w-0 space-y-1">
+                  <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                    {item.rating === "down" ? (
+                      <ThumbsDown className="size-4 text-destructive" />
+                    ) : (
+                      <ThumbsUp className="size-4 text-primary" />
+                    )}
+                    <span>{AGENT_LABELS[item.agent]}</span>
+                    <span>·</span>
+                    <span>{new Date(item.createdAt).toLocaleString()}</span>
+                    {item.tools.length > 0 && (
+                      <>
+                        <span>·</span>
+                        <span>{item.tools.join(", ")}</span>
+                      </>
+                    )}
+                  </div>
+                  <p className="truncate text-sm font-medium">{item.request || "(no request text)"}</p>
+                  {item.comment && <p className="truncate text-sm text-muted-foreground">“{item.comment}”</p>}
+                </div>
+                <Badge variant={item.status === "resolved" ? "secondary" : "outline"}>{item.status}</Badge>
+              </div>
+            </Card>
+          ))}
+          {nextCursor && (
+            <Button variant="outline" size="sm" disabled={loadingMore} onClick={() => fetchItems(nextCursor)}>
+              {loadingMore ? "Loading..." : "Load more"}
+            </Button>
+          )}
+        </div>
+      )}
+
+      {selected && (
+        <Dialog open={!!selected} onOpenChange={() => setSelected(null)}>
+          <DialogContent className="max-w-3xl max-h-[85vh] overflow-hidden flex flex-col rounded-2xl">
+            <DialogHeader className="sticky top-0 bg-background border-b pb-3 z-10">
+              <DialogTitle className="flex items-center gap-2 text-lg font-semibold">
+                {selected.rating === "down" ? (
+                  <ThumbsDown className="size-5 text-destructive" />
+                ) : (
+                  <ThumbsUp className="size-5 text-primary" />
+                )}
+                {AGENT_LABELS[selected.agent]} answer
+              </DialogTitle>
+            </DialogHeader>
+
+            <div className="overflow-y-auto px-1.5 pr-3 py-4 space-y-4 text-sm">
+              <p className="text-xs text-muted-foreground">
+                Session {selected.sessionId} · {new Date(selected.createdAt).toLocaleString()}
+                {selected.resolvedAt && ` · resolved ${new Date(selected.resolvedAt).toLocaleString()}`}
+              </p>
+
+              {selected.comment && (
+                <div>
+                  <strong>User comment:</strong>
+                  <p className="mt-1 whitespace-pre-wrap">{selected.comment}</p>
+                </div>
+              )}
+
+              <div>
+                <strong>Request:</strong>
+                <p className="mt-1 whitespace-pre-wrap rounded-md bg-muted p-3">{selected.request || "(none)"}</p>
+              </div>
+
+              <div>
+                <strong>Answer:</strong>
+                <p className="mt-1 whitespace-pre-wrap rounded-md bg-muted p-3">{selected.response}</p>
+              </div>
+
+              {selected.toolResults.length > 0 && (
+                <div className="space-y-2">
+                  <strong>Tool results:</strong>
+                  {selected.toolResults.map((tool, i) => (
+                    <details key={i} className="rounded-md border border-border">
+                      <summary className="cursor-pointer px-3 py-2 font-mono text-xs">
+                        {tool.name} · {tool.status}
+                      </summary>
+                      <div className="space-y-2 border-t border-border p-3">
+                        <pre className="overflow-x-auto whitespace-pre-wrap text-xs text-muted-foreground">
+                          {JSON.stringify(tool.input, null, 2)}
+                        </pre>
+                        <pre className="max-h-80 overflow-auto whitespace-pre-wrap text-xs">
+                          {formatToolContent(tool.content)}
+                        </pre>
+                      </div>
+                    </details>
+                  ))}
+                </div>
+              )}
+
+              {selected.citations.length > 0 && (
+                <div>
+                  <strong>Sources:</strong>
+                  <ul className="mt-1 list-disc space-y-1 pl-5 text-xs">
+                    {selected.citations.map((c, i) => (
+                      <li key={i} className="break-all">{c.sourceUri}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <strong>Resolution note:</strong>
+                <Textarea
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  placeholder="What was wrong and what was done about it"
+                  className="min-h-20"
+                />
+                <div className="flex justify-end">
+                  {selected.status === "resolved" ? (
+                    <Button variant="outline" size="sm" onClick={() => updateStatus("open")} disabled={saving}>
+                      <RotateCcw className="mr-2 size-4" />
+                      Reopen
+                    </Button>
+                  ) : (
+                    <Button size="sm" onClick={() => updateStatus("resolved")} disabled={saving}>
+                      <CheckCircle2 className="mr-2 size-4" />
+                      Mark resolved
+                    </Button>
+                  )}
+                </div>
+              </div>
+            </div>
+          </DialogContent>
+        </Dialog>
+      )}
+    </div>
+  )
+}
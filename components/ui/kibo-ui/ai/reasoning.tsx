@@ -93,7 +93,7 @@ export const AIReasoning = memo(
 
     return (
       <AIReasoningContext.Provider
-        value={{ isStreaming, isOpen, setIsOpen, duration }}
+        value={{ isStreaming, isOpen: isOpen ?? false, setIsOpen, duration: duration ?? 0 }}
       >
         <Collapsible
           className={cn('not-prose mb-4', className)}
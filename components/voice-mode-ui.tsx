@@ -7,7 +7,8 @@ import { MicIcon, Volume2Icon, StampIcon as StopIcon, MessageSquareIcon } from "
 import { Button } from "@/components/ui/button"
 import logo from "@/public/images/logo.svg"
 import { AudioPlayer, AudioProcessor, base64ToFloat32Array } from "@/lib/audio-utils"
-import { NovaSonicSocketClient } from "@/lib/nova-sonic-client"
+import { NovaSonicSocketClient, type VoiceLimitError } from "@/lib/nova-sonic-client"
+import { isInterruptedSignal, type VoiceTurn } from "@/lib/voice/transcript"
 import {
   AIInputModelSelect,
   AIInputModelSelectContent,
@@ -17,7 +18,14 @@ import {
   AIInputToolbar,
   AIInputTools,
 } from "@/components/ui/kibo-ui/ai/input"
-import { Switch } from "@radix-ui/react-switch"
+import { Switch } from "@/components/ui/switch"
+
+// Limit errors carry a retry hint for minute limits
+function limitMessage({ error, retryAfterSeconds }: VoiceLimitError) {
+  if (!retryAfterSeconds) return error
+  const minutes = Math.ceil(retryAfterSeconds / 60)
+  return `${error}. Try again in ${minutes >= 60 ? `${Math.ceil(minutes / 60)} h` : `${minutes} min`}`
+}
 
 interface VoiceModeUIProps {
   handleSuggestionClick: (suggestion: string) => void
@@ -37,7 +45,8 @@ export default function VoiceModeUI({
   // models,
 }: VoiceModeUIProps) {
   const [active, setActive] = useState(false)
-  const [transcript, setTranscript] = useState("")
+  // Caption log: the server's transcript turns for the current session, in order
+  const [turns, setTurns] = useState<VoiceTurn[]>([])
   const [status, setStatus] = useState("Initializing...")
   const [isConnected, setIsConnected] = useState(false)
   const [isSpeaking, setIsSpeaking] = useState(false)
@@ -46,9 +55,68 @@ export default function VoiceModeUI({
   const audioPlayerRef = useRef<AudioPlayer | null>(null)
   const novaSonicClientRef = useRef<NovaSonicSocketClient | null>(null)
   const mediaStreamRef = useRef<MediaStream | null>(null)
+  const captionsRef = useRef<HTMLDivElement | null>(null)
+  // Mic meter bar, updated directly on every captured frame instead of through state
+  const micLevelRef = useRef<HTMLDivElement | null>(null)
+
+  // Barge-in: the assistant audio content now playing, and contents the server
+  // confirmed as interrupted (late chunks for them are dropped instead of played).
+  // Both are reset when a session starts.
+  const assistantAudioIdRef = useRef<string | null>(null)
+  const interruptedIdsRef = useRef<Set<string>>(new Set())
+
+  // The user started talking over the assistant: drop what's queued, but keep
+  // playing new chunks unless the server confirms the interruption
+  const flushAssistantAudio = () => {
+    audioPlayerRef.current?.interrupt()
+    setIsSpeaking(false)
+  }
+
+  // The server confirmed a barge-in. Only uses refs and state setters, so the
+  // socket handlers can call it from the first render's closure.
+  const interruptAssistant = (contentId?: string) => {
+    const id = contentId ?? assistantAudioIdRef.current
+    if (id) interruptedIdsRef.current.add(id)
+    const wasPlaying = audioPlayerRef.current?.interrupt() ?? false
+    setIsSpeaking(false)
+    if (!wasPlaying && !contentId) return
+    // Mark the assistant's latest turn right away; the server's copy catches up with the next transcriptTurn
+    setTurns((prev) => {
+      const index = prev.map((turn) => turn.role).lastIndexOf("ASSISTANT")
+      if (index === -1 || prev[index].interrupted) return prev
+      const next = [...prev]
+      next[index] = { ...prev[index], interrupted: true }
+      return next
+    })
+  }
+
+  // Keep the newest caption in view
+  useEffect(() => {
+    if (captionsRef.current) captionsRef.current.scrollTop = captionsRef.current.scrollHeight
+  }, [turns])
 
   const [agentType, setAgentType] = useState<"retrieval" | "booking">("retrieval")
 
+  // Call recording: the caller's choice, and whether the server is recording right now
+  const [recordConsent, setRecordConsent] = useState(false)
+  const [recording, setRecording] = useState(false)
+
+  const sendRecordingConsent = async (consent: boolean) => {
+    try {
+      const reply = await novaSonicClientRef.current?.setRecordingConsent(consent)
+      setRecording(!!reply?.ok && reply.recording)
+    } catch (err) {
+      console.error("Error updating recording consent:", err)
+      setRecording(false)
+    }
+  }
+
+  const handleRecordConsentChange = (checked: boolean) => {
+    setRecordConsent(checked)
+    // Outside a session the choice is sent when the next one starts
+    if (active) sendRecordingConsent(checked)
+  }
+
 
   useEffect(() => {
         setIsVoiceMode(true);
@@ -74,21 +142,75 @@ export default function VoiceModeUI({
 
         novaSonicClientRef.current.on("connect", () => {
           setIsConnected(true)
-          setStatus("Connected to Nova Sonic")
+          setStatus(novaSonicClientRef.current?.isResuming() ? "Resuming session..." : "Connected to Nova Sonic")
         })
 
         novaSonicClientRef.current.on("disconnect", () => {
           setIsConnected(false)
+          // A running session waits on the server; keep the mic open and resume on reconnect
+          if (novaSonicClientRef.current?.isResuming()) {
+            setStatus("Connection lost, reconnecting...")
+            return
+          }
           setStatus("Disconnected")
           setActive(false)
           setIsSpeaking(false)
+          setRecording(false)
+        })
+
+        novaSonicClientRef.current.on("sessionResumed", (reply) => {
+          setTurns(reply.turns)
+          setRecording(reply.recording)
+          setStatus("Listening... Speak now")
+        })
+
+        novaSonicClientRef.current.on("sessionLost", ({ error }) => {
+          audioProcessorRef.current?.stopStreaming()
+          setActive(false)
+          setIsSpeaking(false)
+          setRecording(false)
+          setStatus("Session ended: " + error)
+        })
+
+        novaSonicClientRef.current.on("limitExceeded", (data) => {
+          audioProcessorRef.current?.stopStreaming()
+          setActive(false)
+          setIsSpeaking(false)
+          setRecording(false)
+          setStatus(limitMessage(data))
+        })
+
+        novaSonicClientRef.current.on("connectionRejected", (data) => {
+          setStatus("Connection refused: " + limitMessage(data))
+        })
+
+        novaSonicClientRef.current.on("contentStart", (data) => {
+          if (data?.type === "AUDIO" && data?.role === "ASSISTANT") assistantAudioIdRef.current = data.contentId
+        })
+
+        novaSonicClientRef.current.on("contentEnd", (data) => {
+          if (data?.stopReason === "INTERRUPTED") interruptAssistant(data.contentId)
+          if (data?.contentId && data.contentId === assistantAudioIdRef.current) assistantAudioIdRef.current = null
         })
 
         novaSonicClientRef.current.on("textOutput", (data) => {
-          if (data.content) setTranscript(data.content)
+          // Nova Sonic also signals barge-in as an assistant text of { "interrupted" : true }
+          if (isInterruptedSignal(data.content)) interruptAssistant()
+        })
+
+        novaSonicClientRef.current.on("transcriptTurn", ({ turn }) => {
+          setTurns((prev) => {
+            const index = prev.findIndex((t) => t.id === turn.id)
+            if (index === -1) return [...prev, turn]
+            const next = [...prev]
+            // A local barge-in mark stays even if this update predates the server seeing it
+            next[index] = { ...turn, interrupted: turn.interrupted || prev[index].interrupted }
+            return next
+          })
         })
 
         novaSonicClientRef.current.on("audioOutput", (data) => {
+          if (data.contentId && interruptedIdsRef.current.has(data.contentId)) return
           if (data.content) {
             try {
               setIsSpeaking(true)
@@ -101,6 +223,8 @@ export default function VoiceModeUI({
           }
         })
 
+        novaSonicClientRef.current.on("recordingStopped", () => setRecording(false))
+
         novaSonicClientRef.current.on("streamComplete", () => {
           setActive(false)
           setTimeout(() => setIsSpeaking(false), 500)
@@ -147,15 +271,32 @@ export default function VoiceModeUI({
     } else {
       try {
         setStatus("Starting session...")
+        setTurns([])
+        interruptedIdsRef.current.clear()
+        assistantAudioIdRef.current = null
         await novaSonicClientRef.current.initializeSession({ agentType })
 
-        await audioProcessorRef.current.startStreaming((base64Data) => {
-          novaSonicClientRef.current?.sendAudioInput(base64Data)
-        }, mediaStreamRef.current)
+        await audioProcessorRef.current.startStreaming(
+          (base64Data) => {
+            novaSonicClientRef.current?.sendAudioInput(base64Data)
+          },
+          mediaStreamRef.current,
+          {
+            // Stop playback as soon as the user starts talking over the assistant;
+            // Nova Sonic confirms with an INTERRUPTED contentEnd
+            onSpeechStart: () => {
+              if (audioPlayerRef.current?.playing) flushAssistantAudio()
+            },
+            onLevel: ({ rms }) => {
+              // Speech RMS rarely goes past ~0.3, so scale it up for the bar
+              if (micLevelRef.current) micLevelRef.current.style.width = `${Math.min(100, Math.round(rms * 300))}%`
+            },
+          },
+        )
 
         setActive(true)
         setStatus("Listening... Speak now")
-        setTranscript("")
+        if (recordConsent) sendRecordingConsent(true)
       } catch (err) {
         console.error("Error starting voice session:", err)
         setStatus("Error: " + (err instanceof Error ? err.message : "Unknown error"))
@@ -195,6 +336,12 @@ export default function VoiceModeUI({
             {isSpeaking ? "🎙️ I'm responding..." : active ? "👂 I'm listening..." : "💚 Voice Wellness Mode"}
           </h2>
           <p className="text-sm text-gray-600">{status}</p>
+          {recording && <p className="text-xs font-medium text-red-500">● Recording</p>}
+          {active && (
+            <div className="h-1.5 w-40 overflow-hidden rounded-full bg-gray-200" aria-label="Microphone level">
+              <div ref={micLevelRef} className="h-full w-0 rounded-full bg-[#8fbc8f] transition-[width] duration-75" />
+            </div>
+          )}
         </div>
 
         {/* Mic control */}
@@ -213,11 +360,32 @@ export default function VoiceModeUI({
           {active ? <StopIcon className="w-6 h-6 text-white" /> : <MicIcon className="w-6 h-6 text-white" />}
         </Button>
 
+        {/* Recording consent: nothing is recorded unless this is on */}
+        <label className="flex items-center gap-2 text-sm text-gray-600 cursor-pointer">
+          <Switch checked={recordConsent} onCheckedChange={handleRecordConsentChange} />
+          I agree to this call being recorded
+        </label>
+
         {/* Transcript */}
-        {transcript && (
-          <div className="w-full max-w-md bg-gray-50 p-4 rounded-lg text-sm">
-            <p className="font-medium text-gray-700 mb-2">Transcript:</p>
-            <p className="whitespace-pre-wrap text-gray-600">{transcript}</p>
+        {turns.some((turn) => turn.text || turn.toolCalls.length > 0) && (
+          <div ref={captionsRef} className="w-full max-w-md max-h-64 overflow-y-auto bg-gray-50 p-4 rounded-lg text-sm space-y-2">
+            <p className="font-medium text-gray-700">Transcript:</p>
+            {turns
+              .filter((turn) => turn.text || turn.toolCalls.length > 0)
+              .map((turn) => (
+                <p key={turn.id} className="whitespace-pre-wrap text-gray-600">
+                  <span className={`font-medium ${turn.role === "USER" ? "text-gray-700" : "text-[#2d5a5a]"}`}>
+                    {turn.role === "USER" ? "You" : "Assistant"}:
+                  </span>{" "}
+                  {turn.text}
+                  {turn.toolCalls.map((call) => (
+                    <span key={call.toolUseId} className="ml-1 text-xs text-gray-400">
+                      🛠️ {call.name}
+                    </span>
+                  ))}
+                  {turn.interrupted && <span className="ml-1 text-xs italic text-gray-400">— interrupted</span>}
+                </p>
+              ))}
           </div>
         )}
 
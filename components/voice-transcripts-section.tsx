@@ -0,0 +1,222 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Bot, User } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Card } from "@/components/ui/card"
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Skeleton } from "@/components/ui/skeleton"
+import type { VoiceTranscript, VoiceTranscriptAgent, VoiceTranscriptSummary } from "@/lib/voice/transcript"
+
+// Same value as ADMIN_PASSWORD_HEADER in lib/admin-auth.ts, which is server-only
+const ADMIN_PASSWORD_HEADER = "x-admin-password"
+
+const AGENT_LABELS: Record<VoiceTranscriptAgent, string> = {
+  retrieval: "Retrieval agent",
+  booking: "Booking agent",
+}
+
+const AGENT_FILTERS: { value: VoiceTranscriptAgent | "all"; label: string }[] = [
+  { value: "all", label: "All agents" },
+  { value: "retrieval", label: AGENT_LABELS.retrieval },
+  { value: "booking", label: AGENT_LABELS.booking },
+]
+
+// Tool output is usually JSON; pretty-print it when it parses
+function formatToolContent(content: string) {
+  try {
+    return JSON.stringify(JSON.parse(content), null, 2)
+  } catch {
+    return content
+  }
+}
+
+function duration(startedAt: string, endedAt: string | null) {
+  if (!endedAt) return "in progress"
+  const seconds = Math.max(0, Math.round((Date.parse(endedAt) - Date.parse(startedAt)) / 1000))
+  return seconds >= 60 ? `${Math.floor(seconds / 60)}m ${seconds % 60}s` : `${seconds}s`
+}
+
+export function VoiceTranscriptsSection({ adminPassword }: { adminPassword: string }) {
+  const [agentType, setAgentType] = useState<VoiceTranscriptAgent | "all">("all")
+  const [transcripts, setTranscripts] = useState<VoiceTranscriptSummary[]>([])
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [loadingMore, setLoadingMore] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const [selected, setSelected] = useState<VoiceTranscript | null>(null)
+  const [opening, setOpening] = useState<string | null>(null)
+
+  const adminHeaders = { [ADMIN_PASSWORD_HEADER]: adminPassword }
+
+  // ✅ Fetch a page of session summaries for the current filter; a cursor appends the next page
+  const fetchTranscripts = async (cursor?: string) => {
+    if (cursor) setLoadingMore(true)
+    else setLoading(true)
+    setError(null)
+    try {
+      const params = new URLSearchParams()
+      if (agentType !== "all") params.set("agentType", agentType)
+      if (cursor) params.set("cursor", cursor)
+      const res = await fetch(`/api/voice-transcripts?${params}`, { headers: adminHeaders })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || `Request failed: ${res.status}`)
+      setTranscripts((prev) => (cursor ? [...prev, ...data.transcripts] : data.transcripts))
+      setNextCursor(data.nextCursor)
+    } catch (err) {
+      console.error("❌ Error loading voice transcripts:", err)
+      setError("Failed to load voice transcripts.")
+    } finally {
+      setLoading(false)
+      setLoadingMore(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchTranscripts()
+  }, [agentType])
+
+  const openTranscript = async (summary: VoiceTranscriptSummary) => {
+    setOpening(summary.id)
+    try {
+      const res = await fetch(`/api/voice-transcripts/${summary.id}`, { headers: adminHeaders })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || `Request failed: ${res.status}`)
+      setSelected(data)
+    } catch (err) {
+      console.error("❌ Error loading voice transcript:", err)
+      alert("Failed to load transcript.")
+    } finally {
+      setOpening(null)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap gap-2">
+        {AGENT_FILTERS.map((option) => (
+          <Button
+            key={option.value}
+            variant={agentType === option.value ? "default" : "outline"}
+            size="sm"
+            onClick={() => setAgentType(option.value)}
+          >
+            {option.label}
+          </Button>
+        ))}
+      </div>
+
+      {loading ? (
+        <div className="space-y-3">
+          <Skeleton className="h-16 w-full" />
+          <Skeleton className="h-16 w-full" />
+          <Skeleton className="h-16 w-full" />
+        </div>
+      ) : error ? (
+        <p className="text-sm text-red-500">{error}</p>
+      ) : transcripts.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No voice sessions recorded yet.</p>
+      ) : (
+        <div className="space-y-3">
+          {transcripts.map((summary) => (
+            <Card
+              key={summary.id}
+              role="button"
+              tabIndex={0}
+              onClick={() => openTranscript(summary)}
+              onKeyDown={(e) => e.key === "Enter" && openTranscript(summary)}
+              className={`cursor-pointer border-border bg-card p-4 transition-shadow hover:shadow-md ${
+                opening === summary.id ? "opacity-60" : ""
+              }`}
+            >
+              <div className="flex items-start justify-between gap-4">
+                <div className="min-w-0 space-y-1">
+                  <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                    <span>{AGENT_LABELS[summary.agentType]}</span>
+                    <span>·</span>
+                    <span>{new Date(summary.startedAt).toLocaleString()}</span>
+                    <span>·</span>
+                    <span>{duration(summary.startedAt, summary.endedAt)}</span>
+                    {summary.userId && (
+                      <>
+                        <span>·</span>
+                        <span>user {summary.userId}</span>
+                      </>
+                    )}
+                  </div>
+                  <p className="truncate text-sm font-medium">{summary.preview || "(nothing said)"}</p>
+                </div>
+                <Badge variant="outline">{summary.turnCount} turns</Badge>
+              </div>
+            </Card>
+          ))}
+          {nextCursor && (
+            <Button variant="outline" size="sm" disabled={loadingMore} onClick={() => fetchTranscripts(nextCursor)}>
+              {loadingMore ? "Loading..." : "Load more"}
+            </Button>
+          )}
+        </div>
+      )}
+
+      {selected && (
+        <Dialog open={!!selected} onOpenChange={() => setSelected(null)}>
+          <DialogContent className="max-w-3xl max-h-[85vh] overflow-hidden flex flex-col rounded-2xl">
+            <DialogHeader className="sticky top-0 bg-background border-b pb-3 z-10">
+              <DialogTitle className="text-lg font-semibold">
+                {AGENT_LABELS[selected.agentType]} voice session
+              </DialogTitle>
+            </DialogHeader>
+
+            <div className="overflow-y-auto px-1.5 pr-3 py-4 space-y-4 text-sm">
+              <p className="text-xs text-muted-foreground">
+                Session {selected.id} · {new Date(selected.startedAt).toLocaleString()} ·{" "}
+                {duration(selected.startedAt, selected.endedAt)}
+                {selected.voiceId && ` · voice ${selected.voiceId}`}
+              </p>
+
+              {selected.turns.length === 0 && <p className="text-muted-foreground">Nothing was said in this session.</p>}
+
+              {selected.turns.map((turn) => (
+                <div key={turn.id} className="flex gap-3">
+                  {turn.role === "USER" ? (
+                    <User className="mt-0.5 size-4 shrink-0 text-muted-foreground" />
+                  ) : (
+                    <Bot className="mt-0.5 size-4 shrink-0 text-primary" />
+                  )}
+                  <div className="min-w-0 flex-1 space-y-2">
+                    <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                      <span>{turn.role === "USER" ? "Caller" : "Assistant"}</span>
+                      <span>·</span>
+                      <span>{new Date(turn.startedAt).toLocaleTimeString()}</span>
+                      {turn.interrupted && <Badge variant="secondary">interrupted</Badge>}
+                    </div>
+                    {turn.text && <p className="whitespace-pre-wrap">{turn.text}</p>}
+                    {turn.toolCalls.map((call) => (
+                      <details key={call.toolUseId} className="rounded-md border border-border">
+                        <summary className="cursor-pointer px-3 py-2 font-mono text-xs">
+                          {call.name} · {call.status}
+                        </summary>
+                        <div className="space-y-2 border-t border-border p-3">
+                          <pre className="overflow-x-auto whitespace-pre-wrap text-xs text-muted-foreground">
+                            {JSON.stringify(call.input, null, 2)}
+                          </pre>
+                          {call.result && (
+                            <pre className="max-h-80 overflow-auto whitespace-pre-wrap text-xs">
+                              {formatToolContent(call.result)}
+                            </pre>
+                          )}
+                        </div>
+                      </details>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </DialogContent>
+        </Dialog>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,20 @@
+import { timingSafeEqual } from "node:crypto"
+
+// The /admin login checks this password (app/api/auth). Admin-only API routes
+// expect the same password in the x-admin-password header.
+export const ADMIN_PASSWORD_HEADER = "x-admin-password"
+
+export function getAdminPassword(): string {
+  return process.env.NEXT_PUBLIC_ADMIN_PASSWORD || "demo123"
+}
+
+export function isAdminPassword(password: unknown): boolean {
+  if (typeof password !== "string") return false
+  const expected = Buffer.from(getAdminPassword())
+  const actual = Buffer.from(password)
+  return expected.length === actual.length && timingSafeEqual(expected, actual)
+}
+
+export function isAdminRequest(req: Request): boolean {
+  return isAdminPassword(req.headers.get(ADMIN_PASSWORD_HEADER))
+}
@@ -0,0 +1,160 @@
+import { bookingMatchesContact, getBookingStore, normalizeConfirmationCode } from "@/lib/booking/store"
+import { estimateFare } from "@/lib/pricing/estimate"
+import { fetchHistoricalTrips, routeQuery } from "@/lib/pricing/records"
+
+// Local fulfilment for Bedrock agent action groups configured with RETURN_CONTROL.
+// The agent hands the function call back to /api/bedrock-agent, which runs the
+// matching handler here and re-invokes the agent with the result.
+
+export interface ActionContext {
+  sessionId: string
+  sessionAttributes?: Record<string, string>
+}
+
+// FAILURE tells the agent the call failed; REPROMPT asks it to go back to the user
+export interface ActionResult {
+  body: string
+  state?: "FAILURE" | "REPROMPT"
+}
+
+export type ActionHandler = (parameters: Record<string, string>, context: ActionContext) => Promise<ActionResult>
+
+export interface ReturnControlInvocation {
+  actionGroup: string
+  // Function name, or the API path for OpenAPI action groups
+  name: string
+  apiPath: string | null
+  httpMethod: string | null
+  parameters: Record<string, string>
+}
+
+const handlers = new Map<string, ActionHandler>()
+
+// Register under a bare function name, or "actionGroup.function" to target one action group
+export function registerActionHandler(name: string, handler: ActionHandler) {
+  handlers.set(name, handler)
+}
+
+function findHandler(invocation: ReturnControlInvocation): ActionHandler | undefined {
+  const bareName = invocation.name.replace(/^\//, "").split("/").pop() || invocation.name
+  return handlers.get(`${invocation.actionGroup}.${invocation.name}`) || handlers.get(invocation.name) || handlers.get(bareName)
+}
+
+function collectParameters(list: any[] | undefined, into: Record<string, string>) {
+  for (const p of list ?? []) {
+    if (p?.name) into[p.name] = String(p.value ?? "")
+  }
+}
+
+// Flatten the invocation inputs of a `returnControl` event
+export function parseReturnControl(payload: any): ReturnControlInvocation[] {
+  return (payload?.invocationInputs ?? []).flatMap((input: any): ReturnControlInvocation[] => {
+    const fn = input?.functionInvocationInput
+    if (fn) {
+      const parameters: Record<string, string> = {}
+      collectParameters(fn.parameters, parameters)
+      return [{ actionGroup: fn.actionGroup ?? "", name: fn.function ?? "", apiPath: null, httpMethod: null, parameters }]
+    }
+    const api = input?.apiInvocationInput
+    if (api) {
+      const parameters: Record<string, string> = {}
+      collectParameters(api.parameters, parameters)
+      for (const content of Object.values<any>(api.requestBody?.content ?? {})) {
+        collectParameters(content?.properties, parameters)
+      }
+      return [{ actionGroup: api.actionGroup ?? "", name: api.apiPath ?? "", apiPath: api.apiPath ?? null, httpMethod: api.httpMethod ?? null, parameters }]
+    }
+    return []
+  })
+}
+
+export async function runAction(invocation: ReturnControlInvocation, context: ActionContext): Promise<ActionResult> {
+  const handler = findHandler(invocation)
+  if (!handler) {
+    return { state: "FAILURE", body: JSON.stringify({ error: `No handler for ${invocation.actionGroup}.${invocation.name}` }) }
+  }
+  try {
+    return await handler(invocation.parameters, context)
+  } catch (error) {
+    console.error(`❌ Action ${invocation.actionGroup}.${invocation.name} failed:`, error)
+    return { state: "FAILURE", body: JSON.stringify({ error: "The action failed. Try again later." }) }
+  }
+}
+
+// Shape a handler result as an entry of sessionState.returnControlInvocationResults
+export function toInvocationResult(invocation: ReturnControlInvocation, result: ActionResult): any {
+  if (invocation.apiPath) {
+    return {
+      apiResult: {
+        actionGroup: invocation.actionGroup,
+        apiPath: invocation.apiPath,
+        httpMethod: invocation.httpMethod ?? undefined,
+        httpStatusCode: result.state === "FAILURE" ? 500 : result.state === "REPROMPT" ? 400 : 200,
+        responseBody: { "application/json": { body: result.body } },
+        responseState: result.state,
+      },
+    }
+  }
+  return {
+    functionResult: {
+      actionGroup: invocation.actionGroup,
+      function: invocation.name,
+      responseBody: { TEXT: { body: result.body } },
+      responseState: result.state,
+    },
+  }
+}
+
+// ---------------- Built-in handlers ---------------- //
+
+function firstParameter(parameters: Record<string, string>, ...names: string[]): string {
+  for (const name of names) {
+    if (parameters[name]?.trim()) return parameters[name].trim()
+  }
+  return ""
+}
+
+const priceEstimate: ActionHandler = async (parameters) => {
+  const pickup = firstParameter(parameters, "pickup", "pickup_location", "origin")
+  const dropoff = firstParameter(parameters, "dropoff", "dropoff_location", "destination")
+  const passengers = Number(firstParameter(parameters, "passengers", "num_passengers", "passenger_count"))
+  if (!pickup || !dropoff || !Number.isFinite(passengers) || passengers <= 0) {
+    return { state: "REPROMPT", body: JSON.stringify({ error: "Pickup, dropoff and passenger count are required." }) }
+  }
+
+  const request = {
+    pickup,
+    dropoff,
+    passengers,
+    days: Number(firstParameter(parameters, "days", "service_days")) || 1,
+    tripType: firstParameter(parameters, "trip_type") || null,
+    vehicleType: firstParameter(parameters, "vehicle_type") || null,
+  }
+  const estimate = estimateFare(request, await fetchHistoricalTrips(routeQuery(request)))
+  return { body: JSON.stringify(estimate) }
+}
+
+const lookupBooking: ActionHandler = async (parameters) => {
+  const code = normalizeConfirmationCode(firstParameter(parameters, "confirmation_code", "code"))
+  const email = firstParameter(parameters, "email")
+  const phone = firstParameter(parameters, "phone")
+  if (!code || (!email && !phone)) {
+    return { state: "REPROMPT", body: JSON.stringify({ error: "A confirmation code and the email or phone on the booking are required." }) }
+  }
+
+  const store = getBookingStore()
+  if (!store.supportsChanges) {
+    return { body: JSON.stringify({ found: false, message: "Saved bookings can't be looked up here. Ask the user to contact the office." }) }
+  }
+
+  // Same answer for unknown codes and contact mismatches so codes can't be probed
+  const booking = await store.find(code)
+  if (!booking || !bookingMatchesContact(booking, { email, phone })) {
+    return { body: JSON.stringify({ found: false, message: "No booking matches that confirmation code and contact detail." }) }
+  }
+  return { body: JSON.stringify({ found: true, booking }) }
+}
+
+registerActionHandler("get_price_estimate", priceEstimate)
+registerActionHandler("get_price_estimate_fn", priceEstimate)
+registerActionHandler("lookup_booking", lookupBooking)
@@ -0,0 +1,86 @@
+import type { BookingState } from "@/lib/booking/state"
+
+// Streaming protocol shared by the agent routes and the chat pages.
+// Responses are NDJSON: one JSON-encoded AgentEvent per line, always ending with `done`.
+
+// A knowledge base passage the agent's answer was grounded on
+export interface Citation {
+  // s3:// URI (or web URL) of the source document
+  sourceUri: string
+  snippet: string
+  knowledgeBaseId: string | null
+}
+
+// One step of a Bedrock agent trace (opt-in on /api/bedrock-agent). Calls and
+// their results share a traceId.
+export type AgentTraceStep =
+  | { kind: "pre_processing"; traceId: string | null; isValid: boolean | null; rationale: string | null }
+  | { kind: "rationale"; traceId: string | null; text: string }
+  | { kind: "action_group_call"; traceId: string | null; actionGroup: string; function: string | null; parameters: Record<string, string> }
+  | { kind: "action_group_result"; traceId: string | null; output: string }
+  | { kind: "knowledge_base_lookup"; traceId: string | null; knowledgeBaseId: string; query: string }
+  | { kind: "knowledge_base_result"; traceId: string | null; sources: string[] }
+  | { kind: "final_response"; traceId: string | null; text: string }
+  | { kind: "post_processing"; traceId: string | null; text: string }
+  | { kind: "failure"; traceId: string | null; reason: string }
+
+export type AgentEvent =
+  | { type: "text_delta"; text: string }
+  | { type: "tool_call"; toolUseId: string; name: string; input: unknown }
+  | { type: "tool_result"; toolUseId: string; name: string; status: "success" | "error"; content: string }
+  | { type: "booking_state"; state: BookingState; missingFields: string[] }
+  | { type: "booking_saved"; booking: BookingState; message: string }
+  | { type: "citation"; citation: Citation }
+  | { type: "trace"; step: AgentTraceStep }
+  | { type: "usage"; inputTokens: number; outputTokens: number; totalTokens: number }
+  | { type: "error"; message: string }
+  | { type: "done" }
+
+export type AgentEventType = AgentEvent["type"]
+
+export const AGENT_EVENT_CONTENT_TYPE = "application/x-ndjson; charset=utf-8"
+
+const encoder = new TextEncoder()
+
+export function encodeAgentEvent(event: AgentEvent): Uint8Array {
+  return encoder.encode(JSON.stringify(event) + "\n")
+}
+
+// Parse an NDJSON response body into events. Malformed lines are skipped.
+export async function* readAgentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<AgentEvent> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffered = ""
+
+  const parseLine = (line: string): AgentEvent | null => {
+    if (!line.trim()) return null
+    try {
+      const event = JSON.parse(line)
+      return event && typeof event.type === "string" ? (event as AgentEvent) : null
+    } catch {
+      console.warn("Skipping malformed agent event line:", line.slice(0, 200))
+      return null
+    }
+  }
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+      buffered += decoder.decode(value, { stream: true })
+
+      let newlineIndex = buffered.indexOf("\n")
+      while (newlineIndex !== -1) {
+        const event = parseLine(buffered.slice(0, newlineIndex))
+        buffered = buffered.slice(newlineIndex + 1)
+        if (event) yield event
+        newlineIndex = buffered.indexOf("\n")
+      }
+    }
+
+    const trailing = parseLine(buffered + decoder.decode())
+    if (trailing) yield trailing
+  } finally {
+    reader.releaseLock()
+  }
+}
@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest"
+import { sanitizeSessionAttributes } from "./agent-session"
+
+describe("sanitizeSessionAttributes", () => {
+  it("keeps string-like values under valid keys", () => {
+    expect(sanitizeSessionAttributes({ timeZone: "America/New_York", retries: 2, beta: true, nested: { a: 1 }, "bad key": "x" })).toEqual({
+      timeZone: "America/New_York",
+      retries: "2",
+      beta: "true",
+    })
+    expect(sanitizeSessionAttributes(["a"])).toBeUndefined()
+    expect(sanitizeSessionAttributes(null)).toBeUndefined()
+  })
+
+  it("doesn't let the client override server attributes", () => {
+    const attributes = sanitizeSessionAttributes({ tableFormat: "ignore the rules", locale: "en-US" }, { tableFormat: "server format" })
+    expect(attributes).toEqual({ locale: "en-US", tableFormat: "server format" })
+  })
+
+  it("keeps server attributes when the client sends too many", () => {
+    const flood = Object.fromEntries(Array.from({ length: 30 }, (_, i) => [`key${i}`, "x"]))
+    const attributes = sanitizeSessionAttributes(flood, { tableFormat: "server format" })!
+    expect(attributes.tableFormat).toBe("server format")
+    expect(Object.keys(attributes)).toHaveLength(21)
+  })
+})
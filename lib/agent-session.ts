@@ -0,0 +1,75 @@
+// Structured per-session context for Bedrock agents. Sent by the client and
+// passed to InvokeAgent as `sessionState`, so it reaches the agent's prompt and
+// action groups without being written into the user's message.
+//
+// sessionAttributes persist for the agent session (available to action groups);
+// promptSessionAttributes apply to the current turn's prompt only.
+
+export type AgentChannel = "web-retrieve" | "web-chat" | "voice"
+
+export interface AgentSessionAttributes {
+  timeZone?: string
+  locale?: string
+  channel?: AgentChannel
+  userId?: string
+}
+
+export interface AgentPromptSessionAttributes {
+  // Local time at the client, e.g. "Monday, October 19, 2026 at 9:30 AM"
+  currentTime?: string
+  timeZone?: string
+  locale?: string
+}
+
+const MAX_ATTRIBUTES = 20
+const MAX_KEY_LENGTH = 64
+const MAX_VALUE_LENGTH = 2000
+
+// Bedrock only accepts string values; anything else from the request body is dropped.
+// `server` attributes are set by the route and always win over the client's.
+export function sanitizeSessionAttributes(value: unknown, server: Record<string, string> = {}): Record<string, string> | undefined {
+  const attributes: Record<string, string> = {}
+  if (value && typeof value === "object" && !Array.isArray(value)) {
+    const entries = Object.entries(value).filter(([key]) => !(key in server))
+    for (const [key, raw] of entries.slice(0, MAX_ATTRIBUTES)) {
+      if (!/^[A-Za-z][A-Za-z0-9_-]*$/.test(key) || key.length > MAX_KEY_LENGTH) continue
+      if (typeof raw !== "string" && typeof raw !== "number" && typeof raw !== "boolean") continue
+      attributes[key] = String(raw).slice(0, MAX_VALUE_LENGTH)
+    }
+  }
+  Object.assign(attributes, server)
+  return Object.keys(attributes).length > 0 ? attributes : undefined
+}
+
+const USER_ID_KEY = "ms-agent-user-id"
+
+// Anonymous id kept in localStorage so an agent can tell returning browsers apart
+function getBrowserUserId(): string | undefined {
+  try {
+    let id = window.localStorage.getItem(USER_ID_KEY)
+    if (!id) {
+      id = typeof crypto !== "undefined" && "randomUUID" in crypto ? crypto.randomUUID() : `user-${Math.random().toString(36).slice(2)}`
+      window.localStorage.setItem(USER_ID_KEY, id)
+    }
+    return id
+  } catch {
+    return undefined
+  }
+}
+
+// Client-side: the context a page sends with each agent request
+export function buildClientSessionContext(channel: AgentChannel): {
+  sessionAttributes: AgentSessionAttributes
+  promptSessionAttributes: AgentPromptSessionAttributes
+} {
+  const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone
+  const locale = typeof navigator !== "undefined" ? navigator.language : "en-US"
+  return {
+    sessionAttributes: { timeZone, locale, channel, userId: getBrowserUserId() },
+    promptSessionAttributes: {
+      currentTime: new Date().toLocaleString(locale, { dateStyle: "full", timeStyle: "short", timeZone }),
+      timeZone,
+      locale,
+    },
+  }
+}
@@ -0,0 +1,127 @@
+import type { AgentTraceStep } from "@/lib/agent-events"
+
+// Turns raw InvokeAgent trace parts into the structured steps streamed to the
+// retrieve page, and tracks knowledge base lookups for citation attribution.
+
+// Where a retrieved passage came from, whatever kind of data source it lives in
+export function referenceUri(reference: any): string | null {
+  const location = reference?.location
+  return (
+    location?.s3Location?.uri ||
+    location?.webLocation?.url ||
+    location?.confluenceLocation?.url ||
+    location?.salesforceLocation?.url ||
+    location?.sharePointLocation?.url ||
+    reference?.metadata?.["x-amz-bedrock-kb-source-uri"] ||
+    null
+  )
+}
+
+// Action group parameters arrive as [{ name, type, value }] for function schemas
+// and as a requestBody for OpenAPI schemas
+function actionGroupParameters(input: any): Record<string, string> {
+  const parameters: Record<string, string> = {}
+  for (const p of input?.parameters ?? []) {
+    if (p?.name) parameters[p.name] = String(p.value ?? "")
+  }
+  for (const [, body] of Object.entries<any>(input?.requestBody?.content ?? {})) {
+    for (const p of body ?? []) {
+      if (p?.name) parameters[p.name] = String(p.value ?? "")
+    }
+  }
+  return parameters
+}
+
+export function toTraceSteps(trace: any): AgentTraceStep[] {
+  const steps: AgentTraceStep[] = []
+
+  const preProcessing = trace?.preProcessingTrace?.modelInvocationOutput
+  if (preProcessing?.parsedResponse) {
+    steps.push({
+      kind: "pre_processing",
+      traceId: preProcessing.traceId ?? null,
+      isValid: typeof preProcessing.parsedResponse.isValid === "boolean" ? preProcessing.parsedResponse.isValid : null,
+      rationale: preProcessing.parsedResponse.rationale ?? null,
+    })
+  }
+
+  const orchestration = trace?.orchestrationTrace
+  if (orchestration?.rationale?.text) {
+    steps.push({ kind: "rationale", traceId: orchestration.rationale.traceId ?? null, text: orchestration.rationale.text })
+  }
+
+  const input = orchestration?.invocationInput
+  if (input?.actionGroupInvocationInput) {
+    const call = input.actionGroupInvocationInput
+    steps.push({
+      kind: "action_group_call",
+      traceId: input.traceId ?? null,
+      actionGroup: call.actionGroupName ?? "unknown",
+      function: call.function ?? (call.apiPath ? `${call.verb ?? ""} ${call.apiPath}`.trim() : null),
+      parameters: actionGroupParameters(call),
+    })
+  }
+  if (input?.knowledgeBaseLookupInput) {
+    steps.push({
+      kind: "knowledge_base_lookup",
+      traceId: input.traceId ?? null,
+      knowledgeBaseId: input.knowledgeBaseLookupInput.knowledgeBaseId ?? "unknown",
+      query: input.knowledgeBaseLookupInput.text ?? "",
+    })
+  }
+
+  const observation = orchestration?.observation
+  if (observation?.actionGroupInvocationOutput) {
+    steps.push({ kind: "action_group_result", traceId: observation.traceId ?? null, output: observation.actionGroupInvocationOutput.text ?? "" })
+  }
+  if (observation?.knowledgeBaseLookupOutput) {
+    const sources = (observation.knowledgeBaseLookupOutput.retrievedReferences ?? [])
+      .map(referenceUri)
+      .filter((uri: string | null): uri is string => !!uri)
+    steps.push({ kind: "knowledge_base_result", traceId: observation.traceId ?? null, sources })
+  }
+  if (observation?.finalResponse?.text) {
+    steps.push({ kind: "final_response", traceId: observation.traceId ?? null, text: observation.finalResponse.text })
+  }
+
+  const postProcessing = trace?.postProcessingTrace?.modelInvocationOutput?.parsedResponse
+  if (postProcessing?.text) {
+    steps.push({ kind: "post_processing", traceId: trace.postProcessingTrace.modelInvocationOutput.traceId ?? null, text: postProcessing.text })
+  }
+
+  if (trace?.failureTrace) {
+    steps.push({ kind: "failure", traceId: trace.failureTrace.traceId ?? null, reason: trace.failureTrace.failureReason ?? "Unknown failure" })
+  }
+
+  return steps
+}
+
+// Citations don't name their knowledge base; the orchestration trace does.
+// Remembers which knowledge base each lookup went to and which sources it returned.
+export function createKnowledgeBaseTracker() {
+  const bySource = new Map<string, string>()
+  const consulted = new Set<string>()
+  let pending: string | null = null
+
+  return {
+    observe(trace: any) {
+      const orchestration = trace?.orchestrationTrace
+      const lookupKbId = orchestration?.invocationInput?.knowledgeBaseLookupInput?.knowledgeBaseId
+      if (lookupKbId) {
+        pending = lookupKbId
+        consulted.add(lookupKbId)
+      }
+      const references = orchestration?.observation?.knowledgeBaseLookupOutput?.retrievedReferences
+      if (pending && Array.isArray(references)) {
+        for (const reference of references) {
+          const uri = referenceUri(reference)
+          if (uri) bySource.set(uri, pending)
+        }
+        pending = null
+      }
+    },
+    knowledgeBaseFor(uri: string): string | null {
+      return bySource.get(uri) || (consulted.size === 1 ? [...consulted][0] : null)
+    },
+  }
+}
@@ -27,11 +27,20 @@ export class AudioPlayer {
   private isProcessingQueue = false
   private nextStartTime = 0
   private currentPlaybackTime = 0
+  // Chunks handed to the audio graph that haven't finished playing
+  private scheduledSources = new Set<AudioBufferSourceNode>()
+  // Bumped on every flush so a queue loop that is mid-await drops its work
+  private generation = 0
 
   get initialized() {
     return this._initialized
   }
 
+  // True while streamed audio is playing or waiting to play
+  get playing() {
+    return this.scheduledSources.size > 0 || this.audioQueue.length > 0
+  }
+
   async start() {
     try {
       if (!this.audioContext) {
@@ -104,6 +113,7 @@ export class AudioPlayer {
   private async processAudioQueue() {
     if (!this.audioContext || !this.gainNode) return
 
+    const generation = this.generation
     this.isProcessingQueue = true
 
     if (this.nextStartTime === 0) {
@@ -120,9 +130,14 @@ export class AudioPlayer {
         const source = this.audioContext.createBufferSource()
         source.buffer = audioBuffer
         source.connect(this.gainNode)
+        source.onended = () => {
+          this.scheduledSources.delete(source)
+          if (!this.playing) this.isPlaying = false
+        }
 
         const startTime = Math.max(this.nextStartTime, this.audioContext.currentTime)
         source.start(startTime)
+        this.scheduledSources.add(source)
 
         // Calculate next start time for seamless playback
         this.nextStartTime = startTime + audioBuffer.duration
@@ -134,6 +149,8 @@ export class AudioPlayer {
       }
 
       await new Promise((resolve) => setTimeout(resolve, 10))
+      // Flushed while waiting: a newer loop owns the queue now
+      if (generation !== this.generation) return
     }
 
     this.isProcessingQueue = false
@@ -149,6 +166,29 @@ export class AudioPlayer {
       this.currentSource = null
     }
 
+    this.flush()
+  }
+
+  // Barge-in: silence everything already scheduled and drop what is still
+  // queued, right away. Returns whether anything was playing.
+  interrupt(): boolean {
+    const wasPlaying = this.playing
+    this.flush()
+    return wasPlaying
+  }
+
+  private flush() {
+    this.generation++
+    for (const source of this.scheduledSources) {
+      source.onended = null
+      try {
+        source.stop()
+      } catch (error) {
+        // Ignore errors when stopping already stopped sources
+      }
+    }
+    this.scheduledSources.clear()
+
     // Clear queue and reset timing
     this.audioQueue = []
     this.nextStartTime = 0
@@ -174,18 +214,198 @@ export class AudioPlayer {
   }
 }
 
+export interface VoiceActivityOptions {
+  // RMS level (0–1) counted as speech
+  threshold?: number
+  // Consecutive loud frames before speech is reported
+  minSpeechFrames?: number
+  // Consecutive quiet frames before the next speech start can be reported
+  minSilenceFrames?: number
+}
+
+// Energy-based voice activity detection on the mic input. Reports the start
+// of each utterance once; used to cut off the assistant when the user talks over it.
+export class VoiceActivityDetector {
+  private loudFrames = 0
+  private quietFrames = 0
+  private speaking = false
+  private readonly threshold: number
+  private readonly minSpeechFrames: number
+  private readonly minSilenceFrames: number
+
+  constructor(private onSpeechStart: () => void, options: VoiceActivityOptions = {}) {
+    this.threshold = options.threshold ?? 0.04
+    this.minSpeechFrames = options.minSpeechFrames ?? 3
+    this.minSilenceFrames = options.minSilenceFrames ?? 8
+  }
+
+  static rms(samples: Float32Array): number {
+    let sum = 0
+    for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i]
+    return samples.length > 0 ? Math.sqrt(sum / samples.length) : 0
+  }
+
+  process(samples: Float32Array) {
+    if (VoiceActivityDetector.rms(samples) >= this.threshold) {
+      this.loudFrames++
+      this.quietFrames = 0
+      if (!this.speaking && this.loudFrames >= this.minSpeechFrames) {
+        this.speaking = true
+        this.onSpeechStart()
+      }
+    } else {
+      this.quietFrames++
+      this.loudFrames = 0
+      if (this.speaking && this.quietFrames >= this.minSilenceFrames) this.speaking = false
+    }
+  }
+}
+
+export function float32ToBase64PCM(samples: Float32Array): string {
+  const pcmData = new Int16Array(samples.length)
+  for (let i = 0; i < samples.length; i++) {
+    const sample = Math.max(-1, Math.min(1, samples[i]))
+    pcmData[i] = sample * 0x7fff
+  }
+
+  const uint8Array = new Uint8Array(pcmData.buffer)
+  let binary = ""
+  const chunkSize = 8192
+  for (let i = 0; i < uint8Array.length; i += chunkSize) {
+    binary += String.fromCharCode.apply(null, Array.from(uint8Array.subarray(i, i + chunkSize)))
+  }
+  return btoa(binary)
+}
+
+// Converts a mono stream from the device rate to the target rate and cuts it
+// into frames of a fixed number of samples. Linear interpolation when
+// upsampling; when downsampling each output sample averages the input samples
+// it covers, which keeps most of the aliasing out of speech.
+export class PcmFramer {
+  private readonly ratio: number
+  private pending = new Float32Array(0)
+  // Position of the next output sample in `pending`, in input samples
+  private position = 0
+  private frame: Float32Array
+  private filled = 0
+
+  constructor(
+    readonly inputRate: number,
+    readonly outputRate: number,
+    readonly frameSize: number,
+    private onFrame: (frame: Float32Array) => void,
+  ) {
+    this.ratio = inputRate / outputRate
+    this.frame = new Float32Array(frameSize)
+  }
+
+  push(input: Float32Array) {
+    const samples = new Float32Array(this.pending.length + input.length)
+    samples.set(this.pending)
+    samples.set(input, this.pending.length)
+
+    const half = this.ratio > 1 ? this.ratio / 2 : 0
+    while (Math.floor(this.position + half) + 1 < samples.length) {
+      this.emit(this.sampleAt(samples, this.position, half))
+      this.position += this.ratio
+    }
+
+    // Keep what the next output samples still need
+    const keepFrom = Math.max(0, Math.min(samples.length, Math.floor(this.position - half) - 1))
+    this.pending = samples.slice(keepFrom)
+    this.position -= keepFrom
+  }
+
+  private sampleAt(samples: Float32Array, position: number, half: number): number {
+    if (half === 0) {
+      const index = Math.floor(position)
+      const fraction = position - index
+      return samples[index] * (1 - fraction) + samples[index + 1] * fraction
+    }
+    const start = Math.max(0, Math.ceil(position - half))
+    const end = Math.floor(position + half)
+    let sum = 0
+    for (let i = start; i <= end; i++) sum += samples[i]
+    return sum / (end - start + 1)
+  }
+
+  private emit(sample: number) {
+    this.frame[this.filled++] = sample
+    if (this.filled === this.frameSize) {
+      this.onFrame(this.frame)
+      this.frame = new Float32Array(this.frameSize)
+      this.filled = 0
+    }
+  }
+}
+
+export interface InputLevel {
+  // 0–1, per frame
+  rms: number
+  peak: number
+}
+
+export interface CaptureOptions {
+  onSpeechStart?: () => void
+  voiceActivity?: VoiceActivityOptions
+  // Called for every frame, for a mic meter
+  onLevel?: (level: InputLevel) => void
+  // Rate sent to the server (default 24000, what the voice server declares to Nova Sonic)
+  sampleRate?: 16000 | 24000
+  // Samples per chunk handed to onAudioChunk (default 80 ms worth)
+  frameSize?: number
+}
+
+const DEFAULT_CAPTURE_RATE = 24000
+const DEFAULT_FRAME_MS = 80
+// Device-rate samples the worklet collects before posting them to the main thread
+const WORKLET_BATCH_SIZE = 1024
+
+// Runs on the audio thread: downmixes to mono and posts batches of raw samples.
+// Resampling and framing happen in PcmFramer on the main thread, shared with
+// the ScriptProcessorNode fallback.
+const CAPTURE_WORKLET_SOURCE = `
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super()
+    this.batchSize = options.processorOptions.batchSize
+    this.buffer = new Float32Array(this.batchSize)
+    this.length = 0
+  }
+
+  process(inputs) {
+    const channels = inputs[0]
+    if (!channels || channels.length === 0) return true
+    const frames = channels[0].length
+    for (let i = 0; i < frames; i++) {
+      let sample = 0
+      for (let c = 0; c < channels.length; c++) sample += channels[c][i]
+      this.buffer[this.length++] = sample / channels.length
+      if (this.length === this.batchSize) {
+        this.port.postMessage(this.buffer, [this.buffer.buffer])
+        this.buffer = new Float32Array(this.batchSize)
+        this.length = 0
+      }
+    }
+    return true
+  }
+}
+registerProcessor("pcm-capture", PcmCaptureProcessor)
+`
+
 export class AudioProcessor {
   private audioContext: AudioContext | null = null
-  private processorNode: ScriptProcessorNode | null = null
+  private captureNode: AudioWorkletNode | ScriptProcessorNode | null = null
   private sourceNode: MediaStreamAudioSourceNode | null = null
+  private workletReady: Promise<boolean> | null = null
   private isStreaming = false
 
   async initAudio() {
     try {
-      this.audioContext = new AudioContext({
-        sampleRate: 24000,
-        latencyHint: "interactive",
-      })
+      // The context runs at the device rate: Firefox can't connect a mic stream
+      // to a context at another rate, and many headsets ignore a requested one.
+      // Audio is resampled to the capture rate instead.
+      this.audioContext = new AudioContext({ latencyHint: "interactive" })
 
       if (this.audioContext.state === "suspended") {
         await this.audioContext.resume()
@@ -196,43 +416,75 @@ export class AudioProcessor {
     }
   }
 
-  async startStreaming(onAudioChunk: (base64Data: string) => void, stream: MediaStream) {
+  // False when AudioWorklet is unavailable (insecure origin, old browser)
+  private loadWorklet(context: AudioContext): Promise<boolean> {
+    if (!this.workletReady) {
+      this.workletReady = (async () => {
+        if (!context.audioWorklet) return false
+        const url = URL.createObjectURL(new Blob([CAPTURE_WORKLET_SOURCE], { type: "application/javascript" }))
+        try {
+          await context.audioWorklet.addModule(url)
+          return true
+        } catch (error) {
+          console.warn("AudioWorklet capture unavailable, using ScriptProcessorNode:", error)
+          return false
+        } finally {
+          URL.revokeObjectURL(url)
+        }
+      })()
+    }
+    return this.workletReady
+  }
+
+  async startStreaming(onAudioChunk: (base64Data: string) => void, stream: MediaStream, options?: CaptureOptions) {
     if (!this.audioContext) throw new Error("AudioContext not initialized")
+    const context = this.audioContext
 
     try {
       this.isStreaming = true
+      const detector = options?.onSpeechStart ? new VoiceActivityDetector(options.onSpeechStart, options.voiceActivity) : null
+      const outputRate = options?.sampleRate ?? DEFAULT_CAPTURE_RATE
+      const frameSize = options?.frameSize ?? Math.round((outputRate * DEFAULT_FRAME_MS) / 1000)
 
-      this.sourceNode = this.audioContext.createMediaStreamSource(stream)
-
-      this.processorNode = this.audioContext.createScriptProcessor(2048, 1, 1)
-
-      this.processorNode.onaudioprocess = (e) => {
+      const framer = new PcmFramer(context.sampleRate, outputRate, frameSize, (frame) => {
         if (!this.isStreaming) return
-
         try {
-          const inputData = e.inputBuffer.getChannelData(0)
-          const pcmData = new Int16Array(inputData.length)
-
-          for (let i = 0; i < inputData.length; i++) {
-            const sample = Math.max(-1, Math.min(1, inputData[i]))
-            pcmData[i] = sample * 0x7fff
-          }
-
-          const uint8Array = new Uint8Array(pcmData.buffer)
-          let binary = ""
-          const chunkSize = 8192
-          for (let i = 0; i < uint8Array.length; i += chunkSize) {
-            binary += String.fromCharCode.apply(null, Array.from(uint8Array.subarray(i, i + chunkSize)))
+          detector?.process(frame)
+          if (options?.onLevel) {
+            let peak = 0
+            for (let i = 0; i < frame.length; i++) peak = Math.max(peak, Math.abs(frame[i]))
+            options.onLevel({ rms: VoiceActivityDetector.rms(frame), peak: Math.min(1, peak) })
           }
-          const base64 = btoa(binary)
-          onAudioChunk(base64)
+          onAudioChunk(float32ToBase64PCM(frame))
         } catch (error) {
           console.error("Error processing audio chunk:", error)
         }
+      })
+
+      this.sourceNode = context.createMediaStreamSource(stream)
+
+      if (await this.loadWorklet(context)) {
+        const node = new AudioWorkletNode(context, "pcm-capture", {
+          numberOfInputs: 1,
+          numberOfOutputs: 1,
+          outputChannelCount: [1],
+          processorOptions: { batchSize: WORKLET_BATCH_SIZE },
+        })
+        node.port.onmessage = (e: MessageEvent<Float32Array>) => {
+          if (this.isStreaming) framer.push(e.data)
+        }
+        this.captureNode = node
+      } else {
+        const node = context.createScriptProcessor(2048, 1, 1)
+        node.onaudioprocess = (e) => {
+          if (this.isStreaming) framer.push(e.inputBuffer.getChannelData(0))
+        }
+        this.captureNode = node
       }
 
-      this.sourceNode.connect(this.processorNode)
-      this.processorNode.connect(this.audioContext.destination)
+      // The capture node outputs silence; connecting it keeps it processing
+      this.sourceNode.connect(this.captureNode)
+      this.captureNode.connect(context.destination)
     } catch (error) {
       console.error("Error starting audio streaming:", error)
       this.isStreaming = false
@@ -244,9 +496,10 @@ export class AudioProcessor {
     this.isStreaming = false
 
     try {
-      if (this.processorNode) {
-        this.processorNode.disconnect()
-        this.processorNode = null
+      if (this.captureNode) {
+        if (this.captureNode instanceof AudioWorkletNode) this.captureNode.port.onmessage = null
+        this.captureNode.disconnect()
+        this.captureNode = null
       }
       if (this.sourceNode) {
         this.sourceNode.disconnect()
@@ -263,5 +516,6 @@ export class AudioProcessor {
       this.audioContext.close()
       this.audioContext = null
     }
+    this.workletReady = null
   }
 }
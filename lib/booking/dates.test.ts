@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { describeDate, resolveDate, todayIn } from "./dates.ts";
+
+// Tuesday, March 10, 2026, 11pm in New York (already the 11th in UTC)
+const context = { timeZone: "America/New_York", now: new Date("2026-03-11T03:00:00Z") };
+const resolve = (expression: string) => resolveDate(expression, context);
+
+describe("todayIn", () => {
+  it("uses the caller's timezone", () => {
+    expect(todayIn(context).toISOString().slice(0, 10)).toBe("2026-03-10");
+    expect(todayIn({ ...context, timeZone: "UTC" }).toISOString().slice(0, 10)).toBe("2026-03-11");
+  });
+});
+
+describe("resolveDate", () => {
+  it.each([
+    ["today", "2026-03-10"],
+    ["tomorrow", "2026-03-11"],
+    ["in two weeks", "2026-03-24"],
+    ["this Friday", "2026-03-13"],
+    ["Tuesday", "2026-03-10"],
+    ["next Tuesday", "2026-03-17"],
+    ["friday next week", "2026-03-20"],
+    ["12/5", "2026-12-05"],
+    ["3/1", "2027-03-01"],
+    ["12/5/27", "2027-12-05"],
+    ["December 12", "2026-12-12"],
+    ["the 4th of July", "2026-07-04"],
+    ["Friday, December 11", "2026-12-11"],
+    ["the day after Thanksgiving", "2026-11-27"],
+    ["2026-04-01", "2026-04-01"],
+  ])("%s → %s", (expression, expected) => {
+    expect(resolve(expression)).toBe(expected);
+  });
+
+  it("rolls February 29 forward to the next leap year", () => {
+    expect(resolve("2/29")).toBe("2028-02-29");
+    expect(resolve("February 29th")).toBe("2028-02-29");
+  });
+
+  it("says when a date does not exist", () => {
+    expect(() => resolve("2/30")).toThrow(/February 30 does not exist/);
+    expect(() => resolve("April 31")).toThrow(/April 31 does not exist/);
+    expect(() => resolve("2/29/2027")).toThrow(/February 29, 2027 does not exist/);
+    expect(() => resolve("2027-02-29")).toThrow(/does not exist/);
+  });
+
+  it("rejects past dates and mismatched weekdays", () => {
+    expect(() => resolve("2026-03-01")).toThrow(/in the past/);
+    expect(() => resolve("Monday, December 12")).toThrow(/is a Saturday, not a Monday/);
+  });
+
+  it("reports wording it can't resolve", () => {
+    expect(() => resolve("sometime soon")).toThrow(/could not understand the date/);
+  });
+});
+
+describe("describeDate", () => {
+  it("spells out the date", () => {
+    expect(describeDate("2026-12-12")).toBe("Saturday, December 12, 2026");
+  });
+});
@@ -0,0 +1,249 @@
+// Deterministic resolution of the date expressions customers actually use
+// ("this Friday", "next Tuesday", "12/5", "the day after Thanksgiving") into
+// ISO dates, evaluated in the customer's IANA timezone.
+
+export const DEFAULT_TIME_ZONE = process.env.DEFAULT_TIME_ZONE || "America/New_York";
+
+export interface DateContext {
+  timeZone?: string | null;
+  now?: Date;
+}
+
+// Calendar dates are handled as UTC midnights so arithmetic never crosses DST
+type CalendarDate = Date;
+
+const WEEKDAYS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+const WEEKDAY_ABBREVIATIONS: Record<string, number> = {
+  sun: 0, mon: 1, tue: 2, tues: 2, wed: 3, thu: 4, thur: 4, thurs: 4, fri: 5, sat: 6,
+};
+const MONTHS = ["january", "february", "march", "april", "may", "june", "july", "august", "september", "october", "november", "december"];
+
+export function isValidTimeZone(timeZone: unknown): timeZone is string {
+  if (typeof timeZone !== "string" || !timeZone) return false;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function makeDate(year: number, month: number, day: number): CalendarDate | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return date;
+}
+
+function addDays(date: CalendarDate, days: number): CalendarDate {
+  return new Date(date.getTime() + days * 24 * 60 * 60 * 1000);
+}
+
+export function toIsoDate(date: CalendarDate): string {
+  return date.toISOString().slice(0, 10);
+}
+
+// Today's calendar date in the given timezone
+export function todayIn(context: DateContext = {}): CalendarDate {
+  const timeZone = isValidTimeZone(context.timeZone) ? context.timeZone : DEFAULT_TIME_ZONE;
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+  }).formatToParts(context.now || new Date());
+  const part = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+  return makeDate(part("year"), part("month"), part("day"))!;
+}
+
+function parseWeekday(word: string): number | null {
+  const index = WEEKDAYS.indexOf(word);
+  if (index !== -1) return index;
+  return WEEKDAY_ABBREVIATIONS[word] ?? null;
+}
+
+function parseMonth(word: string): number | null {
+  const index = MONTHS.findIndex((name) => name === word || (word.length >= 3 && name.startsWith(word)));
+  return index === -1 ? null : index + 1;
+}
+
+function nthWeekdayOfMonth(year: number, month: number, weekday: number, n: number): CalendarDate {
+  const first = makeDate(year, month, 1)!;
+  const offset = (weekday - first.getUTCDay() + 7) % 7;
+  return addDays(first, offset + (n - 1) * 7);
+}
+
+function lastWeekdayOfMonth(year: number, month: number, weekday: number): CalendarDate {
+  const last = addDays(makeDate(month === 12 ? year + 1 : year, month === 12 ? 1 : month + 1, 1)!, -1);
+  return addDays(last, -((last.getUTCDay() - weekday + 7) % 7));
+}
+
+const HOLIDAYS: { pattern: RegExp; date: (year: number) => CalendarDate }[] = [
+  { pattern: /^thanksgiving( day)?$/, date: (year) => nthWeekdayOfMonth(year, 11, 4, 4) },
+  { pattern: /^christmas eve$/, date: (year) => makeDate(year, 12, 24)! },
+  { pattern: /^christmas( day)?$/, date: (year) => makeDate(year, 12, 25)! },
+  { pattern: /^new year'?s eve$/, date: (year) => makeDate(year, 12, 31)! },
+  { pattern: /^new year'?s( day)?$/, date: (year) => makeDate(year, 1, 1)! },
+  { pattern: /^(independence day|(the )?(4th|fourth) of july|july (4th|4|fourth))$/, date: (year) => makeDate(year, 7, 4)! },
+  { pattern: /^memorial day$/, date: (year) => lastWeekdayOfMonth(year, 5, 1) },
+  { pattern: /^labor day$/, date: (year) => nthWeekdayOfMonth(year, 9, 1, 1) },
+  { pattern: /^halloween$/, date: (year) => makeDate(year, 10, 31)! },
+];
+
+// Holidays without a year mean the next one that hasn't passed
+function resolveHoliday(text: string, today: CalendarDate): CalendarDate | null {
+  const withYear = text.match(/^(.*?)\s+(\d{4})$/);
+  const name = withYear ? withYear[1] : text;
+  const holiday = HOLIDAYS.find((h) => h.pattern.test(name));
+  if (!holiday) return null;
+  if (withYear) return holiday.date(Number(withYear[2]));
+
+  const thisYear = holiday.date(today.getUTCFullYear());
+  return thisYear >= today ? thisYear : holiday.date(today.getUTCFullYear() + 1);
+}
+
+function describeMonthDay(month: number, day: number, year: number | null): string {
+  const name = MONTHS[month - 1];
+  const label = name ? `${name[0].toUpperCase()}${name.slice(1)} ${day}` : `${month}/${day}`;
+  return year !== null ? `${label}, ${year}` : label;
+}
+
+// Month/day without a year resolves to the next occurrence, which for
+// February 29 can be a few years out. Dates that don't exist are reported as such.
+function withInferredYear(month: number, day: number, year: number | null, today: CalendarDate): CalendarDate {
+  const notADate = () => new Error(`${describeMonthDay(month, day, year)} does not exist. Confirm the date with the user`);
+  if (year !== null) {
+    const date = makeDate(year, month, day);
+    if (!date) throw notADate();
+    return date;
+  }
+  // Every valid month/day occurs within any 8 consecutive years
+  for (let candidate = today.getUTCFullYear(); candidate <= today.getUTCFullYear() + 8; candidate++) {
+    const date = makeDate(candidate, month, day);
+    if (date && date >= today) return date;
+  }
+  throw notADate();
+}
+
+function expandYear(value: string | undefined): number | null {
+  if (!value) return null;
+  const year = Number(value);
+  return value.length === 2 ? 2000 + year : year;
+}
+
+function resolveBase(text: string, today: CalendarDate): CalendarDate | null {
+  if (text === "today" || text === "tonight") return today;
+  if (text === "tomorrow") return addDays(today, 1);
+  if (text === "day after tomorrow" || text === "the day after tomorrow") return addDays(today, 2);
+
+  let match = text.match(/^in (\d+|a|one|two|three) (day|days|week|weeks)$/);
+  if (match) {
+    const words: Record<string, number> = { a: 1, one: 1, two: 2, three: 3 };
+    const count = words[match[1]] ?? Number(match[1]);
+    return addDays(today, match[2].startsWith("week") ? count * 7 : count);
+  }
+
+  // "friday", "this friday", "next friday", "friday next week"
+  match = text.match(/^(this |next |coming |this coming )?([a-z]+)( next week)?$/);
+  if (match) {
+    const weekday = parseWeekday(match[2]);
+    if (weekday !== null) {
+      const untilNext = (weekday - today.getUTCDay() + 7) % 7;
+      if (match[1]?.trim() === "next" || match[3]) {
+        // The occurrence in the following Monday-to-Sunday week
+        const daysFromMonday = (today.getUTCDay() + 6) % 7;
+        const nextMonday = addDays(today, 7 - daysFromMonday);
+        return addDays(nextMonday, (weekday + 6) % 7);
+      }
+      return addDays(today, untilNext);
+    }
+  }
+
+  // ISO 2025-12-05
+  match = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  if (match) return withInferredYear(Number(match[2]), Number(match[3]), Number(match[1]), today);
+
+  // US numeric 12/5, 12/5/2025, 12-5-25
+  match = text.match(/^(\d{1,2})[\/-](\d{1,2})(?:[\/-](\d{2}|\d{4}))?$/);
+  if (match) return withInferredYear(Number(match[1]), Number(match[2]), expandYear(match[3]), today);
+
+  // December 5, Dec 5th 2025
+  match = text.match(/^([a-z]+)\.? (\d{1,2})(?:st|nd|rd|th)?(?:,? (\d{4}))?$/);
+  if (match) {
+    const month = parseMonth(match[1]);
+    if (month) return withInferredYear(month, Number(match[2]), expandYear(match[3]), today);
+  }
+
+  // 5 December, the 5th of December 2025
+  match = text.match(/^(?:the )?(\d{1,2})(?:st|nd|rd|th)?(?: of)? ([a-z]+)(?:,? (\d{4}))?$/);
+  if (match) {
+    const month = parseMonth(match[2]);
+    if (month) return withInferredYear(month, Number(match[1]), expandYear(match[3]), today);
+  }
+
+  return resolveHoliday(text, today);
+}
+
+function normalizeExpression(expression: string): string {
+  return expression
+    .toLowerCase()
+    .replace(/[’]/g, "'")
+    .replace(/\b(on|for)\b\s*/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+// Resolve an expression to YYYY-MM-DD. Throws with a message the model can relay.
+export function resolveDate(expression: string, context: DateContext = {}): string {
+  const today = todayIn(context);
+  let text = normalizeExpression(expression);
+  if (!text) throw new Error("date must not be empty");
+
+  // "the day after Thanksgiving", "two days before Christmas"
+  let offset = 0;
+  const relative = text.match(/^(?:the )?(day|(\d+|one|two|three) days?) (after|before) (.+)$/);
+  if (relative && relative[4] !== "tomorrow") {
+    const words: Record<string, number> = { one: 1, two: 2, three: 3 };
+    const count = relative[2] ? words[relative[2]] ?? Number(relative[2]) : 1;
+    offset = relative[3] === "after" ? count : -count;
+    text = relative[4];
+  }
+
+  // A leading weekday ("Friday, December 12") is checked against the date it names
+  let statedWeekday: number | null = null;
+  const weekdayPrefix = text.match(/^([a-z]+),? (.+)$/);
+  if (weekdayPrefix && parseWeekday(weekdayPrefix[1]) !== null && /\d/.test(weekdayPrefix[2])) {
+    statedWeekday = parseWeekday(weekdayPrefix[1]);
+    text = weekdayPrefix[2];
+  }
+
+  const base = resolveBase(text, today);
+  if (!base) {
+    throw new Error(`could not understand the date "${expression}". Ask for a specific date like "December 12" or "next Friday"`);
+  }
+
+  if (statedWeekday !== null && base.getUTCDay() !== statedWeekday) {
+    const actual = WEEKDAYS[base.getUTCDay()];
+    throw new Error(`${toIsoDate(base)} is a ${actual[0].toUpperCase()}${actual.slice(1)}, not a ${WEEKDAYS[statedWeekday][0].toUpperCase()}${WEEKDAYS[statedWeekday].slice(1)}. Confirm the date with the user`);
+  }
+
+  const resolved = addDays(base, offset);
+  if (resolved < today) {
+    throw new Error(`${toIsoDate(resolved)} is in the past (today is ${toIsoDate(today)})`);
+  }
+  return toIsoDate(resolved);
+}
+
+export function isIsoDate(value: unknown): value is string {
+  return typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value);
+}
+
+// Human-readable form for prompts, e.g. "Friday, December 12, 2025"
+export function describeDate(isoDate: string): string {
+  return new Date(`${isoDate}T00:00:00Z`).toLocaleDateString("en-US", {
+    timeZone: "UTC",
+    weekday: "long",
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+  });
+}
@@ -0,0 +1,85 @@
+import type { Message } from "@aws-sdk/client-bedrock-runtime";
+import { BookingState, createEmptyBookingState } from "@/lib/booking/state";
+
+// Server-side conversation sessions for the booking agent.
+// The full Converse history (including toolUse/toolResult blocks) lives here so
+// the client only has to send the new user turn.
+
+export interface BookingSession {
+  id: string;
+  messages: Message[];
+  bookingState: BookingState;
+  // IANA timezone reported by the client, used to resolve relative dates
+  timeZone: string | null;
+  // Confirmation code of the booking saved from bookingState, if any
+  savedConfirmationCode: string | null;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Async so that a persistent backend (Redis, DynamoDB, ...) can implement it directly
+export interface BookingSessionStore {
+  get(id: string): Promise<BookingSession | null>;
+  save(session: BookingSession): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+const DEFAULT_TTL_MS = 30 * 60 * 1000;
+
+export function getSessionTtlMs(): number {
+  const configured = Number(process.env.BOOKING_SESSION_TTL_MINUTES);
+  return Number.isFinite(configured) && configured > 0 ? configured * 60 * 1000 : DEFAULT_TTL_MS;
+}
+
+export function createBookingSession(id: string): BookingSession {
+  const now = Date.now();
+  return {
+    id,
+    messages: [],
+    bookingState: createEmptyBookingState(),
+    timeZone: null,
+    savedConfirmationCode: null,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+export class InMemoryBookingSessionStore implements BookingSessionStore {
+  private sessions = new Map<string, BookingSession>();
+
+  constructor(private ttlMs: number = getSessionTtlMs()) {}
+
+  async get(id: string): Promise<BookingSession | null> {
+    this.evictExpired();
+    const session = this.sessions.get(id);
+    return session ? structuredClone(session) : null;
+  }
+
+  async save(session: BookingSession): Promise<void> {
+    this.evictExpired();
+    this.sessions.set(session.id, structuredClone({ ...session, updatedAt: Date.now() }));
+  }
+
+  async delete(id: string): Promise<void> {
+    this.sessions.delete(id);
+  }
+
+  // Expiry is checked lazily on access so no timer keeps the process alive
+  private evictExpired() {
+    const cutoff = Date.now() - this.ttlMs;
+    for (const [id, session] of this.sessions) {
+      if (session.updatedAt < cutoff) this.sessions.delete(id);
+    }
+  }
+}
+
+let store: BookingSessionStore = new InMemoryBookingSessionStore();
+
+export function getBookingSessionStore(): BookingSessionStore {
+  return store;
+}
+
+// Swap in a persistent backend at startup
+export function setBookingSessionStore(next: BookingSessionStore) {
+  store = next;
+}
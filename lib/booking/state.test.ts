@@ -0,0 +1,129 @@
+import { describe, expect, it } from "vitest";
+import { applyBookingStateUpdate, createEmptyBookingState, getMissingFields } from "./state.ts";
+
+// Tuesday, March 10, 2026 in New York
+const context = { timeZone: "America/New_York", now: new Date("2026-03-10T15:00:00Z") };
+
+function update(input: Record<string, unknown>, current = createEmptyBookingState()) {
+  return applyBookingStateUpdate(current, input, context);
+}
+
+describe("applyBookingStateUpdate", () => {
+  it("normalizes accepted values", () => {
+    const { state, errors } = update({
+      name: "  Jane   Doe ",
+      email: "Jane@Example.COM",
+      phone: "+1 (202) 555-0143",
+      sms_consent: "yes",
+      departure_time: "9:30 pm",
+      trip_direction: "round trip",
+    });
+    expect(errors).toEqual({});
+    expect(state).toMatchObject({
+      name: "Jane Doe",
+      email: "jane@example.com",
+      phone: "2025550143",
+      sms_consent: true,
+      departure_time: "21:30",
+      trip_direction: "return",
+    });
+  });
+
+  it("rejects invalid fields one by one and keeps the rest", () => {
+    const { state, updated, errors } = update({ email: "not-an-email", phone: "555", name: "Sam Lee", colour: "red" });
+    expect(state.name).toBe("Sam Lee");
+    expect(state.email).toBeNull();
+    expect(state.phone).toBeNull();
+    expect(updated).toEqual(["name"]);
+    expect(Object.keys(errors).sort()).toEqual(["colour", "email", "phone"]);
+    expect(errors.colour).toBe("unknown field");
+  });
+
+  it("derives the group size from an exact passenger count", () => {
+    const { state, updated } = update({ group_size_category: "small", num_passengers: 12 });
+    expect(state.group_size_category).toBe("large");
+    expect(updated).toContain("group_size_category");
+  });
+
+  it("clears a field on null", () => {
+    const { state, updated } = update({ vehicle_type: null }, { ...createEmptyBookingState(), vehicle_type: "coach" });
+    expect(state.vehicle_type).toBeNull();
+    expect(updated).toEqual(["vehicle_type"]);
+  });
+
+  it("resolves dates in the caller's timezone and rejects past ones", () => {
+    expect(update({ service_date: "this Friday" }).state.service_date).toBe("2026-03-13");
+    const past = update({ service_date: "2026-03-01" });
+    expect(past.state.service_date).toBeNull();
+    expect(past.errors.service_date).toMatch(/in the past/);
+  });
+
+  it("rejects a return before the outbound date", () => {
+    const { state, errors } = update({ trip_direction: "return", service_date: "2026-04-10", return_date: "2026-04-05" });
+    expect(state.return_date).toBeNull();
+    expect(errors.return_date).toMatch(/before service_date/);
+  });
+
+  it("drops return details from one-way trips", () => {
+    const current = { ...createEmptyBookingState(), trip_direction: "return" as const, return_date: "2026-04-10", return_time: "10:00" };
+    const { state } = update({ trip_direction: "one-way" }, current);
+    expect(state.return_date).toBeNull();
+    expect(state.return_time).toBeNull();
+  });
+
+  it("mirrors the first leg into the summary fields", () => {
+    const { state, errors } = update({
+      legs: [
+        { date: "2026-04-10", time: "8am", stops: ["Union Station, Washington DC", "JFK"] },
+        { date: "2026-04-12", stops: ["JFK", "Union Station, Washington DC"] },
+      ],
+    });
+    expect(errors).toEqual({});
+    expect(state).toMatchObject({
+      pickup_location: "Union Station, Washington DC",
+      dropoff_location: "JFK",
+      service_date: "2026-04-10",
+      departure_time: "08:00",
+      trip_direction: "multi-leg",
+    });
+  });
+
+  it("rejects pickups outside the United States", () => {
+    const { state, errors } = update({ pickup_location: "Toronto, Ontario" });
+    expect(state.pickup_location).toBeNull();
+    expect(errors.pickup_location).toMatch(/outside the United States/);
+  });
+
+  it("accepts US towns named after foreign places", () => {
+    const { state, errors } = update({ pickup_location: "Mexico Beach, FL", dropoff_location: "China Grove, NC" });
+    expect(errors).toEqual({});
+    expect(state.pickup_location).toBe("Mexico Beach, FL");
+    expect(state.dropoff_location).toBe("China Grove, NC");
+  });
+});
+
+describe("getMissingFields", () => {
+  it("lists everything for an empty booking", () => {
+    expect(getMissingFields(createEmptyBookingState())).toEqual([
+      "name",
+      "email",
+      "phone number",
+      "group size",
+      "specific pickup location",
+      "specific dropoff location",
+      "service date",
+      "trip direction",
+    ]);
+  });
+
+  it("asks for specific places instead of bare cities", () => {
+    const { state } = update({ pickup_location: "Washington DC", dropoff_location: "Reagan National Airport" });
+    const missing = getMissingFields(state);
+    expect(missing).toContain("specific pickup location");
+    expect(missing).not.toContain("specific dropoff location");
+  });
+
+  it("needs a return date for return trips", () => {
+    expect(getMissingFields({ ...createEmptyBookingState(), trip_direction: "return" })).toContain("return date");
+  });
+});
@@ -0,0 +1,357 @@
+import { type DateContext, isIsoDate, resolveDate, todayIn, toIsoDate } from "./dates.ts";
+import { classifyLocation, isBroadLocation } from "../geo/gazetteer.ts";
+
+// Typed booking state for the Converse booking agent.
+// The model reports what the customer told it through the `update_booking_state`
+// tool; every field is validated here before it is accepted into the state.
+
+export type GroupSizeCategory = "small" | "medium" | "large";
+export type TripDirection = "one-way" | "return" | "multi-leg";
+
+// One vehicle movement in an itinerary: ordered stops (first is the pickup,
+// last is the final dropoff) on a single date
+export interface ItineraryLeg {
+  date: string;
+  time: string | null;
+  stops: string[];
+  notes: string | null;
+}
+
+const MAX_LEGS = 30;
+const MAX_STOPS_PER_LEG = 10;
+
+export interface BookingState {
+  name: string | null;
+  email: string | null;
+  phone: string | null;
+  sms_consent: boolean | null;
+  group_size_category: GroupSizeCategory | null;
+  num_passengers: number | null;
+  pickup_location: string | null;
+  dropoff_location: string | null;
+  service_date: string | null;
+  departure_time: string | null;
+  trip_direction: TripDirection | null;
+  return_date: string | null;
+  return_time: string | null;
+  // Multi-stop / multi-leg trips. When set, the pickup, dropoff, date and time
+  // fields above mirror the first leg.
+  legs: ItineraryLeg[] | null;
+  vehicle_type: string | null;
+  additional_info: string | null;
+}
+
+export type BookingField = keyof BookingState;
+
+export interface BookingStateUpdateResult {
+  state: BookingState;
+  updated: BookingField[];
+  errors: Partial<Record<string, string>>;
+}
+
+export function createEmptyBookingState(): BookingState {
+  return {
+    name: null,
+    email: null,
+    phone: null,
+    sms_consent: null,
+    group_size_category: null,
+    num_passengers: null,
+    pickup_location: null,
+    dropoff_location: null,
+    service_date: null,
+    departure_time: null,
+    trip_direction: null,
+    return_date: null,
+    return_time: null,
+    legs: null,
+    vehicle_type: null,
+    additional_info: null,
+  };
+}
+
+export function groupSizeForPassengers(count: number): GroupSizeCategory {
+  if (count <= 4) return "small";
+  if (count <= 10) return "medium";
+  return "large";
+}
+
+// Headcount to price a group by when only its size category is known: the top
+// of each band, and a full minibus for large groups
+export function passengersForGroupSize(category: GroupSizeCategory): number {
+  return { small: 4, medium: 10, large: 20 }[category];
+}
+
+// Each validator returns the normalized value, or throws with a message the model can act on
+type FieldValidator = (value: unknown, context: DateContext) => BookingState[BookingField];
+
+function requireString(value: unknown, field: string): string {
+  if (typeof value !== "string" && typeof value !== "number") {
+    throw new Error(`${field} must be a string`);
+  }
+  const text = String(value).trim();
+  if (!text) throw new Error(`${field} must not be empty`);
+  return text;
+}
+
+function parseLocation(value: unknown, field: string): string {
+  const location = requireString(value, field).replace(/\s+/g, " ");
+  const { scope, nonUsPlaces } = classifyLocation(location);
+  if (scope === "non_us") {
+    throw new Error(`${field} "${nonUsPlaces[0]}" is outside the United States; we only serve US trips`);
+  }
+  return location;
+}
+
+function parseTime(value: unknown, field: string): string {
+  const text = requireString(value, field).toLowerCase().replace(/\./g, "");
+  if (text === "noon") return "12:00";
+  if (text === "midnight") return "00:00";
+
+  const match = text.match(/^(\d{1,2})(?::(\d{2}))?\s*(am|pm)?$/);
+  if (!match) throw new Error(`${field} must be a time like "9:30 AM" or "21:30"`);
+
+  let hours = parseInt(match[1], 10);
+  const minutes = match[2] ? parseInt(match[2], 10) : 0;
+  const meridiem = match[3];
+
+  if (minutes > 59) throw new Error(`${field} has invalid minutes`);
+  if (meridiem) {
+    if (hours < 1 || hours > 12) throw new Error(`${field} has an invalid hour`);
+    if (meridiem === "am" && hours === 12) hours = 0;
+    if (meridiem === "pm" && hours !== 12) hours += 12;
+  } else if (hours > 23) {
+    throw new Error(`${field} has an invalid hour`);
+  }
+
+  return `${String(hours).padStart(2, "0")}:${String(minutes).padStart(2, "0")}`;
+}
+
+function parseLegs(value: unknown, context: DateContext): ItineraryLeg[] {
+  if (!Array.isArray(value) || value.length === 0) throw new Error("legs must be a non-empty list");
+  if (value.length > MAX_LEGS) throw new Error(`legs can have at most ${MAX_LEGS} entries`);
+
+  return value.map((raw, index) => {
+    const label = `legs[${index + 1}]`;
+    if (!raw || typeof raw !== "object") throw new Error(`${label} must be an object`);
+    const leg = raw as Record<string, unknown>;
+
+    if (!Array.isArray(leg.stops) || leg.stops.length < 2) {
+      throw new Error(`${label}.stops needs at least a pickup and a dropoff`);
+    }
+    if (leg.stops.length > MAX_STOPS_PER_LEG) {
+      throw new Error(`${label}.stops can have at most ${MAX_STOPS_PER_LEG} entries`);
+    }
+
+    return {
+      date: resolveDate(requireString(leg.date, `${label}.date`), context),
+      time: leg.time === undefined || leg.time === null || leg.time === "" ? null : parseTime(leg.time, `${label}.time`),
+      stops: leg.stops.map((stop, stopIndex) => parseLocation(stop, `${label}.stops[${stopIndex + 1}]`)),
+      notes: typeof leg.notes === "string" && leg.notes.trim() ? leg.notes.trim() : null,
+    };
+  });
+}
+
+const FIELD_VALIDATORS: Record<BookingField, FieldValidator> = {
+  name: (value) => {
+    const name = requireString(value, "name").replace(/\s+/g, " ");
+    if (!/[a-z]/i.test(name) || /\d/.test(name)) throw new Error("name must be a person's name");
+    if (name.length > 100) throw new Error("name is too long");
+    return name;
+  },
+  email: (value) => {
+    const email = requireString(value, "email").toLowerCase();
+    if (!/^[a-z0-9._%+-]+@[a-z0-9.-]+\.[a-z]{2,}$/.test(email)) {
+      throw new Error("email must be a valid email address");
+    }
+    return email;
+  },
+  phone: (value) => {
+    let digits = requireString(value, "phone").replace(/\D/g, "");
+    if (digits.length === 11 && digits.startsWith("1")) digits = digits.slice(1);
+    if (digits.length !== 10) throw new Error("phone must be a 10-digit US phone number");
+    return digits;
+  },
+  sms_consent: (value) => {
+    if (typeof value === "boolean") return value;
+    const text = requireString(value, "sms_consent").toLowerCase();
+    if (["yes", "y", "true"].includes(text)) return true;
+    if (["no", "n", "false"].includes(text)) return false;
+    throw new Error("sms_consent must be true or false");
+  },
+  group_size_category: (value) => {
+    const category = requireString(value, "group_size_category").toLowerCase();
+    if (category !== "small" && category !== "medium" && category !== "large") {
+      throw new Error("group_size_category must be small, medium, or large");
+    }
+    return category;
+  },
+  num_passengers: (value) => {
+    const count = typeof value === "number" ? value : Number(requireString(value, "num_passengers"));
+    if (!Number.isInteger(count) || count < 1 || count > 500) {
+      throw new Error("num_passengers must be a whole number between 1 and 500");
+    }
+    return count;
+  },
+  pickup_location: (value) => parseLocation(value, "pickup_location"),
+  dropoff_location: (value) => parseLocation(value, "dropoff_location"),
+  service_date: (value, context) => resolveDate(requireString(value, "service_date"), context),
+  departure_time: (value) => parseTime(value, "departure_time"),
+  trip_direction: (value) => {
+    const direction = requireString(value, "trip_direction").toLowerCase().replace(/[\s_]+/g, "-");
+    if (["one-way", "oneway", "single"].includes(direction)) return "one-way";
+    if (["return", "round-trip", "roundtrip"].includes(direction)) return "return";
+    if (["multi-leg", "multileg", "multi-stop", "multi-day"].includes(direction)) return "multi-leg";
+    throw new Error('trip_direction must be "one-way", "return" or "multi-leg"');
+  },
+  return_date: (value, context) => resolveDate(requireString(value, "return_date"), context),
+  return_time: (value) => parseTime(value, "return_time"),
+  legs: (value, context) => parseLegs(value, context),
+  vehicle_type: (value) => requireString(value, "vehicle_type"),
+  additional_info: (value) => requireString(value, "additional_info"),
+};
+
+export const BOOKING_FIELDS = Object.keys(FIELD_VALIDATORS) as BookingField[];
+
+function isBookingField(key: string): key is BookingField {
+  return Object.prototype.hasOwnProperty.call(FIELD_VALIDATORS, key);
+}
+
+// Apply a partial update. Invalid fields are rejected individually so that
+// one bad value doesn't discard the rest of what the customer said.
+// Dates are resolved relative to today in `context.timeZone`.
+export function applyBookingStateUpdate(
+  current: BookingState,
+  input: Record<string, unknown>,
+  context: DateContext = {}
+): BookingStateUpdateResult {
+  const state: BookingState = { ...current };
+  const updated: BookingField[] = [];
+  const errors: Partial<Record<string, string>> = {};
+
+  for (const [key, value] of Object.entries(input || {})) {
+    if (value === undefined) continue;
+    if (!isBookingField(key)) {
+      errors[key] = "unknown field";
+      continue;
+    }
+
+    // null explicitly clears a field (e.g. customer changed their mind)
+    if (value === null) {
+      (state as any)[key] = null;
+      updated.push(key);
+      continue;
+    }
+
+    try {
+      (state as any)[key] = FIELD_VALIDATORS[key](value, context);
+      updated.push(key);
+    } catch (error) {
+      errors[key] = error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  // The exact passenger count always wins over a stated category
+  if (state.num_passengers) {
+    const derived = groupSizeForPassengers(state.num_passengers);
+    if (state.group_size_category !== derived) {
+      state.group_size_category = derived;
+      if (!updated.includes("group_size_category")) updated.push("group_size_category");
+    }
+  }
+
+  // The first leg is the source of truth for the single-trip summary fields
+  if (state.legs) {
+    const [first] = state.legs;
+    const synced: Partial<BookingState> = {
+      pickup_location: first.stops[0],
+      dropoff_location: first.stops[first.stops.length - 1],
+      service_date: first.date,
+      departure_time: first.time,
+    };
+    if (state.legs.length > 1) synced.trip_direction = "multi-leg";
+    for (const [field, value] of Object.entries(synced) as [BookingField, any][]) {
+      if (state[field] !== value) {
+        (state as any)[field] = value;
+        if (!updated.includes(field)) updated.push(field);
+      }
+    }
+  }
+
+  // Return details are meaningless for one-way and multi-leg trips (legs carry the return)
+  if (state.trip_direction === "one-way" || state.trip_direction === "multi-leg") {
+    state.return_date = null;
+    state.return_time = null;
+  }
+
+  // Dates that were valid earlier can go stale (a session left open overnight),
+  // so the cross-field checks run on the whole state, not just the new values
+  for (const [field, message] of Object.entries(validateBookingDates(state, context))) {
+    (state as any)[field] = null;
+    errors[field] = message;
+    if (!updated.includes(field as BookingField)) updated.push(field as BookingField);
+  }
+
+  return { state, updated, errors };
+}
+
+// Dates must be resolved ISO dates, not in the past, and a return can't precede the outbound trip
+export function validateBookingDates(state: BookingState, context: DateContext = {}): Partial<Record<BookingField, string>> {
+  const errors: Partial<Record<BookingField, string>> = {};
+  const today = toIsoDate(todayIn(context));
+
+  for (const field of ["service_date", "return_date"] as const) {
+    const value = state[field];
+    if (!value) continue;
+    if (!isIsoDate(value)) {
+      errors[field] = `${field} must be a calendar date`;
+    } else if (value < today) {
+      errors[field] = `${field} ${value} is in the past (today is ${today})`;
+    }
+  }
+
+  if (!errors.service_date && !errors.return_date && state.service_date && state.return_date && state.return_date < state.service_date) {
+    errors.return_date = `return_date ${state.return_date} is before service_date ${state.service_date}`;
+  }
+
+  // Legs must be in date order and none may have slipped into the past
+  state.legs?.some((leg, index) => {
+    const previous = state.legs![index - 1];
+    if (!isIsoDate(leg.date)) {
+      errors.legs = `legs[${index + 1}].date must be a calendar date`;
+    } else if (leg.date < today) {
+      errors.legs = `legs[${index + 1}].date ${leg.date} is in the past (today is ${today})`;
+    } else if (previous && leg.date < previous.date) {
+      errors.legs = `legs[${index + 1}].date ${leg.date} is before legs[${index}].date ${previous.date}`;
+    }
+    return !!errors.legs;
+  });
+
+  return errors;
+}
+
+export function getMissingFields(state: BookingState): string[] {
+  const missing: string[] = [];
+
+  if (!state.name) missing.push("name");
+  if (!state.email) missing.push("email");
+  if (!state.phone) missing.push("phone number");
+  if (!state.group_size_category) missing.push("group size");
+  if (!state.pickup_location || isBroadLocation(state.pickup_location)) missing.push("specific pickup location");
+  if (!state.dropoff_location || isBroadLocation(state.dropoff_location)) missing.push("specific dropoff location");
+  if (!state.service_date) missing.push("service date");
+  if (!state.trip_direction) missing.push("trip direction");
+
+  if (state.trip_direction === "return") {
+    if (!state.return_date) missing.push("return date");
+  }
+
+  if (state.trip_direction === "multi-leg" && (!state.legs || state.legs.length < 2)) {
+    missing.push("itinerary legs");
+  }
+  state.legs?.forEach((leg, index) => {
+    if (leg.stops.some((stop) => isBroadLocation(stop))) missing.push(`specific stops for leg ${index + 1}`);
+  });
+
+  return missing;
+}
@@ -0,0 +1,294 @@
+import { LambdaClient, InvokeCommand } from "@aws-sdk/client-lambda";
+import { randomInt } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import type { BookingState } from "./state.ts";
+import { type Place, resolvePlace } from "../geo/gazetteer.ts";
+
+// Persistence for saved bookings. The booking agent's save/lookup/update/cancel
+// tools all go through a BookingStore so they can run against the Lambda in
+// production and against a local JSON file offline.
+
+export type BookingStatus = "confirmed" | "cancelled";
+
+export interface StoredBooking extends BookingState {
+  confirmation_code: string;
+  status: BookingStatus;
+  created_at: string;
+  updated_at: string;
+  cancellation_reason?: string | null;
+  // Canonical places (with coordinates) for the pickup and dropoff, when recognized
+  pickup_place: Place | null;
+  dropoff_place: Place | null;
+}
+
+export interface BookingStore {
+  // Whether find/update/cancel work. The lookup, update and cancel tools are
+  // only offered when they do.
+  readonly supportsChanges: boolean;
+  save(booking: BookingState): Promise<StoredBooking>;
+  find(confirmationCode: string): Promise<StoredBooking | null>;
+  update(confirmationCode: string, booking: BookingState): Promise<StoredBooking>;
+  cancel(confirmationCode: string, reason?: string | null): Promise<StoredBooking>;
+}
+
+export class BookingStoreError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BookingStoreError";
+  }
+}
+
+// No 0/O or 1/I so codes can be read out over the phone
+const CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+
+export function generateConfirmationCode(): string {
+  let code = "";
+  for (let i = 0; i < 6; i++) code += CODE_ALPHABET[randomInt(CODE_ALPHABET.length)];
+  return `MS-${code}`;
+}
+
+function locateBooking(booking: BookingState): Pick<StoredBooking, "pickup_place" | "dropoff_place"> {
+  return {
+    pickup_place: resolvePlace(booking.pickup_location),
+    dropoff_place: resolvePlace(booking.dropoff_location),
+  };
+}
+
+export function normalizeConfirmationCode(value: unknown): string | null {
+  if (typeof value !== "string") return null;
+  const compact = value.toUpperCase().replace(/[^A-Z0-9]/g, "");
+  const body = compact.startsWith("MS") ? compact.slice(2) : compact;
+  return body.length === 6 ? `MS-${body}` : null;
+}
+
+// A booking is only disclosed when the caller also knows its email or phone
+export function bookingMatchesContact(booking: StoredBooking, contact: { email?: unknown; phone?: unknown }): boolean {
+  const email = typeof contact.email === "string" ? contact.email.trim().toLowerCase() : "";
+  let phone = typeof contact.phone === "string" || typeof contact.phone === "number" ? String(contact.phone).replace(/\D/g, "") : "";
+  if (phone.length === 11 && phone.startsWith("1")) phone = phone.slice(1);
+
+  if (email && booking.email && booking.email.toLowerCase() === email) return true;
+  if (phone && booking.phone && booking.phone === phone) return true;
+  return false;
+}
+
+// ---------------- Lambda store ---------------- //
+
+// The store-shuttle-booking Lambda is a Bedrock action-group style handler:
+// it receives named parameters and answers in functionResponse.responseBody.TEXT.body,
+// with functionResponse.responseState "FAILURE" when the operation failed.
+// `action` selects the operation; save is the default for older deployments.
+// Deployed Lambdas only save, so lookup/update/cancel are off unless
+// BOOKING_LAMBDA_ACTIONS=true says the function implements the contract in
+// ARCHITECTURE.md (Saved Bookings).
+export class LambdaBookingStore implements BookingStore {
+  private lambda = new LambdaClient({
+    region: process.env.AWS_REGION || "us-east-1",
+    credentials: {
+      accessKeyId: process.env.NEXT_PUBLIC_AWS_ACCESS_KEY_ID || process.env.AWS_ACCESS_KEY_ID || "",
+      secretAccessKey: process.env.NEXT_PUBLIC_AWS_SECRET_ACCESS_KEY || process.env.AWS_SECRET_ACCESS_KEY || "",
+    },
+  });
+
+  private functionName: string;
+  readonly supportsChanges: boolean;
+
+  constructor(
+    functionName: string = process.env.BOOKING_LAMBDA_NAME || "store-shuttle-booking",
+    supportsChanges: boolean = process.env.BOOKING_LAMBDA_ACTIONS === "true",
+  ) {
+    this.functionName = functionName;
+    this.supportsChanges = supportsChanges;
+  }
+
+  private async invoke(action: string, params: Record<string, string>): Promise<string> {
+    const payload = {
+      parameters: [
+        { name: "action", value: action },
+        ...Object.entries(params).map(([name, value]) => ({ name, value })),
+      ],
+    };
+
+    let result: any;
+    try {
+      const response = await this.lambda.send(new InvokeCommand({
+        FunctionName: this.functionName,
+        Payload: JSON.stringify(payload),
+      }));
+      result = JSON.parse(new TextDecoder().decode(response.Payload));
+    } catch (error) {
+      console.error("Lambda invocation error:", error);
+      throw new BookingStoreError(`Failed to ${action} booking`);
+    }
+
+    if (result?.error || result?.errorMessage) {
+      throw new BookingStoreError(String(result.error || result.errorMessage));
+    }
+    const functionResponse = result?.response?.functionResponse;
+    const body = functionResponse?.responseBody?.TEXT?.body || "";
+    if (functionResponse?.responseState === "FAILURE" || functionResponse?.responseState === "REPROMPT") {
+      throw new BookingStoreError(body || `Failed to ${action} booking`);
+    }
+    return body;
+  }
+
+  private requireChanges(action: string) {
+    if (!this.supportsChanges) throw new BookingStoreError(`This booking service can't ${action} saved bookings`);
+  }
+
+  private parseBooking(body: string): StoredBooking | null {
+    try {
+      const parsed = JSON.parse(body);
+      const booking = parsed?.booking ?? parsed;
+      return booking && typeof booking.confirmation_code === "string" ? booking : null;
+    } catch {
+      return null;
+    }
+  }
+
+  async save(booking: BookingState): Promise<StoredBooking> {
+    const now = new Date().toISOString();
+    const stored: StoredBooking = {
+      ...booking,
+      ...locateBooking(booking),
+      confirmation_code: generateConfirmationCode(),
+      status: "confirmed",
+      created_at: now,
+      updated_at: now,
+    };
+    const body = await this.invoke("save", { bookingData: JSON.stringify(stored) });
+    if (!body.trim()) throw new BookingStoreError("Booking save was not confirmed");
+
+    // A JSON body may report an error or the booking as stored (the Lambda may
+    // assign its own confirmation code); older deployments answer with plain text
+    let parsed: any = null;
+    try {
+      parsed = JSON.parse(body);
+    } catch {
+      return stored;
+    }
+    if (parsed?.status === "error" || parsed?.error) {
+      throw new BookingStoreError(String(parsed.message || parsed.error || "Failed to save booking"));
+    }
+    const saved = this.parseBooking(body);
+    if (saved) return { ...stored, ...saved };
+    return typeof parsed?.confirmation_code === "string" ? { ...stored, confirmation_code: parsed.confirmation_code } : stored;
+  }
+
+  async find(confirmationCode: string): Promise<StoredBooking | null> {
+    this.requireChanges("look up");
+    const body = await this.invoke("lookup", { confirmationCode });
+    return this.parseBooking(body);
+  }
+
+  async update(confirmationCode: string, booking: BookingState): Promise<StoredBooking> {
+    this.requireChanges("update");
+    const body = await this.invoke("update", {
+      confirmationCode,
+      bookingData: JSON.stringify({ ...booking, ...locateBooking(booking), updated_at: new Date().toISOString() }),
+    });
+    const updated = this.parseBooking(body);
+    if (!updated) throw new BookingStoreError("Booking update was not confirmed");
+    return updated;
+  }
+
+  async cancel(confirmationCode: string, reason?: string | null): Promise<StoredBooking> {
+    this.requireChanges("cancel");
+    const body = await this.invoke("cancel", { confirmationCode, reason: reason || "" });
+    const cancelled = this.parseBooking(body);
+    if (!cancelled) throw new BookingStoreError("Booking cancellation was not confirmed");
+    return cancelled;
+  }
+}
+
+// ---------------- Local store ---------------- //
+
+// Keeps bookings in a JSON file so the tools work without AWS
+export class LocalBookingStore implements BookingStore {
+  readonly supportsChanges = true;
+  private filePath: string;
+
+  constructor(filePath: string = process.env.BOOKING_STORE_PATH || path.join(process.cwd(), ".data", "bookings.json")) {
+    this.filePath = filePath;
+  }
+
+  private async readAll(): Promise<Record<string, StoredBooking>> {
+    try {
+      return JSON.parse(await fs.readFile(this.filePath, "utf8"));
+    } catch (error: any) {
+      if (error?.code === "ENOENT") return {};
+      throw error;
+    }
+  }
+
+  private async writeAll(bookings: Record<string, StoredBooking>) {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.writeFile(this.filePath, JSON.stringify(bookings, null, 2));
+  }
+
+  async save(booking: BookingState): Promise<StoredBooking> {
+    const bookings = await this.readAll();
+    let code = generateConfirmationCode();
+    while (bookings[code]) code = generateConfirmationCode();
+
+    const now = new Date().toISOString();
+    const stored: StoredBooking = {
+      ...booking,
+      ...locateBooking(booking),
+      confirmation_code: code,
+      status: "confirmed",
+      created_at: now,
+      updated_at: now,
+    };
+    bookings[code] = stored;
+    await this.writeAll(bookings);
+    return stored;
+  }
+
+  async find(confirmationCode: string): Promise<StoredBooking | null> {
+    const bookings = await this.readAll();
+    return bookings[confirmationCode] || null;
+  }
+
+  async update(confirmationCode: string, booking: BookingState): Promise<StoredBooking> {
+    const bookings = await this.readAll();
+    const existing = bookings[confirmationCode];
+    if (!existing) throw new BookingStoreError("Booking not found");
+
+    const updated: StoredBooking = { ...existing, ...booking, ...locateBooking(booking), updated_at: new Date().toISOString() };
+    bookings[confirmationCode] = updated;
+    await this.writeAll(bookings);
+    return updated;
+  }
+
+  async cancel(confirmationCode: string, reason?: string | null): Promise<StoredBooking> {
+    const bookings = await this.readAll();
+    const existing = bookings[confirmationCode];
+    if (!existing) throw new BookingStoreError("Booking not found");
+
+    const cancelled: StoredBooking = {
+      ...existing,
+      status: "cancelled",
+      cancellation_reason: reason || null,
+      updated_at: new Date().toISOString(),
+    };
+    bookings[confirmationCode] = cancelled;
+    await this.writeAll(bookings);
+    return cancelled;
+  }
+}
+
+let store: BookingStore | null = null;
+
+// BOOKING_STORE=local switches to the file-backed store (offline development and testing)
+export function getBookingStore(): BookingStore {
+  if (!store) {
+    store = process.env.BOOKING_STORE === "local" ? new LocalBookingStore() : new LambdaBookingStore();
+  }
+  return store;
+}
+
+export function setBookingStore(next: BookingStore) {
+  store = next;
+}
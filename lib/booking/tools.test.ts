@@ -0,0 +1,129 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { createEmptyBookingState, type BookingState } from "./state.ts";
+import { type BookingStore, getBookingStore, setBookingStore, type StoredBooking } from "./store.ts";
+import { availableBookingTools, type BookingToolContext, runBookingTool } from "./tools.ts";
+
+const context = () => ({ bookingState: createEmptyBookingState(), timeZone: "America/New_York", savedConfirmationCode: null }) as BookingToolContext;
+
+const completeBooking = {
+  name: "Jane Doe",
+  email: "jane@example.com",
+  phone: "2025550143",
+  group_size_category: "medium",
+  pickup_location: "Union Station, Washington DC",
+  dropoff_location: "JFK",
+  service_date: "2099-04-10",
+  trip_direction: "one-way",
+};
+
+// Remembers what was saved; `supportsChanges` mimics a save-only Lambda
+class MemoryBookingStore implements BookingStore {
+  saved: StoredBooking[] = [];
+  readonly supportsChanges: boolean;
+
+  constructor(supportsChanges = true) {
+    this.supportsChanges = supportsChanges;
+  }
+
+  async save(booking: BookingState): Promise<StoredBooking> {
+    const stored: StoredBooking = {
+      ...booking,
+      confirmation_code: `MS-AAAAA${this.saved.length + 2}`,
+      status: "confirmed",
+      created_at: "",
+      updated_at: "",
+      pickup_place: null,
+      dropoff_place: null,
+    };
+    this.saved.push(stored);
+    return stored;
+  }
+
+  async find(code: string) {
+    return this.saved.find((booking) => booking.confirmation_code === code) || null;
+  }
+
+  async update(): Promise<StoredBooking> {
+    throw new Error("not used");
+  }
+
+  async cancel(): Promise<StoredBooking> {
+    throw new Error("not used");
+  }
+}
+
+let previous: BookingStore;
+beforeEach(() => {
+  previous = getBookingStore();
+});
+afterEach(() => {
+  setBookingStore(previous);
+});
+
+describe("save_booking", () => {
+  it("saves a booking once and answers already_saved afterwards", async () => {
+    const store = new MemoryBookingStore();
+    setBookingStore(store);
+    const ctx = context();
+
+    const first = await runBookingTool("save_booking", completeBooking, ctx);
+    expect(first.status).toBe("success");
+    expect(first.saved?.booking).toMatchObject({ confirmation_code: "MS-AAAAA2" });
+
+    const retry = await runBookingTool("save_booking", completeBooking, ctx);
+    expect(JSON.parse(retry.content)).toMatchObject({ status: "already_saved", confirmation_code: "MS-AAAAA2" });
+    expect(retry.saved).toBeUndefined();
+    expect(store.saved).toHaveLength(1);
+  });
+
+  it("starts a new booking on the next update_booking_state", async () => {
+    const store = new MemoryBookingStore();
+    setBookingStore(store);
+    const ctx = context();
+    await runBookingTool("save_booking", completeBooking, ctx);
+
+    await runBookingTool("update_booking_state", { name: "Sam Lee" }, ctx);
+    expect(ctx.savedConfirmationCode).toBeNull();
+    expect(ctx.bookingState).toEqual({ ...createEmptyBookingState(), name: "Sam Lee" });
+
+    const second = await runBookingTool("save_booking", { ...completeBooking, name: "Sam Lee" }, ctx);
+    expect(second.status).toBe("success");
+    expect(store.saved).toHaveLength(2);
+  });
+
+  it("doesn't save an incomplete booking", async () => {
+    const store = new MemoryBookingStore();
+    setBookingStore(store);
+    const outcome = await runBookingTool("save_booking", { name: "Jane Doe" }, context());
+    expect(outcome.status).toBe("error");
+    expect(store.saved).toHaveLength(0);
+  });
+});
+
+describe("saved booking tools", () => {
+  it("are only offered when the store supports changes", () => {
+    const names = (store: BookingStore) => availableBookingTools(store).map((spec) => spec.name);
+    expect(names(new MemoryBookingStore(true))).toContain("lookup_booking");
+    const saveOnly = names(new MemoryBookingStore(false));
+    expect(saveOnly).toContain("save_booking");
+    for (const name of ["lookup_booking", "update_booking", "cancel_booking"]) expect(saveOnly).not.toContain(name);
+  });
+
+  it("refuse to run against a save-only store", async () => {
+    setBookingStore(new MemoryBookingStore(false));
+    const outcome = await runBookingTool("lookup_booking", { confirmation_code: "MS-AAAAA2", email: "jane@example.com" }, context());
+    expect(outcome.status).toBe("error");
+    expect(JSON.parse(outcome.content).message).toMatch(/can't be looked up/);
+  });
+
+  it("only disclose a booking to its own contact", async () => {
+    const store = new MemoryBookingStore();
+    setBookingStore(store);
+    await runBookingTool("save_booking", completeBooking, context());
+
+    const wrong = await runBookingTool("lookup_booking", { confirmation_code: "ms aaaaa2", email: "someone@example.com" }, context());
+    expect(wrong.status).toBe("error");
+    const right = await runBookingTool("lookup_booking", { confirmation_code: "ms aaaaa2", phone: "(202) 555-0143" }, context());
+    expect(JSON.parse(right.content).booking.confirmation_code).toBe("MS-AAAAA2");
+  });
+});
@@ -0,0 +1,391 @@
+import { applyBookingStateUpdate, type BookingState, createEmptyBookingState, getMissingFields } from "./state.ts";
+import {
+  type BookingStore,
+  BookingStoreError,
+  type StoredBooking,
+  bookingMatchesContact,
+  getBookingStore,
+  normalizeConfirmationCode
+} from "./store.ts";
+import { describePlace, resolvePlace } from "../geo/gazetteer.ts";
+import { type FareRequest, estimateFare, fareRequestFromBooking } from "../pricing/estimate.ts";
+import { fetchHistoricalTrips, routeQuery } from "../pricing/records.ts";
+import { federatedRetrieve, parseKnowledgeBaseIds } from "../retrieval/federated.ts";
+import { KB_FILTER_TOOL_PROPERTIES, KB_METADATA_KEYS, kbFilter, metadataFilterFromToolInput } from "../retrieval/filters.ts";
+
+// Booking tools shared by the text booking agent (/api/bedrock-booking-agent)
+// and the voice server (src/tools.ts): one set of input schemas and handlers,
+// so both channels validate and save bookings the same way. Imports are
+// relative for the same reason as lib/retrieval.
+
+export type BookingToolName =
+  | "update_booking_state"
+  | "save_booking"
+  | "lookup_booking"
+  | "update_booking"
+  | "cancel_booking"
+  | "get_pricing"
+  | "search_faqs";
+
+export interface BookingToolSpec {
+  name: BookingToolName;
+  description: string;
+  // JSON schema of the tool input
+  inputSchema: Record<string, unknown>;
+}
+
+// What the handlers read and update: the conversation's validated booking
+// state and the customer's timezone for resolving dates
+export interface BookingToolContext {
+  bookingState: BookingState;
+  timeZone: string | null;
+  // Set once bookingState has been saved, so a repeated save_booking doesn't
+  // create a second booking. The next update_booking_state starts a new one.
+  savedConfirmationCode?: string | null;
+}
+
+export const BOOKING_FIELD_PROPERTIES = {
+  name: { type: "string", description: "Customer full name" },
+  email: { type: "string", description: "Customer email" },
+  phone: { type: "string", description: "Customer phone number (required)" },
+  sms_consent: { type: "boolean", description: "Customer consent to receive SMS updates (true/false)" },
+  group_size_category: { type: "string", enum: ["small", "medium", "large"], description: "small (1-4), medium (5-10), or large (11+)" },
+  num_passengers: { type: "number", description: "Exact passenger count (optional)" },
+  pickup_location: { type: "string", description: "Pickup address/location" },
+  dropoff_location: { type: "string", description: "Dropoff address/location" },
+  service_date: { type: "string", description: "Trip date as the user said it (e.g. 'this Friday', '12/5') or YYYY-MM-DD; resolved to an exact date" },
+  departure_time: { type: "string", description: "Departure time (optional)" },
+  trip_direction: { type: "string", enum: ["one-way", "return", "multi-leg"], description: "one-way, return, or multi-leg" },
+  return_date: { type: "string", description: "Return date if return trip, same formats as service_date" },
+  return_time: { type: "string", description: "Return time if return trip" },
+  legs: {
+    type: "array",
+    description: "Complete ordered itinerary for multi-stop or multi-leg trips. Always send every leg; replaces the previous list. null clears it.",
+    items: {
+      type: "object",
+      properties: {
+        date: { type: "string", description: "Leg date, same formats as service_date" },
+        time: { type: "string", description: "Pickup time for this leg (optional)" },
+        stops: {
+          type: "array",
+          items: { type: "string" },
+          description: "Ordered stops: pickup first, final dropoff last, intermediate stops in between"
+        },
+        notes: { type: "string", description: "Notes for this leg (optional)" }
+      },
+      required: ["date", "stops"]
+    }
+  },
+  vehicle_type: { type: "string", description: "Vehicle preference (optional)" },
+  additional_info: { type: "string", description: "Extra notes (optional)" }
+};
+
+export const BOOKING_REFERENCE_PROPERTIES = {
+  confirmation_code: { type: "string", description: "Booking confirmation code, e.g. MS-7K3QXD" },
+  email: { type: "string", description: "Email address on the booking" },
+  phone: { type: "string", description: "Phone number on the booking" }
+};
+
+
+export const BOOKING_TOOLS: BookingToolSpec[] = [
+  {
+    name: "update_booking_state",
+    description: "Record booking details the user has provided or changed. Only include fields mentioned in the latest user message; pass null to clear a field. Returns the validated booking state, any rejected fields, and the fields still missing.",
+    inputSchema: {
+      type: "object",
+      properties: BOOKING_FIELD_PROPERTIES
+    }
+  },
+  {
+    name: "save_booking",
+    description: "Save a completed shuttle booking to the system. Only call when ALL required fields are collected.",
+    inputSchema: {
+      type: "object",
+      properties: BOOKING_FIELD_PROPERTIES,
+      required: ["name", "email", "phone", "group_size_category", "pickup_location", "dropoff_location", "service_date", "trip_direction"]
+    }
+  },
+  {
+    name: "lookup_booking",
+    description: "Look up an existing booking. Requires the confirmation code and the email or phone number on the booking.",
+    inputSchema: {
+      type: "object",
+      properties: BOOKING_REFERENCE_PROPERTIES,
+      required: ["confirmation_code"]
+    }
+  },
+  {
+    name: "update_booking",
+    description: "Change details of an existing booking. Requires the confirmation code and the email or phone number on the booking. Only include the fields that change in `changes`.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        ...BOOKING_REFERENCE_PROPERTIES,
+        changes: { type: "object", properties: BOOKING_FIELD_PROPERTIES, description: "Fields to change" }
+      },
+      required: ["confirmation_code", "changes"]
+    }
+  },
+  {
+    name: "cancel_booking",
+    description: "Cancel an existing booking. Requires the confirmation code and the email or phone number on the booking. Only call after the user has confirmed they want to cancel.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        ...BOOKING_REFERENCE_PROPERTIES,
+        reason: { type: "string", description: "Why the booking is being cancelled (optional)" }
+      },
+      required: ["confirmation_code"]
+    }
+  },
+  {
+    name: "get_pricing",
+    description: "Estimate the fare for a trip from historical bookings. Returns an estimate with a low/high range, the trips it was based on and each adjustment. Fields left out are taken from the current booking state.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        pickup: { type: "string", description: "Pickup city or location (e.g. 'DCA', 'Baltimore, MD')" },
+        dropoff: { type: "string", description: "Dropoff city or location" },
+        passengers: { type: "integer", description: "Number of passengers" },
+        days: { type: "integer", description: "Number of service days for multi-day trips (default 1)" },
+        trip_type: { type: "string", description: "e.g. 'One Way' or 'Round Trip'" },
+        vehicle_type: { type: "string", description: "Requested vehicle type, if any" }
+      },
+      required: []
+    }
+  },
+  {
+    name: "search_faqs",
+    description: "Search FAQ knowledge base. Use when user asks general questions about services, policies, etc.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        query: { type: "string", description: "FAQ search query" },
+        search_type: KB_FILTER_TOOL_PROPERTIES.search_type
+      },
+      required: ["query"]
+    }
+  }
+];
+
+// Tools that work on saved bookings; only offered when the store supports them
+export const BOOKING_CHANGE_TOOLS: BookingToolName[] = ["lookup_booking", "update_booking", "cancel_booking"];
+
+export function availableBookingTools(store: BookingStore = getBookingStore()): BookingToolSpec[] {
+  return store.supportsChanges ? BOOKING_TOOLS : BOOKING_TOOLS.filter((spec) => !BOOKING_CHANGE_TOOLS.includes(spec.name));
+}
+
+function describeResolvedPlace(location: string | null): string | null {
+  const place = resolvePlace(location);
+  return place ? describePlace(place) : null;
+}
+
+export interface ToolOutcome {
+  content: string;
+  status: "success" | "error";
+  saved?: { booking: BookingState; message: string };
+}
+
+export function toolError(message: string, details: Record<string, unknown> = {}): ToolOutcome {
+  return { status: "error", content: JSON.stringify({ status: "error", message, ...details }) };
+}
+
+// Resolve the booking a lookup/update/cancel refers to. The same message is
+// returned for an unknown code and a contact mismatch so codes can't be probed.
+async function findAuthorizedBooking(toolInput: any): Promise<{ booking: StoredBooking } | { rejected: ToolOutcome }> {
+  if (!getBookingStore().supportsChanges) {
+    return { rejected: toolError("Saved bookings can't be looked up or changed here. Ask the user to contact the office with their confirmation code.") };
+  }
+  const code = normalizeConfirmationCode(toolInput?.confirmation_code);
+  if (!code) return { rejected: toolError("A valid confirmation code (e.g. MS-7K3QXD) is required.") };
+  if (!toolInput?.email && !toolInput?.phone) {
+    return { rejected: toolError("Ask the user for the email or phone number on the booking.") };
+  }
+
+  const booking = await getBookingStore().find(code);
+  if (!booking || !bookingMatchesContact(booking, toolInput)) {
+    return { rejected: toolError("No booking matches that confirmation code and contact detail.") };
+  }
+  return { booking };
+}
+
+// Booking state changes are written back to `context`
+export async function runBookingTool(toolName: string, toolInput: any, context: BookingToolContext): Promise<ToolOutcome> {
+  switch (toolName) {
+    case "update_booking_state": {
+      const current = context.savedConfirmationCode ? createEmptyBookingState() : context.bookingState;
+      const { state, updated, errors } = applyBookingStateUpdate(current, toolInput, { timeZone: context.timeZone });
+      context.bookingState = state;
+      context.savedConfirmationCode = null;
+      return {
+        status: "success",
+        content: JSON.stringify({
+          status: Object.keys(errors).length > 0 ? "partial" : "ok",
+          updated_fields: updated,
+          rejected_fields: errors,
+          booking_state: state,
+          resolved_places: {
+            pickup: describeResolvedPlace(state.pickup_location),
+            dropoff: describeResolvedPlace(state.dropoff_location)
+          },
+          missing_fields: getMissingFields(state)
+        })
+      };
+    }
+
+    case "save_booking": {
+      if (context.savedConfirmationCode) {
+        return {
+          status: "success",
+          content: JSON.stringify({
+            status: "already_saved",
+            message: "This booking is already saved. Use update_booking to change it, or update_booking_state with the new trip's details to start another booking.",
+            confirmation_code: context.savedConfirmationCode
+          })
+        };
+      }
+
+      // Anything passed here goes through the same validation as update_booking_state
+      const { state, errors } = applyBookingStateUpdate(context.bookingState, toolInput, { timeZone: context.timeZone });
+      context.bookingState = state;
+
+      const missing = getMissingFields(state);
+      if (Object.keys(errors).length > 0 || missing.length > 0) {
+        return {
+          status: "error",
+          content: JSON.stringify({
+            status: "error",
+            message: "Booking not saved. Collect or correct the listed fields first.",
+            rejected_fields: errors,
+            missing_fields: missing
+          })
+        };
+      }
+
+      try {
+        const stored = await getBookingStore().save(state);
+        context.savedConfirmationCode = stored.confirmation_code;
+        const message = `Booking saved successfully. Confirmation code: ${stored.confirmation_code}`;
+        return {
+          status: "success",
+          content: JSON.stringify({ status: "success", message, confirmation_code: stored.confirmation_code }),
+          saved: { booking: stored, message }
+        };
+      } catch (error) {
+        return toolError(error instanceof BookingStoreError ? error.message : "Failed to save booking");
+      }
+    }
+
+    case "lookup_booking": {
+      try {
+        const found = await findAuthorizedBooking(toolInput);
+        if ("rejected" in found) return found.rejected;
+        const { booking } = found;
+        return { status: "success", content: JSON.stringify({ status: "success", booking }) };
+      } catch (error) {
+        return toolError(error instanceof BookingStoreError ? error.message : "Failed to look up booking");
+      }
+    }
+
+    case "update_booking": {
+      try {
+        const found = await findAuthorizedBooking(toolInput);
+        if ("rejected" in found) return found.rejected;
+        const { booking } = found;
+        if (booking.status === "cancelled") return toolError("This booking has been cancelled and can no longer be changed.");
+
+        const changes = toolInput?.changes;
+        if (!changes || typeof changes !== "object" || Object.keys(changes).length === 0) {
+          return toolError("No changes were provided.");
+        }
+
+        // Changes go through the same field validation as new bookings
+        const { state, updated, errors } = applyBookingStateUpdate(booking, changes, { timeZone: context.timeZone });
+        const missing = getMissingFields(state);
+        if (Object.keys(errors).length > 0 || missing.length > 0) {
+          return toolError("Booking not updated. Correct the listed fields first.", {
+            rejected_fields: errors,
+            missing_fields: missing
+          });
+        }
+
+        const saved = await getBookingStore().update(booking.confirmation_code, state);
+        return {
+          status: "success",
+          content: JSON.stringify({ status: "success", updated_fields: updated, booking: saved })
+        };
+      } catch (error) {
+        return toolError(error instanceof BookingStoreError ? error.message : "Failed to update booking");
+      }
+    }
+
+    case "cancel_booking": {
+      try {
+        const found = await findAuthorizedBooking(toolInput);
+        if ("rejected" in found) return found.rejected;
+        const { booking } = found;
+        if (booking.status === "cancelled") return toolError("This booking is already cancelled.");
+
+        const reason = typeof toolInput?.reason === "string" ? toolInput.reason.trim() : null;
+        const cancelled = await getBookingStore().cancel(booking.confirmation_code, reason);
+        return {
+          status: "success",
+          content: JSON.stringify({ status: "success", message: "Booking cancelled.", booking: cancelled })
+        };
+      } catch (error) {
+        return toolError(error instanceof BookingStoreError ? error.message : "Failed to cancel booking");
+      }
+    }
+
+    case "get_pricing": {
+      const fromBooking = fareRequestFromBooking(context.bookingState);
+      const passengers = Number(toolInput?.passengers ?? fromBooking?.passengers);
+      const request: FareRequest = {
+        pickup: String(toolInput?.pickup || fromBooking?.pickup || ""),
+        dropoff: String(toolInput?.dropoff || fromBooking?.dropoff || ""),
+        passengers,
+        days: Number(toolInput?.days) || fromBooking?.days || 1,
+        tripType: toolInput?.trip_type || fromBooking?.tripType || null,
+        vehicleType: toolInput?.vehicle_type || fromBooking?.vehicleType || null,
+        groupSize: toolInput?.passengers != null ? null : fromBooking?.groupSize ?? null
+      };
+      if (!request.pickup || !request.dropoff || !Number.isFinite(passengers) || passengers <= 0) {
+        return toolError("Pickup, dropoff and passenger count are needed for a price estimate.");
+      }
+
+      try {
+        const records = await fetchHistoricalTrips(routeQuery(request));
+        const estimate = estimateFare(request, records);
+        return { status: estimate.status === "estimated" ? "success" : "error", content: JSON.stringify(estimate) };
+      } catch (error) {
+        console.error("Pricing error:", error);
+        return toolError("Pricing information temporarily unavailable.");
+      }
+    }
+
+    case "search_faqs": {
+      // FAQ_KB_ID may list several knowledge bases, comma-separated
+      const faqKbIds = parseKnowledgeBaseIds(process.env.FAQ_KB_ID, ["KJYMZYRF17"]);
+      try {
+        // Restrict to FAQ documents when the KB also holds other document types
+        const { searchType } = metadataFilterFromToolInput(toolInput);
+        const faqDocumentType = process.env.FAQ_DOCUMENT_TYPE;
+        const faq = await federatedRetrieve({
+          knowledgeBaseIds: faqKbIds,
+          query: String(toolInput?.query || ""),
+          filter: faqDocumentType ? kbFilter.equals(KB_METADATA_KEYS.documentType, faqDocumentType) : undefined,
+          searchType,
+        });
+        const content = faq.results.map((r) => r.text).join("\n\n");
+        return { status: "success", content: content || "No FAQ information found." };
+      } catch (error) {
+        console.error("KB query error:", error);
+        return { status: "error", content: "FAQ information temporarily unavailable." };
+      }
+    }
+
+    default:
+      return { status: "error", content: `Unknown tool: ${toolName}` };
+  }
+}
+
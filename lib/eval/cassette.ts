@@ -0,0 +1,137 @@
+import { BedrockAgentRuntimeClient } from "@aws-sdk/client-bedrock-agent-runtime";
+import { BedrockRuntimeClient } from "@aws-sdk/client-bedrock-runtime";
+
+// Record/replay for the model and knowledge base calls the agent routes make,
+// so the golden set can run offline. While installed, `send` on the Bedrock
+// runtime clients is intercepted process-wide:
+//   record: calls go to AWS and each request/response pair is appended to the cassette
+//   replay: responses come from the cassette in call order; nothing reaches AWS
+//
+// Interactions are matched by position and command name only, so a cassette can
+// also be written by hand as a mocked model (see eval/cassettes/).
+
+export type ModelMode = "live" | "record" | "replay";
+
+export interface CassetteInteraction {
+  command: string;
+  // Recorded for reference when reading or diffing cassettes; not used for matching
+  input?: unknown;
+  output: Record<string, unknown>;
+  // Name of the streamed output member (ConverseStream `stream`, InvokeAgent `completion`)
+  // and its recorded events
+  streamKey?: string;
+  events?: unknown[];
+}
+
+export interface Cassette {
+  caseId: string;
+  recordedAt: string | null;
+  interactions: CassetteInteraction[];
+}
+
+export class CassetteMismatchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CassetteMismatchError";
+  }
+}
+
+// Commands that carry model output or KB content. Anything else fails in replay mode.
+const RECORDED_COMMANDS = new Set(["ConverseCommand", "ConverseStreamCommand", "InvokeAgentCommand", "RetrieveCommand"]);
+const STREAM_KEYS = ["stream", "completion", "outputStream"];
+
+// ---------------- JSON encoding ---------------- //
+
+// Byte payloads (InvokeAgent chunks) and dates survive the JSON round trip as
+// { $bytes: base64 } and { $date: iso }. Hand-written cassettes may use
+// { $text: "..." } for UTF-8 bytes.
+function encode(value: unknown): unknown {
+  if (value instanceof Uint8Array) return { $bytes: Buffer.from(value).toString("base64") };
+  if (value instanceof Date) return { $date: value.toISOString() };
+  if (Array.isArray(value)) return value.map(encode);
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined).map(([k, v]) => [k, encode(v)]));
+  }
+  return value;
+}
+
+function decode(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(decode);
+  if (value && typeof value === "object") {
+    const record = value as Record<string, unknown>;
+    if (typeof record.$bytes === "string") return new Uint8Array(Buffer.from(record.$bytes, "base64"));
+    if (typeof record.$text === "string") return new TextEncoder().encode(record.$text);
+    if (typeof record.$date === "string") return new Date(record.$date);
+    return Object.fromEntries(Object.entries(record).map(([k, v]) => [k, decode(v)]));
+  }
+  return value;
+}
+
+async function* replayEvents(events: unknown[]) {
+  for (const event of events) yield decode(event);
+}
+
+// ---------------- Interception ---------------- //
+
+type Send = (command: any, ...rest: any[]) => Promise<any>;
+
+const INTERCEPTED_CLIENTS: { prototype: { send: Send } }[] = [
+  BedrockRuntimeClient as unknown as { prototype: { send: Send } },
+  BedrockAgentRuntimeClient as unknown as { prototype: { send: Send } },
+];
+
+// Returns a function that restores the original clients
+export function installCassette(mode: Exclude<ModelMode, "live">, cassette: Cassette): () => void {
+  // One sequence across all clients: replay follows the recorded call order
+  let position = 0;
+  const originals = INTERCEPTED_CLIENTS.map((client) => {
+    const original = Object.prototype.hasOwnProperty.call(client.prototype, "send") ? client.prototype.send : undefined;
+    const inherited = client.prototype.send;
+
+    client.prototype.send = async function (this: unknown, command: any, ...rest: any[]) {
+      const name: string = command?.constructor?.name || "UnknownCommand";
+      if (!RECORDED_COMMANDS.has(name)) {
+        if (mode === "replay") throw new CassetteMismatchError(`${name} is not recorded; it cannot run in replay mode`);
+        return inherited.call(this, command, ...rest);
+      }
+
+      if (mode === "replay") {
+        const interaction = cassette.interactions[position++];
+        if (!interaction) {
+          throw new CassetteMismatchError(`Cassette ${cassette.caseId} has no interaction #${position} (${name})`);
+        }
+        if (interaction.command !== name) {
+          throw new CassetteMismatchError(`Cassette ${cassette.caseId} interaction #${position} is ${interaction.command}, got ${name}`);
+        }
+        const output = decode(interaction.output) as Record<string, unknown>;
+        if (interaction.streamKey) output[interaction.streamKey] = replayEvents(interaction.events || []);
+        return output;
+      }
+
+      // Reserve the slot now so parallel calls keep their call order
+      const interaction: CassetteInteraction = { command: name, input: encode(command.input), output: {} };
+      cassette.interactions.push(interaction);
+      const output = await inherited.call(this, command, ...rest);
+      const streamKey = STREAM_KEYS.find((key) => output?.[key] && typeof output[key][Symbol.asyncIterator] === "function");
+      if (streamKey) {
+        // The route still gets the full stream, just after it has been read
+        const events: unknown[] = [];
+        for await (const event of output[streamKey]) events.push(event);
+        interaction.streamKey = streamKey;
+        interaction.events = events.map(encode);
+        output[streamKey] = replayEvents(interaction.events);
+      }
+      const { $metadata, ...recorded } = output || {};
+      interaction.output = encode(streamKey ? { ...recorded, [streamKey]: undefined } : recorded) as Record<string, unknown>;
+      return output;
+    };
+    return { client, original };
+  });
+
+  return () => {
+    for (const { client, original } of originals) {
+      if (original) client.prototype.send = original;
+      else delete (client.prototype as { send?: Send }).send;
+    }
+  };
+}
@@ -0,0 +1,150 @@
+import type { AgentEvent } from "@/lib/agent-events";
+import type { BookingState } from "@/lib/booking/state";
+import type { CaseExpectations, PriceExpectation } from "@/lib/eval/golden";
+import { tokenizeForRetrieval } from "@/lib/retrieval/rerank";
+
+// Deterministic scoring of a replayed conversation. Every check is a plain
+// comparison over the streamed agent events, so the same transcript always
+// gets the same score.
+
+export interface TurnTranscript {
+  user: string;
+  assistant: string;
+  httpStatus: number;
+  events: AgentEvent[];
+}
+
+export interface CheckResult {
+  name: string;
+  passed: boolean;
+  detail: string;
+}
+
+// Tools whose result carries a fare estimate ({ estimate: number, ... })
+const PRICING_TOOLS = new Set(["get_pricing", "get_price_estimate", "get_price_estimate_fn"]);
+const DEFAULT_PRICE_TOLERANCE = 0.15;
+const REPEATED_QUESTION_SIMILARITY = 0.8;
+
+function eventsOf<T extends AgentEvent["type"]>(turns: TurnTranscript[], type: T): Extract<AgentEvent, { type: T }>[] {
+  return turns.flatMap((t) => t.events.filter((e): e is Extract<AgentEvent, { type: T }> => e.type === type));
+}
+
+export function toolsCalled(turns: TurnTranscript[]): string[] {
+  const calls = eventsOf(turns, "tool_call").map((e) => e.name);
+  // The retrieve agent's own action groups only show up in its trace
+  const traced = eventsOf(turns, "trace").flatMap((e) => (e.step.kind === "action_group_call" ? [e.step.function || e.step.actionGroup] : []));
+  return [...calls, ...traced];
+}
+
+export function finalBookingState(turns: TurnTranscript[]): BookingState | null {
+  const states = eventsOf(turns, "booking_state");
+  return states.length > 0 ? states[states.length - 1].state : null;
+}
+
+function checkField(state: BookingState | null, field: string, expected: string | number | boolean | null): CheckResult {
+  const name = `field:${field}`;
+  const actual = state ? (state as unknown as Record<string, unknown>)[field] : undefined;
+  if (expected === null) {
+    const passed = actual === null || actual === undefined || actual === "";
+    return { name, passed, detail: passed ? "empty" : `expected empty, got ${JSON.stringify(actual)}` };
+  }
+  if (actual === null || actual === undefined) return { name, passed: false, detail: "not set" };
+  const passed = typeof expected === "string"
+    ? String(actual).toLowerCase().includes(expected.toLowerCase())
+    : actual === expected;
+  return { name, passed, detail: `expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}` };
+}
+
+// The most recent estimate returned by a pricing tool, else the first dollar amount in the final answer
+export function extractPrice(turns: TurnTranscript[]): { value: number; source: string } | null {
+  const results = eventsOf(turns, "tool_result").filter((e) => PRICING_TOOLS.has(e.name));
+  for (const result of results.reverse()) {
+    try {
+      const estimate = JSON.parse(result.content)?.estimate;
+      if (typeof estimate === "number") return { value: estimate, source: result.name };
+    } catch {
+      // Not JSON; try the next one
+    }
+  }
+  const answer = turns[turns.length - 1]?.assistant || "";
+  const match = answer.match(/\$\s?(\d{1,3}(?:,\d{3})+|\d+)(?:\.\d{2})?/);
+  return match ? { value: Number(match[1].replace(/,/g, "")), source: "answer text" } : null;
+}
+
+function checkPrice(turns: TurnTranscript[], expectation: PriceExpectation): CheckResult {
+  const price = extractPrice(turns);
+  if (!price) return { name: "price", passed: false, detail: "no price found" };
+
+  let low = expectation.min ?? -Infinity;
+  let high = expectation.max ?? Infinity;
+  if (expectation.expected !== undefined) {
+    const tolerance = expectation.tolerance ?? DEFAULT_PRICE_TOLERANCE;
+    low = expectation.expected * (1 - tolerance);
+    high = expectation.expected * (1 + tolerance);
+  }
+  const passed = price.value >= low && price.value <= high;
+  return { name: "price", passed, detail: `${price.value} from ${price.source}, expected ${Math.round(low)}–${Math.round(high)}` };
+}
+
+function questionsIn(text: string): string[] {
+  return (text.match(/[^.!?\n]*\?/g) || []).map((q) => q.trim()).filter((q) => tokenizeForRetrieval(q).length >= 2);
+}
+
+function similarity(a: string, b: string): number {
+  const left = new Set(tokenizeForRetrieval(a));
+  const right = new Set(tokenizeForRetrieval(b));
+  let shared = 0;
+  for (const token of left) if (right.has(token)) shared++;
+  const union = left.size + right.size - shared;
+  return union === 0 ? 0 : shared / union;
+}
+
+function checkRepeatedQuestions(turns: TurnTranscript[]): CheckResult {
+  const asked: { turn: number; question: string }[] = [];
+  for (const [turn, transcript] of turns.entries()) {
+    for (const question of questionsIn(transcript.assistant)) {
+      const earlier = asked.find((a) => a.turn < turn && similarity(a.question, question) >= REPEATED_QUESTION_SIMILARITY);
+      if (earlier) {
+        return { name: "no_repeated_questions", passed: false, detail: `turn ${turn + 1} repeats turn ${earlier.turn + 1}: "${question}"` };
+      }
+      asked.push({ turn, question });
+    }
+  }
+  return { name: "no_repeated_questions", passed: true, detail: `${asked.length} questions, none repeated` };
+}
+
+export function runChecks(turns: TurnTranscript[], expect: CaseExpectations): CheckResult[] {
+  const results: CheckResult[] = [];
+
+  const failures = turns.flatMap((t, i) => [
+    ...(t.httpStatus >= 400 ? [`turn ${i + 1}: HTTP ${t.httpStatus}`] : []),
+    ...t.events.flatMap((e) => (e.type === "error" ? [`turn ${i + 1}: ${e.message}`] : [])),
+  ]);
+  results.push({ name: "no_errors", passed: failures.length === 0, detail: failures.join("; ") || "ok" });
+
+  const state = finalBookingState(turns);
+  for (const [field, expected] of Object.entries(expect.fields || {})) {
+    results.push(checkField(state, field, expected));
+  }
+
+  const called = toolsCalled(turns);
+  for (const tool of expect.toolsCalled || []) {
+    results.push({ name: `tool_called:${tool}`, passed: called.includes(tool), detail: `called: ${called.join(", ") || "none"}` });
+  }
+  for (const tool of expect.toolsNotCalled || []) {
+    results.push({ name: `tool_not_called:${tool}`, passed: !called.includes(tool), detail: `called: ${called.join(", ") || "none"}` });
+  }
+
+  if (expect.price) results.push(checkPrice(turns, expect.price));
+
+  const answer = (turns[turns.length - 1]?.assistant || "").toLowerCase();
+  for (const text of expect.textIncludes || []) {
+    results.push({ name: `text_includes:${text}`, passed: answer.includes(text.toLowerCase()), detail: "final answer" });
+  }
+  for (const text of expect.textExcludes || []) {
+    results.push({ name: `text_excludes:${text}`, passed: !answer.includes(text.toLowerCase()), detail: "final answer" });
+  }
+
+  if (expect.noRepeatedQuestions) results.push(checkRepeatedQuestions(turns));
+  return results;
+}
@@ -0,0 +1,84 @@
+import { promises as fs } from "fs";
+import path from "path";
+import type { Cassette } from "@/lib/eval/cassette";
+
+// The golden set: versioned conversations replayed against the agent routes
+// by lib/eval/runner.ts. Sets live in eval/golden/<version>.json and their
+// recorded model responses in eval/cassettes/<version>/<case id>.json.
+
+export type EvalAgent = "booking" | "retrieve" | "vendor_history";
+
+export interface PriceExpectation {
+  // Either a target with a relative tolerance (default 0.15) ...
+  expected?: number;
+  tolerance?: number;
+  // ... or an absolute range
+  min?: number;
+  max?: number;
+}
+
+export interface CaseExpectations {
+  // Booking state after the last turn. Strings match case-insensitively as a
+  // substring of the stored value; null means the field must still be empty.
+  fields?: Record<string, string | number | boolean | null>;
+  toolsCalled?: string[];
+  toolsNotCalled?: string[];
+  price?: PriceExpectation;
+  // Checked against the final answer
+  textIncludes?: string[];
+  textExcludes?: string[];
+  // The assistant must not ask the same question in two different turns
+  noRepeatedQuestions?: boolean;
+}
+
+export interface GoldenCase {
+  id: string;
+  agent: EvalAgent;
+  description: string;
+  // User messages, sent one per turn in the same session
+  turns: string[];
+  expect: CaseExpectations;
+}
+
+export interface GoldenSet {
+  version: string;
+  description: string;
+  cases: GoldenCase[];
+}
+
+export const EVAL_DIR = path.join(process.cwd(), "eval");
+
+function assertVersion(version: string) {
+  if (!/^[\w.-]+$/.test(version)) throw new Error(`Invalid golden set version: ${version}`);
+}
+
+export async function loadGoldenSet(version: string): Promise<GoldenSet> {
+  assertVersion(version);
+  const set: GoldenSet = JSON.parse(await fs.readFile(path.join(EVAL_DIR, "golden", `${version}.json`), "utf8"));
+  const ids = new Set<string>();
+  for (const c of set.cases) {
+    if (ids.has(c.id)) throw new Error(`Duplicate golden case id: ${c.id}`);
+    ids.add(c.id);
+  }
+  return set;
+}
+
+function cassettePath(version: string, caseId: string) {
+  assertVersion(version);
+  return path.join(EVAL_DIR, "cassettes", version, `${caseId.replace(/[^\w.-]/g, "_")}.json`);
+}
+
+export async function loadCassette(version: string, caseId: string): Promise<Cassette | null> {
+  try {
+    return JSON.parse(await fs.readFile(cassettePath(version, caseId), "utf8"));
+  } catch (error: any) {
+    if (error?.code === "ENOENT") return null;
+    throw error;
+  }
+}
+
+export async function saveCassette(version: string, cassette: Cassette) {
+  const file = cassettePath(version, cassette.caseId);
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, JSON.stringify(cassette, null, 2));
+}
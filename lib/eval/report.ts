@@ -0,0 +1,126 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { EVAL_DIR } from "@/lib/eval/golden";
+import type { CaseResult, EvalReport } from "@/lib/eval/runner";
+
+// Comparison of an eval run against the committed baseline for its golden set
+// version (eval/baselines/<version>.json), written as JSON and markdown under
+// eval/reports/.
+
+export interface CaseComparison {
+  id: string;
+  before: { passed: boolean; score: number } | null;
+  after: { passed: boolean; score: number };
+  // Checks that passed in the baseline and fail now, and the reverse
+  regressions: string[];
+  fixes: string[];
+}
+
+export interface ReportComparison {
+  baselineStartedAt: string;
+  scoreDelta: number;
+  regressedCases: string[];
+  fixedCases: string[];
+  cases: CaseComparison[];
+}
+
+function baselinePath(version: string) {
+  return path.join(EVAL_DIR, "baselines", `${version}.json`);
+}
+
+export async function loadBaseline(version: string): Promise<EvalReport | null> {
+  try {
+    return JSON.parse(await fs.readFile(baselinePath(version), "utf8"));
+  } catch (error: any) {
+    if (error?.code === "ENOENT") return null;
+    throw error;
+  }
+}
+
+export async function saveBaseline(report: EvalReport) {
+  const file = baselinePath(report.version);
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, JSON.stringify(report, null, 2));
+}
+
+function passedChecks(result: CaseResult): Set<string> {
+  return new Set(result.checks.filter((c) => c.passed).map((c) => c.name));
+}
+
+export function compareReports(current: EvalReport, baseline: EvalReport): ReportComparison {
+  const before = new Map(baseline.cases.map((c) => [c.id, c]));
+  const cases: CaseComparison[] = current.cases.map((after) => {
+    const previous = before.get(after.id);
+    const wasPassing = previous ? passedChecks(previous) : new Set<string>();
+    const nowPassing = passedChecks(after);
+    return {
+      id: after.id,
+      before: previous ? { passed: previous.passed, score: previous.score } : null,
+      after: { passed: after.passed, score: after.score },
+      regressions: [...wasPassing].filter((name) => !nowPassing.has(name)),
+      fixes: previous ? [...nowPassing].filter((name) => !wasPassing.has(name)) : [],
+    };
+  });
+
+  return {
+    baselineStartedAt: baseline.startedAt,
+    scoreDelta: current.score - baseline.score,
+    regressedCases: cases.filter((c) => c.before?.passed && !c.after.passed).map((c) => c.id),
+    fixedCases: cases.filter((c) => c.before && !c.before.passed && c.after.passed).map((c) => c.id),
+    cases,
+  };
+}
+
+const percent = (value: number) => `${(value * 100).toFixed(0)}%`;
+
+export function renderMarkdownReport(report: EvalReport, comparison: ReportComparison | null): string {
+  const lines = [
+    `# Eval report: golden set ${report.version}`,
+    "",
+    `- Model: ${report.model}`,
+    `- Run: ${report.startedAt} → ${report.finishedAt}`,
+    `- Cases: ${report.passed} passed, ${report.failed} failed (score ${percent(report.score)})`,
+  ];
+
+  if (comparison) {
+    const sign = comparison.scoreDelta >= 0 ? "+" : "";
+    lines.push(
+      `- Baseline from ${comparison.baselineStartedAt}: score ${sign}${(comparison.scoreDelta * 100).toFixed(1)} points`,
+      `- Regressed: ${comparison.regressedCases.join(", ") || "none"}`,
+      `- Fixed: ${comparison.fixedCases.join(", ") || "none"}`,
+    );
+  } else {
+    lines.push("- No baseline for this version");
+  }
+
+  lines.push("", "| Case | Agent | Result | Score | Baseline |", "| --- | --- | --- | --- | --- |");
+  for (const result of report.cases) {
+    const compared = comparison?.cases.find((c) => c.id === result.id);
+    const baseline = compared?.before ? `${compared.before.passed ? "pass" : "fail"} (${percent(compared.before.score)})` : "-";
+    lines.push(`| ${result.id} | ${result.agent} | ${result.error ? "error" : result.passed ? "pass" : "fail"} | ${percent(result.score)} | ${baseline} |`);
+  }
+
+  for (const result of report.cases.filter((r) => !r.passed)) {
+    const compared = comparison?.cases.find((c) => c.id === result.id);
+    lines.push("", `## ${result.id}`, "", result.description, "");
+    if (result.error) lines.push(`Error: ${result.error}`);
+    for (const check of result.checks.filter((c) => !c.passed)) {
+      const regressed = compared?.regressions.includes(check.name) ? " (regression)" : "";
+      lines.push(`- ✗ ${check.name}${regressed}: ${check.detail}`);
+    }
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+// Returns the paths written, relative to the project root
+export async function writeReport(report: EvalReport, comparison: ReportComparison | null): Promise<{ json: string; markdown: string }> {
+  const dir = path.join(EVAL_DIR, "reports");
+  const base = `${report.version}-${report.startedAt.replace(/[:.]/g, "-")}`;
+  await fs.mkdir(dir, { recursive: true });
+  const json = path.join(dir, `${base}.json`);
+  const markdown = path.join(dir, `${base}.md`);
+  await fs.writeFile(json, JSON.stringify({ ...report, comparison }, null, 2));
+  await fs.writeFile(markdown, renderMarkdownReport(report, comparison));
+  return { json: path.relative(process.cwd(), json), markdown: path.relative(process.cwd(), markdown) };
+}
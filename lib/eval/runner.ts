@@ -0,0 +1,175 @@
+import os from "os";
+import path from "path";
+import { readAgentEvents } from "@/lib/agent-events";
+import { getBookingStore, LocalBookingStore, setBookingStore } from "@/lib/booking/store";
+import { Cassette, installCassette, ModelMode } from "@/lib/eval/cassette";
+import { CheckResult, runChecks, toolsCalled, TurnTranscript } from "@/lib/eval/checks";
+import { EvalAgent, GoldenCase, loadCassette, loadGoldenSet, saveCassette } from "@/lib/eval/golden";
+import { clearRetrievalCache } from "@/lib/retrieval/cache";
+
+// Replays the golden set against the agent route handlers in-process and
+// scores each conversation. The handlers are passed in by the caller
+// (app/api/eval) so this module doesn't depend on the routes.
+
+export type RouteHandler = (req: any) => Promise<Response>;
+
+export interface RunOptions {
+  version: string;
+  model: ModelMode;
+  handlers: Record<EvalAgent, RouteHandler>;
+  // Only run these cases
+  caseIds?: string[];
+}
+
+export interface CaseResult {
+  id: string;
+  agent: EvalAgent;
+  description: string;
+  passed: boolean;
+  // Fraction of checks passed
+  score: number;
+  checks: CheckResult[];
+  turns: { user: string; assistant: string; tools: string[] }[];
+  // Set when the case could not run (missing cassette, route threw, ...)
+  error: string | null;
+  durationMs: number;
+}
+
+export interface EvalReport {
+  version: string;
+  model: ModelMode;
+  startedAt: string;
+  finishedAt: string;
+  passed: number;
+  failed: number;
+  // Mean case score
+  score: number;
+  cases: CaseResult[];
+}
+
+// Fixed so relative dates resolve the same way on every machine
+const EVAL_TIME_ZONE = "America/New_York";
+
+let running = false;
+
+function requestBody(agent: EvalAgent, sessionId: string, turns: TurnTranscript[], message: string) {
+  switch (agent) {
+    case "booking":
+      return { sessionId, message, timeZone: EVAL_TIME_ZONE };
+    case "retrieve":
+      return { sessionId, input: message, mode: "retrieve", trace: true, sessionAttributes: { channel: "eval", timeZone: EVAL_TIME_ZONE } };
+    case "vendor_history":
+      // This route is stateless: every turn carries the whole conversation
+      return {
+        messages: [
+          ...turns.flatMap((t) => [{ role: "user", content: t.user }, { role: "assistant", content: t.assistant }]),
+          { role: "user", content: message },
+        ],
+      };
+  }
+}
+
+async function runTurn(handler: RouteHandler, body: unknown, user: string): Promise<TurnTranscript> {
+  const response = await handler(new Request("http://eval.local/api", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  }));
+  const transcript: TurnTranscript = { user, assistant: "", httpStatus: response.status, events: [] };
+  if (!response.ok || !response.body) {
+    transcript.assistant = await response.text().catch(() => "");
+    return transcript;
+  }
+  for await (const event of readAgentEvents(response.body)) {
+    transcript.events.push(event);
+    if (event.type === "text_delta") transcript.assistant += event.text;
+  }
+  return transcript;
+}
+
+async function runCase(testCase: GoldenCase, options: RunOptions, runId: string): Promise<CaseResult> {
+  const started = Date.now();
+  const turns: TurnTranscript[] = [];
+  let error: string | null = null;
+
+  let cassette: Cassette | null = null;
+  if (options.model === "replay") {
+    cassette = await loadCassette(options.version, testCase.id);
+    if (!cassette) error = `No cassette for ${testCase.id}; run once with model "record"`;
+  } else if (options.model === "record") {
+    cassette = { caseId: testCase.id, recordedAt: new Date().toISOString(), interactions: [] };
+  }
+
+  if (!error) {
+    // Cached retrievals would skip recorded calls and shift the replay order
+    clearRetrievalCache();
+    const restore = cassette && options.model !== "live" ? installCassette(options.model, cassette) : () => {};
+    try {
+      const sessionId = `eval-${runId}-${testCase.id}`;
+      for (const message of testCase.turns) {
+        turns.push(await runTurn(options.handlers[testCase.agent], requestBody(testCase.agent, sessionId, turns, message), message));
+      }
+      if (options.model === "record" && cassette) await saveCassette(options.version, cassette);
+    } catch (e) {
+      error = e instanceof Error ? e.message : String(e);
+    } finally {
+      restore();
+      clearRetrievalCache();
+    }
+  }
+
+  const checks = error ? [] : runChecks(turns, testCase.expect);
+  const passedChecks = checks.filter((c) => c.passed).length;
+  return {
+    id: testCase.id,
+    agent: testCase.agent,
+    description: testCase.description,
+    passed: !error && passedChecks === checks.length,
+    score: error || checks.length === 0 ? 0 : passedChecks / checks.length,
+    checks,
+    turns: turns.map((t) => ({ user: t.user, assistant: t.assistant, tools: toolsCalled([t]) })),
+    error,
+    durationMs: Date.now() - started,
+  };
+}
+
+export async function runGoldenSet(options: RunOptions): Promise<EvalReport> {
+  // Cassettes patch the AWS clients process-wide, so runs can't overlap
+  if (running) throw new Error("An evaluation run is already in progress");
+  running = true;
+
+  const startedAt = new Date().toISOString();
+  const runId = Date.now().toString(36);
+  const set = await loadGoldenSet(options.version).catch((error) => {
+    running = false;
+    throw error;
+  });
+  const cases = options.caseIds?.length ? set.cases.filter((c) => options.caseIds!.includes(c.id)) : set.cases;
+
+  // Bookings saved during the run go to a scratch file, never to the real store
+  const previousStore = getBookingStore();
+  setBookingStore(new LocalBookingStore(path.join(os.tmpdir(), `eval-bookings-${runId}.json`)));
+
+  const results: CaseResult[] = [];
+  try {
+    for (const testCase of cases) {
+      console.log(`🧪 Eval ${set.version}/${testCase.id} (${options.model})`);
+      results.push(await runCase(testCase, options, runId));
+    }
+  } finally {
+    setBookingStore(previousStore);
+    running = false;
+  }
+
+  const passed = results.filter((r) => r.passed).length;
+  return {
+    version: set.version,
+    model: options.model,
+    startedAt,
+    finishedAt: new Date().toISOString(),
+    passed,
+    failed: results.length - passed,
+    score: results.length > 0 ? results.reduce((sum, r) => sum + r.score, 0) / results.length : 0,
+    cases: results,
+  };
+}
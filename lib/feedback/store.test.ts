@@ -0,0 +1,65 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { LocalFeedbackStore, type FeedbackAgent, type FeedbackRating } from "./store.ts";
+
+function submission(messageId: string, agent: FeedbackAgent, rating: FeedbackRating) {
+  return {
+    agent,
+    sessionId: "session-1",
+    messageId,
+    rating,
+    comment: null,
+    request: "How much is a coach to Newark?",
+    response: "About $1,800.",
+    toolResults: [{ name: "estimate_fare", input: {}, status: "success" as const, content: "{}" }],
+    citations: [],
+  };
+}
+
+let dir: string;
+let store: LocalFeedbackStore;
+const ids: Record<string, string> = {};
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), "feedback-"));
+  store = new LocalFeedbackStore(path.join(dir, "feedback.json"));
+  vi.useFakeTimers();
+  const entries: [string, FeedbackAgent, FeedbackRating][] = [["a", "booking", "down"], ["b", "retrieve", "up"], ["c", "booking", "down"], ["d", "vendor_search", "down"]];
+  for (const [minute, [messageId, agent, rating]] of entries.entries()) {
+    vi.setSystemTime(new Date(Date.UTC(2026, 9, 19, 12, minute)));
+    ids[messageId] = (await store.submit(submission(messageId, agent, rating))).id;
+  }
+});
+afterEach(async () => {
+  vi.useRealTimers();
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+describe("LocalFeedbackStore.list", () => {
+  it("pages summaries newest first", async () => {
+    const first = await store.list({ limit: 3 });
+    expect(first.items.map((i) => i.id)).toEqual([ids.d, ids.c, ids.b]);
+    expect(first.items[0]).toMatchObject({ agent: "vendor_search", status: "open", tools: ["estimate_fare"] });
+    expect(first.items[0]).not.toHaveProperty("response");
+    expect(first.nextCursor).not.toBeNull();
+
+    const second = await store.list({ limit: 3, cursor: first.nextCursor! });
+    expect(second.items.map((i) => i.id)).toEqual([ids.a]);
+    expect(second.nextCursor).toBeNull();
+  });
+
+  it("filters across pages", async () => {
+    const first = await store.list({ agent: "booking", rating: "down", limit: 1 });
+    expect(first.items.map((i) => i.id)).toEqual([ids.c]);
+    const second = await store.list({ agent: "booking", rating: "down", limit: 1, cursor: first.nextCursor! });
+    expect(second.items.map((i) => i.id)).toEqual([ids.a]);
+    expect(second.nextCursor).toBeNull();
+  });
+
+  it("keeps an item's place when its status changes", async () => {
+    await store.setStatus(ids.c, "resolved", "Fixed the fare table");
+    expect((await store.list({ status: "resolved" })).items.map((i) => i.id)).toEqual([ids.c]);
+    expect((await store.list()).items.map((i) => i.id)).toEqual([ids.d, ids.c, ids.b, ids.a]);
+  });
+});
@@ -0,0 +1,399 @@
+import { GetObjectCommand, ListObjectsV2Command, PutObjectCommand, S3Client } from "@aws-sdk/client-s3";
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import type { Citation } from "@/lib/agent-events";
+
+// Thumbs up/down on assistant answers from the chat, retrieve and vendor-search
+// pages, kept with the exchange that produced them for the admin review queue.
+
+export type FeedbackAgent = "booking" | "retrieve" | "vendor_search";
+export type FeedbackRating = "up" | "down";
+export type FeedbackStatus = "open" | "resolved";
+
+export const FEEDBACK_AGENTS: FeedbackAgent[] = ["booking", "retrieve", "vendor_search"];
+
+// A tool the agent ran while producing the answer (pricing estimates, KB searches, ...)
+export interface FeedbackToolResult {
+  name: string;
+  input: unknown;
+  status: "success" | "error";
+  content: string;
+}
+
+export interface FeedbackSubmission {
+  agent: FeedbackAgent;
+  sessionId: string;
+  // Client-side id of the rated assistant message
+  messageId: string;
+  rating: FeedbackRating;
+  comment: string | null;
+  // The user message the answer replied to
+  request: string;
+  response: string;
+  toolResults: FeedbackToolResult[];
+  citations: Citation[];
+}
+
+export interface FeedbackItem extends FeedbackSubmission {
+  id: string;
+  status: FeedbackStatus;
+  createdAt: string;
+  updatedAt: string;
+  resolvedAt: string | null;
+  resolutionNote: string | null;
+}
+
+// What the review queue shows for an item; the full item is one get() away
+export interface FeedbackSummary {
+  id: string;
+  agent: FeedbackAgent;
+  rating: FeedbackRating;
+  status: FeedbackStatus;
+  createdAt: string;
+  updatedAt: string;
+  comment: string | null;
+  // Start of the user's request
+  request: string;
+  // Names of the tools the agent ran
+  tools: string[];
+}
+
+export interface FeedbackQuery {
+  agent?: FeedbackAgent;
+  rating?: FeedbackRating;
+  status?: FeedbackStatus;
+  // Page size (default 50, at most 200) and the `nextCursor` of the previous page
+  limit?: number;
+  cursor?: string;
+}
+
+export interface FeedbackPage {
+  items: FeedbackSummary[];
+  // Null on the last page
+  nextCursor: string | null;
+}
+
+export interface FeedbackStore {
+  // Re-rating the same message replaces the earlier submission
+  submit(submission: FeedbackSubmission): Promise<FeedbackItem>;
+  // Newest first
+  list(query?: FeedbackQuery): Promise<FeedbackPage>;
+  get(id: string): Promise<FeedbackItem | null>;
+  setStatus(id: string, status: FeedbackStatus, note?: string | null): Promise<FeedbackItem>;
+}
+
+export class FeedbackStoreError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FeedbackStoreError";
+  }
+}
+
+const MAX_TEXT_LENGTH = 20_000;
+const MAX_COMMENT_LENGTH = 2_000;
+const MAX_TOOL_RESULTS = 20;
+const MAX_CITATIONS = 20;
+const SUMMARY_REQUEST_LENGTH = 300;
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+// Upper bound on summaries a filtered S3 listing reads for one page
+const MAX_SCANNED_SUMMARIES = 1000;
+// Creation times are subtracted from this (milliseconds, in the year 2286) so keys sort newest first
+const MAX_TIME = 9_999_999_999_999;
+
+export function feedbackId(sessionId: string, messageId: string): string {
+  return createHash("sha256").update(`${sessionId}\n${messageId}`).digest("hex").slice(0, 20);
+}
+
+function text(value: unknown, max: number): string {
+  return typeof value === "string" ? value.slice(0, max) : "";
+}
+
+// Validate and trim a client submission; null when required fields are missing
+export function parseFeedbackSubmission(body: any): FeedbackSubmission | null {
+  const agent = FEEDBACK_AGENTS.find((a) => a === body?.agent);
+  const rating = body?.rating === "up" || body?.rating === "down" ? body.rating : null;
+  const sessionId = text(body?.sessionId, 200).trim();
+  const messageId = text(body?.messageId, 200).trim();
+  if (!agent || !rating || !sessionId || !messageId) return null;
+
+  const toolResults: FeedbackToolResult[] = (Array.isArray(body.toolResults) ? body.toolResults : [])
+    .slice(0, MAX_TOOL_RESULTS)
+    .map((r: any) => ({
+      name: text(r?.name, 200),
+      input: r?.input ?? null,
+      status: r?.status === "error" ? "error" : "success",
+      content: text(r?.content, MAX_TEXT_LENGTH),
+    }));
+  const citations: Citation[] = (Array.isArray(body.citations) ? body.citations : [])
+    .slice(0, MAX_CITATIONS)
+    .map((c: any) => ({
+      sourceUri: text(c?.sourceUri, 2_000),
+      snippet: text(c?.snippet, MAX_COMMENT_LENGTH),
+      knowledgeBaseId: typeof c?.knowledgeBaseId === "string" ? c.knowledgeBaseId : null,
+    }));
+  const comment = text(body.comment, MAX_COMMENT_LENGTH).trim();
+
+  return {
+    agent,
+    sessionId,
+    messageId,
+    rating,
+    comment: comment || null,
+    request: text(body.request, MAX_TEXT_LENGTH),
+    response: text(body.response, MAX_TEXT_LENGTH),
+    toolResults,
+    citations,
+  };
+}
+
+function toItem(submission: FeedbackSubmission, existing: FeedbackItem | null): FeedbackItem {
+  const now = new Date().toISOString();
+  return {
+    ...submission,
+    id: feedbackId(submission.sessionId, submission.messageId),
+    // A changed rating needs another look even if the old one was resolved
+    status: existing && existing.rating === submission.rating ? existing.status : "open",
+    createdAt: existing?.createdAt || now,
+    updatedAt: now,
+    resolvedAt: existing && existing.rating === submission.rating ? existing.resolvedAt : null,
+    resolutionNote: existing && existing.rating === submission.rating ? existing.resolutionNote : null,
+  };
+}
+
+function withStatus(item: FeedbackItem, status: FeedbackStatus, note?: string | null): FeedbackItem {
+  const now = new Date().toISOString();
+  return {
+    ...item,
+    status,
+    updatedAt: now,
+    resolvedAt: status === "resolved" ? now : null,
+    resolutionNote: note === undefined ? item.resolutionNote : note ? note.slice(0, MAX_COMMENT_LENGTH) : null,
+  };
+}
+
+export function summarizeFeedback(item: FeedbackItem): FeedbackSummary {
+  return {
+    id: item.id,
+    agent: item.agent,
+    rating: item.rating,
+    status: item.status,
+    createdAt: item.createdAt,
+    updatedAt: item.updatedAt,
+    comment: item.comment,
+    request: item.request.slice(0, SUMMARY_REQUEST_LENGTH),
+    tools: item.toolResults.map((tool) => tool.name),
+  };
+}
+
+function matches(summary: FeedbackSummary, query: FeedbackQuery): boolean {
+  return (!query.agent || summary.agent === query.agent) &&
+    (!query.rating || summary.rating === query.rating) &&
+    (!query.status || summary.status === query.status);
+}
+
+function pageSize(limit: number | undefined): number {
+  return limit && limit > 0 ? Math.min(Math.floor(limit), MAX_PAGE_SIZE) : DEFAULT_PAGE_SIZE;
+}
+
+// Sorts newest first; built only from what never changes after the first
+// submission, so rewriting an item rewrites the same summary: "<inverted creation>_<id>"
+function sortKey(item: FeedbackSummary): string {
+  const inverted = String(MAX_TIME - Date.parse(item.createdAt)).padStart(13, "0");
+  return `${inverted}_${item.id}`;
+}
+
+// ---------------- S3 store ---------------- //
+
+// One JSON object per feedback item under FEEDBACK_PREFIX in FEEDBACK_BUCKET,
+// plus its summary under summaries/, keyed by sortKey() so listing a page only
+// reads that page's summaries
+export class S3FeedbackStore implements FeedbackStore {
+  private s3 = new S3Client({
+    region: process.env.AWS_REGION || "us-east-1",
+    credentials: {
+      accessKeyId: process.env.NEXT_PUBLIC_AWS_ACCESS_KEY_ID || process.env.AWS_ACCESS_KEY_ID || "",
+      secretAccessKey: process.env.NEXT_PUBLIC_AWS_SECRET_ACCESS_KEY || process.env.AWS_SECRET_ACCESS_KEY || "",
+    },
+  });
+
+  constructor(
+    private bucket: string = process.env.FEEDBACK_BUCKET || "",
+    private prefix: string = process.env.FEEDBACK_PREFIX || "feedback/",
+  ) {}
+
+  private key(id: string) {
+    return `${this.prefix}${id}.json`;
+  }
+
+  private get summaryPrefix() {
+    return `${this.prefix}summaries/`;
+  }
+
+  private async read<T>(key: string): Promise<T | null> {
+    try {
+      const response = await this.s3.send(new GetObjectCommand({ Bucket: this.bucket, Key: key }));
+      const body = await response.Body?.transformToString();
+      return body ? JSON.parse(body) : null;
+    } catch (error: any) {
+      if (error?.name === "NoSuchKey") return null;
+      console.error("Feedback read error:", error);
+      throw new FeedbackStoreError("Failed to read feedback");
+    }
+  }
+
+  // The summary is rewritten with the item, so status changes show up in the queue
+  private async write(item: FeedbackItem) {
+    const summary = summarizeFeedback(item);
+    try {
+      await Promise.all([
+        this.s3.send(new PutObjectCommand({
+          Bucket: this.bucket,
+          Key: this.key(item.id),
+          Body: JSON.stringify(item),
+          ContentType: "application/json",
+        })),
+        this.s3.send(new PutObjectCommand({
+          Bucket: this.bucket,
+          Key: `${this.summaryPrefix}${sortKey(summary)}.json`,
+          Body: JSON.stringify(summary),
+          ContentType: "application/json",
+        })),
+      ]);
+    } catch (error) {
+      console.error("Feedback write error:", error);
+      throw new FeedbackStoreError("Failed to save feedback");
+    }
+  }
+
+  async submit(submission: FeedbackSubmission): Promise<FeedbackItem> {
+    const item = toItem(submission, await this.get(feedbackId(submission.sessionId, submission.messageId)));
+    await this.write(item);
+    return item;
+  }
+
+  // Lists only as many summary keys as the page still needs, so the cursor is
+  // exactly the last key looked at
+  async list(query: FeedbackQuery = {}): Promise<FeedbackPage> {
+    const limit = pageSize(query.limit);
+    const items: FeedbackSummary[] = [];
+    let startAfter = query.cursor ? `${this.summaryPrefix}${query.cursor}.json` : undefined;
+    let scanned = 0;
+
+    while (items.length < limit && scanned < MAX_SCANNED_SUMMARIES) {
+      let keys: string[];
+      let truncated: boolean;
+      try {
+        const page = await this.s3.send(new ListObjectsV2Command({
+          Bucket: this.bucket,
+          Prefix: this.summaryPrefix,
+          StartAfter: startAfter,
+          MaxKeys: limit - items.length,
+        }));
+        keys = (page.Contents || []).map((object) => object.Key || "").filter((key) => key.endsWith(".json"));
+        truncated = !!page.IsTruncated;
+      } catch (error) {
+        console.error("Feedback list error:", error);
+        throw new FeedbackStoreError("Failed to list feedback");
+      }
+      if (keys.length === 0) return { items, nextCursor: null };
+
+      scanned += keys.length;
+      startAfter = keys[keys.length - 1];
+      const summaries = await Promise.all(keys.map((key) => this.read<FeedbackSummary>(key)));
+      for (const summary of summaries) if (summary && matches(summary, query)) items.push(summary);
+      if (!truncated) return { items, nextCursor: null };
+    }
+
+    return { items, nextCursor: startAfter!.slice(this.summaryPrefix.length, -".json".length) };
+  }
+
+  async get(id: string): Promise<FeedbackItem | null> {
+    return this.read<FeedbackItem>(this.key(id));
+  }
+
+  async setStatus(id: string, status: FeedbackStatus, note?: string | null): Promise<FeedbackItem> {
+    const existing = await this.get(id);
+    if (!existing) throw new FeedbackStoreError("Feedback not found");
+    const updated = withStatus(existing, status, note);
+    await this.write(updated);
+    return updated;
+  }
+}
+
+// ---------------- Local store ---------------- //
+
+// Keeps feedback in a JSON file for development without AWS
+export class LocalFeedbackStore implements FeedbackStore {
+  constructor(private filePath: string = process.env.FEEDBACK_STORE_PATH || path.join(process.cwd(), ".data", "feedback.json")) {}
+
+  private async readAll(): Promise<Record<string, FeedbackItem>> {
+    try {
+      return JSON.parse(await fs.readFile(this.filePath, "utf8"));
+    } catch (error: any) {
+      if (error?.code === "ENOENT") return {};
+      throw error;
+    }
+  }
+
+  private async writeAll(items: Record<string, FeedbackItem>) {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.writeFile(this.filePath, JSON.stringify(items, null, 2));
+  }
+
+  async submit(submission: FeedbackSubmission): Promise<FeedbackItem> {
+    const items = await this.readAll();
+    const id = feedbackId(submission.sessionId, submission.messageId);
+    const item = toItem(submission, items[id] || null);
+    items[id] = item;
+    await this.writeAll(items);
+    return item;
+  }
+
+  async list(query: FeedbackQuery = {}): Promise<FeedbackPage> {
+    const items = await this.readAll();
+    const summaries = Object.values(items)
+      .map((item) => {
+        const summary = summarizeFeedback(item);
+        return { summary, key: sortKey(summary) };
+      })
+      .filter((entry) => matches(entry.summary, query) && (!query.cursor || entry.key > query.cursor))
+      .sort((a, b) => a.key.localeCompare(b.key));
+
+    const page = summaries.slice(0, pageSize(query.limit));
+    const more = summaries.length > page.length;
+    return { items: page.map((entry) => entry.summary), nextCursor: more ? page[page.length - 1].key : null };
+  }
+
+  async get(id: string): Promise<FeedbackItem | null> {
+    const items = await this.readAll();
+    return items[id] || null;
+  }
+
+  async setStatus(id: string, status: FeedbackStatus, note?: string | null): Promise<FeedbackItem> {
+    const items = await this.readAll();
+    const existing = items[id];
+    if (!existing) throw new FeedbackStoreError("Feedback not found");
+    const updated = withStatus(existing, status, note);
+    items[id] = updated;
+    await this.writeAll(items);
+    return updated;
+  }
+}
+
+let store: FeedbackStore | null = null;
+
+// S3 when FEEDBACK_BUCKET is set (or FEEDBACK_STORE=s3), otherwise a local JSON file
+export function getFeedbackStore(): FeedbackStore {
+  if (!store) {
+    const useS3 = process.env.FEEDBACK_STORE ? process.env.FEEDBACK_STORE === "s3" : !!process.env.FEEDBACK_BUCKET;
+    store = useS3 ? new S3FeedbackStore() : new LocalFeedbackStore();
+  }
+  return store;
+}
+
+export function setFeedbackStore(next: FeedbackStore) {
+  store = next;
+}
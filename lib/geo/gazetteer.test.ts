@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { classifyLocation, isBroadLocation, resolvePlace } from "./gazetteer.ts";
+
+describe("resolvePlace", () => {
+  it.each([
+    ["JFK", "airport:JFK"],
+    ["pick up at dca", "airport:DCA"],
+    ["Union Station, Washington DC", "landmark:union-station-dc"],
+    ["Portland, ME", "city:portland-me"],
+    ["Springfield, MA", "state:MA"],
+  ])("%s → %s", (text, id) => {
+    expect(resolvePlace(text)?.id).toBe(id);
+  });
+
+  it("doesn't read everyday words as airports or states", () => {
+    expect(resolvePlace("call me in the morning")).toBeNull();
+  });
+});
+
+describe("classifyLocation", () => {
+  it.each(["Mexico Beach, FL", "China Grove, NC", "Peru, IN", "Paris, TX", "Dublin OH"])(
+    "%s is in the US despite the foreign name",
+    (text) => {
+      expect(classifyLocation(text).scope).toBe("us");
+    },
+  );
+
+  it("is US when any US place resolves", () => {
+    const { scope, usPlaces } = classifyLocation("China Grove to Charlotte");
+    expect(scope).toBe("us");
+    expect(usPlaces.map((p) => p.id)).toEqual(["city:charlotte-nc"]);
+  });
+
+  it("doesn't treat a longer unlisted name as the country it starts with", () => {
+    expect(classifyLocation("trips for vendor Canada Dry").scope).toBe("unknown");
+  });
+
+  it.each([
+    ["Toronto, Ontario", "toronto"],
+    ["Toronto Pearson Airport", "toronto"],
+    ["trips to Mexico", "mexico"],
+    ["Cancun, Mexico", "cancun"],
+    ["London", "london"],
+  ])("%s is outside the US", (text, place) => {
+    const { scope, nonUsPlaces } = classifyLocation(text);
+    expect(scope).toBe("non_us");
+    expect(nonUsPlaces[0]).toBe(place);
+  });
+});
+
+describe("isBroadLocation", () => {
+  it("flags bare cities and states only", () => {
+    expect(isBroadLocation("Arlington, VA")).toBe(true);
+    expect(isBroadLocation("downtown Chicago")).toBe(true);
+    expect(isBroadLocation("Reagan National Airport")).toBe(false);
+    expect(isBroadLocation("1600 Main St, Arlington, VA")).toBe(false);
+  });
+});
@@ -0,0 +1,292 @@
+import { NON_US_PLACES, US_AIRPORTS, US_CITIES, US_LANDMARKS, US_STATES } from "./places.ts";
+
+// Offline gazetteer: finds US airports, landmarks, cities and states in free
+// text and normalizes them into canonical place records with coordinates.
+// Shared by the booking agent, the pricing flow and the vendor-history US check.
+
+export type PlaceKind = "airport" | "landmark" | "city" | "state";
+
+export interface Place {
+  id: string;
+  kind: PlaceKind;
+  name: string;
+  iata?: string;
+  city?: string;
+  state: string;
+  country: "US";
+  lat: number;
+  lon: number;
+}
+
+export interface PlaceMatch {
+  text: string;
+  place: Place | null;
+  // Set instead of `place` when the text names somewhere outside the US
+  nonUs?: string;
+}
+
+export type LocationScope = "us" | "non_us" | "unknown";
+
+const MAX_PHRASE_WORDS = 7;
+
+// Lowercase IATA codes are only trusted for codes that aren't everyday words or names
+const LOWERCASE_IATA = new Set([
+  "atl", "lax", "ord", "dfw", "jfk", "sfo", "lga", "ewr", "bwi", "iad", "dca", "phl", "bos", "mco", "clt", "phx",
+  "iah", "msp", "dtw", "slc", "mdw", "fll", "pdx", "bna", "rdu", "msy", "sjc", "smf", "sna", "stl", "mci", "cvg",
+  "cmh", "mke", "bdl", "pvd", "ric", "orf", "lgb", "hnl", "sju", "tpa", "las", "jax", "abq", "okc", "sdf", "rsw",
+  "pbi", "syr", "cle", "phf", "cho", "hpn", "isp", "acy",
+]);
+
+const FACILITY_WORDS = new Set(["airport", "international", "station", "terminal", "port", "downtown", "hotel"]);
+
+type IndexEntry = { place: Place } | { nonUs: string };
+
+const STATES = new Map<string, Place>();
+const STATE_NAMES = new Map<string, string>();
+const AIRPORTS_BY_CODE = new Map<string, Place>();
+const INDEX = new Map<string, IndexEntry[]>();
+
+export function normalizePlaceText(text: string): string {
+  return tokenize(text).map((t) => t.word).join(" ");
+}
+
+function slug(text: string): string {
+  return normalizePlaceText(text).replace(/ /g, "-");
+}
+
+function addAlias(alias: string, entry: IndexEntry) {
+  const key = normalizePlaceText(alias);
+  if (!key) return;
+  const entries = INDEX.get(key) || [];
+  entries.push(entry);
+  INDEX.set(key, entries);
+}
+
+function buildIndex() {
+  for (const [code, name, lat, lon] of US_STATES) {
+    const place: Place = { id: `state:${code}`, kind: "state", name, state: code, country: "US", lat, lon };
+    STATES.set(code, place);
+    STATE_NAMES.set(normalizePlaceText(name), code);
+  }
+
+  for (const [iata, name, city, state, lat, lon, aliases] of US_AIRPORTS) {
+    const place: Place = { id: `airport:${iata}`, kind: "airport", name, iata, city, state, country: "US", lat, lon };
+    AIRPORTS_BY_CODE.set(iata, place);
+    addAlias(name, { place });
+    const base = normalizePlaceText(name).replace(/( international| regional| municipal)* airport$/, "");
+    if (base !== normalizePlaceText(name)) addAlias(`${base} airport`, { place });
+    for (const alias of aliases) addAlias(alias, { place });
+  }
+
+  for (const [name, city, state, lat, lon, aliases] of US_LANDMARKS) {
+    const place: Place = { id: `landmark:${slug(name)}-${state.toLowerCase()}`, kind: "landmark", name, city, state, country: "US", lat, lon };
+    addAlias(name, { place });
+    for (const alias of aliases) addAlias(alias, { place });
+  }
+
+  for (const [name, state, lat, lon, aliases] of US_CITIES) {
+    const place: Place = { id: `city:${slug(name)}-${state.toLowerCase()}`, kind: "city", name, city: name, state, country: "US", lat, lon };
+    addAlias(name, { place });
+    for (const alias of aliases) addAlias(alias, { place });
+  }
+
+  // State names that are also city names ("New York", "Washington") need "state" after them
+  for (const [code, name] of US_STATES) {
+    const place = STATES.get(code)!;
+    const key = normalizePlaceText(name);
+    addAlias(INDEX.has(key) ? `${name} state` : name, { place });
+  }
+
+  for (const name of NON_US_PLACES) addAlias(name, { nonUs: name });
+}
+
+interface Token {
+  word: string;
+  raw: string;
+  // True when a comma separates this token from the previous one
+  afterComma: boolean;
+}
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  const pattern = /[A-Za-z0-9\u00C0-\u024F]+/g;
+  let lastEnd = 0;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text))) {
+    tokens.push({
+      word: match[0].normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase(),
+      raw: match[0],
+      afterComma: text.slice(lastEnd, match.index).includes(","),
+    });
+    lastEnd = match.index + match[0].length;
+  }
+  return tokens;
+}
+
+// A US state right after a place ("Portland, ME", "Kansas City Missouri").
+// Two-letter codes need a comma or capitals so words like "me" and "in" don't count.
+function readStateQualifier(tokens: Token[], start: number): { code: string; length: number } | null {
+  for (let length = Math.min(3, tokens.length - start); length >= 1; length--) {
+    const phrase = tokens.slice(start, start + length).map((t) => t.word).join(" ");
+    const code = STATE_NAMES.get(phrase);
+    if (code) return { code, length };
+  }
+  const token = tokens[start];
+  if (token && token.word.length === 2 && STATES.has(token.word.toUpperCase())) {
+    if (token.afterComma || token.raw === token.raw.toUpperCase()) {
+      return { code: token.word.toUpperCase(), length: 1 };
+    }
+  }
+  return null;
+}
+
+// Words that turn a non-US name into a longer one we don't list ("Mexico Beach",
+// "China Grove", "Canada Dry"): capitalized, before any comma, and not a place,
+// state or abbreviation themselves. Returns how many there are; a facility
+// word ("Toronto Pearson Airport") keeps the non-US reading.
+function readUnlistedNameTail(tokens: Token[], start: number): number {
+  let length = 0;
+  while (length < 3) {
+    const token = tokens[start + length];
+    if (!token || token.afterComma) break;
+    if (FACILITY_WORDS.has(token.word)) return 0;
+    if (!/^[A-Z][a-z]/.test(token.raw)) break;
+    if (INDEX.has(token.word) || readStateQualifier(tokens, start + length)) break;
+    length++;
+  }
+  return length;
+}
+
+function matchIata(tokens: Token[], index: number): Place | null {
+  const token = tokens[index];
+  if (token.word.length !== 3) return null;
+  const airport = AIRPORTS_BY_CODE.get(token.word.toUpperCase());
+  if (!airport) return null;
+  if (token.raw === token.raw.toUpperCase()) return airport;
+  if (LOWERCASE_IATA.has(token.word) || tokens[index + 1]?.word === "airport") return airport;
+  return null;
+}
+
+// Find every place mentioned in the text, longest phrase first
+export function findPlaces(text: string | null | undefined): PlaceMatch[] {
+  if (!text) return [];
+  if (INDEX.size === 0) buildIndex();
+
+  const tokens = tokenize(text);
+  const matches: PlaceMatch[] = [];
+  let i = 0;
+
+  while (i < tokens.length) {
+    let matched = false;
+
+    // ", LA" after a street or a city we don't list is a state, not Los Angeles
+    const token = tokens[i];
+    if (token.afterComma && token.word.length === 2 && STATES.has(token.word.toUpperCase())) {
+      matches.push({ text: token.raw, place: STATES.get(token.word.toUpperCase())! });
+      i++;
+      continue;
+    }
+
+    for (let length = Math.min(MAX_PHRASE_WORDS, tokens.length - i); length >= 1 && !matched; length--) {
+      const phrase = tokens.slice(i, i + length).map((t) => t.word).join(" ");
+      const entries = INDEX.get(phrase);
+      if (!entries) continue;
+
+      const usEntries = entries.filter((e): e is { place: Place } => "place" in e);
+      const tail = usEntries.length > 0 ? 0 : readUnlistedNameTail(tokens, i + length);
+      const qualifier = readStateQualifier(tokens, i + length + tail);
+      const rawText = tokens.slice(i, i + length + tail + (qualifier?.length || 0)).map((t) => t.raw).join(" ");
+
+      if (usEntries.length > 0) {
+        // Same name in several states: the stated one wins, otherwise the first listed
+        const place = (qualifier && usEntries.find((e) => e.place.state === qualifier.code)?.place) || usEntries[0].place;
+        if (qualifier && place.kind === "city" && place.state !== qualifier.code) {
+          // A city we don't list, in a state we do ("Springfield, MA")
+          matches.push({ text: rawText, place: STATES.get(qualifier.code)! });
+        } else {
+          matches.push({ text: rawText, place });
+        }
+      } else if (qualifier) {
+        // "Paris, TX" and "Mexico Beach, FL" are in the US even though Paris and Mexico usually aren't
+        matches.push({ text: rawText, place: STATES.get(qualifier.code)! });
+      } else if (tail === 0) {
+        const nonUs = entries.find((e): e is { nonUs: string } => "nonUs" in e)!.nonUs;
+        matches.push({ text: rawText, place: null, nonUs });
+      }
+      // Otherwise a name we don't list that only starts like a non-US one
+
+      i += length + tail + (qualifier?.length || 0);
+      matched = true;
+    }
+
+    if (!matched) {
+      const airport = matchIata(tokens, i);
+      if (airport) {
+        matches.push({ text: token.raw, place: airport });
+      } else if (token.word.length === 2 && token.raw === token.raw.toUpperCase() && STATES.has(token.raw)) {
+        matches.push({ text: token.raw, place: STATES.get(token.raw)! });
+      }
+      i++;
+    }
+  }
+
+  return matches;
+}
+
+const KIND_PRIORITY: Record<PlaceKind, number> = { airport: 0, landmark: 1, city: 2, state: 3 };
+
+// The single most specific place in a pickup/dropoff string
+export function resolvePlace(text: string | null | undefined): Place | null {
+  const places = findPlaces(text)
+    .map((m) => m.place)
+    .filter((p): p is Place => p !== null);
+  if (places.length === 0) return null;
+  return places.reduce((best, p) => (KIND_PRIORITY[p.kind] < KIND_PRIORITY[best.kind] ? p : best));
+}
+
+// Airports and landmarks are precise enough to dispatch a vehicle to; cities and states aren't
+export function isSpecificPlace(place: Place | null): boolean {
+  return place?.kind === "airport" || place?.kind === "landmark";
+}
+
+export function describePlace(place: Place): string {
+  switch (place.kind) {
+    case "airport":
+      return `${place.name} (${place.iata}), ${place.city}, ${place.state}`;
+    case "landmark":
+      return `${place.name}, ${place.city}, ${place.state}`;
+    case "city":
+      return `${place.name}, ${place.state}`;
+    case "state":
+      return place.name;
+  }
+}
+
+// Non-US only when nothing in the text resolves to a US place, so a US place
+// whose name merely contains a foreign one isn't turned away
+export function classifyLocation(text: string | null | undefined): { scope: LocationScope; usPlaces: Place[]; nonUsPlaces: string[] } {
+  const matches = findPlaces(text);
+  const usPlaces = matches.map((m) => m.place).filter((p): p is Place => p !== null);
+  const nonUsPlaces = matches.map((m) => m.nonUs).filter((n): n is string => !!n);
+  const scope: LocationScope = usPlaces.length > 0 ? "us" : nonUsPlaces.length > 0 ? "non_us" : "unknown";
+  return { scope, usPlaces, nonUsPlaces };
+}
+
+export function distanceMiles(a: { lat: number; lon: number }, b: { lat: number; lon: number }): number {
+  const toRadians = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRadians(b.lat - a.lat);
+  const dLon = toRadians(b.lon - a.lon);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLon / 2) ** 2;
+  return 3958.8 * 2 * Math.asin(Math.sqrt(h));
+}
+
+// True when the text is nothing more than city/state names ("DC", "Arlington, VA"),
+// i.e. too broad to use as a pickup or dropoff point
+export function isBroadLocation(text: string | null | undefined): boolean {
+  const normalized = normalizePlaceText(text || "");
+  if (!normalized) return false;
+  const matches = findPlaces(text);
+  if (matches.length === 0 || matches.some((m) => !m.place || isSpecificPlace(m.place))) return false;
+  const covered = matches.map((m) => normalizePlaceText(m.text)).join(" ");
+  return covered === normalized.replace(/^(in|at|from|to|downtown|near) /, "");
+}
@@ -0,0 +1,489 @@
+// Bundled place data for the offline gazetteer (lib/geo/gazetteer.ts).
+// Coordinates are approximate (about 1 km), which is plenty for matching routes
+// and estimating distances. Aliases are lowercase and punctuation-free.
+
+// [IATA, name, city, state, lat, lon, aliases]
+export type AirportRow = [string, string, string, string, number, number, string[]];
+// [name, state, lat, lon, aliases]
+export type CityRow = [string, string, number, number, string[]];
+// [code, name, lat, lon]
+export type StateRow = [string, string, number, number];
+// [name, city, state, lat, lon, aliases]
+export type LandmarkRow = [string, string, string, number, number, string[]];
+
+export const US_STATES: StateRow[] = [
+  ["AL", "Alabama", 32.8, -86.8],
+  ["AK", "Alaska", 64.2, -149.5],
+  ["AZ", "Arizona", 34.2, -111.7],
+  ["AR", "Arkansas", 34.9, -92.4],
+  ["CA", "California", 37.2, -119.5],
+  ["CO", "Colorado", 39.0, -105.5],
+  ["CT", "Connecticut", 41.6, -72.7],
+  ["DE", "Delaware", 39.0, -75.5],
+  ["DC", "District of Columbia", 38.91, -77.04],
+  ["FL", "Florida", 28.6, -82.4],
+  ["GA", "Georgia", 32.7, -83.4],
+  ["HI", "Hawaii", 20.8, -156.3],
+  ["ID", "Idaho", 44.4, -114.6],
+  ["IL", "Illinois", 40.0, -89.2],
+  ["IN", "Indiana", 39.9, -86.3],
+  ["IA", "Iowa", 42.1, -93.5],
+  ["KS", "Kansas", 38.5, -98.4],
+  ["KY", "Kentucky", 37.5, -85.3],
+  ["LA", "Louisiana", 31.0, -92.0],
+  ["ME", "Maine", 45.4, -69.2],
+  ["MD", "Maryland", 39.0, -76.8],
+  ["MA", "Massachusetts", 42.3, -71.8],
+  ["MI", "Michigan", 44.3, -85.4],
+  ["MN", "Minnesota", 46.3, -94.3],
+  ["MS", "Mississippi", 32.7, -89.7],
+  ["MO", "Missouri", 38.4, -92.5],
+  ["MT", "Montana", 47.0, -109.6],
+  ["NE", "Nebraska", 41.5, -99.8],
+  ["NV", "Nevada", 39.3, -116.6],
+  ["NH", "New Hampshire", 43.7, -71.6],
+  ["NJ", "New Jersey", 40.2, -74.7],
+  ["NM", "New Mexico", 34.4, -106.1],
+  ["NY", "New York", 42.9, -75.5],
+  ["NC", "North Carolina", 35.5, -79.4],
+  ["ND", "North Dakota", 47.5, -100.5],
+  ["OH", "Ohio", 40.3, -82.8],
+  ["OK", "Oklahoma", 35.6, -97.5],
+  ["OR", "Oregon", 43.9, -120.6],
+  ["PA", "Pennsylvania", 40.9, -77.8],
+  ["RI", "Rhode Island", 41.7, -71.5],
+  ["SC", "South Carolina", 33.9, -80.9],
+  ["SD", "South Dakota", 44.4, -100.2],
+  ["TN", "Tennessee", 35.9, -86.4],
+  ["TX", "Texas", 31.5, -99.3],
+  ["UT", "Utah", 39.3, -111.7],
+  ["VT", "Vermont", 44.1, -72.7],
+  ["VA", "Virginia", 37.5, -78.9],
+  ["WA", "Washington", 47.4, -120.5],
+  ["WV", "West Virginia", 38.6, -80.6],
+  ["WI", "Wisconsin", 44.6, -89.9],
+  ["WY", "Wyoming", 43.0, -107.6],
+  ["PR", "Puerto Rico", 18.2, -66.5],
+];
+
+export const US_AIRPORTS: AirportRow[] = [
+  // Washington / Baltimore
+  ["DCA", "Ronald Reagan Washington National Airport", "Arlington", "VA", 38.852, -77.038, ["reagan national", "reagan airport", "national airport", "dc national"]],
+  ["IAD", "Washington Dulles International Airport", "Dulles", "VA", 38.953, -77.456, ["dulles", "dulles airport", "washington dulles", "dulles international"]],
+  ["BWI", "Baltimore/Washington International Thurgood Marshall Airport", "Baltimore", "MD", 39.177, -76.668, ["bwi marshall", "baltimore washington", "thurgood marshall airport", "baltimore airport"]],
+  // New York area
+  ["JFK", "John F. Kennedy International Airport", "New York", "NY", 40.641, -73.778, ["kennedy", "kennedy airport", "john f kennedy", "jfk airport"]],
+  ["LGA", "LaGuardia Airport", "New York", "NY", 40.777, -73.874, ["laguardia", "la guardia"]],
+  ["EWR", "Newark Liberty International Airport", "Newark", "NJ", 40.690, -74.174, ["newark airport", "newark liberty", "newark international"]],
+  ["HPN", "Westchester County Airport", "White Plains", "NY", 41.067, -73.708, ["westchester airport"]],
+  ["ISP", "Long Island MacArthur Airport", "Islip", "NY", 40.795, -73.100, ["macarthur airport", "islip airport"]],
+  ["SWF", "New York Stewart International Airport", "Newburgh", "NY", 41.504, -74.105, ["stewart airport"]],
+  // Northeast
+  ["BOS", "Boston Logan International Airport", "Boston", "MA", 42.366, -71.010, ["logan", "logan airport", "boston airport"]],
+  ["PHL", "Philadelphia International Airport", "Philadelphia", "PA", 39.874, -75.242, ["philly airport", "philadelphia airport"]],
+  ["PIT", "Pittsburgh International Airport", "Pittsburgh", "PA", 40.492, -80.233, []],
+  ["BDL", "Bradley International Airport", "Windsor Locks", "CT", 41.939, -72.683, ["bradley airport", "hartford airport"]],
+  ["PVD", "Rhode Island T. F. Green International Airport", "Warwick", "RI", 41.724, -71.428, ["tf green", "providence airport"]],
+  ["MHT", "Manchester-Boston Regional Airport", "Manchester", "NH", 42.933, -71.436, []],
+  ["PWM", "Portland International Jetport", "Portland", "ME", 43.646, -70.309, ["portland jetport"]],
+  ["BTV", "Burlington International Airport", "Burlington", "VT", 44.472, -73.153, []],
+  ["BGR", "Bangor International Airport", "Bangor", "ME", 44.807, -68.828, []],
+  ["ORH", "Worcester Regional Airport", "Worcester", "MA", 42.267, -71.876, []],
+  ["ALB", "Albany International Airport", "Albany", "NY", 42.748, -73.802, []],
+  ["SYR", "Syracuse Hancock International Airport", "Syracuse", "NY", 43.111, -76.106, []],
+  ["ROC", "Frederick Douglass Greater Rochester International Airport", "Rochester", "NY", 43.119, -77.672, ["rochester airport"]],
+  ["BUF", "Buffalo Niagara International Airport", "Buffalo", "NY", 42.940, -78.732, ["buffalo airport"]],
+  ["ACY", "Atlantic City International Airport", "Atlantic City", "NJ", 39.458, -74.577, []],
+  ["ABE", "Lehigh Valley International Airport", "Allentown", "PA", 40.652, -75.440, ["lehigh valley airport"]],
+  ["MDT", "Harrisburg International Airport", "Harrisburg", "PA", 40.194, -76.763, []],
+  ["AVP", "Wilkes-Barre/Scranton International Airport", "Scranton", "PA", 41.338, -75.723, []],
+  // Virginia / Carolinas
+  ["RIC", "Richmond International Airport", "Richmond", "VA", 37.505, -77.320, []],
+  ["ORF", "Norfolk International Airport", "Norfolk", "VA", 36.895, -76.201, []],
+  ["PHF", "Newport News/Williamsburg International Airport", "Newport News", "VA", 37.132, -76.493, []],
+  ["CHO", "Charlottesville-Albemarle Airport", "Charlottesville", "VA", 38.139, -78.453, []],
+  ["ROA", "Roanoke-Blacksburg Regional Airport", "Roanoke", "VA", 37.326, -79.975, []],
+  ["LYH", "Lynchburg Regional Airport", "Lynchburg", "VA", 37.327, -79.201, []],
+  ["SBY", "Salisbury-Ocean City Wicomico Regional Airport", "Salisbury", "MD", 38.340, -75.510, []],
+  ["CLT", "Charlotte Douglas International Airport", "Charlotte", "NC", 35.214, -80.943, ["charlotte douglas"]],
+  ["RDU", "Raleigh-Durham International Airport", "Raleigh", "NC", 35.878, -78.788, ["raleigh durham airport"]],
+  ["GSO", "Piedmont Triad International Airport", "Greensboro", "NC", 36.098, -79.937, ["piedmont triad"]],
+  ["ILM", "Wilmington International Airport", "Wilmington", "NC", 34.271, -77.903, []],
+  ["AVL", "Asheville Regional Airport", "Asheville", "NC", 35.436, -82.542, []],
+  ["CHS", "Charleston International Airport", "Charleston", "SC", 32.899, -80.041, []],
+  ["CAE", "Columbia Metropolitan Airport", "Columbia", "SC", 33.939, -81.120, []],
+  ["GSP", "Greenville-Spartanburg International Airport", "Greer", "SC", 34.896, -82.219, ["greenville spartanburg airport"]],
+  ["MYR", "Myrtle Beach International Airport", "Myrtle Beach", "SC", 33.680, -78.928, []],
+  // Southeast
+  ["ATL", "Hartsfield-Jackson Atlanta International Airport", "Atlanta", "GA", 33.641, -84.428, ["hartsfield jackson", "hartsfield", "atlanta airport"]],
+  ["SAV", "Savannah/Hilton Head International Airport", "Savannah", "GA", 32.128, -81.202, []],
+  ["MCO", "Orlando International Airport", "Orlando", "FL", 28.431, -81.308, ["orlando airport"]],
+  ["SFB", "Orlando Sanford International Airport", "Sanford", "FL", 28.778, -81.238, ["sanford airport"]],
+  ["MIA", "Miami International Airport", "Miami", "FL", 25.796, -80.287, ["miami airport"]],
+  ["FLL", "Fort Lauderdale-Hollywood International Airport", "Fort Lauderdale", "FL", 26.072, -80.153, ["fort lauderdale airport"]],
+  ["PBI", "Palm Beach International Airport", "West Palm Beach", "FL", 26.683, -80.096, ["palm beach airport"]],
+  ["TPA", "Tampa International Airport", "Tampa", "FL", 27.976, -82.533, ["tampa airport"]],
+  ["PIE", "St. Pete-Clearwater International Airport", "Clearwater", "FL", 27.910, -82.687, []],
+  ["SRQ", "Sarasota Bradenton International Airport", "Sarasota", "FL", 27.395, -82.554, []],
+  ["RSW", "Southwest Florida International Airport", "Fort Myers", "FL", 26.536, -81.755, ["fort myers airport"]],
+  ["JAX", "Jacksonville International Airport", "Jacksonville", "FL", 30.494, -81.688, ["jacksonville airport"]],
+  ["DAB", "Daytona Beach International Airport", "Daytona Beach", "FL", 29.180, -81.058, []],
+  ["MLB", "Melbourne Orlando International Airport", "Melbourne", "FL", 28.103, -80.645, []],
+  ["TLH", "Tallahassee International Airport", "Tallahassee", "FL", 30.397, -84.350, []],
+  ["PNS", "Pensacola International Airport", "Pensacola", "FL", 30.473, -87.187, []],
+  ["VPS", "Destin-Fort Walton Beach Airport", "Valparaiso", "FL", 30.483, -86.525, ["destin airport"]],
+  ["ECP", "Northwest Florida Beaches International Airport", "Panama City", "FL", 30.358, -85.796, []],
+  ["GNV", "Gainesville Regional Airport", "Gainesville", "FL", 29.690, -82.272, []],
+  ["EYW", "Key West International Airport", "Key West", "FL", 24.556, -81.760, []],
+  ["BNA", "Nashville International Airport", "Nashville", "TN", 36.124, -86.678, ["nashville airport"]],
+  ["MEM", "Memphis International Airport", "Memphis", "TN", 35.042, -89.977, []],
+  ["TYS", "McGhee Tyson Airport", "Knoxville", "TN", 35.811, -83.994, ["knoxville airport"]],
+  ["CHA", "Chattanooga Metropolitan Airport", "Chattanooga", "TN", 35.035, -85.204, []],
+  ["BHM", "Birmingham-Shuttlesworth International Airport", "Birmingham", "AL", 33.564, -86.752, []],
+  ["HSV", "Huntsville International Airport", "Huntsville", "AL", 34.637, -86.775, []],
+  ["MOB", "Mobile Regional Airport", "Mobile", "AL", 30.691, -88.243, []],
+  ["JAN", "Jackson-Medgar Wiley Evers International Airport", "Jackson", "MS", 32.311, -90.076, []],
+  ["MSY", "Louis Armstrong New Orleans International Airport", "New Orleans", "LA", 29.993, -90.258, ["louis armstrong airport", "new orleans airport"]],
+  ["BTR", "Baton Rouge Metropolitan Airport", "Baton Rouge", "LA", 30.533, -91.150, []],
+  ["SHV", "Shreveport Regional Airport", "Shreveport", "LA", 32.447, -93.826, []],
+  ["LFT", "Lafayette Regional Airport", "Lafayette", "LA", 30.205, -91.988, []],
+  ["SDF", "Louisville Muhammad Ali International Airport", "Louisville", "KY", 38.174, -85.736, ["louisville airport"]],
+  ["LEX", "Blue Grass Airport", "Lexington", "KY", 38.037, -84.606, []],
+  ["CVG", "Cincinnati/Northern Kentucky International Airport", "Hebron", "KY", 39.049, -84.668, ["cincinnati airport"]],
+  // Midwest
+  ["ORD", "Chicago O'Hare International Airport", "Chicago", "IL", 41.974, -87.907, ["ohare", "o hare", "ohare airport"]],
+  ["MDW", "Chicago Midway International Airport", "Chicago", "IL", 41.786, -87.752, ["midway", "midway airport"]],
+  ["DTW", "Detroit Metropolitan Wayne County Airport", "Detroit", "MI", 42.212, -83.353, ["detroit metro airport", "detroit airport"]],
+  ["MSP", "Minneapolis-Saint Paul International Airport", "Minneapolis", "MN", 44.885, -93.222, ["msp airport", "minneapolis airport"]],
+  ["STL", "St. Louis Lambert International Airport", "St. Louis", "MO", 38.749, -90.370, ["lambert airport"]],
+  ["MCI", "Kansas City International Airport", "Kansas City", "MO", 39.298, -94.714, ["kansas city airport"]],
+  ["CLE", "Cleveland Hopkins International Airport", "Cleveland", "OH", 41.409, -81.855, ["cleveland airport"]],
+  ["CMH", "John Glenn Columbus International Airport", "Columbus", "OH", 39.998, -82.892, ["columbus airport"]],
+  ["DAY", "Dayton International Airport", "Dayton", "OH", 39.902, -84.219, []],
+  ["CAK", "Akron-Canton Airport", "Akron", "OH", 40.916, -81.442, []],
+  ["IND", "Indianapolis International Airport", "Indianapolis", "IN", 39.717, -86.294, ["indianapolis airport"]],
+  ["FWA", "Fort Wayne International Airport", "Fort Wayne", "IN", 40.979, -85.195, []],
+  ["SBN", "South Bend International Airport", "South Bend", "IN", 41.709, -86.317, []],
+  ["EVV", "Evansville Regional Airport", "Evansville", "IN", 38.037, -87.532, []],
+  ["MKE", "Milwaukee Mitchell International Airport", "Milwaukee", "WI", 42.947, -87.897, ["mitchell airport"]],
+  ["MSN", "Dane County Regional Airport", "Madison", "WI", 43.140, -89.338, []],
+  ["GRB", "Green Bay-Austin Straubel International Airport", "Green Bay", "WI", 44.485, -88.130, []],
+  ["ATW", "Appleton International Airport", "Appleton", "WI", 44.258, -88.519, []],
+  ["GRR", "Gerald R. Ford International Airport", "Grand Rapids", "MI", 42.881, -85.523, []],
+  ["FNT", "Bishop International Airport", "Flint", "MI", 42.966, -83.744, []],
+  ["LAN", "Capital Region International Airport", "Lansing", "MI", 42.779, -84.587, []],
+  ["TVC", "Cherry Capital Airport", "Traverse City", "MI", 44.741, -85.582, []],
+  ["DSM", "Des Moines International Airport", "Des Moines", "IA", 41.534, -93.663, []],
+  ["CID", "The Eastern Iowa Airport", "Cedar Rapids", "IA", 41.885, -91.711, []],
+  ["MLI", "Quad Cities International Airport", "Moline", "IL", 41.449, -90.507, []],
+  ["PIA", "General Wayne A. Downing Peoria International Airport", "Peoria", "IL", 40.664, -89.693, []],
+  ["SPI", "Abraham Lincoln Capital Airport", "Springfield", "IL", 39.844, -89.678, []],
+  ["OMA", "Eppley Airfield", "Omaha", "NE", 41.303, -95.894, ["eppley"]],
+  ["LNK", "Lincoln Airport", "Lincoln", "NE", 40.851, -96.759, []],
+  ["ICT", "Wichita Dwight D. Eisenhower National Airport", "Wichita", "KS", 37.650, -97.433, []],
+  ["SGF", "Springfield-Branson National Airport", "Springfield", "MO", 37.246, -93.389, []],
+  ["FAR", "Hector International Airport", "Fargo", "ND", 46.921, -96.816, []],
+  ["BIS", "Bismarck Municipal Airport", "Bismarck", "ND", 46.773, -100.746, []],
+  ["FSD", "Sioux Falls Regional Airport", "Sioux Falls", "SD", 43.582, -96.742, []],
+  ["RAP", "Rapid City Regional Airport", "Rapid City", "SD", 44.045, -103.057, []],
+  // South Central
+  ["DFW", "Dallas/Fort Worth International Airport", "Dallas", "TX", 32.900, -97.040, ["dfw airport"]],
+  ["DAL", "Dallas Love Field", "Dallas", "TX", 32.847, -96.852, ["love field"]],
+  ["IAH", "George Bush Intercontinental Airport", "Houston", "TX", 29.990, -95.337, ["bush intercontinental", "houston intercontinental"]],
+  ["HOU", "William P. Hobby Airport", "Houston", "TX", 29.645, -95.279, ["hobby", "hobby airport"]],
+  ["AUS", "Austin-Bergstrom International Airport", "Austin", "TX", 30.197, -97.666, ["austin bergstrom", "austin airport"]],
+  ["SAT", "San Antonio International Airport", "San Antonio", "TX", 29.534, -98.470, ["san antonio airport"]],
+  ["ELP", "El Paso International Airport", "El Paso", "TX", 31.807, -106.378, []],
+  ["CRP", "Corpus Christi International Airport", "Corpus Christi", "TX", 27.770, -97.501, []],
+  ["HRL", "Valley International Airport", "Harlingen", "TX", 26.229, -97.654, []],
+  ["MFE", "McAllen International Airport", "McAllen", "TX", 26.176, -98.239, []],
+  ["LBB", "Lubbock Preston Smith International Airport", "Lubbock", "TX", 33.664, -101.823, []],
+  ["AMA", "Rick Husband Amarillo International Airport", "Amarillo", "TX", 35.219, -101.706, []],
+  ["MAF", "Midland International Air and Space Port", "Midland", "TX", 31.943, -102.202, []],
+  ["OKC", "Will Rogers World Airport", "Oklahoma City", "OK", 35.393, -97.601, ["will rogers airport"]],
+  ["TUL", "Tulsa International Airport", "Tulsa", "OK", 36.198, -95.888, []],
+  ["LIT", "Bill and Hillary Clinton National Airport", "Little Rock", "AR", 34.729, -92.224, []],
+  ["XNA", "Northwest Arkansas National Airport", "Bentonville", "AR", 36.282, -94.307, []],
+  // Mountain
+  ["DEN", "Denver International Airport", "Denver", "CO", 39.856, -104.674, ["denver airport", "dia"]],
+  ["COS", "Colorado Springs Airport", "Colorado Springs", "CO", 38.806, -104.701, []],
+  ["ASE", "Aspen/Pitkin County Airport", "Aspen", "CO", 39.223, -106.869, []],
+  ["EGE", "Eagle County Regional Airport", "Eagle", "CO", 39.643, -106.918, ["vail airport"]],
+  ["GJT", "Grand Junction Regional Airport", "Grand Junction", "CO", 39.123, -108.527, []],
+  ["SLC", "Salt Lake City International Airport", "Salt Lake City", "UT", 40.790, -111.979, ["salt lake airport"]],
+  ["PHX", "Phoenix Sky Harbor International Airport", "Phoenix", "AZ", 33.435, -112.008, ["sky harbor"]],
+  ["TUS", "Tucson International Airport", "Tucson", "AZ", 32.116, -110.941, []],
+  ["ABQ", "Albuquerque International Sunport", "Albuquerque", "NM", 35.040, -106.609, ["sunport"]],
+  ["LAS", "Harry Reid International Airport", "Las Vegas", "NV", 36.084, -115.154, ["harry reid", "mccarran", "las vegas airport", "vegas airport"]],
+  ["RNO", "Reno-Tahoe International Airport", "Reno", "NV", 39.499, -119.768, ["reno tahoe airport"]],
+  ["BOI", "Boise Airport", "Boise", "ID", 43.564, -116.223, []],
+  ["JAC", "Jackson Hole Airport", "Jackson", "WY", 43.607, -110.738, []],
+  ["BZN", "Bozeman Yellowstone International Airport", "Bozeman", "MT", 45.777, -111.153, []],
+  ["MSO", "Missoula Montana Airport", "Missoula", "MT", 46.916, -114.091, []],
+  ["BIL", "Billings Logan International Airport", "Billings", "MT", 45.808, -108.543, []],
+  // West Coast
+  ["LAX", "Los Angeles International Airport", "Los Angeles", "CA", 33.942, -118.408, ["los angeles airport", "lax airport"]],
+  ["BUR", "Hollywood Burbank Airport", "Burbank", "CA", 34.200, -118.359, ["burbank airport", "bob hope airport"]],
+  ["LGB", "Long Beach Airport", "Long Beach", "CA", 33.818, -118.152, []],
+  ["SNA", "John Wayne Airport", "Santa Ana", "CA", 33.676, -117.868, ["john wayne", "orange county airport"]],
+  ["ONT", "Ontario International Airport", "Ontario", "CA", 34.056, -117.601, []],
+  ["PSP", "Palm Springs International Airport", "Palm Springs", "CA", 33.830, -116.507, []],
+  ["SAN", "San Diego International Airport", "San Diego", "CA", 32.734, -117.190, ["lindbergh field", "san diego airport"]],
+  ["SBA", "Santa Barbara Municipal Airport", "Santa Barbara", "CA", 34.426, -119.840, []],
+  ["SBP", "San Luis Obispo County Regional Airport", "San Luis Obispo", "CA", 35.237, -120.643, []],
+  ["BFL", "Meadows Field Airport", "Bakersfield", "CA", 35.434, -119.057, []],
+  ["FAT", "Fresno Yosemite International Airport", "Fresno", "CA", 36.776, -119.718, []],
+  ["MRY", "Monterey Regional Airport", "Monterey", "CA", 36.587, -121.843, []],
+  ["SFO", "San Francisco International Airport", "San Francisco", "CA", 37.621, -122.379, ["san francisco airport", "sfo airport"]],
+  ["OAK", "Oakland International Airport", "Oakland", "CA", 37.712, -122.220, ["oakland airport"]],
+  ["SJC", "San Jose Mineta International Airport", "San Jose", "CA", 37.363, -121.929, ["san jose airport", "mineta"]],
+  ["SMF", "Sacramento International Airport", "Sacramento", "CA", 38.695, -121.591, ["sacramento airport"]],
+  ["STS", "Charles M. Schulz-Sonoma County Airport", "Santa Rosa", "CA", 38.509, -122.813, []],
+  ["PDX", "Portland International Airport", "Portland", "OR", 45.589, -122.597, ["portland airport"]],
+  ["EUG", "Eugene Airport", "Eugene", "OR", 44.124, -123.212, []],
+  ["MFR", "Rogue Valley International-Medford Airport", "Medford", "OR", 42.374, -122.873, []],
+  ["RDM", "Roberts Field", "Redmond", "OR", 44.254, -121.150, []],
+  ["SEA", "Seattle-Tacoma International Airport", "Seattle", "WA", 47.450, -122.309, ["seatac", "sea tac", "seattle tacoma", "seattle airport"]],
+  ["GEG", "Spokane International Airport", "Spokane", "WA", 47.620, -117.534, []],
+  ["PSC", "Tri-Cities Airport", "Pasco", "WA", 46.265, -119.119, []],
+  // Alaska / Hawaii / Puerto Rico
+  ["ANC", "Ted Stevens Anchorage International Airport", "Anchorage", "AK", 61.174, -149.996, []],
+  ["FAI", "Fairbanks International Airport", "Fairbanks", "AK", 64.815, -147.856, []],
+  ["JNU", "Juneau International Airport", "Juneau", "AK", 58.355, -134.576, []],
+  ["HNL", "Daniel K. Inouye International Airport", "Honolulu", "HI", 21.319, -157.922, ["honolulu airport", "inouye airport"]],
+  ["OGG", "Kahului Airport", "Kahului", "HI", 20.899, -156.430, ["maui airport"]],
+  ["KOA", "Ellison Onizuka Kona International Airport", "Kailua-Kona", "HI", 19.739, -156.046, ["kona airport"]],
+  ["LIH", "Lihue Airport", "Lihue", "HI", 21.976, -159.339, []],
+  ["ITO", "Hilo International Airport", "Hilo", "HI", 19.720, -155.048, []],
+  ["SJU", "Luis Muñoz Marín International Airport", "San Juan", "PR", 18.439, -66.002, ["san juan airport"]],
+];
+
+export const US_CITIES: CityRow[] = [
+  // Washington metro and the Mid-Atlantic
+  ["Washington", "DC", 38.907, -77.037, ["dc", "d c", "washington dc", "washington d c", "district of columbia", "washington"]],
+  ["Arlington", "VA", 38.880, -77.107, []],
+  ["Alexandria", "VA", 38.805, -77.047, ["old town alexandria"]],
+  ["Fairfax", "VA", 38.846, -77.306, []],
+  ["McLean", "VA", 38.934, -77.177, ["mclean"]],
+  ["Tysons", "VA", 38.919, -77.231, ["tysons corner"]],
+  ["Reston", "VA", 38.959, -77.357, []],
+  ["Herndon", "VA", 38.970, -77.386, []],
+  ["Leesburg", "VA", 39.116, -77.564, []],
+  ["Manassas", "VA", 38.751, -77.475, []],
+  ["Woodbridge", "VA", 38.658, -77.250, []],
+  ["Fredericksburg", "VA", 38.303, -77.461, []],
+  ["Richmond", "VA", 37.541, -77.436, []],
+  ["Williamsburg", "VA", 37.271, -76.707, []],
+  ["Norfolk", "VA", 36.851, -76.286, []],
+  ["Virginia Beach", "VA", 36.853, -75.978, []],
+  ["Charlottesville", "VA", 38.029, -78.477, []],
+  ["Bethesda", "MD", 38.985, -77.095, []],
+  ["Silver Spring", "MD", 38.991, -77.026, []],
+  ["Rockville", "MD", 39.084, -77.153, []],
+  ["Gaithersburg", "MD", 39.143, -77.202, []],
+  ["College Park", "MD", 38.981, -76.937, []],
+  ["Annapolis", "MD", 38.978, -76.492, []],
+  ["Baltimore", "MD", 39.290, -76.612, []],
+  ["Columbia", "MD", 39.204, -76.861, []],
+  ["Frederick", "MD", 39.414, -77.411, []],
+  ["Ocean City", "MD", 38.336, -75.085, []],
+  ["Wilmington", "DE", 39.740, -75.547, []],
+  ["Dover", "DE", 39.158, -75.524, []],
+  ["Rehoboth Beach", "DE", 38.721, -75.076, ["rehoboth"]],
+  ["Philadelphia", "PA", 39.953, -75.165, ["philly"]],
+  ["Pittsburgh", "PA", 40.441, -79.996, []],
+  ["Harrisburg", "PA", 40.274, -76.884, []],
+  ["Hershey", "PA", 40.286, -76.650, []],
+  ["Lancaster", "PA", 40.038, -76.306, []],
+  ["Gettysburg", "PA", 39.831, -77.231, []],
+  ["Allentown", "PA", 40.608, -75.490, []],
+  ["New York", "NY", 40.713, -74.006, ["nyc", "new york city", "ny city", "manhattan", "new york"]],
+  ["Brooklyn", "NY", 40.678, -73.944, []],
+  ["Queens", "NY", 40.728, -73.794, []],
+  ["Bronx", "NY", 40.845, -73.865, ["the bronx"]],
+  ["Staten Island", "NY", 40.579, -74.150, []],
+  ["White Plains", "NY", 41.034, -73.763, []],
+  ["Albany", "NY", 42.653, -73.756, []],
+  ["Buffalo", "NY", 42.886, -78.878, []],
+  ["Rochester", "NY", 43.157, -77.609, []],
+  ["Syracuse", "NY", 43.049, -76.147, []],
+  ["Niagara Falls", "NY", 43.096, -79.038, []],
+  ["Newark", "NJ", 40.736, -74.172, []],
+  ["Jersey City", "NJ", 40.728, -74.078, []],
+  ["Hoboken", "NJ", 40.744, -74.032, []],
+  ["Princeton", "NJ", 40.357, -74.667, []],
+  ["Trenton", "NJ", 40.220, -74.760, []],
+  ["Atlantic City", "NJ", 39.364, -74.423, []],
+  ["Boston", "MA", 42.360, -71.059, []],
+  ["Cambridge", "MA", 42.374, -71.110, []],
+  ["Worcester", "MA", 42.263, -71.802, []],
+  ["Hartford", "CT", 41.764, -72.685, []],
+  ["New Haven", "CT", 41.308, -72.928, []],
+  ["Stamford", "CT", 41.053, -73.539, []],
+  ["Providence", "RI", 41.824, -71.413, []],
+  ["Newport", "RI", 41.490, -71.313, []],
+  ["Manchester", "NH", 42.996, -71.455, []],
+  ["Portland", "ME", 43.659, -70.257, []],
+  ["Burlington", "VT", 44.476, -73.212, []],
+  // Southeast
+  ["Charlotte", "NC", 35.227, -80.843, []],
+  ["Raleigh", "NC", 35.780, -78.639, []],
+  ["Durham", "NC", 35.994, -78.899, []],
+  ["Greensboro", "NC", 36.073, -79.792, []],
+  ["Asheville", "NC", 35.595, -82.551, []],
+  ["Charleston", "SC", 32.777, -79.931, []],
+  ["Columbia", "SC", 34.000, -81.035, []],
+  ["Greenville", "SC", 34.852, -82.394, []],
+  ["Myrtle Beach", "SC", 33.689, -78.887, []],
+  ["Atlanta", "GA", 33.749, -84.388, []],
+  ["Savannah", "GA", 32.081, -81.091, []],
+  ["Augusta", "GA", 33.471, -81.975, []],
+  ["Jacksonville", "FL", 30.332, -81.656, []],
+  ["Orlando", "FL", 28.538, -81.379, []],
+  ["Tampa", "FL", 27.951, -82.457, []],
+  ["St. Petersburg", "FL", 27.768, -82.640, ["st petersburg", "saint petersburg"]],
+  ["Miami", "FL", 25.762, -80.192, []],
+  ["Miami Beach", "FL", 25.791, -80.130, []],
+  ["Fort Lauderdale", "FL", 26.122, -80.137, ["ft lauderdale"]],
+  ["West Palm Beach", "FL", 26.715, -80.053, []],
+  ["Tallahassee", "FL", 30.438, -84.281, []],
+  ["Panama City", "FL", 30.159, -85.660, ["panama city beach"]],
+  ["Key West", "FL", 24.556, -81.780, []],
+  ["Nashville", "TN", 36.163, -86.781, []],
+  ["Memphis", "TN", 35.150, -90.049, []],
+  ["Knoxville", "TN", 35.961, -83.921, []],
+  ["Chattanooga", "TN", 35.046, -85.309, []],
+  ["Louisville", "KY", 38.253, -85.759, []],
+  ["Lexington", "KY", 38.041, -84.504, []],
+  ["Birmingham", "AL", 33.519, -86.810, []],
+  ["Montgomery", "AL", 32.367, -86.300, []],
+  ["Mobile", "AL", 30.695, -88.040, []],
+  ["Jackson", "MS", 32.299, -90.185, []],
+  ["New Orleans", "LA", 29.951, -90.072, ["nola"]],
+  ["Baton Rouge", "LA", 30.451, -91.187, []],
+  // Midwest
+  ["Chicago", "IL", 41.878, -87.630, []],
+  ["Springfield", "IL", 39.781, -89.650, []],
+  ["Detroit", "MI", 42.331, -83.046, []],
+  ["Grand Rapids", "MI", 42.963, -85.668, []],
+  ["Ann Arbor", "MI", 42.281, -83.743, []],
+  ["Cleveland", "OH", 41.499, -81.694, []],
+  ["Columbus", "OH", 39.961, -82.999, []],
+  ["Cincinnati", "OH", 39.103, -84.512, []],
+  ["Dayton", "OH", 39.759, -84.192, []],
+  ["Toledo", "OH", 41.652, -83.537, []],
+  ["Indianapolis", "IN", 39.768, -86.158, []],
+  ["Milwaukee", "WI", 43.039, -87.906, []],
+  ["Madison", "WI", 43.073, -89.401, []],
+  ["Minneapolis", "MN", 44.978, -93.265, []],
+  ["St. Paul", "MN", 44.954, -93.090, ["st paul", "saint paul"]],
+  ["St. Louis", "MO", 38.627, -90.199, ["st louis", "saint louis"]],
+  ["Kansas City", "MO", 39.100, -94.579, []],
+  ["Omaha", "NE", 41.257, -95.934, []],
+  ["Des Moines", "IA", 41.587, -93.625, []],
+  ["Wichita", "KS", 37.687, -97.330, []],
+  // South Central
+  ["Dallas", "TX", 32.777, -96.797, []],
+  ["Fort Worth", "TX", 32.755, -97.331, ["ft worth"]],
+  ["Arlington", "TX", 32.736, -97.108, []],
+  ["Houston", "TX", 29.760, -95.370, []],
+  ["Austin", "TX", 30.267, -97.743, []],
+  ["San Antonio", "TX", 29.424, -98.494, []],
+  ["El Paso", "TX", 31.762, -106.485, []],
+  ["Corpus Christi", "TX", 27.801, -97.396, []],
+  ["Oklahoma City", "OK", 35.468, -97.516, ["okc"]],
+  ["Tulsa", "OK", 36.154, -95.993, []],
+  ["Little Rock", "AR", 34.746, -92.290, []],
+  // Mountain
+  ["Denver", "CO", 39.739, -104.990, []],
+  ["Boulder", "CO", 40.015, -105.270, []],
+  ["Colorado Springs", "CO", 38.834, -104.821, []],
+  ["Aspen", "CO", 39.191, -106.818, []],
+  ["Vail", "CO", 39.640, -106.374, []],
+  ["Salt Lake City", "UT", 40.761, -111.891, ["slc", "salt lake"]],
+  ["Phoenix", "AZ", 33.448, -112.074, []],
+  ["Scottsdale", "AZ", 33.494, -111.926, []],
+  ["Tucson", "AZ", 32.222, -110.975, []],
+  ["Albuquerque", "NM", 35.084, -106.650, []],
+  ["Santa Fe", "NM", 35.687, -105.938, []],
+  ["Las Vegas", "NV", 36.170, -115.140, ["vegas"]],
+  ["Reno", "NV", 39.530, -119.814, []],
+  ["Boise", "ID", 43.615, -116.202, []],
+  ["Bozeman", "MT", 45.677, -111.043, []],
+  // West Coast
+  ["Los Angeles", "CA", 34.052, -118.244, ["la"]],
+  ["Hollywood", "CA", 34.098, -118.327, []],
+  ["Santa Monica", "CA", 34.019, -118.491, []],
+  ["Pasadena", "CA", 34.148, -118.145, []],
+  ["Long Beach", "CA", 33.770, -118.194, []],
+  ["Anaheim", "CA", 33.837, -117.914, []],
+  ["Irvine", "CA", 33.684, -117.827, []],
+  ["San Diego", "CA", 32.716, -117.161, []],
+  ["Palm Springs", "CA", 33.830, -116.545, []],
+  ["Santa Barbara", "CA", 34.420, -119.698, []],
+  ["Fresno", "CA", 36.738, -119.787, []],
+  ["San Francisco", "CA", 37.775, -122.419, ["sf", "san fran"]],
+  ["Oakland", "CA", 37.804, -122.271, []],
+  ["San Jose", "CA", 37.338, -121.886, []],
+  ["Palo Alto", "CA", 37.442, -122.143, []],
+  ["Sacramento", "CA", 38.582, -121.494, []],
+  ["Napa", "CA", 38.297, -122.286, []],
+  ["Portland", "OR", 45.515, -122.679, []],
+  ["Eugene", "OR", 44.052, -123.087, []],
+  ["Seattle", "WA", 47.606, -122.332, []],
+  ["Tacoma", "WA", 47.253, -122.444, []],
+  ["Spokane", "WA", 47.659, -117.426, []],
+  ["Anchorage", "AK", 61.218, -149.900, []],
+  ["Honolulu", "HI", 21.307, -157.858, []],
+  ["San Juan", "PR", 18.466, -66.106, []],
+];
+
+export const US_LANDMARKS: LandmarkRow[] = [
+  ["Union Station", "Washington", "DC", 38.897, -77.006, ["union station dc", "dc union station", "washington union station"]],
+  ["National Mall", "Washington", "DC", 38.890, -77.023, []],
+  ["U.S. Capitol", "Washington", "DC", 38.890, -77.009, ["us capitol", "capitol building", "the capitol", "capitol hill"]],
+  ["White House", "Washington", "DC", 38.898, -77.037, ["the white house"]],
+  ["Georgetown", "Washington", "DC", 38.910, -77.065, []],
+  ["Nationals Park", "Washington", "DC", 38.873, -77.007, []],
+  ["Capital One Arena", "Washington", "DC", 38.898, -77.021, []],
+  ["Walter E. Washington Convention Center", "Washington", "DC", 38.904, -77.023, ["dc convention center", "washington convention center"]],
+  ["The Pentagon", "Arlington", "VA", 38.871, -77.056, ["pentagon"]],
+  ["Arlington National Cemetery", "Arlington", "VA", 38.878, -77.069, []],
+  ["Mount Vernon", "Alexandria", "VA", 38.729, -77.107, []],
+  ["National Harbor", "Oxon Hill", "MD", 38.783, -77.017, ["gaylord national"]],
+  ["Northwest Stadium", "Landover", "MD", 38.908, -76.865, ["fedex field", "fedexfield", "commanders stadium"]],
+  ["Inner Harbor", "Baltimore", "MD", 39.286, -76.608, ["baltimore inner harbor"]],
+  ["Oriole Park at Camden Yards", "Baltimore", "MD", 39.284, -76.622, ["camden yards"]],
+  ["M&T Bank Stadium", "Baltimore", "MD", 39.278, -76.623, ["m t bank stadium", "ravens stadium"]],
+  ["Penn Station", "New York", "NY", 40.751, -73.994, ["penn station nyc", "new york penn station"]],
+  ["Grand Central Terminal", "New York", "NY", 40.753, -73.977, ["grand central", "grand central station"]],
+  ["Times Square", "New York", "NY", 40.758, -73.986, []],
+  ["Madison Square Garden", "New York", "NY", 40.751, -73.993, ["msg"]],
+  ["MetLife Stadium", "East Rutherford", "NJ", 40.814, -74.074, ["metlife"]],
+  ["30th Street Station", "Philadelphia", "PA", 39.956, -75.182, ["30th street", "philadelphia 30th street"]],
+  ["South Station", "Boston", "MA", 42.352, -71.055, []],
+];
+
+// Places outside the US, used to turn away requests we can't serve.
+// Names that are also common US cities (Paris TX, Dublin OH) still count as US
+// when they're followed by a state.
+export const NON_US_PLACES: string[] = [
+  // Countries and regions
+  "canada", "mexico", "united kingdom", "uk", "england", "scotland", "wales", "ireland", "france", "germany",
+  "italy", "spain", "portugal", "netherlands", "belgium", "switzerland", "austria", "greece", "sweden", "norway",
+  "denmark", "finland", "poland", "russia", "ukraine", "india", "pakistan", "bangladesh", "sri lanka", "nepal",
+  "china", "japan", "south korea", "korea", "taiwan", "vietnam", "thailand", "malaysia", "singapore", "indonesia",
+  "philippines", "australia", "new zealand", "brazil", "argentina", "chile", "colombia", "peru", "venezuela",
+  "costa rica", "panama", "jamaica", "bahamas", "dominican republic", "cuba", "uae", "united arab emirates",
+  "saudi arabia", "qatar", "israel", "egypt", "south africa", "nigeria", "kenya", "morocco", "europe", "asia", "africa",
+  // Cities
+  "london", "manchester uk", "edinburgh", "dublin", "paris", "berlin", "munich", "frankfurt", "rome", "milan",
+  "madrid", "barcelona", "lisbon", "amsterdam", "brussels", "zurich", "geneva", "vienna", "prague", "athens",
+  "stockholm", "oslo", "copenhagen", "moscow", "istanbul", "toronto", "montreal", "vancouver", "ottawa", "calgary",
+  "quebec", "mexico city", "cancun", "tijuana", "guadalajara", "monterrey", "hyderabad", "vizag", "visakhapatnam",
+  "mumbai", "bombay", "delhi", "new delhi", "bangalore", "bengaluru", "chennai", "kolkata", "pune", "ahmedabad",
+  "karachi", "lahore", "dhaka", "dubai", "abu dhabi", "doha", "riyadh", "tel aviv", "cairo", "tokyo", "osaka",
+  "seoul", "beijing", "shanghai", "hong kong", "taipei", "bangkok", "kuala lumpur", "jakarta", "manila", "hanoi",
+  "sydney", "melbourne australia", "auckland", "sao paulo", "rio de janeiro", "buenos aires", "bogota", "lima",
+  "johannesburg", "cape town", "lagos", "nairobi",
+];
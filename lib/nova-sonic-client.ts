@@ -1,16 +1,62 @@
 import { io, type Socket } from "socket.io-client"
+import type { VoiceTurn } from "@/lib/voice/transcript"
 
 export interface NovaSocketEvents {
   contentStart: (data: any) => void
   textOutput: (data: any) => void
   audioOutput: (data: any) => void
   contentEnd: (data: any) => void
+  // A transcript turn the server added or changed; the same turn id is sent again as it grows
+  transcriptTurn: (data: { transcriptId: string; turn: VoiceTurn }) => void
+  // reason: "session_ended" | "consent_withdrawn" | "max_length"
+  recordingStopped: (data: { recordingId: string; reason: string }) => void
+  // A connection or stream-minute limit was hit; a running session ends right after
+  limitExceeded: (data: VoiceLimitError) => void
   streamComplete: () => void
   error: (error: any) => void
   connect: () => void
   disconnect: () => void
+  // Raised by this client, not the server: the session survived a dropped
+  // connection, or it could not be resumed and is gone
+  sessionResumed: (reply: SessionResumeReply & { ok: true }) => void
+  sessionLost: (data: { error: string }) => void
+  // The server refused the connection (bad or missing token, too many connections);
+  // it isn't retried until connect() is called again
+  connectionRejected: (data: VoiceLimitError) => void
 }
 
+const LOCAL_EVENTS: (keyof NovaSocketEvents)[] = ["sessionResumed", "sessionLost", "connectionRejected"]
+
+// code: "missing_token" | "invalid_token" | "token_expired" | "auth_unavailable" |
+// "connection_limit" | "stream_minutes_limit"
+export interface VoiceLimitError {
+  code: string
+  error: string
+  scope?: "ip" | "user"
+  limit?: number
+  retryAfterSeconds?: number
+}
+
+export type VoiceAgentType = "retrieval" | "booking"
+
+// Ack for "startSession"
+export type SessionStartReply =
+  | { ok: true; sessionId: string; resumeToken: string; transcriptId: string; agentType: VoiceAgentType; voiceId: string; tools: string[] }
+  | ({ ok: false; error: string } & Partial<VoiceLimitError>)
+
+// Ack for "resumeSession": the session as negotiated, plus what happened so far
+export type SessionResumeReply =
+  | (SessionStartReply & { ok: true; turns: VoiceTurn[]; recording: boolean })
+  | { ok: false; error: string }
+
+// Ack for "recordingConsent"
+export type RecordingConsentReply =
+  | { ok: true; recording: true; recordingId: string }
+  | { ok: true; recording: false }
+  | { ok: false; error: string }
+
+const SESSION_START_TIMEOUT_MS = 10000
+
 export class NovaSonicSocketClient {
   private socket: Socket | null = null
   private sessionInitialized = false
@@ -20,7 +66,11 @@ export class NovaSonicSocketClient {
   private maxReconnectAttempts = 5
   private reconnectDelay = 1000
 
-  private agentType: "retrieval" | "booking" = "retrieval"
+  private agentType: VoiceAgentType = "retrieval"
+
+  // Set while a session is running, so a new socket can take it over after a drop
+  private resume: { sessionId: string; resumeToken: string } | null = null
+  private localHandlers = new Map<keyof NovaSocketEvents, Set<(...args: any[]) => void>>()
 
   constructor() {
     this.initSocket()
@@ -34,6 +84,10 @@ export class NovaSonicSocketClient {
       reconnectionAttempts: this.maxReconnectAttempts,
       reconnectionDelay: this.reconnectDelay,
       forceNew: true,
+      // Called before every (re)connect, so each handshake gets a fresh short-lived token
+      auth: (cb) => {
+        this.fetchToken().then((token) => cb(token ? { token } : {}))
+      },
     })
 
     if (this.socket) {
@@ -41,15 +95,40 @@ export class NovaSonicSocketClient {
         console.log("Nova Sonic socket connected")
         this.sessionInitialized = false
         this.reconnectAttempts = 0
+        if (this.resume) this.resumeSession()
       })
 
       this.socket.on("disconnect", (reason) => {
         console.log("Nova Sonic socket disconnected:", reason)
         this.sessionInitialized = false
+        // Only our own disconnect() ends the session on purpose. The server
+        // disconnecting us isn't followed by a reconnect, so that session is gone too.
+        if (reason === "io client disconnect") this.resume = null
+        if (reason === "io server disconnect") this.loseSession("Disconnected by the server")
+      })
+
+      this.socket.io.on("reconnect_failed", () => this.loseSession("Could not reconnect"))
+
+      // Another connection resumed our session (e.g. this one only looked alive)
+      this.socket.on("sessionTakenOver", () => {
+        this.sessionInitialized = false
+        this.loseSession("Session continued in another connection")
+      })
+
+      // The server ends a running session right after this one
+      this.socket.on("limitExceeded", () => {
+        this.sessionInitialized = false
+        this.resume = null
       })
 
-      this.socket.on("connect_error", (error) => {
+      this.socket.on("connect_error", (error: Error & { data?: VoiceLimitError }) => {
         console.error("Nova Sonic connection error:", error)
+        // Refused by the server's middleware rather than a network error: no automatic retry
+        if (error.data?.code && !this.socket?.active) {
+          this.loseSession(error.data.error)
+          this.emitLocal("connectionRejected", error.data)
+          return
+        }
         this.reconnectAttempts++
         if (this.reconnectAttempts >= this.maxReconnectAttempts) {
           console.error("Max reconnection attempts reached")
@@ -63,7 +142,20 @@ export class NovaSonicSocketClient {
     }
   }
 
-  async initializeSession(options?: { agentType?: "retrieval" | "booking" }): Promise<void> {
+  // Without a token (e.g. VOICE_TOKEN_SECRET unset in development) the server decides
+  private async fetchToken(): Promise<string | null> {
+    try {
+      const res = await fetch("/api/voice-token", { method: "POST" })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || `Request failed: ${res.status}`)
+      return data.token
+    } catch (error) {
+      console.warn("Could not get a voice token:", error)
+      return null
+    }
+  }
+
+  async initializeSession(options?: { agentType?: VoiceAgentType }): Promise<void> {
     if (this.sessionInitialized) return
     if (!this.socket) throw new Error("Socket not initialized")
     if (!this.socket.connected) {
@@ -74,28 +166,68 @@ export class NovaSonicSocketClient {
 
 
     try {
-      if (this.selectedUserId) {
-        this.socket.emit("setUserId", { user_id: this.selectedUserId })
-      }
-
-      if (this.selectedVoiceId) {
-        this.socket.emit("setVoice", { voiceId: this.selectedVoiceId })
-      }
-      this.socket.emit("setAgentType", { agentType: this.agentType })
-
-      this.socket.emit("promptStart")
-      this.socket.emit("systemPrompt")
-      this.socket.emit("audioStart")
+      // The server creates the Bedrock session only after this handshake, with
+      // the prompt and tools of the requested agent type
+      const reply: SessionStartReply = await this.socket.timeout(SESSION_START_TIMEOUT_MS).emitWithAck("startSession", {
+        agentType: this.agentType,
+        voiceId: this.selectedVoiceId || undefined,
+        userId: this.selectedUserId || undefined,
+        timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+      })
+      if (!reply.ok) throw new Error(reply.error)
 
       this.sessionInitialized = true
-      console.log("Nova Sonic session initialized")
+      this.resume = { sessionId: reply.sessionId, resumeToken: reply.resumeToken }
+      console.log(`Nova Sonic session initialized (${reply.agentType}, tools: ${reply.tools.join(", ")})`)
     } catch (error) {
       console.error("Error initializing Nova Sonic session:", error)
       throw error
     }
   }
 
+  // Re-attaches to the running session after the socket reconnected. The server
+  // keeps it for a grace period; audio captured during the drop is lost.
+  private async resumeSession(): Promise<void> {
+    const resume = this.resume
+    if (!this.socket || !resume) return
+
+    let reply: SessionResumeReply
+    try {
+      reply = await this.socket.timeout(SESSION_START_TIMEOUT_MS).emitWithAck("resumeSession", resume)
+    } catch (error) {
+      reply = { ok: false, error: error instanceof Error ? error.message : "Resume timed out" }
+    }
+    // stopAudio() or a new session while the resume was in flight
+    if (this.resume !== resume) return
+
+    if (reply.ok) {
+      this.sessionInitialized = true
+      console.log(`Nova Sonic session ${reply.sessionId} resumed`)
+      this.emitLocal("sessionResumed", reply)
+    } else {
+      console.warn("Nova Sonic session could not be resumed:", reply.error)
+      this.loseSession(reply.error)
+    }
+  }
+
+  private loseSession(error: string): void {
+    if (!this.resume) return
+    this.resume = null
+    this.emitLocal("sessionLost", { error })
+  }
+
+  // True while a session is waiting to be resumed after a dropped connection
+  isResuming(): boolean {
+    return !!this.resume && !this.sessionInitialized
+  }
+
+  private emitLocal(event: keyof NovaSocketEvents, data: unknown): void {
+    for (const handler of this.localHandlers.get(event) || []) handler(data)
+  }
+
   sendAudioInput(base64Data: string): void {
+    // Audio captured while reconnecting is dropped quietly
+    if (this.isResuming()) return
     if (!this.socket || !this.sessionInitialized || !this.socket.connected) {
       console.warn("Cannot send audio: socket not ready")
       return
@@ -113,12 +245,26 @@ export class NovaSonicSocketClient {
 
     try {
       this.socket.emit("stopAudio")
+      // The server ends the session; the next start negotiates a new one
+      this.sessionInitialized = false
+      this.resume = null
       console.log("Audio stopped")
     } catch (error) {
       console.error("Error stopping audio:", error)
     }
   }
 
+  // The server records the call only after an explicit consent; withdrawing it
+  // stops the recording and discards what was recorded
+  async setRecordingConsent(consent: boolean): Promise<RecordingConsentReply> {
+    if (!this.socket || !this.socket.connected) throw new Error("Socket not connected")
+    const reply: RecordingConsentReply = await this.socket
+      .timeout(SESSION_START_TIMEOUT_MS)
+      .emitWithAck("recordingConsent", { consent })
+    if (!reply.ok) throw new Error(reply.error)
+    return reply
+  }
+
   setUserId(userId: string): void {
     this.selectedUserId = userId
     if (this.socket && this.socket.connected) {
@@ -134,11 +280,21 @@ export class NovaSonicSocketClient {
   }
 
   on<K extends keyof NovaSocketEvents>(event: K, handler: NovaSocketEvents[K]): void {
+    if (LOCAL_EVENTS.includes(event)) {
+      if (!this.localHandlers.has(event)) this.localHandlers.set(event, new Set())
+      this.localHandlers.get(event)!.add(handler as (...args: any[]) => void)
+      return
+    }
     if (!this.socket) return
     this.socket.on(event as string, handler as (...args: any[]) => void)
   }
 
   off<K extends keyof NovaSocketEvents>(event: K, handler?: NovaSocketEvents[K]): void {
+    if (LOCAL_EVENTS.includes(event)) {
+      if (handler) this.localHandlers.get(event)?.delete(handler as (...args: any[]) => void)
+      else this.localHandlers.delete(event)
+      return
+    }
     if (!this.socket) return
     if (handler) {
       this.socket.off(event as string, handler as (...args: any[]) => void)
@@ -149,6 +305,9 @@ export class NovaSonicSocketClient {
 
   disconnect(): void {
     if (this.socket) {
+      // End the session now rather than leaving it to the server's grace period
+      if (this.resume && this.socket.connected) this.socket.emit("stopAudio")
+      this.resume = null
       this.socket.disconnect()
       this.socket = null
     }
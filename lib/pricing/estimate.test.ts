@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { createEmptyBookingState } from "../booking/state.ts";
+import { bookingServiceDays, estimateFare, fareRequestFromBooking } from "./estimate.ts";
+import type { HistoricalTripRecord } from "./records.ts";
+
+const records: HistoricalTripRecord[] = [
+  { Id: "a", Pickup_City__c: "Washington", Pickup_State__c: "DC", Dropoff_City__c: "New York", Dropoff_State__c: "NY", Number_of_Passengers__c: 10, Sales_Order_Total__c: "$1,400" },
+  { Id: "b", Pickup_City__c: "Baltimore", Pickup_State__c: "MD", Dropoff_City__c: "Philadelphia", Dropoff_State__c: "PA", Number_of_Passengers__c: 8, Sales_Order_Total__c: 1200 },
+  { Id: "c", Pickup_City__c: "Washington", Pickup_State__c: "DC", Dropoff_City__c: "Boston", Dropoff_State__c: "MA", Number_of_Passengers__c: 10, Sales_Order_Total__c: 2500 },
+];
+
+describe("estimateFare", () => {
+  it("scales direct matches by passengers and days", () => {
+    const estimate = estimateFare({ pickup: "Washington DC", dropoff: "New York", passengers: 5, days: 2 }, records);
+    expect(estimate).toMatchObject({ status: "estimated", matchType: "direct", estimate: 1400, low: 1260, high: 1540 });
+    expect(estimate.recordsUsed.map((r) => r.id)).toEqual(["a"]);
+  });
+
+  it("falls back to nearby routes when nothing is direct", () => {
+    const nearby = estimateFare({ pickup: "Annapolis", dropoff: "Wilmington, DE", passengers: 10 }, records);
+    expect(nearby).toMatchObject({ status: "estimated", matchType: "nearby", estimate: 1500 });
+    expect(nearby.recordsUsed.map((r) => r.id)).toEqual(["b"]);
+
+    expect(estimateFare({ pickup: "Atlanta", dropoff: "Miami", passengers: 10 }, records).status).toBe("no_matches");
+  });
+
+  it("needs a passenger count and known places", () => {
+    expect(estimateFare({ pickup: "Washington DC", dropoff: "New York", passengers: 0 }, records).status).toBe("invalid_request");
+    expect(estimateFare({ pickup: "Atlantis", dropoff: "New York", passengers: 4 }, records).status).toBe("unknown_location");
+  });
+});
+
+describe("fareRequestFromBooking", () => {
+  const booking = {
+    ...createEmptyBookingState(),
+    pickup_location: "Union Station, Washington DC",
+    dropoff_location: "JFK",
+    service_date: "2026-04-10",
+    return_date: "2026-04-12",
+    trip_direction: "return" as const,
+  };
+
+  it("uses the exact passenger count when there is one", () => {
+    const request = fareRequestFromBooking({ ...booking, num_passengers: 7, group_size_category: "medium" });
+    expect(request).toMatchObject({ passengers: 7, days: 3, tripType: "Round Trip", groupSize: null });
+  });
+
+  it("assumes a headcount from the group size otherwise", () => {
+    expect(fareRequestFromBooking({ ...booking, group_size_category: "small" })).toMatchObject({ passengers: 4, groupSize: "small" });
+    expect(fareRequestFromBooking({ ...booking, group_size_category: "large" })?.passengers).toBe(20);
+
+    const estimate = estimateFare(fareRequestFromBooking({ ...booking, group_size_category: "medium" })!, records);
+    expect(estimate.status).toBe("estimated");
+    expect(estimate.passengers).toBe(10);
+    expect(estimate.message).toMatch(/Assumes 10 passengers/);
+  });
+
+  it("is null without a route or any group size", () => {
+    expect(fareRequestFromBooking(booking)).toBeNull();
+    expect(fareRequestFromBooking({ ...booking, dropoff_location: null, num_passengers: 5 })).toBeNull();
+  });
+});
+
+describe("bookingServiceDays", () => {
+  it("counts distinct leg dates", () => {
+    const legs = [
+      { date: "2026-04-10", time: null, notes: null, stops: ["JFK", "Newark"] },
+      { date: "2026-04-10", time: null, notes: null, stops: ["Newark", "JFK"] },
+      { date: "2026-04-11", time: null, notes: null, stops: ["JFK", "Newark"] },
+    ];
+    expect(bookingServiceDays({ service_date: null, return_date: null, trip_direction: "multi-leg", legs })).toBe(2);
+  });
+});
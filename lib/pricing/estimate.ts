@@ -0,0 +1,310 @@
+import { type BookingState, passengersForGroupSize } from "../booking/state.ts";
+import { describePlace, distanceMiles, type Place, resolvePlace } from "../geo/gazetteer.ts";
+import type { HistoricalTripRecord } from "./records.ts";
+
+// Deterministic fare estimation from historical trips. Follows the pricing rules
+// the retrieval agent used to apply by hand (direct route matches first, nearby
+// routes averaged, linear passenger and day scaling) but does the arithmetic in
+// code so every number can be traced back to the records it came from.
+
+export interface FareRequest {
+  pickup: string;
+  dropoff: string;
+  passengers: number;
+  // Service days; multi-day charters scale linearly
+  days?: number;
+  tripType?: string | null;
+  vehicleType?: string | null;
+  // Set when `passengers` was assumed from the booking's group size category
+  groupSize?: string | null;
+}
+
+export interface RecordMatch {
+  id: string | null;
+  pickup: string;
+  dropoff: string;
+  tripType: string | null;
+  vehicleType: string | null;
+  passengers: number;
+  days: number;
+  fare: number;
+  pickupDistanceMiles: number;
+  dropoffDistanceMiles: number;
+  adjustedFare: number;
+}
+
+export interface AdjustmentStep {
+  description: string;
+  amount: number;
+}
+
+export type FareEstimateStatus = "estimated" | "no_matches" | "unknown_location" | "invalid_request";
+
+export interface FareEstimate {
+  status: FareEstimateStatus;
+  currency: "USD";
+  estimate: number | null;
+  low: number | null;
+  high: number | null;
+  matchType: "direct" | "nearby" | null;
+  pickup: string | null;
+  dropoff: string | null;
+  passengers: number;
+  days: number;
+  recordsUsed: RecordMatch[];
+  adjustments: AdjustmentStep[];
+  message: string;
+}
+
+// Both ends within this radius count as the same route
+const DIRECT_MATCH_MILES = 15;
+// Both ends within this radius are close enough to average
+const NEARBY_MATCH_MILES = 60;
+const MAX_RECORDS = 5;
+// Spread applied when a single record leaves no range to report
+const SINGLE_RECORD_SPREAD = { direct: 0.1, nearby: 0.2 };
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface Candidate {
+  record: HistoricalTripRecord;
+  pickupPlace: Place;
+  dropoffPlace: Place;
+  pickupDistance: number;
+  dropoffDistance: number;
+  fare: number;
+  passengers: number;
+  days: number;
+}
+
+function toNumber(value: unknown): number {
+  if (typeof value === "number") return value;
+  if (typeof value === "string") return Number(value.replace(/[$,\s]/g, ""));
+  return NaN;
+}
+
+function roundMiles(miles: number): number {
+  return Math.round(miles * 10) / 10;
+}
+
+function roundDollars(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+export function formatCurrency(amount: number): string {
+  return amount.toLocaleString("en-US", { style: "currency", currency: "USD", maximumFractionDigits: 0 });
+}
+
+function recordLocation(address: string | undefined, city: string | undefined, state: string | undefined): string {
+  return [city, state].filter(Boolean).join(", ") || address || "";
+}
+
+// Service days covered by a record, from its pickup and dropoff dates
+function recordDays(record: HistoricalTripRecord): number {
+  const start = Date.parse(record.Formatted_Pickup_Date__c || "");
+  const end = Date.parse(record.Formatted_Dropoff_Date__c || "");
+  if (isNaN(start) || isNaN(end) || end < start) return 1;
+  return Math.floor((end - start) / DAY_MS) + 1;
+}
+
+function toCandidate(record: HistoricalTripRecord, pickup: Place, dropoff: Place): Candidate | null {
+  const fare = toNumber(record.Sales_Order_Total__c);
+  if (!Number.isFinite(fare) || fare <= 0) return null;
+
+  const pickupPlace = resolvePlace(recordLocation(record.Pickup_Address__c, record.Pickup_City__c, record.Pickup_State__c));
+  const dropoffPlace = resolvePlace(recordLocation(record.Dropoff_Address__c, record.Dropoff_City__c, record.Dropoff_State__c));
+  // A state centroid is too coarse to measure a route against
+  if (!pickupPlace || !dropoffPlace || pickupPlace.kind === "state" || dropoffPlace.kind === "state") return null;
+
+  const passengers = toNumber(record.Number_of_Passengers__c);
+  return {
+    record,
+    pickupPlace,
+    dropoffPlace,
+    pickupDistance: distanceMiles(pickup, pickupPlace),
+    dropoffDistance: distanceMiles(dropoff, dropoffPlace),
+    fare,
+    passengers: Number.isFinite(passengers) && passengers > 0 ? passengers : 0,
+    days: recordDays(record),
+  };
+}
+
+function sameText(a: string | null | undefined, b: string | null | undefined): boolean {
+  return !!a && !!b && a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+// Closest routes first; ties prefer the requested trip type and vehicle
+function rankCandidates(candidates: Candidate[], request: FareRequest): Candidate[] {
+  const score = (c: Candidate) =>
+    c.pickupDistance + c.dropoffDistance +
+    (request.tripType && !sameText(c.record.Trip_Type__c, request.tripType) ? 0.5 : 0) +
+    (request.vehicleType && !sameText(c.record.Vehicle_Type__c, request.vehicleType) ? 0.25 : 0);
+  return [...candidates].sort((a, b) => score(a) - score(b));
+}
+
+function emptyEstimate(status: FareEstimateStatus, request: FareRequest, message: string, pickup: Place | null = null, dropoff: Place | null = null): FareEstimate {
+  return {
+    status,
+    currency: "USD",
+    estimate: null,
+    low: null,
+    high: null,
+    matchType: null,
+    pickup: pickup ? describePlace(pickup) : null,
+    dropoff: dropoff ? describePlace(dropoff) : null,
+    passengers: request.passengers,
+    days: request.days || 1,
+    recordsUsed: [],
+    adjustments: [],
+    message,
+  };
+}
+
+export function estimateFare(request: FareRequest, records: HistoricalTripRecord[]): FareEstimate {
+  const days = request.days && request.days > 0 ? Math.round(request.days) : 1;
+  if (!Number.isFinite(request.passengers) || request.passengers <= 0) {
+    return emptyEstimate("invalid_request", request, "A passenger count is required to estimate a fare.");
+  }
+
+  const pickup = resolvePlace(request.pickup);
+  const dropoff = resolvePlace(request.dropoff);
+  if (!pickup || !dropoff) {
+    const missing = [!pickup && `pickup "${request.pickup}"`, !dropoff && `dropoff "${request.dropoff}"`].filter(Boolean).join(" and ");
+    return emptyEstimate("unknown_location", request, `Could not locate the ${missing}.`, pickup, dropoff);
+  }
+
+  const candidates = records
+    .map((record) => toCandidate(record, pickup, dropoff))
+    .filter((c): c is Candidate => c !== null);
+
+  const direct = candidates.filter((c) => c.pickupDistance <= DIRECT_MATCH_MILES && c.dropoffDistance <= DIRECT_MATCH_MILES);
+  const nearby = candidates.filter((c) => c.pickupDistance <= NEARBY_MATCH_MILES && c.dropoffDistance <= NEARBY_MATCH_MILES);
+  const matchType = direct.length > 0 ? "direct" : nearby.length > 0 ? "nearby" : null;
+  if (!matchType) {
+    return emptyEstimate(
+      "no_matches",
+      { ...request, days },
+      `No historical trips found within ${NEARBY_MATCH_MILES} miles of both ${describePlace(pickup)} and ${describePlace(dropoff)}.`,
+      pickup,
+      dropoff,
+    );
+  }
+
+  const used = rankCandidates(matchType === "direct" ? direct : nearby, request).slice(0, MAX_RECORDS);
+  const adjustments: AdjustmentStep[] = [];
+  if (request.groupSize) {
+    adjustments.push({ description: `Assumed ${request.passengers} passengers for a ${request.groupSize} group`, amount: request.passengers });
+  }
+  const radius = matchType === "direct" ? DIRECT_MATCH_MILES : NEARBY_MATCH_MILES;
+  adjustments.push({
+    description: `Matched ${used.length} ${matchType} historical trip${used.length === 1 ? "" : "s"} with both ends within ${radius} miles`,
+    amount: used.length,
+  });
+
+  const recordsUsed = used.map((c): RecordMatch => {
+    const label = c.record.Id || `${c.pickupPlace.name} → ${c.dropoffPlace.name}`;
+    let adjusted = c.fare;
+    adjustments.push({ description: `${label}: historical fare`, amount: roundDollars(adjusted) });
+
+    if (c.passengers > 0 && c.passengers !== request.passengers) {
+      adjusted = adjusted * (request.passengers / c.passengers);
+      adjustments.push({
+        description: `${label}: × (${request.passengers} ÷ ${c.passengers} passengers)`,
+        amount: roundDollars(adjusted),
+      });
+    } else if (c.passengers === 0) {
+      adjustments.push({ description: `${label}: no passenger count on record, fare not scaled`, amount: roundDollars(adjusted) });
+    }
+
+    if (c.days !== days) {
+      adjusted = (adjusted / c.days) * days;
+      adjustments.push({ description: `${label}: ÷ ${c.days} × ${days} service day${days === 1 ? "" : "s"}`, amount: roundDollars(adjusted) });
+    }
+
+    return {
+      id: c.record.Id || null,
+      pickup: describePlace(c.pickupPlace),
+      dropoff: describePlace(c.dropoffPlace),
+      tripType: c.record.Trip_Type__c || null,
+      vehicleType: c.record.Vehicle_Type__c || null,
+      passengers: c.passengers,
+      days: c.days,
+      fare: roundDollars(c.fare),
+      pickupDistanceMiles: roundMiles(c.pickupDistance),
+      dropoffDistanceMiles: roundMiles(c.dropoffDistance),
+      adjustedFare: roundDollars(adjusted),
+    };
+  });
+
+  const fares = recordsUsed.map((r) => r.adjustedFare);
+  const estimate = Math.round(fares.reduce((sum, f) => sum + f, 0) / fares.length);
+  adjustments.push({
+    description: fares.length === 1 ? "Estimate from the single adjusted fare" : `Average of ${fares.length} adjusted fares`,
+    amount: estimate,
+  });
+
+  let low = Math.round(Math.min(...fares));
+  let high = Math.round(Math.max(...fares));
+  if (fares.length === 1) {
+    const spread = SINGLE_RECORD_SPREAD[matchType];
+    low = Math.round(estimate * (1 - spread));
+    high = Math.round(estimate * (1 + spread));
+    adjustments.push({ description: `Range of ±${spread * 100}% around a single record`, amount: high - low });
+  } else {
+    adjustments.push({ description: "Range from the lowest to the highest adjusted fare", amount: high - low });
+  }
+
+  return {
+    status: "estimated",
+    currency: "USD",
+    estimate,
+    low,
+    high,
+    matchType,
+    pickup: describePlace(pickup),
+    dropoff: describePlace(dropoff),
+    passengers: request.passengers,
+    days,
+    recordsUsed,
+    adjustments,
+    message:
+      `Estimated ${formatCurrency(estimate)} (${formatCurrency(low)}–${formatCurrency(high)}) from ${recordsUsed.length} ${matchType} historical trip${recordsUsed.length === 1 ? "" : "s"}.` +
+      (request.groupSize ? ` Assumes ${request.passengers} passengers; the exact count will change it.` : ""),
+  };
+}
+
+// Service days a booking spans: distinct leg dates, or the return date for round trips
+export function bookingServiceDays(booking: Pick<BookingState, "service_date" | "return_date" | "trip_direction" | "legs">): number {
+  if (booking.legs && booking.legs.length > 0) {
+    return new Set(booking.legs.map((leg) => leg.date)).size;
+  }
+  if (booking.trip_direction === "return" && booking.service_date && booking.return_date) {
+    const span = Date.parse(booking.return_date) - Date.parse(booking.service_date);
+    if (!isNaN(span) && span >= 0) return Math.floor(span / DAY_MS) + 1;
+  }
+  return 1;
+}
+
+// Build a fare request from booking fields; null when the route or group size is missing.
+// Without an exact headcount the group size category stands in for it.
+export function fareRequestFromBooking(booking: Partial<BookingState>): FareRequest | null {
+  const exact = Number(booking.num_passengers);
+  const hasExact = Number.isFinite(exact) && exact > 0;
+  const groupSize = hasExact ? null : booking.group_size_category;
+  if (!booking.pickup_location || !booking.dropoff_location || !(hasExact || groupSize)) return null;
+  const passengers = groupSize ? passengersForGroupSize(groupSize) : exact;
+
+  return {
+    pickup: booking.pickup_location,
+    dropoff: booking.dropoff_location,
+    passengers,
+    days: bookingServiceDays({
+      service_date: booking.service_date ?? null,
+      return_date: booking.return_date ?? null,
+      trip_direction: booking.trip_direction ?? null,
+      legs: booking.legs ?? null,
+    }),
+    tripType: booking.trip_direction === "return" ? "Round Trip" : booking.trip_direction === "one-way" ? "One Way" : null,
+    vehicleType: booking.vehicle_type ?? null,
+    groupSize,
+  };
+}
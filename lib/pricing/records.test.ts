@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { isTripRecord, parseTripRecords } from "./records.ts";
+
+describe("isTripRecord", () => {
+  it("accepts records with a fare and well-typed fields", () => {
+    expect(isTripRecord({ Sales_Order_Total__c: "$1,400", Pickup_City__c: "Washington", Number_of_Passengers__c: 10 })).toBe(true);
+    expect(isTripRecord({ Sales_Order_Total__c: 900, Trip_Type__c: null })).toBe(true);
+  });
+
+  it.each([
+    ["null", null],
+    ["an array", [{ Sales_Order_Total__c: 900 }]],
+    ["a record without a fare", { Pickup_City__c: "Washington" }],
+    ["a null fare", { Sales_Order_Total__c: null }],
+    ["a non-text city", { Sales_Order_Total__c: 900, Pickup_City__c: 42 }],
+    ["an object headcount", { Sales_Order_Total__c: 900, Number_of_Passengers__c: { value: 10 } }],
+  ])("rejects %s", (_label, value) => {
+    expect(isTripRecord(value)).toBe(false);
+  });
+});
+
+describe("parseTripRecords", () => {
+  it("keeps only trip records from a JSON array", () => {
+    const text = JSON.stringify([{ Id: "a", Sales_Order_Total__c: 900 }, null, { Id: "b" }]);
+    expect(parseTripRecords(text).map((r) => r.Id)).toEqual(["a"]);
+  });
+});
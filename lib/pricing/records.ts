@@ -0,0 +1,160 @@
+import { describePlace, resolvePlace } from "../geo/gazetteer.ts";
+import type { FareRequest } from "./estimate.ts";
+import { cachedRetrieve } from "../retrieval/cache.ts";
+
+// Historical trip records from the pricing knowledge base (Salesforce export,
+// "metro-oppos-with-non-0"). KB chunks hold either JSON objects or CSV rows.
+
+export interface HistoricalTripRecord {
+  Id?: string;
+  Name?: string;
+  Pickup_Address__c?: string;
+  Pickup_City__c?: string;
+  Pickup_State__c?: string;
+  Dropoff_Address__c?: string;
+  Dropoff_City__c?: string;
+  Dropoff_State__c?: string;
+  Trip_Type__c?: string;
+  Number_of_Passengers__c?: number | string;
+  Sales_Order_Total__c?: number | string;
+  Vehicle_Type__c?: string;
+  Formatted_Pickup_Date__c?: string;
+  Formatted_Dropoff_Date__c?: string;
+}
+
+const TEXT_FIELDS = [
+  "Id",
+  "Name",
+  "Pickup_Address__c",
+  "Pickup_City__c",
+  "Pickup_State__c",
+  "Dropoff_Address__c",
+  "Dropoff_City__c",
+  "Dropoff_State__c",
+  "Trip_Type__c",
+  "Vehicle_Type__c",
+  "Formatted_Pickup_Date__c",
+  "Formatted_Dropoff_Date__c",
+] as const;
+const NUMBER_FIELDS = ["Number_of_Passengers__c", "Sales_Order_Total__c"] as const;
+
+// A record with a fare whose fields have the types the fare engine expects;
+// absent and null fields are fine
+export function isTripRecord(value: any): value is HistoricalTripRecord {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return false;
+  if (value.Sales_Order_Total__c === undefined || value.Sales_Order_Total__c === null) return false;
+  return TEXT_FIELDS.every((field) => value[field] == null || typeof value[field] === "string") &&
+    NUMBER_FIELDS.every((field) => value[field] == null || typeof value[field] === "number" || typeof value[field] === "string");
+}
+
+// Quoted-field aware CSV line split
+function splitCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let current = "";
+  let inQuotes = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      if (inQuotes && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        inQuotes = !inQuotes;
+      }
+    } else if (char === "," && !inQuotes) {
+      fields.push(current.trim());
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  fields.push(current.trim());
+  return fields;
+}
+
+function parseCsv(text: string): HistoricalTripRecord[] {
+  const lines = text.split(/\r?\n/).filter((l) => l.trim());
+  if (lines.length < 2) return [];
+  const header = splitCsvLine(lines[0]);
+  if (!header.includes("Sales_Order_Total__c")) return [];
+
+  return lines.slice(1).flatMap((line) => {
+    const fields = splitCsvLine(line);
+    if (fields.length !== header.length) return [];
+    const record: Record<string, string> = {};
+    header.forEach((name, index) => {
+      record[name] = fields[index];
+    });
+    return [record as HistoricalTripRecord];
+  });
+}
+
+// Pull every complete top-level JSON object out of a chunk of text
+function parseJsonObjects(text: string): HistoricalTripRecord[] {
+  const records: HistoricalTripRecord[] = [];
+  let depth = 0;
+  let start = -1;
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === "{") {
+      if (depth === 0) start = i;
+      depth++;
+    } else if (text[i] === "}" && depth > 0) {
+      depth--;
+      if (depth === 0 && start !== -1) {
+        try {
+          const parsed = JSON.parse(text.slice(start, i + 1));
+          if (isTripRecord(parsed)) records.push(parsed);
+        } catch {
+          // Partial object cut off by chunking
+        }
+        start = -1;
+      }
+    }
+  }
+  return records;
+}
+
+export function parseTripRecords(text: string): HistoricalTripRecord[] {
+  const trimmed = text.trim();
+  if (!trimmed) return [];
+  if (trimmed.startsWith("[")) {
+    try {
+      const parsed = JSON.parse(trimmed);
+      if (Array.isArray(parsed)) return parsed.filter(isTripRecord);
+    } catch {
+      // Fall through to the object scan
+    }
+  }
+  const csv = parseCsv(trimmed);
+  return csv.length > 0 ? csv : parseJsonObjects(trimmed);
+}
+
+// Retrieve candidate records for a route from the pricing knowledge base
+export async function fetchHistoricalTrips(query: string, kbId = process.env.PRICING_KB_ID || "AOHOJWFMJM"): Promise<HistoricalTripRecord[]> {
+  const retrievalResults = await cachedRetrieve({ knowledgeBaseId: kbId, query, numberOfResults: 25 });
+
+  const records = retrievalResults.flatMap((r) => parseTripRecords(r.content?.text || ""));
+  console.log(`💵 Pricing KB returned ${records.length} trip records for "${query}"`);
+
+  // The same record can appear in overlapping chunks
+  const seen = new Set<string>();
+  return records.filter((record) => {
+    const key = record.Id || JSON.stringify(record);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+// Search text for a route. Recognized places are spelled out ("DCA" -> Ronald
+// Reagan Washington National Airport ...) so records match however the customer phrased them.
+export function routeQuery(request: FareRequest): string {
+  const canonical = (text: string) => {
+    const place = resolvePlace(text);
+    return place ? `${text} (${describePlace(place)})` : text;
+  };
+  const parts = [`${canonical(request.pickup)} to ${canonical(request.dropoff)}`, `${request.passengers} passengers`];
+  if (request.tripType) parts.push(request.tripType);
+  if (request.vehicleType) parts.push(request.vehicleType);
+  return parts.join(", ");
+}
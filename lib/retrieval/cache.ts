@@ -0,0 +1,266 @@
+import { BedrockAgentRuntimeClient, type KnowledgeBaseRetrievalResult, RetrieveCommand } from "@aws-sdk/client-bedrock-agent-runtime";
+import { BedrockAgentClient, GetIngestionJobCommand, ListDataSourcesCommand, ListIngestionJobsCommand } from "@aws-sdk/client-bedrock-agent";
+import type { KbSearchType, RetrievalFilter } from "./filters.ts";
+
+// Shared cache in front of the Bedrock Retrieve API. Entries are keyed by KB id,
+// normalized query, result count, search type and filter; they expire after a
+// TTL, the oldest are evicted past a size limit, and a KB's entries are dropped
+// when an ingestion job for it finishes.
+//
+// The cache is per process: the Next.js server and the voice server each keep their own.
+
+export interface RetrievalRequest {
+  knowledgeBaseId: string;
+  query: string;
+  numberOfResults: number;
+  filter?: RetrievalFilter;
+  searchType?: KbSearchType;
+}
+
+export interface RetrievalCacheStats {
+  hits: number;
+  misses: number;
+  // hits / (hits + misses), 0 before the first lookup
+  hitRate: number;
+  evictions: number;
+  invalidations: number;
+  entries: number;
+  maxEntries: number;
+  ttlSeconds: number;
+  byKnowledgeBase: Record<string, { hits: number; misses: number; entries: number }>;
+}
+
+interface CacheEntry {
+  knowledgeBaseId: string;
+  storedAt: number;
+  expiresAt: number;
+  // Stored as a promise so concurrent identical lookups share one request
+  results: Promise<KnowledgeBaseRetrievalResult[]>;
+}
+
+// RETRIEVAL_CACHE_TTL_SECONDS=0 turns the cache off
+const TTL_MS = Number(process.env.RETRIEVAL_CACHE_TTL_SECONDS ?? 300) * 1000;
+const MAX_ENTRIES = Number(process.env.RETRIEVAL_CACHE_MAX_ENTRIES || 500);
+const INGESTION_POLL_MS = Number(process.env.RETRIEVAL_CACHE_INGESTION_POLL_SECONDS || 60) * 1000;
+const INGESTION_JOB_POLL_MS = 15_000;
+// A watched job still running after this is left to the background monitor
+const INGESTION_JOB_MAX_WAIT_MS = 6 * 60 * 60 * 1000;
+// Polling again won't help after these
+const FATAL_INGESTION_ERRORS = new Set(["ResourceNotFoundException", "AccessDeniedException", "ValidationException"]);
+const TERMINAL_INGESTION_STATUSES = new Set(["COMPLETE", "FAILED", "STOPPED"]);
+
+const entries = new Map<string, CacheEntry>();
+const counters = { hits: 0, misses: 0, evictions: 0, invalidations: 0 };
+const perKnowledgeBase = new Map<string, { hits: number; misses: number }>();
+
+const awsCredentials = {
+  accessKeyId: process.env.NEXT_PUBLIC_AWS_ACCESS_KEY_ID || process.env.AWS_ACCESS_KEY_ID || "",
+  secretAccessKey: process.env.NEXT_PUBLIC_AWS_SECRET_ACCESS_KEY || process.env.AWS_SECRET_ACCESS_KEY || "",
+};
+
+let agentRuntime: BedrockAgentRuntimeClient | null = null;
+let agentControl: BedrockAgentClient | null = null;
+
+// One runtime client for every retrieval caller instead of one per request
+export function getAgentRuntime(): BedrockAgentRuntimeClient {
+  if (!agentRuntime) {
+    agentRuntime = new BedrockAgentRuntimeClient({ region: process.env.AWS_REGION || "us-east-1", credentials: awsCredentials });
+  }
+  return agentRuntime;
+}
+
+function getAgentControl(): BedrockAgentClient {
+  if (!agentControl) {
+    agentControl = new BedrockAgentClient({ region: process.env.AWS_REGION || "us-east-1", credentials: awsCredentials });
+  }
+  return agentControl;
+}
+
+// JSON with sorted object keys so equal filters give equal keys
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+  if (value && typeof value === "object") {
+    const record = value as Record<string, unknown>;
+    return `{${Object.keys(record).sort().filter((k) => record[k] !== undefined).map((k) => `${JSON.stringify(k)}:${stableStringify(record[k])}`).join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+export function normalizeQuery(query: string): string {
+  return query.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+export function retrievalCacheKey(request: RetrievalRequest): string {
+  return [
+    request.knowledgeBaseId,
+    normalizeQuery(request.query),
+    request.numberOfResults,
+    request.searchType || "",
+    request.filter ? stableStringify(request.filter) : "",
+  ].join("|");
+}
+
+function count(knowledgeBaseId: string, outcome: "hits" | "misses") {
+  counters[outcome]++;
+  const kb = perKnowledgeBase.get(knowledgeBaseId) || { hits: 0, misses: 0 };
+  kb[outcome]++;
+  perKnowledgeBase.set(knowledgeBaseId, kb);
+}
+
+export async function cachedRetrieve(request: RetrievalRequest): Promise<KnowledgeBaseRetrievalResult[]> {
+  const fetchResults = async () => {
+    const response = await getAgentRuntime().send(new RetrieveCommand({
+      knowledgeBaseId: request.knowledgeBaseId,
+      retrievalQuery: { text: request.query },
+      retrievalConfiguration: {
+        vectorSearchConfiguration: {
+          numberOfResults: request.numberOfResults,
+          filter: request.filter,
+          overrideSearchType: request.searchType,
+        },
+      },
+    }));
+    return response.retrievalResults || [];
+  };
+  if (TTL_MS <= 0) return fetchResults();
+
+  const key = retrievalCacheKey(request);
+  const now = Date.now();
+  const cached = entries.get(key);
+  if (cached && cached.expiresAt > now) {
+    // Re-insert so the Map's insertion order doubles as least-recently-used order
+    entries.delete(key);
+    entries.set(key, cached);
+    count(request.knowledgeBaseId, "hits");
+    return cached.results;
+  }
+
+  count(request.knowledgeBaseId, "misses");
+  const results = fetchResults();
+  entries.delete(key);
+  entries.set(key, { knowledgeBaseId: request.knowledgeBaseId, storedAt: now, expiresAt: now + TTL_MS, results });
+  // Failed lookups are not cached
+  results.catch(() => {
+    if (entries.get(key)?.results === results) entries.delete(key);
+  });
+
+  while (entries.size > MAX_ENTRIES) {
+    entries.delete(entries.keys().next().value!);
+    counters.evictions++;
+  }
+  ensureIngestionMonitor();
+  return results;
+}
+
+export function invalidateKnowledgeBase(knowledgeBaseId: string, reason = "manual"): number {
+  let removed = 0;
+  for (const [key, entry] of entries) {
+    if (entry.knowledgeBaseId === knowledgeBaseId) {
+      entries.delete(key);
+      removed++;
+    }
+  }
+  counters.invalidations++;
+  console.log(`🧹 Retrieval cache: dropped ${removed} entries for KB(${knowledgeBaseId}) (${reason})`);
+  return removed;
+}
+
+export function clearRetrievalCache() {
+  entries.clear();
+}
+
+export function getRetrievalCacheStats(): RetrievalCacheStats {
+  const now = Date.now();
+  const byKnowledgeBase: RetrievalCacheStats["byKnowledgeBase"] = {};
+  for (const [id, kb] of perKnowledgeBase) byKnowledgeBase[id] = { ...kb, entries: 0 };
+  let live = 0;
+  for (const entry of entries.values()) {
+    if (entry.expiresAt <= now) continue;
+    live++;
+    byKnowledgeBase[entry.knowledgeBaseId] ??= { hits: 0, misses: 0, entries: 0 };
+    byKnowledgeBase[entry.knowledgeBaseId].entries++;
+  }
+  const lookups = counters.hits + counters.misses;
+  return {
+    ...counters,
+    hitRate: lookups > 0 ? counters.hits / lookups : 0,
+    entries: live,
+    maxEntries: MAX_ENTRIES,
+    ttlSeconds: TTL_MS / 1000,
+    byKnowledgeBase,
+  };
+}
+
+// ---------------- Ingestion invalidation ---------------- //
+
+// Follows one ingestion job (e.g. one started from the admin panel) and drops
+// the KB's entries as soon as it finishes. Gives up after INGESTION_JOB_MAX_WAIT_MS,
+// or at once when the job can't be read at all.
+export function watchIngestionJob(knowledgeBaseId: string, dataSourceId: string, ingestionJobId: string) {
+  const deadline = Date.now() + INGESTION_JOB_MAX_WAIT_MS;
+  const poll = async () => {
+    try {
+      const { ingestionJob } = await getAgentControl().send(new GetIngestionJobCommand({ knowledgeBaseId, dataSourceId, ingestionJobId }));
+      if (ingestionJob?.status && TERMINAL_INGESTION_STATUSES.has(ingestionJob.status)) {
+        invalidateKnowledgeBase(knowledgeBaseId, `ingestion job ${ingestionJobId} ${ingestionJob.status}`);
+        return;
+      }
+    } catch (error: any) {
+      if (FATAL_INGESTION_ERRORS.has(error?.name)) {
+        console.error(`Stopped watching ingestion job ${ingestionJobId}: ${error.name}`);
+        return;
+      }
+      console.error(`Error polling ingestion job ${ingestionJobId}:`, error);
+    }
+    if (Date.now() + INGESTION_JOB_POLL_MS > deadline) {
+      console.warn(`Stopped watching ingestion job ${ingestionJobId}: not finished after ${INGESTION_JOB_MAX_WAIT_MS / 3_600_000} h`);
+      return;
+    }
+    setTimeout(poll, INGESTION_JOB_POLL_MS).unref?.();
+  };
+  setTimeout(poll, INGESTION_JOB_POLL_MS).unref?.();
+}
+
+let monitor: ReturnType<typeof setInterval> | null = null;
+
+// Background check for jobs started elsewhere (console, scheduled syncs): a KB's
+// entries are dropped when any of its data sources finished a job after the
+// oldest of them was stored.
+function ensureIngestionMonitor() {
+  if (monitor || INGESTION_POLL_MS <= 0) return;
+  monitor = setInterval(() => {
+    checkIngestionJobs().catch((error) => console.error("Error checking KB ingestion jobs:", error));
+  }, INGESTION_POLL_MS);
+  monitor.unref?.();
+}
+
+async function latestFinishedIngestion(knowledgeBaseId: string): Promise<number> {
+  const client = getAgentControl();
+  const { dataSourceSummaries = [] } = await client.send(new ListDataSourcesCommand({ knowledgeBaseId }));
+  let latest = 0;
+  for (const dataSource of dataSourceSummaries) {
+    const { ingestionJobSummaries = [] } = await client.send(new ListIngestionJobsCommand({
+      knowledgeBaseId,
+      dataSourceId: dataSource.dataSourceId,
+      sortBy: { attribute: "STARTED_AT", order: "DESCENDING" },
+      maxResults: 5,
+    }));
+    for (const job of ingestionJobSummaries) {
+      if (job.status && TERMINAL_INGESTION_STATUSES.has(job.status) && job.updatedAt) {
+        latest = Math.max(latest, job.updatedAt.getTime());
+      }
+    }
+  }
+  return latest;
+}
+
+async function checkIngestionJobs() {
+  const oldestEntry = new Map<string, number>();
+  for (const entry of entries.values()) {
+    oldestEntry.set(entry.knowledgeBaseId, Math.min(oldestEntry.get(entry.knowledgeBaseId) ?? Infinity, entry.storedAt));
+  }
+  for (const [knowledgeBaseId, storedAt] of oldestEntry) {
+    const finishedAt = await latestFinishedIngestion(knowledgeBaseId);
+    if (finishedAt > storedAt) invalidateKnowledgeBase(knowledgeBaseId, "ingestion job finished");
+  }
+}
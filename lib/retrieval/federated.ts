@@ -0,0 +1,197 @@
+import { cachedRetrieve } from "./cache.ts";
+import { createLexicalReranker, estimateTokens, type Reranker, tokenizeForRetrieval } from "./rerank.ts";
+import type { KbSearchType, RetrievalFilter } from "./filters.ts";
+
+// Federated knowledge base retrieval shared by the text agents and the voice
+// server (src/). Queries several KBs in parallel, drops near-duplicate chunks,
+// normalizes scores per KB, reranks, and trims the result to a token budget.
+//
+// Imports in lib/retrieval are relative with .ts extensions so the voice
+// server can load these files without the Next.js path alias.
+
+export interface RetrievedChunk {
+  // `${knowledgeBaseId}:${rank in its KB}`
+  id: string;
+  knowledgeBaseId: string;
+  text: string;
+  sourceUri: string | null;
+  title: string | null;
+  // Score as returned by the KB; not comparable across KBs
+  score: number;
+  // Min-max normalized within the chunk's KB (0..1)
+  normalizedScore: number;
+  rerankScore: number;
+  metadata: Record<string, unknown>;
+}
+
+export interface RetrieveSettings {
+  numberOfResults: number;
+  filter?: RetrievalFilter;
+  searchType?: KbSearchType;
+}
+
+// Fetches raw chunks from one KB; normalizedScore and rerankScore are filled in later
+export type KnowledgeBaseRetriever = (
+  knowledgeBaseId: string,
+  query: string,
+  settings: RetrieveSettings,
+) => Promise<Omit<RetrievedChunk, "normalizedScore" | "rerankScore">[]>;
+
+export interface FederatedRetrieveOptions {
+  knowledgeBaseIds: string[];
+  query: string;
+  resultsPerKnowledgeBase?: number;
+  // Upper bound on the combined size of the returned chunks
+  tokenBudget?: number;
+  // Word-shingle Jaccard similarity at or above which two chunks count as duplicates
+  duplicateThreshold?: number;
+  // Metadata filter applied in every KB (see filters.ts)
+  filter?: RetrievalFilter;
+  searchType?: KbSearchType;
+  reranker?: Reranker;
+  retriever?: KnowledgeBaseRetriever;
+}
+
+export interface FederatedRetrieveResult {
+  query: string;
+  knowledgeBasesQueried: string[];
+  failedKnowledgeBases: { knowledgeBaseId: string; error: string }[];
+  candidates: number;
+  duplicatesRemoved: number;
+  reranker: string;
+  // True when chunks were dropped or cut to fit the token budget
+  truncated: boolean;
+  estimatedTokens: number;
+  results: RetrievedChunk[];
+}
+
+const DEFAULT_RESULTS_PER_KB = 5;
+const DEFAULT_TOKEN_BUDGET = 2000;
+const DEFAULT_DUPLICATE_THRESHOLD = 0.8;
+
+export const bedrockRetriever: KnowledgeBaseRetriever = async (knowledgeBaseId, query, { numberOfResults, filter, searchType }) => {
+  const retrievalResults = await cachedRetrieve({ knowledgeBaseId, query, numberOfResults, filter, searchType });
+
+  return retrievalResults.map((r, rank) => {
+    const location: any = r.location;
+    const sourceUri: string | null =
+      location?.s3Location?.uri || location?.webLocation?.url || location?.confluenceLocation?.url ||
+      location?.salesforceLocation?.url || location?.sharePointLocation?.url || null;
+    const title = r.metadata?.title;
+    return {
+      id: `${knowledgeBaseId}:${rank}`,
+      knowledgeBaseId,
+      text: r.content?.text || "",
+      sourceUri,
+      title: typeof title === "string" ? title : sourceUri?.split("/").pop() || null,
+      score: r.score ?? 0,
+      metadata: (r.metadata as Record<string, unknown>) || {},
+    };
+  });
+};
+
+// KB ids from a comma-separated env value, ignoring blanks
+export function parseKnowledgeBaseIds(value: string | undefined, fallback: string[] = []): string[] {
+  const ids = (value || "").split(",").map((id) => id.trim()).filter(Boolean);
+  return ids.length > 0 ? ids : fallback;
+}
+
+function normalizeScores(chunks: Omit<RetrievedChunk, "normalizedScore" | "rerankScore">[]): RetrievedChunk[] {
+  const scores = chunks.map((c) => c.score);
+  const min = Math.min(...scores);
+  const max = Math.max(...scores);
+  return chunks.map((c) => {
+    const normalizedScore = max > min ? (c.score - min) / (max - min) : 1;
+    return { ...c, normalizedScore, rerankScore: normalizedScore };
+  });
+}
+
+function shingles(text: string): Set<string> {
+  const words = tokenizeForRetrieval(text);
+  if (words.length < 3) return new Set([words.join(" ")]);
+  const result = new Set<string>();
+  for (let i = 0; i <= words.length - 3; i++) result.add(words.slice(i, i + 3).join(" "));
+  return result;
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  let shared = 0;
+  for (const item of a) if (b.has(item)) shared++;
+  const union = a.size + b.size - shared;
+  return union === 0 ? 1 : shared / union;
+}
+
+// Keeps the better-scored copy of each group of near-identical chunks
+function removeNearDuplicates(chunks: RetrievedChunk[], threshold: number): RetrievedChunk[] {
+  const kept: { chunk: RetrievedChunk; shingles: Set<string> }[] = [];
+  for (const chunk of [...chunks].sort((a, b) => b.normalizedScore - a.normalizedScore)) {
+    const own = shingles(chunk.text);
+    if (!kept.some((k) => jaccard(own, k.shingles) >= threshold)) kept.push({ chunk, shingles: own });
+  }
+  return kept.map((k) => k.chunk);
+}
+
+function applyTokenBudget(chunks: RetrievedChunk[], budget: number): { results: RetrievedChunk[]; truncated: boolean; tokens: number } {
+  const results: RetrievedChunk[] = [];
+  let tokens = 0;
+  for (const chunk of chunks) {
+    const size = estimateTokens(chunk.text);
+    if (tokens + size <= budget) {
+      results.push(chunk);
+      tokens += size;
+    } else if (results.length === 0) {
+      // Never return nothing because the best chunk alone is too long
+      results.push({ ...chunk, text: chunk.text.slice(0, budget * 4) });
+      tokens = budget;
+      break;
+    } else {
+      break;
+    }
+  }
+  return { results, truncated: results.length < chunks.length || results.some((r, i) => r.text !== chunks[i].text), tokens };
+}
+
+export async function federatedRetrieve(options: FederatedRetrieveOptions): Promise<FederatedRetrieveResult> {
+  const {
+    knowledgeBaseIds,
+    query,
+    resultsPerKnowledgeBase = DEFAULT_RESULTS_PER_KB,
+    tokenBudget = DEFAULT_TOKEN_BUDGET,
+    duplicateThreshold = DEFAULT_DUPLICATE_THRESHOLD,
+    filter,
+    searchType,
+    reranker = createLexicalReranker(),
+    retriever = bedrockRetriever,
+  } = options;
+  const ids = [...new Set(knowledgeBaseIds)];
+
+  const failedKnowledgeBases: FederatedRetrieveResult["failedKnowledgeBases"] = [];
+  const perKb = await Promise.all(ids.map(async (id) => {
+    try {
+      return normalizeScores(await retriever(id, query, { numberOfResults: resultsPerKnowledgeBase, filter, searchType }));
+    } catch (error) {
+      console.error(`Error retrieving from KB(${id}):`, error);
+      failedKnowledgeBases.push({ knowledgeBaseId: id, error: error instanceof Error ? error.message : String(error) });
+      return [];
+    }
+  }));
+
+  const candidates = perKb.flat().filter((c) => c.text.trim());
+  const unique = removeNearDuplicates(candidates, duplicateThreshold);
+  const ranked = await reranker.rerank(query, unique);
+  const { results, truncated, tokens } = applyTokenBudget(ranked, tokenBudget);
+
+  console.log(`🔍 Federated retrieval over ${ids.length} KB(s) for "${query}": ${candidates.length} candidates, ${candidates.length - unique.length} duplicates, ${results.length} returned`);
+
+  return {
+    query,
+    knowledgeBasesQueried: ids,
+    failedKnowledgeBases,
+    candidates: candidates.length,
+    duplicatesRemoved: candidates.length - unique.length,
+    reranker: reranker.name,
+    truncated,
+    estimatedTokens: tokens,
+    results,
+  };
+}
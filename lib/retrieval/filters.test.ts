@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { buildMetadataFilter, kbFilter, metadataFilterFromToolInput, toDateNumber } from "./filters.ts";
+
+describe("kbFilter", () => {
+  it("collapses combinations with fewer than two members", () => {
+    expect(kbFilter.andAll()).toBeUndefined();
+    expect(kbFilter.andAll(undefined, kbFilter.equals("state", "VA"), null)).toEqual({ equals: { key: "state", value: "VA" } });
+    expect(kbFilter.orAll(kbFilter.equals("a", 1), kbFilter.equals("b", 2))).toEqual({
+      orAll: [{ equals: { key: "a", value: 1 } }, { equals: { key: "b", value: 2 } }],
+    });
+  });
+
+  it("builds ranges from the bounds given", () => {
+    expect(kbFilter.range("trip_date", {})).toBeUndefined();
+    expect(kbFilter.range("trip_date", { gte: 20240101 })).toEqual({ greaterThanOrEquals: { key: "trip_date", value: 20240101 } });
+  });
+});
+
+describe("toDateNumber", () => {
+  it("reads ISO dates and bare years", () => {
+    expect(toDateNumber("2024-03-05", "start")).toBe(20240305);
+    expect(toDateNumber("2024", "start")).toBe(20240101);
+    expect(toDateNumber("2024", "end")).toBe(20241231);
+    expect(toDateNumber("March 2024", "start")).toBeUndefined();
+  });
+});
+
+describe("buildMetadataFilter", () => {
+  it("is undefined without conditions", () => {
+    expect(buildMetadataFilter({})).toBeUndefined();
+  });
+
+  it("normalizes values and combines conditions", () => {
+    expect(buildMetadataFilter({ documentTypes: [" Trip "], states: ["va", "md"], dateFrom: "2024", dateTo: "2024-06-30" })).toEqual({
+      andAll: [
+        { equals: { key: "document_type", value: "trip" } },
+        { in: { key: "state", value: ["VA", "MD"] } },
+        {
+          andAll: [
+            { greaterThanOrEquals: { key: "trip_date", value: 20240101 } },
+            { lessThanOrEquals: { key: "trip_date", value: 20240630 } },
+          ],
+        },
+      ],
+    });
+  });
+});
+
+describe("metadataFilterFromToolInput", () => {
+  it("reads comma-separated fields and the search type", () => {
+    expect(metadataFilterFromToolInput({ state: "VA,MD", search_type: "hybrid" })).toEqual({
+      filter: { in: { key: "state", value: ["VA", "MD"] } },
+      searchType: "HYBRID",
+    });
+  });
+
+  it("ignores unknown search types and empty input", () => {
+    expect(metadataFilterFromToolInput({ search_type: "fuzzy" })).toEqual({ filter: undefined, searchType: undefined });
+    expect(metadataFilterFromToolInput(undefined)).toEqual({ filter: undefined, searchType: undefined });
+  });
+});
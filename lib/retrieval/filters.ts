@@ -0,0 +1,126 @@
+import type { RetrievalFilter, SearchType } from "@aws-sdk/client-bedrock-agent-runtime";
+
+// Typed builder for Bedrock knowledge base metadata filters
+// (vectorSearchConfiguration.filter), plus the metadata conventions our KBs use.
+
+export type { RetrievalFilter };
+
+// HYBRID mixes keyword and vector search; SEMANTIC is vector only
+export type KbSearchType = `${SearchType}`;
+
+export type FilterValue = string | number | boolean;
+
+export interface RangeBounds {
+  gt?: number;
+  gte?: number;
+  lt?: number;
+  lte?: number;
+}
+
+type MaybeFilter = RetrievalFilter | null | undefined;
+
+// Bedrock rejects andAll/orAll with fewer than two members, so those collapse
+function combine(operator: "andAll" | "orAll", filters: MaybeFilter[]): RetrievalFilter | undefined {
+  const present = filters.filter((f): f is RetrievalFilter => !!f);
+  if (present.length === 0) return undefined;
+  if (present.length === 1) return present[0];
+  return operator === "andAll" ? { andAll: present } : { orAll: present };
+}
+
+export const kbFilter = {
+  equals(key: string, value: FilterValue): RetrievalFilter {
+    return { equals: { key, value } };
+  },
+  notEquals(key: string, value: FilterValue): RetrievalFilter {
+    return { notEquals: { key, value } };
+  },
+  in(key: string, values: FilterValue[]): RetrievalFilter {
+    return { in: { key, value: values } };
+  },
+  // Any combination of bounds; undefined when none are given
+  range(key: string, bounds: RangeBounds): RetrievalFilter | undefined {
+    return combine("andAll", [
+      bounds.gt !== undefined ? { greaterThan: { key, value: bounds.gt } } : undefined,
+      bounds.gte !== undefined ? { greaterThanOrEquals: { key, value: bounds.gte } } : undefined,
+      bounds.lt !== undefined ? { lessThan: { key, value: bounds.lt } } : undefined,
+      bounds.lte !== undefined ? { lessThanOrEquals: { key, value: bounds.lte } } : undefined,
+    ]);
+  },
+  // Missing members are skipped so optional conditions compose without branching
+  andAll(...filters: MaybeFilter[]): RetrievalFilter | undefined {
+    return combine("andAll", filters);
+  },
+  orAll(...filters: MaybeFilter[]): RetrievalFilter | undefined {
+    return combine("orAll", filters);
+  },
+};
+
+// ---------------- Metadata conventions ---------------- //
+
+// Metadata attribute names in the KB .metadata.json files. Dates are stored as
+// numbers in YYYYMMDD form so they can be range-filtered.
+export const KB_METADATA_KEYS = {
+  documentType: process.env.KB_METADATA_DOCUMENT_TYPE_KEY || "document_type",
+  state: process.env.KB_METADATA_STATE_KEY || "state",
+  tripDate: process.env.KB_METADATA_DATE_KEY || "trip_date",
+};
+
+// "2024-03-05" -> 20240305. A bare year covers the whole year: its first day
+// as a lower bound, its last day as an upper bound.
+export function toDateNumber(value: string, bound: "start" | "end"): number | undefined {
+  const trimmed = value.trim();
+  if (/^\d{4}$/.test(trimmed)) return Number(`${trimmed}${bound === "start" ? "0101" : "1231"}`);
+  const match = trimmed.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  return match ? Number(`${match[1]}${match[2]}${match[3]}`) : undefined;
+}
+
+export interface MetadataFilterOptions {
+  documentTypes?: string[];
+  // Two-letter state codes
+  states?: string[];
+  // ISO dates or years, inclusive
+  dateFrom?: string;
+  dateTo?: string;
+}
+
+export function buildMetadataFilter(options: MetadataFilterOptions): RetrievalFilter | undefined {
+  const documentTypes = (options.documentTypes || []).map((t) => t.trim().toLowerCase()).filter(Boolean);
+  const states = (options.states || []).map((s) => s.trim().toUpperCase()).filter(Boolean);
+  const from = options.dateFrom ? toDateNumber(options.dateFrom, "start") : undefined;
+  const to = options.dateTo ? toDateNumber(options.dateTo, "end") : undefined;
+
+  return kbFilter.andAll(
+    documentTypes.length === 1 ? kbFilter.equals(KB_METADATA_KEYS.documentType, documentTypes[0]) : undefined,
+    documentTypes.length > 1 ? kbFilter.in(KB_METADATA_KEYS.documentType, documentTypes) : undefined,
+    states.length === 1 ? kbFilter.equals(KB_METADATA_KEYS.state, states[0]) : undefined,
+    states.length > 1 ? kbFilter.in(KB_METADATA_KEYS.state, states) : undefined,
+    kbFilter.range(KB_METADATA_KEYS.tripDate, { gte: from, lte: to }),
+  );
+}
+
+// Reads the optional filter fields our KB search tools accept
+// (document_type, state, date_from, date_to, search_type) from a tool input
+export function metadataFilterFromToolInput(input: any): { filter?: RetrievalFilter; searchType?: KbSearchType } {
+  const list = (value: unknown) =>
+    Array.isArray(value) ? value.map(String) : typeof value === "string" && value.trim() ? value.split(",") : [];
+  const searchType = typeof input?.search_type === "string" ? input.search_type.toUpperCase() : undefined;
+
+  return {
+    filter: buildMetadataFilter({
+      documentTypes: list(input?.document_type),
+      states: list(input?.state),
+      dateFrom: typeof input?.date_from === "string" ? input.date_from : undefined,
+      dateTo: typeof input?.date_to === "string" ? input.date_to : undefined,
+    }),
+    searchType: searchType === "HYBRID" || searchType === "SEMANTIC" ? searchType : undefined,
+  };
+}
+
+// JSON-schema properties for those fields, shared by the tool definitions
+export const KB_FILTER_TOOL_PROPERTIES = {
+  document_type: { type: "string", description: "Only search documents of this type (e.g. 'faq', 'trip', 'policy'); comma-separate several" },
+  state: { type: "string", description: "Only trips in these US states, as two-letter codes (e.g. 'VA' or 'VA,MD')" },
+  date_from: { type: "string", description: "Only trips on or after this date (YYYY-MM-DD, or a year such as 2024)" },
+  date_to: { type: "string", description: "Only trips on or before this date (YYYY-MM-DD, or a year)" },
+  search_type: { type: "string", enum: ["HYBRID", "SEMANTIC"], description: "HYBRID adds keyword matching (names, IDs, codes); SEMANTIC is meaning only" },
+};
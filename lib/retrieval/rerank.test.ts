@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import type { RetrievedChunk } from "./federated.ts";
+import { createLexicalReranker, estimateTokens, tokenizeForRetrieval } from "./rerank.ts";
+
+function chunk(id: string, text: string, normalizedScore: number): RetrievedChunk {
+  return { id, knowledgeBaseId: id.split(":")[0], text, sourceUri: null, title: null, score: normalizedScore, normalizedScore, rerankScore: 0, metadata: {} };
+}
+
+describe("tokenizeForRetrieval", () => {
+  it("drops stopwords and folds plurals", () => {
+    expect(tokenizeForRetrieval("What are the policies for drivers?")).toEqual(["policy", "driver"]);
+  });
+});
+
+describe("estimateTokens", () => {
+  it("counts about four characters per token", () => {
+    expect(estimateTokens("a".repeat(10))).toBe(3);
+  });
+});
+
+describe("createLexicalReranker", () => {
+  const reranker = createLexicalReranker();
+
+  it("lifts chunks that cover the rarer query terms", async () => {
+    const chunks = [
+      chunk("faq:0", "Shuttle buses are available for weddings.", 1),
+      chunk("trips:0", "Wheelchair accessible shuttle buses with lifts.", 0.6),
+      chunk("trips:1", "Shuttle bus pricing for corporate events.", 0.8),
+    ];
+    const ranked = await reranker.rerank("wheelchair accessible shuttle", chunks);
+    expect(ranked.map((c) => c.id)).toEqual(["trips:0", "faq:0", "trips:1"]);
+    expect(ranked[0].rerankScore).toBeGreaterThan(ranked[1].rerankScore);
+  });
+
+  it("keeps the retrieval order when the query has no usable terms", async () => {
+    const chunks = [chunk("faq:0", "one", 0.2), chunk("faq:1", "two", 0.9)];
+    expect(await reranker.rerank("what is the", chunks)).toBe(chunks);
+  });
+
+  it("only uses retrieval scores at a lexical weight of 0", async () => {
+    const ranked = await createLexicalReranker(0).rerank("wheelchair", [chunk("a:0", "wheelchair", 0.1), chunk("b:0", "other", 0.9)]);
+    expect(ranked.map((c) => c.id)).toEqual(["b:0", "a:0"]);
+  });
+});
@@ -0,0 +1,58 @@
+import type { RetrievedChunk } from "./federated.ts";
+
+// Rerankers order merged chunks from several knowledge bases. They see every
+// candidate at once so they can use corpus-level statistics.
+
+export interface Reranker {
+  name: string;
+  rerank(query: string, chunks: RetrievedChunk[]): Promise<RetrievedChunk[]> | RetrievedChunk[];
+}
+
+const STOPWORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "can", "do", "does", "for", "from", "how", "i", "if", "in", "is",
+  "it", "me", "my", "of", "on", "or", "our", "the", "to", "we", "what", "when", "where", "which", "who", "will",
+  "with", "you", "your",
+]);
+
+// Crude plural/possessive folding so "drivers" matches "driver"
+function stem(token: string): string {
+  if (token.length > 4 && token.endsWith("ies")) return `${token.slice(0, -3)}y`;
+  if (token.length > 3 && token.endsWith("s") && !token.endsWith("ss")) return token.slice(0, -1);
+  return token;
+}
+
+export function tokenizeForRetrieval(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9]+/g) || []).filter((t) => !STOPWORDS.has(t)).map(stem);
+}
+
+// Rough token count for budgeting (about 4 characters per token for English text)
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+// Query-term coverage weighted by inverse document frequency across the
+// candidates, blended with each chunk's normalized retrieval score.
+export function createLexicalReranker(lexicalWeight = 0.5): Reranker {
+  return {
+    name: "lexical",
+    rerank(query, chunks) {
+      const queryTerms = [...new Set(tokenizeForRetrieval(query))];
+      if (queryTerms.length === 0 || chunks.length === 0) return chunks;
+
+      const chunkTerms = chunks.map((c) => new Set(tokenizeForRetrieval(c.text)));
+      const idf = new Map(queryTerms.map((term) => {
+        const containing = chunkTerms.filter((terms) => terms.has(term)).length;
+        return [term, Math.log(1 + chunks.length / (1 + containing))];
+      }));
+      const maxWeight = queryTerms.reduce((sum, term) => sum + idf.get(term)!, 0);
+
+      return chunks
+        .map((chunk, i) => {
+          const matched = queryTerms.reduce((sum, term) => sum + (chunkTerms[i].has(term) ? idf.get(term)! : 0), 0);
+          const lexical = maxWeight > 0 ? matched / maxWeight : 0;
+          return { ...chunk, rerankScore: (1 - lexicalWeight) * chunk.normalizedScore + lexicalWeight * lexical };
+        })
+        .sort((a, b) => b.rerankScore - a.rerankScore);
+    },
+  };
+}
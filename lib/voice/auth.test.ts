@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { signVisitorCookie, signVoiceToken, verifyVisitorCookie, verifyVoiceToken } from "./auth.ts";
+
+const secret = "test-secret";
+
+describe("voice tokens", () => {
+  it("carry the subject they were signed for", () => {
+    const { token } = signVoiceToken("visitor:abc", secret);
+    expect(verifyVoiceToken(token, secret)).toMatchObject({ ok: true, claims: { sub: "visitor:abc" } });
+    expect(verifyVoiceToken(signVoiceToken(null, secret).token, secret)).toMatchObject({ ok: true, claims: { sub: null } });
+  });
+
+  it("reject a changed subject", () => {
+    const { token } = signVoiceToken("visitor:abc", secret);
+    const [payload, signature] = token.split(".");
+    const claims = JSON.parse(Buffer.from(payload, "base64url").toString("utf8"));
+    const forged = Buffer.from(JSON.stringify({ ...claims, sub: "visitor:xyz" })).toString("base64url");
+    expect(verifyVoiceToken(`${forged}.${signature}`, secret)).toMatchObject({ ok: false, code: "invalid_token" });
+  });
+
+  it("expire", () => {
+    const { token } = signVoiceToken("visitor:abc", secret, -60);
+    expect(verifyVoiceToken(token, secret)).toMatchObject({ ok: false, code: "token_expired" });
+  });
+});
+
+describe("visitor cookies", () => {
+  it("return the visitor id only when the signature matches", () => {
+    const cookie = signVisitorCookie("3f2a9c1e-7b4d-4e2f-9a61-0c5d8e7f1b23", secret);
+    expect(verifyVisitorCookie(cookie, secret)).toBe("3f2a9c1e-7b4d-4e2f-9a61-0c5d8e7f1b23");
+    expect(verifyVisitorCookie(cookie, "other-secret")).toBeNull();
+    expect(verifyVisitorCookie(cookie.replace(/^3/, "4"), secret)).toBeNull();
+    expect(verifyVisitorCookie(undefined, secret)).toBeNull();
+  });
+
+  it("are not interchangeable with voice tokens", () => {
+    const { token } = signVoiceToken("visitor:abc", secret);
+    expect(verifyVisitorCookie(token, secret)).toBeNull();
+  });
+});
@@ -0,0 +1,112 @@
+import { createHmac, randomUUID, timingSafeEqual } from "node:crypto";
+import { Buffer } from "node:buffer";
+
+// Short-lived tokens that let a browser open a socket to the voice server.
+// /api/voice-token signs one; the voice server checks it in its Socket.IO
+// middleware. Both sides share VOICE_TOKEN_SECRET. The format is
+// base64url(JSON claims) + "." + base64url(HMAC-SHA256 of the first part).
+//
+// The app has no sign-in, so the subject of a token is an anonymous visitor id
+// that /api/voice-token keeps in a cookie signed with the same secret. The
+// client never names it, so the voice server can count per-user limits
+// (lib/voice/limits.ts) against it.
+
+const DEFAULT_TTL_SECONDS = 60;
+// Allowed difference between the clocks of the Next.js app and the voice server
+const CLOCK_SKEW_SECONDS = 30;
+
+export const VOICE_VISITOR_COOKIE = "voice_visitor";
+export const VOICE_VISITOR_COOKIE_MAX_AGE_SECONDS = 365 * 24 * 60 * 60;
+
+export interface VoiceTokenClaims {
+  // Token id
+  jti: string;
+  // The subject the per-user limits are counted for, e.g. "visitor:<id>"
+  sub: string | null;
+  // Issued at / expires at, in seconds since the epoch
+  iat: number;
+  exp: number;
+}
+
+export type VoiceTokenCheck =
+  | { ok: true; claims: VoiceTokenClaims }
+  | { ok: false; code: "missing_token" | "invalid_token" | "token_expired"; error: string };
+
+export class VoiceTokenError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "VoiceTokenError";
+  }
+}
+
+export function getVoiceTokenSecret(): string | null {
+  return process.env.VOICE_TOKEN_SECRET || null;
+}
+
+export function getVoiceTokenTtlSeconds(): number {
+  const configured = Number(process.env.VOICE_TOKEN_TTL_SECONDS);
+  return Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_TTL_SECONDS;
+}
+
+function sign(payload: string, secret: string): string {
+  return createHmac("sha256", secret).update(payload).digest("base64url");
+}
+
+export function signVoiceToken(
+  subject: string | null,
+  secret: string | null = getVoiceTokenSecret(),
+  ttlSeconds: number = getVoiceTokenTtlSeconds(),
+): { token: string; claims: VoiceTokenClaims } {
+  if (!secret) throw new VoiceTokenError("VOICE_TOKEN_SECRET is not set");
+  const iat = Math.floor(Date.now() / 1000);
+  const claims: VoiceTokenClaims = { jti: randomUUID(), sub: subject, iat, exp: iat + ttlSeconds };
+  const payload = Buffer.from(JSON.stringify(claims)).toString("base64url");
+  return { token: `${payload}.${sign(payload, secret)}`, claims };
+}
+
+// The token is only checked when the socket connects, so it just has to be
+// valid for the handshake; a reconnect asks for a new one
+export function verifyVoiceToken(token: unknown, secret: string | null = getVoiceTokenSecret()): VoiceTokenCheck {
+  if (!secret) throw new VoiceTokenError("VOICE_TOKEN_SECRET is not set");
+  if (typeof token !== "string" || !token) return { ok: false, code: "missing_token", error: "A voice token is required" };
+
+  const [payload, signature, extra] = token.split(".");
+  if (!payload || !signature || extra !== undefined) return { ok: false, code: "invalid_token", error: "Malformed voice token" };
+  const expected = Buffer.from(sign(payload, secret));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return { ok: false, code: "invalid_token", error: "Invalid voice token signature" };
+  }
+
+  let claims: VoiceTokenClaims;
+  try {
+    claims = JSON.parse(Buffer.from(payload, "base64url").toString("utf8"));
+  } catch {
+    return { ok: false, code: "invalid_token", error: "Malformed voice token" };
+  }
+  if (typeof claims?.exp !== "number" || typeof claims?.iat !== "number") {
+    return { ok: false, code: "invalid_token", error: "Malformed voice token" };
+  }
+  const now = Math.floor(Date.now() / 1000);
+  if (claims.exp + CLOCK_SKEW_SECONDS < now) return { ok: false, code: "token_expired", error: "Voice token expired" };
+  if (claims.iat - CLOCK_SKEW_SECONDS > now) return { ok: false, code: "invalid_token", error: "Voice token issued in the future" };
+  return { ok: true, claims: { ...claims, sub: typeof claims.sub === "string" && claims.sub ? claims.sub : null } };
+}
+
+// Visitor cookie: "<id>.<HMAC of visitor:<id>>"; the prefix keeps these
+// signatures apart from token signatures
+export function signVisitorCookie(visitorId: string, secret: string | null = getVoiceTokenSecret()): string {
+  if (!secret) throw new VoiceTokenError("VOICE_TOKEN_SECRET is not set");
+  return `${visitorId}.${sign(`visitor:${visitorId}`, secret)}`;
+}
+
+// The visitor id in a cookie this app signed, or null
+export function verifyVisitorCookie(value: unknown, secret: string | null = getVoiceTokenSecret()): string | null {
+  if (!secret) throw new VoiceTokenError("VOICE_TOKEN_SECRET is not set");
+  if (typeof value !== "string") return null;
+  const [visitorId, signature, extra] = value.split(".");
+  if (!visitorId || !signature || extra !== undefined || !/^[A-Za-z0-9-]{1,100}$/.test(visitorId)) return null;
+  const expected = Buffer.from(sign(`visitor:${visitorId}`, secret));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual) ? visitorId : null;
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { VoiceUsageLimiter } from "./limits.ts";
+
+const limits = { connectionsPerIp: 2, connectionsPerUser: 1, streamMinutesPerIp: 10, streamMinutesPerUser: 5, windowMinutes: 60 };
+
+function limiter() {
+  let now = 0;
+  const clock = { advance: (minutes: number) => { now += minutes * 60_000; } };
+  return { limiter: new VoiceUsageLimiter(limits, () => now), clock };
+}
+
+describe("VoiceUsageLimiter", () => {
+  it("limits open connections per address", () => {
+    const { limiter: l } = limiter();
+    const caller = { ip: "10.0.0.1", userId: null };
+    expect(l.openConnection(caller)).toBeNull();
+    expect(l.openConnection(caller)).toBeNull();
+    expect(l.openConnection(caller)).toMatchObject({ code: "connection_limit", scope: "ip", limit: 2 });
+    expect(l.openConnection({ ip: "10.0.0.2", userId: null })).toBeNull();
+
+    l.closeConnection(caller);
+    expect(l.openConnection(caller)).toBeNull();
+  });
+
+  it("counts stream minutes in a rolling window", () => {
+    const { limiter: l, clock } = limiter();
+    const caller = { ip: "10.0.0.1", userId: null };
+    l.startStream("s1", caller);
+    clock.advance(6);
+    l.endStream("s1");
+    expect(l.checkStreamMinutes(caller)).toBeNull();
+
+    l.startStream("s2", caller);
+    clock.advance(4);
+    expect(l.checkStreamMinutes(caller)).toMatchObject({ code: "stream_minutes_limit", scope: "ip", limit: 10, retryAfterSeconds: 3000 });
+    expect(l.exceededStreams().map((s) => s.sessionId)).toEqual(["s2"]);
+    l.endStream("s2");
+
+    // The first stream leaves the window an hour after it started
+    clock.advance(51);
+    expect(l.checkStreamMinutes(caller)).toBeNull();
+  });
+
+  it("limits open connections per token subject across addresses", () => {
+    const { limiter: l } = limiter();
+    const home = { ip: "10.0.0.1", userId: "visitor:a" };
+    expect(l.openConnection(home)).toBeNull();
+    expect(l.openConnection({ ip: "10.0.0.2", userId: "visitor:a" })).toMatchObject({ code: "connection_limit", scope: "user", limit: 1 });
+    expect(l.openConnection({ ip: "10.0.0.1", userId: "visitor:b" })).toBeNull();
+
+    l.closeConnection(home);
+    expect(l.openConnection({ ip: "10.0.0.2", userId: "visitor:a" })).toBeNull();
+  });
+
+  it("counts stream minutes per token subject", () => {
+    const { limiter: l, clock } = limiter();
+    l.startStream("s1", { ip: "10.0.0.1", userId: "visitor:a" });
+    clock.advance(5);
+    l.endStream("s1");
+    expect(l.checkStreamMinutes({ ip: "10.0.0.2", userId: "visitor:a" })).toMatchObject({ code: "stream_minutes_limit", scope: "user", limit: 5 });
+    expect(l.checkStreamMinutes({ ip: "10.0.0.1", userId: "visitor:b" })).toBeNull();
+  });
+
+  it("turns a limit off at 0", () => {
+    const l = new VoiceUsageLimiter({ ...limits, connectionsPerIp: 0 });
+    for (let i = 0; i < 10; i++) expect(l.openConnection({ ip: "10.0.0.1", userId: null })).toBeNull();
+  });
+});
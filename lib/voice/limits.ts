@@ -0,0 +1,168 @@
+// Per-IP and per-user limits for the voice server: how many sockets may be
+// open at once, and how many minutes of Nova Sonic streaming may be used in a
+// rolling window. A stream counts from startSession until it is closed,
+// including a grace period spent waiting for a resume. A limit of 0 turns it off.
+
+export type LimitScope = "ip" | "user";
+
+export interface VoiceUsageLimits {
+  connectionsPerIp: number;
+  connectionsPerUser: number;
+  streamMinutesPerIp: number;
+  streamMinutesPerUser: number;
+  windowMinutes: number;
+}
+
+// Sent to the client when a limit is hit
+export interface LimitExceeded {
+  code: "connection_limit" | "stream_minutes_limit";
+  scope: LimitScope;
+  limit: number;
+  error: string;
+  // When trying again may succeed; absent when it depends on other connections closing
+  retryAfterSeconds?: number;
+}
+
+interface Usage {
+  startedAt: number;
+  // null while the stream is open
+  endedAt: number | null;
+}
+
+export interface VoiceCaller {
+  ip: string;
+  // Subject of the signed voice token: the visitor id /api/voice-token keeps in
+  // a signed cookie. Null when the token check is off; those callers are limited by IP
+  userId: string | null;
+}
+
+function formatWindow(minutes: number): string {
+  return minutes % 60 === 0 ? `${minutes / 60} h` : `${minutes} min`;
+}
+
+function envLimit(name: string, fallback: number): number {
+  const configured = Number(process.env[name]);
+  return Number.isFinite(configured) && configured >= 0 ? configured : fallback;
+}
+
+export function getVoiceUsageLimits(): VoiceUsageLimits {
+  return {
+    connectionsPerIp: envLimit("VOICE_MAX_CONNECTIONS_PER_IP", 5),
+    connectionsPerUser: envLimit("VOICE_MAX_CONNECTIONS_PER_USER", 3),
+    streamMinutesPerIp: envLimit("VOICE_MAX_STREAM_MINUTES_PER_IP", 120),
+    streamMinutesPerUser: envLimit("VOICE_MAX_STREAM_MINUTES_PER_USER", 60),
+    windowMinutes: envLimit("VOICE_STREAM_MINUTES_WINDOW_MINUTES", 24 * 60) || 24 * 60,
+  };
+}
+
+export class VoiceUsageLimiter {
+  private connections = new Map<string, number>();
+  private usage = new Map<string, Usage[]>();
+  // Open streams by session id, with the usage entries they keep open
+  private streams = new Map<string, { caller: VoiceCaller; entries: Usage[] }>();
+
+  readonly limits: VoiceUsageLimits;
+  private now: () => number;
+
+  constructor(limits: VoiceUsageLimits = getVoiceUsageLimits(), now: () => number = Date.now) {
+    this.limits = limits;
+    this.now = now;
+  }
+
+  private keys({ ip, userId }: VoiceCaller): { scope: LimitScope; key: string }[] {
+    const keys: { scope: LimitScope; key: string }[] = [{ scope: "ip", key: `ip:${ip}` }];
+    if (userId) keys.push({ scope: "user", key: `user:${userId}` });
+    return keys;
+  }
+
+  // Counts the connection unless that would go over a limit
+  openConnection(caller: VoiceCaller): LimitExceeded | null {
+    const keys = this.keys(caller);
+    for (const { scope, key } of keys) {
+      const limit = scope === "ip" ? this.limits.connectionsPerIp : this.limits.connectionsPerUser;
+      if (limit > 0 && (this.connections.get(key) || 0) >= limit) {
+        return {
+          code: "connection_limit",
+          scope,
+          limit,
+          error: `Too many open voice connections for this ${scope === "ip" ? "address" : "user"} (limit ${limit})`,
+        };
+      }
+    }
+    for (const { key } of keys) this.connections.set(key, (this.connections.get(key) || 0) + 1);
+    return null;
+  }
+
+  closeConnection(caller: VoiceCaller) {
+    for (const { key } of this.keys(caller)) {
+      const count = (this.connections.get(key) || 0) - 1;
+      if (count > 0) this.connections.set(key, count);
+      else this.connections.delete(key);
+    }
+  }
+
+  // Streamed milliseconds inside the window; forgets usage that has left it
+  private usedMs(key: string): number {
+    const now = this.now();
+    const windowStart = now - this.limits.windowMinutes * 60_000;
+    const entries = (this.usage.get(key) || []).filter((entry) => entry.endedAt === null || entry.endedAt > windowStart);
+    if (entries.length > 0) this.usage.set(key, entries);
+    else this.usage.delete(key);
+    return entries.reduce((total, entry) => total + (entry.endedAt ?? now) - Math.max(entry.startedAt, windowStart), 0);
+  }
+
+  // Approximate: the oldest usage starts leaving the window then
+  private retryAfterSeconds(key: string): number {
+    const oldest = Math.min(...(this.usage.get(key) || []).map((entry) => entry.startedAt));
+    const seconds = Math.ceil((oldest + this.limits.windowMinutes * 60_000 - this.now()) / 1000);
+    return Number.isFinite(seconds) ? Math.max(1, seconds) : 1;
+  }
+
+  // The first stream-minute limit the caller is at or over, if any
+  checkStreamMinutes(caller: VoiceCaller): LimitExceeded | null {
+    for (const { scope, key } of this.keys(caller)) {
+      const limit = scope === "ip" ? this.limits.streamMinutesPerIp : this.limits.streamMinutesPerUser;
+      if (limit > 0 && this.usedMs(key) >= limit * 60_000) {
+        return {
+          code: "stream_minutes_limit",
+          scope,
+          limit,
+          error: `Voice minutes used up for this ${scope === "ip" ? "address" : "user"} (${limit} min per ${formatWindow(this.limits.windowMinutes)})`,
+          retryAfterSeconds: this.retryAfterSeconds(key),
+        };
+      }
+    }
+    return null;
+  }
+
+  startStream(sessionId: string, caller: VoiceCaller) {
+    if (this.streams.has(sessionId)) return;
+    const startedAt = this.now();
+    const entries = this.keys(caller).map(({ key }) => {
+      const entry: Usage = { startedAt, endedAt: null };
+      this.usage.set(key, [...(this.usage.get(key) || []), entry]);
+      return entry;
+    });
+    this.streams.set(sessionId, { caller, entries });
+  }
+
+  endStream(sessionId: string) {
+    const stream = this.streams.get(sessionId);
+    if (!stream) return;
+    const endedAt = this.now();
+    for (const entry of stream.entries) entry.endedAt = endedAt;
+    this.streams.delete(sessionId);
+  }
+
+  // Open streams whose caller has run out of minutes. Meant to be polled, so it
+  // also forgets callers whose usage has all left the window.
+  exceededStreams(): { sessionId: string; exceeded: LimitExceeded }[] {
+    for (const key of [...this.usage.keys()]) this.usedMs(key);
+    const result: { sessionId: string; exceeded: LimitExceeded }[] = [];
+    for (const [sessionId, { caller }] of this.streams) {
+      const exceeded = this.checkStreamMinutes(caller);
+      if (exceeded) result.push({ sessionId, exceeded });
+    }
+    return result;
+  }
+}
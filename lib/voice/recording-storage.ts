@@ -0,0 +1,89 @@
+import { PutObjectCommand, S3Client } from "@aws-sdk/client-s3";
+import { promises as fs } from "fs";
+import path from "path";
+
+// Where voice call recordings are uploaded. Keys are relative
+// ("<transcriptId>/<recordingId>.wav"); each backend adds its own root.
+
+export interface VoiceRecordingStorage {
+  // Returns where the object was stored (s3:// URI or local path)
+  put(key: string, body: Buffer, contentType: string): Promise<string>;
+}
+
+export class VoiceRecordingStorageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "VoiceRecordingStorageError";
+  }
+}
+
+// ---------------- S3 storage ---------------- //
+
+// The voice bucket shared with /api/s3 (AWS_VOICE_BUCKET), under VOICE_RECORDING_PREFIX
+export class S3VoiceRecordingStorage implements VoiceRecordingStorage {
+  private s3 = new S3Client({
+    region: process.env.AWS_REGION || "us-east-1",
+    credentials: {
+      accessKeyId: process.env.NEXT_PUBLIC_AWS_ACCESS_KEY_ID || process.env.AWS_ACCESS_KEY_ID || "",
+      secretAccessKey: process.env.NEXT_PUBLIC_AWS_SECRET_ACCESS_KEY || process.env.AWS_SECRET_ACCESS_KEY || "",
+    },
+  });
+
+  private bucket: string;
+  private prefix: string;
+
+  constructor(
+    bucket: string = process.env.AWS_VOICE_BUCKET || "",
+    prefix: string = process.env.VOICE_RECORDING_PREFIX || "recordings/",
+  ) {
+    this.bucket = bucket;
+    this.prefix = prefix;
+  }
+
+  async put(key: string, body: Buffer, contentType: string): Promise<string> {
+    const objectKey = `${this.prefix}${key}`;
+    try {
+      await this.s3.send(new PutObjectCommand({ Bucket: this.bucket, Key: objectKey, Body: body, ContentType: contentType }));
+    } catch (error) {
+      console.error("Voice recording upload error:", error);
+      throw new VoiceRecordingStorageError("Failed to upload voice recording");
+    }
+    return `s3://${this.bucket}/${objectKey}`;
+  }
+}
+
+// ---------------- Local storage ---------------- //
+
+// Files under .data/voice-recordings/ for development without AWS
+export class LocalVoiceRecordingStorage implements VoiceRecordingStorage {
+  private dir: string;
+
+  constructor(dir: string = process.env.VOICE_RECORDING_DIR || path.join(process.cwd(), ".data", "voice-recordings")) {
+    this.dir = dir;
+  }
+
+  async put(key: string, body: Buffer): Promise<string> {
+    const file = path.resolve(this.dir, key);
+    if (!file.startsWith(path.resolve(this.dir) + path.sep)) throw new VoiceRecordingStorageError("Invalid recording key");
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, body);
+    return file;
+  }
+}
+
+let storage: VoiceRecordingStorage | null = null;
+
+// S3 when AWS_VOICE_BUCKET is set (or VOICE_RECORDING_STORAGE=s3), otherwise local files
+export function getVoiceRecordingStorage(): VoiceRecordingStorage {
+  if (!storage) {
+    const useS3 = process.env.VOICE_RECORDING_STORAGE
+      ? process.env.VOICE_RECORDING_STORAGE === "s3"
+      : !!process.env.AWS_VOICE_BUCKET;
+    storage = useS3 ? new S3VoiceRecordingStorage() : new LocalVoiceRecordingStorage();
+  }
+  return storage;
+}
+
+export function setVoiceRecordingStorage(next: VoiceRecordingStorage) {
+  storage = next;
+}
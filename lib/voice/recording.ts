@@ -0,0 +1,164 @@
+import type { VoiceTranscriptAgent } from "./transcript.ts";
+import type { VoiceRecordingStorage } from "./recording-storage.ts";
+
+// Consent-gated call recording for the voice server. The caller's mic audio
+// and the assistant's speech are kept as separate channels (left = caller,
+// right = assistant) on one timeline and written as a 16-bit stereo WAV, with
+// a JSON sidecar that links the recording to the session's transcript.
+
+export type RecordingChannel = "caller" | "assistant";
+
+const CHANNELS: RecordingChannel[] = ["caller", "assistant"];
+const BYTES_PER_SAMPLE = 2;
+// Arrival jitter below this doesn't open a gap of silence in a channel
+const GAP_TOLERANCE_MS = 250;
+const DEFAULT_MAX_MINUTES = 30;
+
+export interface RecordingInfo {
+  recordingId: string;
+  transcriptId: string;
+  sessionId: string;
+  agentType: VoiceTranscriptAgent;
+  userId: string | null;
+}
+
+export interface VoiceRecordingMetadata extends RecordingInfo {
+  // Recording starts when the caller consents, not when the session starts
+  consentedAt: string;
+  endedAt: string;
+  durationSeconds: number;
+  sampleRate: number;
+  format: "wav";
+  channels: RecordingChannel[];
+  // Where the WAV was stored (s3:// URI or local path)
+  audio: string;
+  // The transcript of the same session
+  transcript: { id: string; url: string };
+}
+
+interface Chunk {
+  // Position on the recording timeline, in samples
+  offset: number;
+  pcm: Buffer;
+}
+
+export function getRecordingMaxSeconds(): number {
+  const configured = Number(process.env.VOICE_RECORDING_MAX_MINUTES);
+  return (Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_MAX_MINUTES) * 60;
+}
+
+// 16-bit PCM, one Buffer per channel of equal length, interleaved into a RIFF/WAVE file
+export function encodeWav(channels: Buffer[], sampleRate: number): Buffer {
+  const samples = channels.length > 0 ? channels[0].length / BYTES_PER_SAMPLE : 0;
+  const blockAlign = channels.length * BYTES_PER_SAMPLE;
+  const dataSize = samples * blockAlign;
+  const wav = Buffer.alloc(44 + dataSize);
+
+  wav.write("RIFF", 0, "ascii");
+  wav.writeUInt32LE(36 + dataSize, 4);
+  wav.write("WAVE", 8, "ascii");
+  wav.write("fmt ", 12, "ascii");
+  wav.writeUInt32LE(16, 16);
+  wav.writeUInt16LE(1, 20); // PCM
+  wav.writeUInt16LE(channels.length, 22);
+  wav.writeUInt32LE(sampleRate, 24);
+  wav.writeUInt32LE(sampleRate * blockAlign, 28);
+  wav.writeUInt16LE(blockAlign, 32);
+  wav.writeUInt16LE(BYTES_PER_SAMPLE * 8, 34);
+  wav.write("data", 36, "ascii");
+  wav.writeUInt32LE(dataSize, 40);
+
+  for (let i = 0; i < samples; i++) {
+    for (let c = 0; c < channels.length; c++) {
+      wav.writeInt16LE(channels[c].readInt16LE(i * BYTES_PER_SAMPLE), 44 + i * blockAlign + c * BYTES_PER_SAMPLE);
+    }
+  }
+  return wav;
+}
+
+export class CallRecorder {
+  readonly consentedAt = new Date().toISOString();
+  private startedAtMs = Date.now();
+  private chunks: Record<RecordingChannel, Chunk[]> = { caller: [], assistant: [] };
+  // End of the audio placed so far in each channel, in samples
+  private cursor: Record<RecordingChannel, number> = { caller: 0, assistant: 0 };
+  private full = false;
+  readonly info: RecordingInfo;
+  readonly sampleRate: number;
+  private maxSeconds: number;
+
+  constructor(info: RecordingInfo, sampleRate: number = 24000, maxSeconds: number = getRecordingMaxSeconds()) {
+    this.info = info;
+    this.sampleRate = sampleRate;
+    this.maxSeconds = maxSeconds;
+  }
+
+  private now(): number {
+    return Math.round(((Date.now() - this.startedAtMs) / 1000) * this.sampleRate);
+  }
+
+  // Chunks go right after the previous one in their channel, or at the current
+  // time if the channel has been quiet. The assistant's audio arrives faster
+  // than it plays, so its chunks queue up the way the client plays them.
+  // Returns false once the recording has reached its maximum length.
+  append(channel: RecordingChannel, pcm: Buffer): boolean {
+    if (this.full || pcm.length < BYTES_PER_SAMPLE) return !this.full;
+    const now = this.now();
+    const tolerance = (GAP_TOLERANCE_MS / 1000) * this.sampleRate;
+    const offset = now - this.cursor[channel] > tolerance ? now : this.cursor[channel];
+    const samples = Math.floor(pcm.length / BYTES_PER_SAMPLE);
+    if (offset + samples > this.maxSeconds * this.sampleRate) {
+      this.full = true;
+      return false;
+    }
+    this.chunks[channel].push({ offset, pcm: pcm.subarray(0, samples * BYTES_PER_SAMPLE) });
+    this.cursor[channel] = offset + samples;
+    return true;
+  }
+
+  // Drop audio queued past the current time (the client stopped playing it on barge-in)
+  cutOff(channel: RecordingChannel) {
+    const now = this.now();
+    if (this.cursor[channel] <= now) return;
+    this.chunks[channel] = this.chunks[channel].flatMap((chunk) => {
+      if (chunk.offset >= now) return [];
+      const keep = (now - chunk.offset) * BYTES_PER_SAMPLE;
+      return keep < chunk.pcm.length ? [{ offset: chunk.offset, pcm: chunk.pcm.subarray(0, keep) }] : [chunk];
+    });
+    this.cursor[channel] = now;
+  }
+
+  get durationSeconds(): number {
+    return Math.max(...CHANNELS.map((channel) => this.cursor[channel])) / this.sampleRate;
+  }
+
+  toWav(): Buffer {
+    const length = Math.max(...CHANNELS.map((channel) => this.cursor[channel])) * BYTES_PER_SAMPLE;
+    const tracks = CHANNELS.map((channel) => {
+      const track = Buffer.alloc(length);
+      for (const chunk of this.chunks[channel]) chunk.pcm.copy(track, chunk.offset * BYTES_PER_SAMPLE);
+      return track;
+    });
+    return encodeWav(tracks, this.sampleRate);
+  }
+}
+
+// Writes <transcriptId>/<recordingId>.wav and its .json sidecar
+export async function saveRecording(recorder: CallRecorder, storage: VoiceRecordingStorage): Promise<VoiceRecordingMetadata> {
+  const { info } = recorder;
+  const base = `${info.transcriptId}/${info.recordingId}`;
+  const audio = await storage.put(`${base}.wav`, recorder.toWav(), "audio/wav");
+  const metadata: VoiceRecordingMetadata = {
+    ...info,
+    consentedAt: recorder.consentedAt,
+    endedAt: new Date().toISOString(),
+    durationSeconds: Number(recorder.durationSeconds.toFixed(2)),
+    sampleRate: recorder.sampleRate,
+    format: "wav",
+    channels: CHANNELS,
+    audio,
+    transcript: { id: info.transcriptId, url: `/api/voice-transcripts/${info.transcriptId}` },
+  };
+  await storage.put(`${base}.json`, Buffer.from(JSON.stringify(metadata, null, 2)), "application/json");
+  return metadata;
+}
@@ -0,0 +1,49 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { LocalVoiceTranscriptStore } from "./store.ts";
+import type { VoiceTranscript, VoiceTranscriptAgent } from "./transcript.ts";
+
+function transcript(id: string, agentType: VoiceTranscriptAgent, minute: number): VoiceTranscript {
+  const startedAt = new Date(Date.UTC(2026, 9, 19, 12, minute)).toISOString();
+  return { id, agentType, userId: null, voiceId: null, startedAt, updatedAt: startedAt, endedAt: null, turns: [] };
+}
+
+let dir: string;
+let store: LocalVoiceTranscriptStore;
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), "voice-transcripts-"));
+  store = new LocalVoiceTranscriptStore(dir);
+  await store.save(transcript("a", "retrieval", 1));
+  await store.save(transcript("b", "booking", 2));
+  await store.save(transcript("c", "retrieval", 3));
+  await store.save(transcript("d", "booking", 4));
+});
+afterEach(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+describe("LocalVoiceTranscriptStore.list", () => {
+  it("pages newest first", async () => {
+    const first = await store.list({ limit: 3 });
+    expect(first.transcripts.map((t) => t.id)).toEqual(["d", "c", "b"]);
+    expect(first.nextCursor).not.toBeNull();
+
+    const second = await store.list({ limit: 3, cursor: first.nextCursor! });
+    expect(second.transcripts.map((t) => t.id)).toEqual(["a"]);
+    expect(second.nextCursor).toBeNull();
+  });
+
+  it("filters by agent across pages", async () => {
+    const first = await store.list({ agentType: "retrieval", limit: 1 });
+    expect(first.transcripts.map((t) => t.id)).toEqual(["c"]);
+    const second = await store.list({ agentType: "retrieval", limit: 1, cursor: first.nextCursor! });
+    expect(second.transcripts.map((t) => t.id)).toEqual(["a"]);
+    expect(second.nextCursor).toBeNull();
+  });
+
+  it("is empty before anything was saved", async () => {
+    expect(await new LocalVoiceTranscriptStore(path.join(dir, "missing")).list()).toEqual({ transcripts: [], nextCursor: null });
+  });
+});
@@ -0,0 +1,252 @@
+import { GetObjectCommand, ListObjectsV2Command, PutObjectCommand, S3Client } from "@aws-sdk/client-s3";
+import { promises as fs } from "fs";
+import path from "path";
+import { summarizeTranscript, type VoiceTranscript, type VoiceTranscriptAgent, type VoiceTranscriptSummary } from "./transcript.ts";
+
+// Persistence for voice session transcripts. The voice server saves the whole
+// transcript again after every completed turn; the admin panel lists and
+// reads them through /api/voice-transcripts.
+
+export interface VoiceTranscriptQuery {
+  agentType?: VoiceTranscriptAgent;
+  userId?: string;
+  // Page size (default 50, at most 200) and the `nextCursor` of the previous page
+  limit?: number;
+  cursor?: string;
+}
+
+export interface VoiceTranscriptPage {
+  transcripts: VoiceTranscriptSummary[];
+  // Null on the last page
+  nextCursor: string | null;
+}
+
+export interface VoiceTranscriptStore {
+  // Replaces any earlier copy with the same id
+  save(transcript: VoiceTranscript): Promise<void>;
+  // Newest first
+  list(query?: VoiceTranscriptQuery): Promise<VoiceTranscriptPage>;
+  get(id: string): Promise<VoiceTranscript | null>;
+}
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+// Upper bound on summaries a filtered S3 listing reads for one page
+const MAX_SCANNED_SUMMARIES = 1000;
+// Start times are subtracted from this (milliseconds, in the year 2286) so keys sort newest first
+const MAX_TIME = 9_999_999_999_999;
+
+export class VoiceTranscriptStoreError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "VoiceTranscriptStoreError";
+  }
+}
+
+// Ids are UUIDs from the voice server; anything else is rejected before it
+// reaches a file path or object key
+export function isValidTranscriptId(id: string): boolean {
+  return /^[A-Za-z0-9-]{1,100}$/.test(id);
+}
+
+function matches(summary: VoiceTranscriptSummary, query: VoiceTranscriptQuery): boolean {
+  return (!query.agentType || summary.agentType === query.agentType) &&
+    (!query.userId || summary.userId === query.userId);
+}
+
+function pageSize(limit: number | undefined): number {
+  return limit && limit > 0 ? Math.min(Math.floor(limit), MAX_PAGE_SIZE) : DEFAULT_PAGE_SIZE;
+}
+
+// Sorts newest first and names the agent, so both stores page by it and S3 can
+// filter on the agent without reading anything: "<inverted start>_<agent>_<id>"
+function sortKey(summary: VoiceTranscriptSummary): string {
+  const inverted = String(MAX_TIME - Date.parse(summary.startedAt)).padStart(13, "0");
+  return `${inverted}_${summary.agentType}_${summary.id}`;
+}
+
+// ---------------- S3 store ---------------- //
+
+// One JSON object per session under VOICE_TRANSCRIPT_PREFIX in VOICE_TRANSCRIPT_BUCKET,
+// plus its summary under summaries/, keyed by sortKey() so listing a page only
+// reads that page's summaries
+export class S3VoiceTranscriptStore implements VoiceTranscriptStore {
+  private s3 = new S3Client({
+    region: process.env.AWS_REGION || "us-east-1",
+    credentials: {
+      accessKeyId: process.env.NEXT_PUBLIC_AWS_ACCESS_KEY_ID || process.env.AWS_ACCESS_KEY_ID || "",
+      secretAccessKey: process.env.NEXT_PUBLIC_AWS_SECRET_ACCESS_KEY || process.env.AWS_SECRET_ACCESS_KEY || "",
+    },
+  });
+
+  private bucket: string;
+  private prefix: string;
+
+  constructor(
+    bucket: string = process.env.VOICE_TRANSCRIPT_BUCKET || "",
+    prefix: string = process.env.VOICE_TRANSCRIPT_PREFIX || "voice-transcripts/",
+  ) {
+    this.bucket = bucket;
+    this.prefix = prefix;
+  }
+
+  private key(id: string) {
+    return `${this.prefix}${id}.json`;
+  }
+
+  private get summaryPrefix() {
+    return `${this.prefix}summaries/`;
+  }
+
+  private async read<T>(key: string): Promise<T | null> {
+    try {
+      const response = await this.s3.send(new GetObjectCommand({ Bucket: this.bucket, Key: key }));
+      const body = await response.Body?.transformToString();
+      return body ? JSON.parse(body) : null;
+    } catch (error: any) {
+      if (error?.name === "NoSuchKey") return null;
+      console.error("Voice transcript read error:", error);
+      throw new VoiceTranscriptStoreError("Failed to read voice transcript");
+    }
+  }
+
+  async save(transcript: VoiceTranscript): Promise<void> {
+    const summary = summarizeTranscript(transcript);
+    try {
+      await Promise.all([
+        this.s3.send(new PutObjectCommand({
+          Bucket: this.bucket,
+          Key: this.key(transcript.id),
+          Body: JSON.stringify(transcript),
+          ContentType: "application/json",
+        })),
+        this.s3.send(new PutObjectCommand({
+          Bucket: this.bucket,
+          Key: `${this.summaryPrefix}${sortKey(summary)}.json`,
+          Body: JSON.stringify(summary),
+          ContentType: "application/json",
+        })),
+      ]);
+    } catch (error) {
+      console.error("Voice transcript write error:", error);
+      throw new VoiceTranscriptStoreError("Failed to save voice transcript");
+    }
+  }
+
+  // Lists only as many summary keys as the page still needs, so the cursor is
+  // exactly the last key looked at
+  async list(query: VoiceTranscriptQuery = {}): Promise<VoiceTranscriptPage> {
+    const limit = pageSize(query.limit);
+    const transcripts: VoiceTranscriptSummary[] = [];
+    let startAfter = query.cursor ? `${this.summaryPrefix}${query.cursor}.json` : undefined;
+    let scanned = 0;
+
+    while (transcripts.length < limit && scanned < MAX_SCANNED_SUMMARIES) {
+      let keys: string[];
+      let truncated: boolean;
+      try {
+        const page = await this.s3.send(new ListObjectsV2Command({
+          Bucket: this.bucket,
+          Prefix: this.summaryPrefix,
+          StartAfter: startAfter,
+          MaxKeys: limit - transcripts.length,
+        }));
+        keys = (page.Contents || []).map((object) => object.Key || "").filter((key) => key.endsWith(".json"));
+        truncated = !!page.IsTruncated;
+      } catch (error) {
+        console.error("Voice transcript list error:", error);
+        throw new VoiceTranscriptStoreError("Failed to list voice transcripts");
+      }
+      if (keys.length === 0) return { transcripts, nextCursor: null };
+
+      scanned += keys.length;
+      startAfter = keys[keys.length - 1];
+      const wanted = keys.filter((key) => !query.agentType || key.slice(this.summaryPrefix.length).split("_")[1] === query.agentType);
+      const summaries = await Promise.all(wanted.map((key) => this.read<VoiceTranscriptSummary>(key)));
+      for (const summary of summaries) if (summary && matches(summary, query)) transcripts.push(summary);
+      if (!truncated) return { transcripts, nextCursor: null };
+    }
+
+    return { transcripts, nextCursor: startAfter!.slice(this.summaryPrefix.length, -".json".length) };
+  }
+
+  async get(id: string): Promise<VoiceTranscript | null> {
+    if (!isValidTranscriptId(id)) return null;
+    return this.read<VoiceTranscript>(this.key(id));
+  }
+}
+
+// ---------------- Local store ---------------- //
+
+// One JSON file per session, so concurrent voice sessions never rewrite each other's data
+export class LocalVoiceTranscriptStore implements VoiceTranscriptStore {
+  private dir: string;
+
+  constructor(dir: string = process.env.VOICE_TRANSCRIPT_DIR || path.join(process.cwd(), ".data", "voice-transcripts")) {
+    this.dir = dir;
+  }
+
+  private file(id: string) {
+    return path.join(this.dir, `${id}.json`);
+  }
+
+  async save(transcript: VoiceTranscript): Promise<void> {
+    if (!isValidTranscriptId(transcript.id)) throw new VoiceTranscriptStoreError("Invalid transcript id");
+    await fs.mkdir(this.dir, { recursive: true });
+    // Write then rename so a reader never sees a half-written file
+    const temp = `${this.file(transcript.id)}.tmp`;
+    await fs.writeFile(temp, JSON.stringify(transcript, null, 2));
+    await fs.rename(temp, this.file(transcript.id));
+  }
+
+  // Reads every file; fine for development, which is what this store is for
+  async list(query: VoiceTranscriptQuery = {}): Promise<VoiceTranscriptPage> {
+    let files: string[];
+    try {
+      files = (await fs.readdir(this.dir)).filter((file) => file.endsWith(".json"));
+    } catch (error: any) {
+      if (error?.code === "ENOENT") return { transcripts: [], nextCursor: null };
+      throw error;
+    }
+    const transcripts = await Promise.all(files.map((file) => this.get(file.slice(0, -".json".length))));
+    const summaries = transcripts
+      .filter((t): t is VoiceTranscript => !!t)
+      .map((transcript) => {
+        const summary = summarizeTranscript(transcript);
+        return { summary, key: sortKey(summary) };
+      })
+      .filter((entry) => matches(entry.summary, query) && (!query.cursor || entry.key > query.cursor))
+      .sort((a, b) => a.key.localeCompare(b.key));
+
+    const page = summaries.slice(0, pageSize(query.limit));
+    const more = summaries.length > page.length;
+    return { transcripts: page.map((entry) => entry.summary), nextCursor: more ? page[page.length - 1].key : null };
+  }
+
+  async get(id: string): Promise<VoiceTranscript | null> {
+    if (!isValidTranscriptId(id)) return null;
+    try {
+      return JSON.parse(await fs.readFile(this.file(id), "utf8"));
+    } catch (error: any) {
+      if (error?.code === "ENOENT") return null;
+      throw error;
+    }
+  }
+}
+
+let store: VoiceTranscriptStore | null = null;
+
+// S3 when VOICE_TRANSCRIPT_BUCKET is set (or VOICE_TRANSCRIPT_STORE=s3), otherwise .data/voice-transcripts/
+export function getVoiceTranscriptStore(): VoiceTranscriptStore {
+  if (!store) {
+    const useS3 = process.env.VOICE_TRANSCRIPT_STORE
+      ? process.env.VOICE_TRANSCRIPT_STORE === "s3"
+      : !!process.env.VOICE_TRANSCRIPT_BUCKET;
+    store = useS3 ? new S3VoiceTranscriptStore() : new LocalVoiceTranscriptStore();
+  }
+  return store;
+}
+
+export function setVoiceTranscriptStore(next: VoiceTranscriptStore) {
+  store = next;
+}
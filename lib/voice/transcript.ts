@@ -0,0 +1,259 @@
+// Turn-by-turn transcript of a Nova Sonic voice session, built by the voice
+// server (src/server.ts) from the stream's contentStart / textOutput /
+// contentEnd events and the tool calls it runs.
+
+export type VoiceTranscriptAgent = "retrieval" | "booking";
+export type VoiceRole = "USER" | "ASSISTANT";
+
+export interface VoiceToolCall {
+  toolUseId: string;
+  name: string;
+  input: unknown;
+  status: "pending" | "success" | "error";
+  result: string | null;
+  startedAt: string;
+  completedAt: string | null;
+}
+
+export interface VoiceTurn {
+  // contentId of the turn's first text content (or the tool use that opened it)
+  id: string;
+  role: VoiceRole;
+  // ASR text for the caller, spoken text for the assistant
+  text: string;
+  startedAt: string;
+  endedAt: string | null;
+  // The caller talked over the assistant before it finished this turn
+  interrupted: boolean;
+  toolCalls: VoiceToolCall[];
+}
+
+export interface VoiceTranscript {
+  id: string;
+  agentType: VoiceTranscriptAgent;
+  userId: string | null;
+  voiceId: string | null;
+  startedAt: string;
+  updatedAt: string;
+  // Set when the session closed
+  endedAt: string | null;
+  turns: VoiceTurn[];
+}
+
+export interface VoiceTranscriptSummary {
+  id: string;
+  agentType: VoiceTranscriptAgent;
+  userId: string | null;
+  startedAt: string;
+  endedAt: string | null;
+  turnCount: number;
+  // First thing the caller said
+  preview: string;
+}
+
+const MAX_TOOL_RESULT_LENGTH = 20_000;
+
+// Nova Sonic signals barge-in as an assistant text of { "interrupted" : true }
+export function isInterruptedSignal(text: unknown): boolean {
+  return typeof text === "string" && /^\s*\{\s*"interrupted"\s*:\s*true\s*\}\s*$/.test(text);
+}
+
+export function summarizeTranscript(transcript: VoiceTranscript): VoiceTranscriptSummary {
+  const firstUserTurn = transcript.turns.find((t) => t.role === "USER" && t.text);
+  return {
+    id: transcript.id,
+    agentType: transcript.agentType,
+    userId: transcript.userId,
+    startedAt: transcript.startedAt,
+    endedAt: transcript.endedAt,
+    turnCount: transcript.turns.length,
+    preview: firstUserTurn ? firstUserTurn.text.slice(0, 200) : "",
+  };
+}
+
+interface TurnText {
+  turn: VoiceTurn;
+  // Assistant text comes twice: SPECULATIVE before the audio is generated and
+  // FINAL for what was actually spoken. Speculative text only counts after the
+  // last final part, i.e. for the sentence still being spoken (or cut off).
+  parts: { text: string; speculative: boolean }[];
+}
+
+interface TrackedContent {
+  entry: TurnText;
+  speculative: boolean;
+}
+
+function generationStage(data: any): string | null {
+  try {
+    const fields = typeof data?.additionalModelFields === "string"
+      ? JSON.parse(data.additionalModelFields)
+      : data?.additionalModelFields;
+    return typeof fields?.generationStage === "string" ? fields.generationStage : null;
+  } catch {
+    return null;
+  }
+}
+
+function roleOf(value: unknown): VoiceRole | null {
+  return value === "USER" || value === "ASSISTANT" ? value : null;
+}
+
+// Consecutive text contents from the same role are one turn. Every method
+// returns the turn it changed (null when the event doesn't affect the
+// transcript) so the caller can push just that turn to the client.
+export class VoiceTranscriptBuilder {
+  private turns: TurnText[] = [];
+  private contents = new Map<string, TrackedContent>();
+  private startedAt = new Date().toISOString();
+  private updatedAt = this.startedAt;
+  private endedAt: string | null = null;
+  readonly id: string;
+  readonly agentType: VoiceTranscriptAgent;
+  readonly userId: string | null;
+  readonly voiceId: string | null;
+
+  constructor(id: string, agentType: VoiceTranscriptAgent, userId: string | null = null, voiceId: string | null = null) {
+    this.id = id;
+    this.agentType = agentType;
+    this.userId = userId;
+    this.voiceId = voiceId;
+  }
+
+  private touch(): string {
+    this.updatedAt = new Date().toISOString();
+    return this.updatedAt;
+  }
+
+  private lastTurn(role?: VoiceRole): TurnText | null {
+    const last = this.turns[this.turns.length - 1];
+    return last && (!role || last.turn.role === role) ? last : null;
+  }
+
+  // The caller's speech may already have opened a new turn by the time the
+  // interruption of the assistant's previous one is reported
+  private latestAssistantTurn(): TurnText | null {
+    for (let i = this.turns.length - 1; i >= 0; i--) {
+      if (this.turns[i].turn.role === "ASSISTANT") return this.turns[i];
+    }
+    return null;
+  }
+
+  private openTurn(role: VoiceRole, id: string): TurnText {
+    const current = this.lastTurn(role);
+    if (current) return current;
+    const entry: TurnText = {
+      turn: { id, role, text: "", startedAt: this.touch(), endedAt: null, interrupted: false, toolCalls: [] },
+      parts: [],
+    };
+    this.turns.push(entry);
+    return entry;
+  }
+
+  private compose(entry: TurnText): VoiceTurn {
+    const lastFinal = entry.parts.map((part) => part.speculative).lastIndexOf(false);
+    entry.turn.text = entry.parts
+      .filter((part, index) => !part.speculative || index > lastFinal)
+      .map((part) => part.text)
+      .join(" ");
+    return { ...entry.turn, toolCalls: entry.turn.toolCalls.map((call) => ({ ...call })) };
+  }
+
+  contentStart(data: any): VoiceTurn | null {
+    const role = roleOf(data?.role);
+    if (data?.type !== "TEXT" || !role || !data?.contentId) return null;
+    const entry = this.openTurn(role, data.contentId);
+    this.contents.set(data.contentId, { entry, speculative: role === "ASSISTANT" && generationStage(data) === "SPECULATIVE" });
+    return this.compose(entry);
+  }
+
+  textOutput(data: any): VoiceTurn | null {
+    if (isInterruptedSignal(data?.content)) return this.markInterrupted();
+    const text = typeof data?.content === "string" ? data.content.trim() : "";
+    if (!text) return null;
+
+    // Text for a content we never saw start still belongs to the speaker's turn
+    let tracked = data?.contentId ? this.contents.get(data.contentId) : undefined;
+    if (!tracked) {
+      const role = roleOf(data?.role);
+      if (!role) return null;
+      tracked = { entry: this.openTurn(role, data.contentId || `${role.toLowerCase()}-${this.turns.length}`), speculative: false };
+    }
+    tracked.entry.parts.push({ text, speculative: tracked.speculative });
+    this.touch();
+    return this.compose(tracked.entry);
+  }
+
+  contentEnd(data: any): VoiceTurn | null {
+    const tracked = data?.contentId ? this.contents.get(data.contentId) : undefined;
+    const interrupted = data?.stopReason === "INTERRUPTED";
+    // Audio contents aren't tracked, but an interrupted one ends the assistant's turn
+    const entry = tracked?.entry ?? (interrupted ? this.latestAssistantTurn() : null);
+    if (!entry) return null;
+    if (tracked) this.contents.delete(data.contentId);
+    entry.turn.endedAt = this.touch();
+    if (interrupted && entry.turn.role === "ASSISTANT") entry.turn.interrupted = true;
+    return this.compose(entry);
+  }
+
+  markInterrupted(): VoiceTurn | null {
+    const entry = this.latestAssistantTurn();
+    if (!entry) return null;
+    entry.turn.interrupted = true;
+    this.touch();
+    return this.compose(entry);
+  }
+
+  toolUse(data: any): VoiceTurn | null {
+    if (!data?.toolUseId) return null;
+    let input: unknown = data.content ?? null;
+    if (typeof input === "string") {
+      try {
+        input = JSON.parse(input);
+      } catch {
+        // Keep the raw string
+      }
+    }
+    const entry = this.openTurn("ASSISTANT", data.toolUseId);
+    entry.turn.toolCalls.push({
+      toolUseId: data.toolUseId,
+      name: String(data.toolName || ""),
+      input,
+      status: "pending",
+      result: null,
+      startedAt: this.touch(),
+      completedAt: null,
+    });
+    return this.compose(entry);
+  }
+
+  toolResult(data: any): VoiceTurn | null {
+    for (const entry of [...this.turns].reverse()) {
+      const call = entry.turn.toolCalls.find((c) => c.toolUseId === data?.toolUseId);
+      if (!call) continue;
+      call.status = data?.status === "error" ? "error" : "success";
+      call.result = typeof data?.result === "string" ? data.result.slice(0, MAX_TOOL_RESULT_LENGTH) : null;
+      call.completedAt = this.touch();
+      return this.compose(entry);
+    }
+    return null;
+  }
+
+  end(): VoiceTranscript {
+    if (!this.endedAt) this.endedAt = this.touch();
+    return this.snapshot();
+  }
+
+  snapshot(): VoiceTranscript {
+    return {
+      id: this.id,
+      agentType: this.agentType,
+      userId: this.userId,
+      voiceId: this.voiceId,
+      startedAt: this.startedAt,
+      updatedAt: this.updatedAt,
+      endedAt: this.endedAt,
+      turns: this.turns.map((entry) => this.compose(entry)),
+    };
+  }
+}
@@ -1,5 +1,6 @@
 import * as clientBedrockAgentRuntime from "@aws-sdk/client-bedrock-agent-runtime";
 import { fromEnv } from "@aws-sdk/credential-providers";
+import type { KbSearchType, RetrievalFilter } from "../lib/retrieval/filters.ts";
 
 
 // Define interfaces for type safety
@@ -7,7 +8,9 @@ interface RetrieveOptions {
     knowledgeBaseId: string;
     query: string;
     numberOfResults?: number;
-    retrievalFilter?: Record<string, any>;
+    // Build with kbFilter / buildMetadataFilter from lib/retrieval/filters.ts
+    retrievalFilter?: RetrievalFilter;
+    overrideSearchType?: KbSearchType;
 }
 
 interface RetrievalResult {
@@ -34,8 +37,8 @@ class BedrockKnowledgeBaseClient {
 
 
     // Retrieves information from the Bedrock Knowledge Base
-    async retrieveFromKnowledgeBase(options: RetrieveOptions): Promise<Object> {
-        const { knowledgeBaseId, query, numberOfResults = 5, retrievalFilter } = options;
+    async retrieveFromKnowledgeBase(options: RetrieveOptions): Promise<RetrievalResult[]> {
+        const { knowledgeBaseId, query, numberOfResults = 5, retrievalFilter, overrideSearchType } = options;
 
         try {
             // Build the command input
@@ -46,16 +49,13 @@ class BedrockKnowledgeBaseClient {
                 },
                 retrievalConfiguration: {
                     vectorSearchConfiguration: {
-                        numberOfResults
+                        numberOfResults,
+                        filter: retrievalFilter,
+                        overrideSearchType
                     }
                 }
             };
 
-            // Attach metadata filter under vectorSearchConfiguration.filter if provided
-            if (retrievalFilter) {
-                (input.retrievalConfiguration as any).vectorSearchConfiguration.filter = retrievalFilter;
-            }
-
             // Execute the retrieval command
             const command = new clientBedrockAgentRuntime.RetrieveCommand(input);
 
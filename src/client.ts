@@ -8,7 +8,7 @@ import { Subject } from 'rxjs';
 import { take } from 'rxjs/operators';
 import { firstValueFrom } from 'rxjs';
 import * as consts from "./consts.ts";
-import { BedrockKnowledgeBaseClient } from "./bedrock-kb-client.ts";
+import { createVoiceToolContext, runVoiceTool, toolConfigurationFor, type VoiceToolContext } from "./tools.ts";
 
 export interface NovaSonicBidirectionalStreamClientConfig {
   requestHandlerConfig?:
@@ -44,7 +44,7 @@ export class StreamSession {
 
   public async setupSystemPrompt(
     textConfig: typeof consts.DefaultTextConfiguration = consts.DefaultTextConfiguration,
-    systemPromptContent: string = consts.DefaultSystemPrompt): Promise<void> {
+    systemPromptContent?: string): Promise<void> {
     this.client.setupSystemPromptEvent(this.sessionId, textConfig, systemPromptContent);
   }
 
@@ -139,8 +139,9 @@ interface SessionData {
   audioContentId: string;
   selectedUserId?: string;
   selectedVoiceId?: string;
-  agentType?: "retrieval" | "booking";
-
+  // Fixed when the session is created; picks the system prompt, tools and KBs
+  agentType: consts.AgentType;
+  toolContext: VoiceToolContext;
 }
 
 export class NovaSonicBidirectionalStreamClient {
@@ -201,8 +202,8 @@ export class NovaSonicBidirectionalStreamClient {
 
 
   // Create a new streaming session
-  public createStreamSession(sessionId: string = randomUUID(), config?: NovaSonicBidirectionalStreamClientConfig,  agentType: "retrieval" | "booking" = "retrieval"
-): StreamSession {
+  public createStreamSession(sessionId: string = randomUUID(), config?: NovaSonicBidirectionalStreamClientConfig, agentType: consts.AgentType = "retrieval",
+  timeZone: string | null = null): StreamSession {
     if (this.activeSessions.has(sessionId)) {
       throw new Error(`Stream session with ID ${sessionId} already exists`);
     }
@@ -224,6 +225,7 @@ export class NovaSonicBidirectionalStreamClient {
       isAudioContentStartSent: false,
       audioContentId: randomUUID(),
       agentType,
+      toolContext: createVoiceToolContext(sessionId, agentType, timeZone),
     };
 
     this.activeSessions.set(sessionId, session);
@@ -231,145 +233,16 @@ export class NovaSonicBidirectionalStreamClient {
     return new StreamSession(sessionId, this);
   }
 
-  private async processToolUse(sessionId: string, toolName: string, toolUseContent: object): Promise<Object> {
-    const tool = toolName.toLowerCase();
-
-    switch (tool) {
-      case "retrieve_kb_docs":
-        console.log(`Retrieving knowledge base documents: ${JSON.stringify(toolUseContent)}`);
-        const kbContent = await this.parseToolUseContent(toolUseContent);
-        if (!kbContent) {
-          throw new Error('parsedContent is undefined');
-        }
-        return this.queryKnowledgeBase(kbContent?.query, kbContent?.maxResults, sessionId);
-      default:
-        console.log(`Tool ${tool} not supported`)
-        throw new Error(`Tool ${tool} not supported`);
-    }
-  }
-
-  private async queryKnowledgeBase(
-  query: string,
-  numberOfResults: number = 3,
-  sessionId?: string
-): Promise<object> {
-  const kbClient = new BedrockKnowledgeBaseClient(process.env.AWS_REGION || "us-east-1");
-
-  // Default agent type
-  let agentType: "retrieval" | "booking" = "retrieval";
-
-  // ✅ Get agent type from active session
-  if (sessionId && this.activeSessions?.has(sessionId)) {
-    const session = this.activeSessions.get(sessionId);
-    if (session?.agentType) {
-      agentType = session.agentType;
-    }
-  }
-
-  try {
-    let kbIds: string[] = [];
-
-    if (agentType === "retrieval") {
-      // ✅ Retrieval agent has multiple KBs
-      kbIds = [
-        process.env.KB_ID_RETRIEVAL_MAIN || "H8REU8WUQ9",
-        process.env.KB_ID_RETRIEVAL_SECONDARY || "WAJPJFUNTH",
-      ];
-    } else if (agentType === "booking") {
-      // ✅ Booking agent has one KB
-      kbIds = [process.env.KB_ID_BOOKING_MAIN || "WAJPJFUNTH",
-        process.env.KB_ID_BOOKING_SECONDARY || "H8REU8WUQ9",
-      ];
-    }
-
-    if (kbIds.length === 0) {
-      console.warn("No Knowledge Base IDs found for this agent type.");
-      return { error: "No KB IDs configured" };
-    }
-
-    console.log(
-      `🔍 Searching ${kbIds.length} KB(s) for query "${query}" (agentType: ${agentType})`
-    );
-
-    // ✅ Retrieve from all KBs concurrently
-    const allResults = await Promise.all(
-      kbIds.map(async (id) => {
-        try {
-          const res = await kbClient.retrieveFromKnowledgeBase({
-            knowledgeBaseId: id,
-            query,
-            numberOfResults,
-          });
-          console.log(`Results from KB(${id}): ${JSON.stringify(res)}`);
-          return res;
-        } catch (err) {
-          console.error(`Error retrieving from KB(${id}):`, err);
-          return null;
-        }
-      })
-    );
-
-    // ✅ Merge & filter results
-    const mergedResults = allResults
-      .filter((r): r is NonNullable<typeof r> => !!r)
-      .flatMap((r: any) => r.results || []);
-
-    return {
-      agentType,
-      knowledgeBasesQueried: kbIds,
-      totalResults: mergedResults.length,
-      results: mergedResults,
-    };
-  } catch (error) {
-    console.error("KB Error:", error);
-    return { agentType, error: error instanceof Error ? error.message : error };
-  }
-}
-
-
-  // No mock tool implementations; only knowledge base retrieval is enabled
-
-  private async parseToolUseContent(toolUseContent: any): Promise<{ query: string; maxResults: number; } | null> {
+  // The tool input arrives as a JSON string in `content`; older payloads used `input`
+  private parseToolInput(toolUseContent: any): any {
     try {
-      // Case 1: model returns a JSON string at content
-      if (toolUseContent && typeof toolUseContent.content === 'string') {
-        const parsedContent = JSON.parse(toolUseContent.content);
-        return {
-          query: parsedContent.query,
-          maxResults: parsedContent?.maxResults
-        };
-      }
-
-      // Case 2: model returns input.json object
-      if (toolUseContent?.input?.json && typeof toolUseContent.input.json === 'object') {
-        const json = toolUseContent.input.json;
-        return {
-          query: json.query,
-          maxResults: json?.maxResults
-        };
-      }
-
-      // Case 3: model returns input as a string JSON
-      if (toolUseContent?.input && typeof toolUseContent.input === 'string') {
-        const parsed = JSON.parse(toolUseContent.input);
-        return {
-          query: parsed.query,
-          maxResults: parsed?.maxResults
-        };
-      }
-
-      // Case 4: already an object { query, maxResults }
-      if (toolUseContent && typeof toolUseContent === 'object' && 'query' in toolUseContent) {
-        return {
-          query: toolUseContent.query,
-          maxResults: (toolUseContent as any)?.maxResults
-        };
-      }
-
-      return null;
+      if (typeof toolUseContent?.content === 'string') return JSON.parse(toolUseContent.content);
+      if (toolUseContent?.input?.json && typeof toolUseContent.input.json === 'object') return toolUseContent.input.json;
+      if (typeof toolUseContent?.input === 'string') return JSON.parse(toolUseContent.input);
+      return toolUseContent ?? {};
     } catch (error) {
       console.error("Failed to parse tool use content:", error);
-      return null;
+      return {};
     }
   }
 
@@ -582,16 +455,18 @@ export class NovaSonicBidirectionalStreamClient {
 
                 console.log("calling tooluse");
                 console.log("tool use content : ", session.toolUseContent)
-                // function calling
-                const toolResult = await this.processToolUse(sessionId, session.toolName, session.toolUseContent);
+                // function calling; errors come back as an error result, never a throw
+                const toolResult = await runVoiceTool(session.toolName, this.parseToolInput(session.toolUseContent), session.toolContext);
 
                 // Send tool result
-                this.sendToolResult(sessionId, session.toolUseId, toolResult);
+                this.sendToolResult(sessionId, session.toolUseId, toolResult.content);
 
                 // Also dispatch event about tool result
                 this.dispatchEvent(sessionId, 'toolResult', {
                   toolUseId: session.toolUseId,
-                  result: toolResult
+                  toolName: session.toolName,
+                  status: toolResult.status,
+                  result: toolResult.content
                 });
               } else if (jsonResponse.event?.contentEnd) {
                 this.dispatchEvent(sessionId, 'contentEnd', jsonResponse.event.contentEnd);
@@ -688,35 +563,22 @@ export class NovaSonicBidirectionalStreamClient {
           toolUseOutputConfiguration: {
             mediaType: "application/json",
           },
-          toolConfiguration: {
-            "toolChoice": {
-              "tool": { "name": "retrieve_kb_docs" }
-            },
-            tools: [
-              {
-                toolSpec: {
-                  name: "retrieve_kb_docs",
-                  description: "Retrieves relevant documents from the Bedrock Knowledge Base to support training, recovery, and wellness guidance.",
-                  inputSchema: {
-                    json: consts.KnowledgeBaseToolSchema
-                  }
-                }
-              }
-            ]
-          },
+          toolConfiguration: toolConfigurationFor(session.agentType),
         },
       }
     });
     session.isPromptStartSent = true;
   }
 
+  // Without explicit content the session's agent type picks the prompt
   public setupSystemPromptEvent(sessionId: string,
     textConfig: typeof consts.DefaultTextConfiguration = consts.DefaultTextConfiguration,
-    systemPromptContent: string = consts.DefaultSystemPrompt
+    systemPromptContent?: string
   ): void {
     console.log(`Setting up systemPrompt events for session ${sessionId}...`);
     const session = this.activeSessions.get(sessionId);
     if (!session) return;
+    const content = systemPromptContent ?? consts.SystemPrompts[session.agentType];
     // Text content start
     const textPromptID = randomUUID();
     this.addEventToSessionQueue(sessionId, {
@@ -738,7 +600,7 @@ export class NovaSonicBidirectionalStreamClient {
         textInput: {
           promptName: session.promptName,
           contentName: textPromptID,
-          content: systemPromptContent,
+          content,
         },
       }
     });
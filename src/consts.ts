@@ -1,4 +1,5 @@
 import * as types from "./types.ts";
+import { KB_FILTER_TOOL_PROPERTIES } from "../lib/retrieval/filters.ts";
 
 export const DefaultAudioInputConfiguration = {
   audioType: "SPEECH" as types.AudioType,
@@ -23,7 +24,8 @@ export const KnowledgeBaseToolSchema = JSON.stringify({
       "description": "Optional maximum number of results to retrieve",
       "minimum": 1,
       "maximum": 20
-    }
+    },
+    ...KB_FILTER_TOOL_PROPERTIES
   },
   "required": ["query"]
 });
@@ -31,6 +33,12 @@ export const KnowledgeBaseToolSchema = JSON.stringify({
 export const DefaultTextConfiguration = { mediaType: "text/plain" as types.TextMediaType };
 export type AgentType = "retrieval" | "booking"
 
+export const AgentTypes: AgentType[] = ["retrieval", "booking"];
+
+export function isAgentType(value: unknown): value is AgentType {
+  return typeof value === "string" && (AgentTypes as string[]).includes(value);
+}
+
 
 export const SystemPrompts: Record<AgentType, string> = {
   retrieval: `
@@ -200,27 +208,31 @@ Use friendly, professional phrasing that builds trust.
     "confirm_only_missing_fields": true,
     "progressive_acknowledgment": true
   },
+  "tools": {
+    "save_booking": "Submit the booking once every required field is collected. Pass all collected details. If it returns missing_fields or rejected_fields, ask only for those and call it again.",
+    "get_pricing": "Use when the caller asks what a trip costs. Quote its estimate and low/high range as returned; never calculate fares yourself. If it finds no matching trips, say so.",
+    "search_faqs": "Use for policy or general questions about the service.",
+    "retrieve_kb_docs": "Use for company information and past trips not covered by the FAQs.",
+    "on_tool_error": "If a tool returns an error, tell the caller briefly and offer to continue or to have the team follow up by email."
+  },
   "booking_schema": {
     "required_fields": [
       "name",
       "email",
+      "phone",
       "group_size_category",
+      "pickup_location",
+      "dropoff_location",
       "service_date",
       "trip_direction",
-      "return_date"
+      "return_date and return_time (return trips only)"
     ],
     "optional_fields": [
       "num_passengers",
       "vehicle_type",
-      "pickup_location",
-      "dropoff_location",
-      "trip_type",
       "departure_time",
-      "return_time",
-      "trip_description",
-      "additional_info",
-      "phone",
-      "preferred_contact"
+      "sms_consent",
+      "additional_info"
     ]
   },
   "conversation_flow_rules": {
@@ -248,14 +260,14 @@ Use friendly, professional phrasing that builds trust.
     }
   },
   "pricing_query_rules": {
-    "source": "Salesforce Knowledge Base",
-    "query_fields": ["passenger count", "route type", "service date"],
-    "if_data_found": "Provide an adjusted estimate if group size or trip type differs slightly.",
+    "source": "get_pricing tool (historical Salesforce bookings)",
+    "query_fields": ["pickup", "dropoff", "passengers", "days", "trip_type"],
+    "if_data_found": "Quote the estimate and range get_pricing returns; it already adjusts for group size and trip length.",
     "if_data_not_found": "Respond with: 'I couldn’t find a recent match for your exact trip, but our team will prepare a personalized quote for you very soon.'",
-    "example_estimate": "A similar trip for 10 passengers recently cost around $180. Since your group has 8 people, an adjusted estimate would be about $160. This is a reference figure; final pricing will be confirmed shortly."
+    "example_estimate": "Based on similar past trips, that comes to about $1,350, typically between $1,200 and $1,500. This is a reference figure; final pricing will be confirmed shortly."
   },
   "booking_completion_logic": {
-    "save_function": "saveBookingToS3",
+    "save_function": "save_booking",
     "post_save_responses": {
       "on_success": [
         "All set, [name]! Your shuttle booking has been logged successfully. Summary: [details]. Our sales team will contact you soon to confirm final details.",
@@ -1,8 +1,18 @@
 import express from 'express';
 import http from 'http';
 import path from 'path';
-import { Server } from 'socket.io';
-import { NovaSonicBidirectionalStreamClient } from './client.ts';
+import { Server, type Socket } from 'socket.io';
+import { NovaSonicBidirectionalStreamClient, StreamSession } from './client.ts';
+import { type AgentType, AgentTypes, DefaultAudioInputConfiguration, isAgentType, SystemPrompts } from './consts.ts';
+import { AgentToolNames } from './tools.ts';
+import { isValidTimeZone } from '../lib/booking/dates.ts';
+import { VoiceTranscriptBuilder, type VoiceTurn } from '../lib/voice/transcript.ts';
+import { getVoiceTranscriptStore } from '../lib/voice/store.ts';
+import { CallRecorder, saveRecording } from '../lib/voice/recording.ts';
+import { getVoiceRecordingStorage } from '../lib/voice/recording-storage.ts';
+import { getVoiceTokenSecret, verifyVoiceToken } from '../lib/voice/auth.ts';
+import { type LimitExceeded, type VoiceCaller, VoiceUsageLimiter } from '../lib/voice/limits.ts';
+import { randomBytes, randomUUID, timingSafeEqual } from 'node:crypto';
 import { Buffer } from 'node:buffer';
 import { fromEnv } from "@aws-sdk/credential-providers";
 import dotenv from 'dotenv';
@@ -38,6 +48,66 @@ const bedrockClient = new NovaSonicBidirectionalStreamClient({
 
 console.log(`[${ts()}] ✅ Bedrock client initialized for region ${process.env.AWS_REGION || "us-west-2"}`);
 
+const transcriptStore = getVoiceTranscriptStore();
+const recordingStorage = getVoiceRecordingStorage();
+
+// How long a session outlives its socket, waiting for the client to resume it
+const RESUME_GRACE_MS = (Number(process.env.VOICE_RESUME_GRACE_SECONDS) || 30) * 1000;
+
+// A voice session and everything tied to it. It is owned by the server, not by
+// a socket: a dropped socket only detaches it, and "resumeSession" with the
+// session's resume token attaches a new socket to it within the grace period.
+interface LiveSession {
+  // Bedrock stream session id
+  id: string;
+  resumeToken: string;
+  // Who started it; its stream minutes count against them even after a resume
+  caller: VoiceCaller;
+  agentType: AgentType;
+  voiceId: string;
+  stream: StreamSession;
+  transcript: VoiceTranscriptBuilder;
+  // Saves run one after another so an older snapshot never overwrites a newer one
+  transcriptSaves: Promise<void>;
+  recorder: CallRecorder | null;
+  // The socket events go to; null while detached
+  socket: Socket | null;
+  graceTimer: ReturnType<typeof setTimeout> | null;
+  ending: Promise<void> | null;
+}
+
+const liveSessions = new Map<string, LiveSession>();
+
+// === Access control ===
+// Sockets need a token from /api/voice-token (lib/voice/auth.ts). Without
+// VOICE_TOKEN_SECRET that check is skipped in development and every
+// connection is refused in production.
+const tokenSecret = getVoiceTokenSecret();
+const requireToken = !!tokenSecret || process.env.NODE_ENV === "production";
+// Behind a load balancer the caller's address is the first X-Forwarded-For entry
+const trustProxy = process.env.VOICE_TRUST_PROXY === "true";
+const limiter = new VoiceUsageLimiter();
+
+if (!tokenSecret) {
+  if (requireToken) console.error(`[${ts()}] ❌ VOICE_TOKEN_SECRET is not set; all voice connections will be refused`);
+  else console.warn(`[${ts()}] ⚠️ VOICE_TOKEN_SECRET is not set; voice connections are not authenticated (development only)`);
+}
+
+function clientAddress(socket: Socket): string {
+  const forwarded = socket.handshake.headers["x-forwarded-for"];
+  const first = (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(",")[0]?.trim();
+  return (trustProxy && first) || socket.handshake.address;
+}
+
+// Errors from middleware reach the client as connect_error, with the details in err.data
+function rejection(data: LimitExceeded | { code: string; error: string }): Error {
+  return Object.assign(new Error(data.error), { data });
+}
+
+function emitTo(live: LiveSession, event: string, data?: unknown) {
+  live.socket?.emit(event, data);
+}
+
 // Periodic cleanup
 setInterval(() => {
   console.log(`[${ts()}] 🧹 Session cleanup check`);
@@ -46,6 +116,11 @@ setInterval(() => {
     const lastActivity = bedrockClient.getLastActivityTime(sessionId);
     if (now - lastActivity > 5 * 60 * 1000) {
       console.log(`[${ts()}] ⚠️ Closing inactive session ${sessionId}`);
+      const live = liveSessions.get(sessionId);
+      if (live) {
+        endSession(live, "inactive");
+        return;
+      }
       try {
         bedrockClient.forceCloseSession(sessionId);
       } catch (error) {
@@ -55,141 +130,414 @@ setInterval(() => {
   });
 }, 60000);
 
+// Streams end once their caller runs out of minutes
+setInterval(() => {
+  for (const { sessionId, exceeded } of limiter.exceededStreams()) {
+    const live = liveSessions.get(sessionId);
+    if (!live || live.ending) continue;
+    console.warn(`[${ts()}] 🚫 ${exceeded.error} (${live.id}, ${live.caller.ip})`);
+    emitTo(live, "limitExceeded", exceeded);
+    endSession(live, "stream minute limit");
+  }
+}, 15000);
+
+// === Transcript ===
+function saveTranscript(live: LiveSession, ended = false) {
+  const snapshot = ended ? live.transcript.end() : live.transcript.snapshot();
+  live.transcriptSaves = live.transcriptSaves
+    .then(() => transcriptStore.save(snapshot))
+    .catch((error) => console.error(`[${ts()}] ❌ Error saving transcript ${live.transcript.id} (${live.id}):`, error));
+  return live.transcriptSaves;
+}
+
+function pushTurn(live: LiveSession, turn: VoiceTurn | null, save = false) {
+  if (!turn) return;
+  emitTo(live, "transcriptTurn", { transcriptId: live.transcript.id, turn });
+  if (save) saveTranscript(live);
+}
+
+// === Recording ===
+function stopRecording(live: LiveSession, save: boolean, reason: string): Promise<void> {
+  const recorder = live.recorder;
+  live.recorder = null;
+  if (!recorder) return Promise.resolve();
+  const { recordingId } = recorder.info;
+  emitTo(live, "recordingStopped", { recordingId, reason });
+  if (!save) {
+    console.log(`[${ts()}] 🗑️ Recording ${recordingId} discarded (${live.id})`);
+    return Promise.resolve();
+  }
+  return saveRecording(recorder, recordingStorage)
+    .then((metadata) => console.log(`[${ts()}] 💾 Recording saved (${live.id}): ${metadata.audio}, ${metadata.durationSeconds}s`))
+    .catch((error) => console.error(`[${ts()}] ❌ Error saving recording ${recordingId} (${live.id}):`, error));
+}
+
+function record(live: LiveSession, channel: "caller" | "assistant", pcm: Buffer) {
+  if (live.recorder && !live.recorder.append(channel, pcm)) {
+    console.warn(`[${ts()}] ⚠️ Recording ${live.recorder.info.recordingId} reached its maximum length (${live.id})`);
+    stopRecording(live, true, "max_length");
+  }
+}
+
+// === Session lifecycle ===
+
+// Closes the Bedrock stream and saves the transcript and any recording. Safe to call more than once.
+function endSession(live: LiveSession, reason: string): Promise<void> {
+  if (live.ending) return live.ending;
+  if (live.graceTimer) clearTimeout(live.graceTimer);
+  live.graceTimer = null;
+  liveSessions.delete(live.id);
+  limiter.endStream(live.id);
+  console.log(`[${ts()}] ⏹️ Ending session ${live.id} (${reason})`);
+
+  live.ending = (async () => {
+    const recordingSaved = stopRecording(live, true, "session_ended");
+    if (bedrockClient.isSessionActive(live.id)) {
+      try {
+        await live.stream.endAudioContent();
+        await live.stream.endPrompt();
+        await live.stream.close();
+        console.log(`[${ts()}] 🧹 Session cleanup complete (${live.id})`);
+      } catch (error) {
+        console.error(`[${ts()}] ❌ Error closing session ${live.id}:`, error);
+        bedrockClient.forceCloseSession(live.id);
+      }
+    }
+    await saveTranscript(live, true);
+    await recordingSaved;
+  })();
+  return live.ending;
+}
+
+function detachSession(live: LiveSession) {
+  live.socket = null;
+  if (live.ending || live.graceTimer) return;
+  console.log(`[${ts()}] ⏸️ Session ${live.id} detached; waiting ${RESUME_GRACE_MS / 1000}s for the client to resume`);
+  live.graceTimer = setTimeout(() => {
+    live.graceTimer = null;
+    endSession(live, "not resumed");
+  }, RESUME_GRACE_MS);
+}
+
+function attachSession(live: LiveSession, socket: Socket) {
+  if (live.graceTimer) clearTimeout(live.graceTimer);
+  live.graceTimer = null;
+  // A socket the server still thinks is connected has lost the session to this one
+  if (live.socket && live.socket !== socket) live.socket.emit("sessionTakenOver", { sessionId: live.id });
+  live.socket = socket;
+}
+
+function sameToken(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+// === Session Event Handlers ===
+// Registered once per session; they reach whichever socket is attached at the time
+function bindSessionEvents(live: LiveSession) {
+  const { stream, transcript, id } = live;
+
+  stream.onEvent("contentStart", (data) => {
+    console.log(`[${ts()}] ▶️ contentStart (${id})`, data);
+    emitTo(live, "contentStart", data);
+    pushTurn(live, transcript.contentStart(data));
+  });
 
-app.use(express.static(path.join(__dirname, '../public')));
+  stream.onEvent("textOutput", (data) => {
+    console.log(`[${ts()}] 💬 textOutput (${id}):`, data);
+    emitTo(live, "textOutput", data);
+    pushTurn(live, transcript.textOutput(data));
+  });
 
-// ✅ Socket.IO connection handler
-io.on('connection', (socket) => {
-  console.log(`[${ts()}] 🟢 Client connected: ${socket.id}`);
+  stream.onEvent("audioOutput", (data) => {
+    console.log(`[${ts()}] 🔊 audioOutput (${id})`);
+    emitTo(live, "audioOutput", data);
+    // Audio produced while detached was never played, so it isn't recorded either
+    if (live.recorder && live.socket && typeof data?.content === "string") record(live, "assistant", Buffer.from(data.content, "base64"));
+  });
 
-  const sessionId = socket.id;
-  let selectedUserId = '123';
-  let selectedVoiceId = 'tiffany';
+  // stopReason INTERRUPTED here means the caller talked over the assistant (barge-in)
+  stream.onEvent("contentEnd", (data) => {
+    if (data?.stopReason === "INTERRUPTED") {
+      console.log(`[${ts()}] ✋ Assistant interrupted (${id})`);
+      // The client stopped playing, so the rest of the answer was never heard
+      live.recorder?.cutOff("assistant");
+    }
+    emitTo(live, "contentEnd", data);
+    pushTurn(live, transcript.contentEnd(data), true);
+  });
 
-  try {
-    const session = bedrockClient.createStreamSession(sessionId);
-    bedrockClient.initiateSession(sessionId);
-    console.log(`[${ts()}] 🎧 Session created for socket ${sessionId}`);
+  stream.onEvent("error", (data) => {
+    console.error(`[${ts()}] ❗ Error (${id}):`, data);
+    emitTo(live, "error", data);
+  });
 
-    socket.on("setAgentType", ({ agentType }) => {
-      console.log(`[${ts()}] 🤖 Client ${socket.id} selected agent type: ${agentType}`);
-      socket.data.agentType = agentType;
-    });
+  stream.onEvent("toolUse", (data) => {
+    console.log(`[${ts()}] 🛠️ Tool use (${id}): ${data.toolName}`);
+    emitTo(live, "toolUse", data);
+    pushTurn(live, transcript.toolUse(data));
+  });
 
-    socket.on("setVoice", (data) => {
-      if (data?.voiceId) {
-        selectedVoiceId = data.voiceId.trim();
-        console.log(`[${ts()}] 🎤 Voice set for ${sessionId}: ${selectedVoiceId}`);
-        socket.emit("status", { message: `Voice selected: ${selectedVoiceId}` });
-      }
-    });
+  stream.onEvent("toolResult", (data) => {
+    console.log(`[${ts()}] 📦 Tool result (${id})`);
+    emitTo(live, "toolResult", data);
+    pushTurn(live, transcript.toolResult(data), true);
+  });
 
-    socket.on("setUserId", (data) => {
-      if (data?.user_id) {
-        selectedUserId = data.user_id.trim();
-        console.log(`[${ts()}] 👤 UserId set for ${sessionId}: ${selectedUserId}`);
-        bedrockClient.setSessionUserId(sessionId, selectedUserId);
-      }
-    });
+  stream.onEvent("streamComplete", () => {
+    console.log(`[${ts()}] ✅ Stream complete (${id})`);
+    emitTo(live, "streamComplete");
+    endSession(live, "stream complete");
+  });
+}
 
-    // === Session Event Handlers ===
-    session.onEvent("contentStart", (data) => {
-      console.log(`[${ts()}] ▶️ contentStart (${sessionId})`, data);
-      socket.emit("contentStart", data);
-    });
+app.use(express.static(path.join(__dirname, '../public')));
 
-    session.onEvent("textOutput", (data) => {
-      console.log(`[${ts()}] 💬 textOutput (${sessionId}):`, data);
-      socket.emit("textOutput", data);
-    });
+// 🔐 Every socket needs a valid voice token (handshake auth: { token }) and has to
+// fit within the per-IP and per-user connection limits
+io.use((socket, next) => {
+  const ip = clientAddress(socket);
+  let userId: string | null = null;
+  if (requireToken) {
+    if (!tokenSecret) return next(rejection({ code: "auth_unavailable", error: "Voice server is not configured for authentication" }));
+    const check = verifyVoiceToken(socket.handshake.auth?.token, tokenSecret);
+    if (!check.ok) {
+      console.warn(`[${ts()}] 🚫 Rejected socket from ${ip}: ${check.error}`);
+      return next(rejection({ code: check.code, error: check.error }));
+    }
+    userId = check.claims.sub;
+  }
 
-    session.onEvent("audioOutput", (data) => {
-      console.log(`[${ts()}] 🔊 audioOutput (${sessionId})`);
-      socket.emit("audioOutput", data);
-    });
+  const caller: VoiceCaller = { ip, userId };
+  const exceeded = limiter.openConnection(caller);
+  if (exceeded) {
+    console.warn(`[${ts()}] 🚫 Rejected socket from ${ip}: ${exceeded.error}`);
+    return next(rejection(exceeded));
+  }
+  socket.data.caller = caller;
+  next();
+});
 
-    session.onEvent("error", (data) => {
-      console.error(`[${ts()}] ❗ Error (${sessionId}):`, data);
-      socket.emit("error", data);
-    });
+// ✅ Socket.IO connection handler
+//
+// Handshake: the client first sends "startSession" with { agentType, voiceId?, userId?, timeZone? }
+// and an ack callback. Only then is the Bedrock session created, with the system
+// prompt from SystemPrompts[agentType] and that agent's tools; the ack returns what
+// was agreed ({ ok: true, sessionId, resumeToken, transcriptId, agentType, voiceId, tools })
+// or { ok: false, error }. "stopAudio" ends the session; the next "startSession"
+// negotiates a new one.
+//
+// Resume: when the socket drops, the session stays open for VOICE_RESUME_GRACE_SECONDS.
+// A new socket sends "resumeSession" { sessionId, resumeToken } to take it over; the
+// ack carries the same fields as startSession plus the transcript turns so far and
+// whether the call is being recorded. Once the grace period is over the session is
+// closed and resuming fails with { ok: false, error }.
+//
+// Each session gets its own transcript (lib/voice/transcript.ts). Every turn that
+// changes is pushed as "transcriptTurn" { transcriptId, turn }, and the whole
+// transcript is saved after each completed turn and tool call and when the session ends.
+//
+// Limits: a connection over the per-IP or per-user connection limit, or with a
+// missing, invalid or expired token, is refused with a connect_error whose data
+// is { code, error, ... }. A startSession over the stream-minute limit is refused
+// in its ack, and a running session that uses up the minutes ends; both send
+// "limitExceeded" { code, scope, limit, error, retryAfterSeconds } first.
+//
+// Nothing is recorded unless the client sends "recordingConsent" { consent: true }
+// (with an ack) during a session. From then until the session ends, the caller's
+// and the assistant's audio are kept and uploaded as a WAV with a sidecar that
+// links to the transcript. { consent: false } stops the recording and discards it.
+io.on('connection', (socket) => {
+  const caller: VoiceCaller = socket.data.caller;
+  console.log(`[${ts()}] 🟢 Client connected: ${socket.id} (${caller.ip}${caller.userId ? `, ${caller.userId}` : ""})`);
 
-    session.onEvent("toolUse", (data) => {
-      console.log(`[${ts()}] 🛠️ Tool use (${sessionId}): ${data.toolName}`);
-      socket.emit("toolUse", data);
-    });
+  // Reported by the client and only used to label the session; limits go by
+  // address and by the subject of the voice token, which the client can't pick
+  let selectedUserId = '123';
+  let selectedVoiceId = 'tiffany';
+  // The session this socket started or resumed
+  let live: LiveSession | null = null;
+  // null once the session ended or another socket resumed it
+  const attached = () => (live && live.socket === socket && !live.ending ? live : null);
+
+  const describe = (current: LiveSession) => ({
+    sessionId: current.id,
+    resumeToken: current.resumeToken,
+    transcriptId: current.transcript.id,
+    agentType: current.agentType,
+    voiceId: current.voiceId,
+    tools: AgentToolNames[current.agentType],
+  });
 
-    session.onEvent("toolResult", (data) => {
-      console.log(`[${ts()}] 📦 Tool result (${sessionId})`);
-      socket.emit("toolResult", data);
-    });
+  socket.on("setVoice", (data) => {
+    if (data?.voiceId) {
+      selectedVoiceId = data.voiceId.trim();
+      console.log(`[${ts()}] 🎤 Voice set for ${socket.id}: ${selectedVoiceId}`);
+      socket.emit("status", { message: `Voice selected: ${selectedVoiceId}` });
+    }
+  });
 
-    session.onEvent("streamComplete", () => {
-      console.log(`[${ts()}] ✅ Stream complete (${sessionId})`);
-      socket.emit("streamComplete");
-    });
+  socket.on("setUserId", (data) => {
+    if (data?.user_id) {
+      selectedUserId = data.user_id.trim();
+      console.log(`[${ts()}] 👤 UserId set for ${socket.id}: ${selectedUserId}`);
+      const current = attached();
+      if (current) bedrockClient.setSessionUserId(current.id, selectedUserId);
+    }
+  });
 
-    // === Audio input streaming ===
-    socket.on("audioInput", async (audioData) => {
-      console.log(`[${ts()}] 🎙️ audioInput received (${sessionId})`);
-      try {
-        const buffer = typeof audioData === "string"
-          ? Buffer.from(audioData, "base64")
-          : Buffer.from(audioData);
-        await session.streamAudio(buffer);
-      } catch (error) {
-        console.error(`[${ts()}] ❌ Error streaming audio (${sessionId}):`, error);
-        socket.emit("error", { message: "Audio stream error", details: error });
-      }
-    });
+  socket.on("startSession", async (data, ack) => {
+    const reply = typeof ack === "function" ? ack : () => {};
+    const agentType = data?.agentType;
+    if (!isAgentType(agentType)) {
+      console.warn(`[${ts()}] ⚠️ Rejected startSession from ${socket.id}: unknown agent type ${agentType}`);
+      reply({ ok: false, error: `Unknown agent type: ${agentType}. Expected one of ${AgentTypes.join(", ")}` });
+      return;
+    }
+    if (attached()) {
+      reply({ ok: false, error: "A voice session is already running on this connection" });
+      return;
+    }
 
-    socket.on("promptStart", async () => {
-      console.log(`[${ts()}] ✏️ promptStart (${sessionId})`);
-      await session.setupPromptStart();
-    });
+    if (typeof data?.voiceId === "string" && data.voiceId.trim()) selectedVoiceId = data.voiceId.trim();
+    if (typeof data?.userId === "string" && data.userId.trim()) selectedUserId = data.userId.trim();
+    const exceeded = limiter.checkStreamMinutes(caller);
+    if (exceeded) {
+      console.warn(`[${ts()}] 🚫 Rejected startSession from ${socket.id}: ${exceeded.error}`);
+      socket.emit("limitExceeded", exceeded);
+      reply({ ok: false, ...exceeded });
+      return;
+    }
+    // Booking tools resolve dates like "this Friday" in the caller's timezone
+    const timeZone = isValidTimeZone(data?.timeZone) ? data.timeZone : null;
+
+    const sessionId = randomUUID();
+    try {
+      const stream = bedrockClient.createStreamSession(sessionId, undefined, agentType, timeZone);
+      bedrockClient.setSessionUserId(sessionId, selectedUserId);
+      // The voice goes out with promptStart, so it has to be set first
+      bedrockClient.setSessionVoiceId(sessionId, selectedVoiceId);
+      live = {
+        id: sessionId,
+        resumeToken: randomBytes(32).toString("base64url"),
+        caller,
+        agentType,
+        voiceId: selectedVoiceId,
+        stream,
+        transcript: new VoiceTranscriptBuilder(randomUUID(), agentType, selectedUserId, selectedVoiceId),
+        transcriptSaves: Promise.resolve(),
+        recorder: null,
+        socket,
+        graceTimer: null,
+        ending: null,
+      };
+      liveSessions.set(sessionId, live);
+      limiter.startStream(sessionId, caller);
+      bindSessionEvents(live);
+      bedrockClient.initiateSession(sessionId);
+
+      await stream.setupPromptStart();
+      await stream.setupSystemPrompt(undefined, SystemPrompts[agentType]);
+      await stream.setupStartAudio();
+
+      console.log(`[${ts()}] 🎧 Session ${sessionId} created for socket ${socket.id} (${agentType}, voice ${selectedVoiceId}, tools: ${AgentToolNames[agentType].join(", ")})`);
+      reply({ ok: true, ...describe(live) });
+    } catch (error) {
+      console.error(`[${ts()}] ❌ Error creating session for ${socket.id}:`, error);
+      liveSessions.delete(sessionId);
+      limiter.endStream(sessionId);
+      if (bedrockClient.isSessionActive(sessionId)) bedrockClient.forceCloseSession(sessionId);
+      live = null;
+      reply({ ok: false, error: "Failed to initialize session" });
+    }
+  });
 
-    socket.on("systemPrompt", async (data) => {
-      console.log(`[${ts()}] ⚙️ systemPrompt (${sessionId})`, data);
-      await session.setupSystemPrompt(undefined, undefined);
-    });
+  socket.on("resumeSession", (data, ack) => {
+    const reply = typeof ack === "function" ? ack : () => {};
+    const candidate = typeof data?.sessionId === "string" ? liveSessions.get(data.sessionId) : undefined;
+    if (!candidate || candidate.ending || typeof data?.resumeToken !== "string" || !sameToken(data.resumeToken, candidate.resumeToken)) {
+      console.warn(`[${ts()}] ⚠️ Could not resume session ${data?.sessionId} on socket ${socket.id}`);
+      reply({ ok: false, error: "Session expired or unknown" });
+      return;
+    }
+    if (attached() && live !== candidate) {
+      reply({ ok: false, error: "A voice session is already running on this connection" });
+      return;
+    }
 
-    socket.on("audioStart", async () => {
-      console.log(`[${ts()}] ▶️ audioStart (${sessionId})`);
-      bedrockClient.setSessionVoiceId?.(sessionId, selectedVoiceId);
-      await session.setupStartAudio();
+    attachSession(candidate, socket);
+    live = candidate;
+    console.log(`[${ts()}] 🔁 Session ${candidate.id} resumed on socket ${socket.id}`);
+    reply({
+      ok: true,
+      ...describe(candidate),
+      turns: candidate.transcript.snapshot().turns,
+      recording: !!candidate.recorder,
     });
+  });
 
-    socket.on("stopAudio", async () => {
-      console.log(`[${ts()}] ⏹️ stopAudio (${sessionId})`);
-      try {
-        await session.endAudioContent();
-        await session.endPrompt();
-        await session.close();
-        console.log(`[${ts()}] 🧹 Session cleanup complete (${sessionId})`);
-      } catch (error) {
-        console.error(`[${ts()}] ❌ Error stopping audio (${sessionId}):`, error);
-      }
-    });
+  socket.on("recordingConsent", (data, ack) => {
+    const reply = typeof ack === "function" ? ack : () => {};
+    const current = attached();
+    if (data?.consent !== true) {
+      if (current) stopRecording(current, false, "consent_withdrawn");
+      reply({ ok: true, recording: false });
+      return;
+    }
+    if (!current) {
+      reply({ ok: false, error: "No voice session; send startSession first" });
+      return;
+    }
+    if (!current.recorder) {
+      // Mic input and Nova Sonic output are both 16-bit mono at this rate
+      current.recorder = new CallRecorder({
+        recordingId: randomUUID(),
+        transcriptId: current.transcript.id,
+        sessionId: current.id,
+        agentType: current.agentType,
+        userId: current.transcript.userId,
+      }, DefaultAudioInputConfiguration.sampleRateHertz);
+      console.log(`[${ts()}] ⏺️ Recording ${current.recorder.info.recordingId} started with caller consent (${current.id})`);
+    }
+    reply({ ok: true, recording: true, recordingId: current.recorder.info.recordingId });
+  });
 
-    socket.on("disconnect", async () => {
-      console.log(`[${ts()}] 🔴 Client disconnected: ${socket.id}`);
-      if (bedrockClient.isSessionActive(sessionId)) {
-        try {
-          console.log(`[${ts()}] 🧼 Cleaning up session ${sessionId}`);
-          await session.endAudioContent();
-          await session.endPrompt();
-          await session.close();
-        } catch (e) {
-          console.error(`[${ts()}] ❌ Cleanup error (${sessionId}):`, e);
-          bedrockClient.forceCloseSession(sessionId);
-        }
-      }
-    });
+  // === Audio input streaming ===
+  socket.on("audioInput", async (audioData) => {
+    const current = attached();
+    if (!current) {
+      socket.emit("error", { message: "No voice session; send startSession first" });
+      return;
+    }
+    console.log(`[${ts()}] 🎙️ audioInput received (${current.id})`);
+    try {
+      const buffer = typeof audioData === "string"
+        ? Buffer.from(audioData, "base64")
+        : Buffer.from(audioData);
+      await current.stream.streamAudio(buffer);
+      record(current, "caller", buffer);
+    } catch (error) {
+      console.error(`[${ts()}] ❌ Error streaming audio (${current.id}):`, error);
+      socket.emit("error", { message: "Audio stream error", details: error });
+    }
+  });
 
-  } catch (error) {
-    console.error(`[${ts()}] ❌ Error creating session for ${socket.id}:`, error);
-    socket.emit("error", { message: "Failed to initialize session", details: error });
-    socket.disconnect();
-  }
+  socket.on("stopAudio", async () => {
+    console.log(`[${ts()}] ⏹️ stopAudio (${socket.id})`);
+    const current = attached();
+    live = null;
+    if (current) await endSession(current, "stopped by client");
+  });
+
+  socket.on("disconnect", (reason) => {
+    console.log(`[${ts()}] 🔴 Client disconnected: ${socket.id} (${reason})`);
+    limiter.closeConnection(caller);
+    const current = attached();
+    live = null;
+    // A socket whose session was resumed elsewhere just goes away
+    if (current) detachSession(current);
+  });
 });
 
 // Health check endpoint
@@ -215,6 +563,9 @@ process.on("SIGINT", async () => {
     await new Promise(resolve => io.close(resolve));
     console.log(`[${ts()}] 🧩 Socket.IO closed`);
 
+    // Detached sessions would otherwise wait out their grace period
+    await Promise.all([...liveSessions.values()].map((live) => endSession(live, "server shutdown")));
+
     const activeSessions = bedrockClient.getActiveSessions();
     console.log(`[${ts()}] 🔻 Closing ${activeSessions.length} sessions`);
     for (const sessionId of activeSessions) {
@@ -0,0 +1,131 @@
+import * as consts from "./consts.ts";
+import { createEmptyBookingState } from "../lib/booking/state.ts";
+import { BOOKING_TOOLS, type BookingToolContext, type BookingToolName, runBookingTool, toolError, type ToolOutcome } from "../lib/booking/tools.ts";
+import { federatedRetrieve } from "../lib/retrieval/federated.ts";
+import { metadataFilterFromToolInput } from "../lib/retrieval/filters.ts";
+
+// Tool registry for Nova Sonic voice sessions. Each agent type gets a fixed
+// set of tools; the booking tools reuse the schemas and handlers of
+// /api/bedrock-booking-agent (lib/booking/tools.ts).
+
+// Token budget for knowledge base passages returned to the voice model
+const VOICE_KB_TOKEN_BUDGET = 1200;
+
+// Per voice session: the booking state save_booking and get_pricing work on
+export interface VoiceToolContext extends BookingToolContext {
+  sessionId: string;
+  agentType: consts.AgentType;
+}
+
+interface VoiceTool {
+  name: string;
+  description: string;
+  // JSON schema of the input, serialized as Nova Sonic expects
+  inputSchema: string;
+  run(input: any, context: VoiceToolContext): Promise<ToolOutcome>;
+}
+
+const retrieveKbDocs: VoiceTool = {
+  name: "retrieve_kb_docs",
+  description: "Retrieves relevant documents from the Bedrock Knowledge Base to support training, recovery, and wellness guidance.",
+  inputSchema: consts.KnowledgeBaseToolSchema,
+  async run(input, { agentType }) {
+    // Both agents search both KBs; the order only sets which one is primary
+    const kbIds = agentType === "retrieval"
+      ? [
+        process.env.KB_ID_RETRIEVAL_MAIN || "H8REU8WUQ9",
+        process.env.KB_ID_RETRIEVAL_SECONDARY || "WAJPJFUNTH",
+      ]
+      : [
+        process.env.KB_ID_BOOKING_MAIN || "WAJPJFUNTH",
+        process.env.KB_ID_BOOKING_SECONDARY || "H8REU8WUQ9",
+      ];
+
+    const { filter, searchType } = metadataFilterFromToolInput(input);
+    // Spoken answers only need a few passages, so the budget stays small
+    const retrieval = await federatedRetrieve({
+      knowledgeBaseIds: kbIds,
+      query: String(input?.query || ""),
+      resultsPerKnowledgeBase: Math.max(Number(input?.maxResults) || 3, 3),
+      tokenBudget: VOICE_KB_TOKEN_BUDGET,
+      filter,
+      searchType,
+    });
+
+    return {
+      status: "success",
+      content: JSON.stringify({
+        agentType,
+        knowledgeBasesQueried: retrieval.knowledgeBasesQueried,
+        totalResults: retrieval.results.length,
+        results: retrieval.results.map((r) => ({
+          content: r.text,
+          source: r.title || r.sourceUri || "Unknown source",
+          knowledgeBaseId: r.knowledgeBaseId,
+          score: Number(r.rerankScore.toFixed(3)),
+        })),
+      }),
+    };
+  },
+};
+
+// Voice has no update_booking_state: save_booking carries the full details,
+// and get_pricing falls back to whatever the last save attempt recorded
+const VOICE_BOOKING_TOOLS: BookingToolName[] = ["save_booking", "get_pricing", "search_faqs"];
+
+const registry = new Map<string, VoiceTool>([
+  [retrieveKbDocs.name, retrieveKbDocs],
+  ...BOOKING_TOOLS.filter((spec) => VOICE_BOOKING_TOOLS.includes(spec.name)).map((spec): [string, VoiceTool] => [
+    spec.name,
+    {
+      name: spec.name,
+      description: spec.description,
+      inputSchema: JSON.stringify(spec.inputSchema),
+      run: (input, context) => runBookingTool(spec.name, input, context),
+    },
+  ]),
+]);
+
+export const AgentToolNames: Record<consts.AgentType, string[]> = {
+  retrieval: ["retrieve_kb_docs"],
+  booking: ["retrieve_kb_docs", ...VOICE_BOOKING_TOOLS],
+};
+
+// toolConfiguration for the promptStart event
+export function toolConfigurationFor(agentType: consts.AgentType) {
+  return {
+    toolChoice: { auto: {} },
+    tools: AgentToolNames[agentType].map((name) => {
+      const tool = registry.get(name)!;
+      return {
+        toolSpec: {
+          name: tool.name,
+          description: tool.description,
+          inputSchema: { json: tool.inputSchema },
+        },
+      };
+    }),
+  };
+}
+
+export function createVoiceToolContext(sessionId: string, agentType: consts.AgentType, timeZone: string | null): VoiceToolContext {
+  return { sessionId, agentType, timeZone, bookingState: createEmptyBookingState(), savedConfirmationCode: null };
+}
+
+// Never throws: failures go back to the model as error results so it can
+// tell the caller instead of the stream stalling on a missing tool result
+export async function runVoiceTool(toolName: string, input: any, context: VoiceToolContext): Promise<ToolOutcome> {
+  const name = toolName.toLowerCase();
+  const tool = registry.get(name);
+  if (!tool || !AgentToolNames[context.agentType].includes(name)) {
+    console.log(`Tool ${name} not available for ${context.agentType} sessions`);
+    return toolError(`Tool ${toolName} is not available.`);
+  }
+
+  try {
+    return await tool.run(input, context);
+  } catch (error) {
+    console.error(`Tool ${name} failed for session ${context.sessionId}:`, error);
+    return toolError(error instanceof Error ? error.message : `Tool ${toolName} failed.`);
+  }
+}
@@ -0,0 +1,15 @@
+import { fileURLToPath } from "url"
+import { defineConfig } from "vitest/config"
+
+/** Unit tests for the pure modules under lib/ (and src/ where they need no AWS). */
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": fileURLToPath(new URL(".", import.meta.url)),
+    },
+  },
+  test: {
+    include: ["lib/**/*.test.ts", "src/**/*.test.ts"],
+    environment: "node",
+  },
+})